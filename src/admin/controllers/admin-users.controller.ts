@@ -30,6 +30,7 @@ import { RequestWithUser } from '../../types/request-with-user.interface';
 import { AdminUsersService } from '../services/admin-users.service';
 import { AdminService } from '../admin.service';
 import { CreateAdminUserDto } from '../dto/create-admin-user.dto';
+import { LoginProtectionService } from '../../auth/login-protection/login-protection.service';
 
 @ApiTags('admin/users')
 @Controller('admin/users')
@@ -40,6 +41,7 @@ export class AdminUsersController {
   constructor(
     private readonly adminUsersService: AdminUsersService,
     private readonly adminService: AdminService,
+    private readonly loginProtectionService: LoginProtectionService,
   ) {}
 
   @Get('hosts')
@@ -298,6 +300,63 @@ export class AdminUsersController {
     return this.adminUsersService.getUserById(userId);
   }
 
+  @Get(':userId/login-history')
+  @ApiOperation({ summary: 'Get login history and lockout state of a user' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getUserLoginHistory(
+    @Param('userId') userId: string,
+    @Request() req: RequestWithUser,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    const user = await this.adminUsersService.getUserById(userId);
+
+    // Log admin action
+    await this.adminService.logAdminAction({
+      adminId: req.user?.userId || req.user?._id || 'unknown',
+      adminEmail: req.user?.email || 'unknown',
+      action: 'view',
+      resource: 'user-login-history',
+      resourceId: userId,
+      ipAddress: req.ip || '0.0.0.0',
+      userAgent: req.headers['user-agent'],
+    });
+
+    const [history, lock] = await Promise.all([
+      this.loginProtectionService.getHistory(userId, page, limit),
+      this.loginProtectionService.getLockStatus(user.email),
+    ]);
+    return { ...history, lock };
+  }
+
+  @Delete(':userId/login-lock')
+  @ApiOperation({ summary: 'Lift a login lockout' })
+  async unlockUserLogin(
+    @Param('userId') userId: string,
+    @Request() req: RequestWithUser,
+  ) {
+    const user = await this.adminUsersService.getUserById(userId);
+    const previous = await this.loginProtectionService.getLockStatus(
+      user.email,
+    );
+    await this.loginProtectionService.unlock(user.email);
+
+    // Log admin action
+    await this.adminService.logAdminAction({
+      adminId: req.user?.userId || req.user?._id || 'unknown',
+      adminEmail: req.user?.email || 'unknown',
+      action: 'unlock_login',
+      resource: 'user',
+      resourceId: userId,
+      previousValue: previous,
+      ipAddress: req.ip || '0.0.0.0',
+      userAgent: req.headers['user-agent'],
+    });
+
+    return { message: 'Login lockout lifted' };
+  }
+
   // Subscription management endpoints
   @Post(':userId/subscriptions')
   @ApiOperation({ summary: 'Add subscription to user' })
@@ -3,6 +3,8 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { User } from 'src/users/user.schema';
 import { PermissionsService } from '../../permissions/permissions.service';
+import { AuthSessionService } from '../../auth/sessions/auth-session.service';
+import { SessionRevokeReason } from '../../auth/sessions/auth-session.schema';
 import * as bcrypt from 'bcrypt';
 import { Role } from '../../constants';
 import Stripe from 'stripe';
@@ -16,6 +18,7 @@ export class AdminUsersService {
   constructor(
     @InjectModel(User.name) private userModel: Model<User>,
     private permissionsService: PermissionsService,
+    private authSessionService: AuthSessionService,
   ) {
     this.stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
       apiVersion: '2025-01-27.acacia',
@@ -221,6 +224,14 @@ export class AdminUsersService {
       throw new NotFoundException('User not found');
     }
 
+    // A banned user is signed out of every device right away
+    if (status === 'banned') {
+      await this.authSessionService.revokeAll(
+        userId,
+        SessionRevokeReason.ACCOUNT_BANNED,
+      );
+    }
+
     return {
       ...user,
       status: user.status || 'active',
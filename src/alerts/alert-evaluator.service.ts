@@ -0,0 +1,290 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { MarketDataService } from '../services/market/market-data.service';
+import { MarketCalendarService } from '../services/market/market-calendar.service';
+import { MarketStreamGateway } from '../services/finnhub/market-stream.gateway';
+import { NotificationService } from '../notification/notification.service';
+import {
+  NotificationPriority,
+  NotificationType,
+} from '../notification/notification.schema';
+import { EmailService } from '../email/email.service';
+import { UserService } from '../users/users.service';
+import {
+  AlertCondition,
+  AlertMode,
+  AlertStatus,
+  PriceAlert,
+  PriceAlertDocument,
+} from './price-alert.schema';
+import {
+  AlertSnapshot,
+  DEFAULT_SMA_PERIOD,
+  describeAlert,
+  evaluateAlert,
+  isCrossing,
+  needsQuote,
+  simpleMovingAverage,
+  tomorrowInNewYork,
+} from './utils/alert-conditions';
+
+type LeanAlert = PriceAlert & { _id: Types.ObjectId };
+
+@Injectable()
+export class AlertEvaluatorService {
+  private readonly logger = new Logger(AlertEvaluatorService.name);
+  private running = false;
+
+  constructor(
+    @InjectModel(PriceAlert.name)
+    private alertModel: Model<PriceAlertDocument>,
+    private marketDataService: MarketDataService,
+    private marketCalendar: MarketCalendarService,
+    private marketStreamGateway: MarketStreamGateway,
+    private notificationService: NotificationService,
+    private emailService: EmailService,
+    private userService: UserService,
+  ) {}
+
+  /**
+   * Check every active alert against fresh market data. Quotes come from
+   * the market data cache, so symbols shared by many alerts cost one call.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async evaluateAlerts() {
+    // A slow run (rate limiter queue) must not overlap the next one
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const now = new Date();
+      await this.alertModel.updateMany(
+        { status: AlertStatus.ACTIVE, expiresAt: { $lte: now } },
+        { $set: { status: AlertStatus.EXPIRED } },
+      );
+
+      // Prices stand still outside trading sessions; only earnings alerts run
+      const query: Record<string, unknown> = { status: AlertStatus.ACTIVE };
+      if (!this.marketCalendar.isOpen(now, true)) {
+        query.condition = AlertCondition.EARNINGS_TOMORROW;
+      }
+      const alerts = await this.alertModel.find(query).lean<LeanAlert[]>();
+      if (alerts.length === 0) {
+        return;
+      }
+
+      const snapshots = await this.loadSnapshots(alerts);
+      let fired = 0;
+
+      for (const alert of alerts) {
+        const snapshot = snapshots.get(this.snapshotKey(alert)) || {};
+        const evaluation = evaluateAlert(alert, snapshot, now);
+        if (evaluation.holds === null) {
+          continue;
+        }
+
+        if (!evaluation.fire) {
+          if (evaluation.armed !== alert.armed) {
+            await this.alertModel.updateOne(
+              { _id: alert._id, status: AlertStatus.ACTIVE },
+              { $set: { armed: evaluation.armed, lastEvaluatedAt: now } },
+            );
+          }
+          continue;
+        }
+
+        const result = await this.alertModel.updateOne(
+          { _id: alert._id, status: AlertStatus.ACTIVE },
+          {
+            $set: {
+              armed: evaluation.armed,
+              lastEvaluatedAt: now,
+              lastTriggeredAt: now,
+              lastTriggerPrice: snapshot.price,
+              ...(alert.mode === AlertMode.ONCE
+                ? { status: AlertStatus.TRIGGERED }
+                : {}),
+            },
+            $inc: { triggerCount: 1 },
+          },
+        );
+        // Paused or deleted since it was loaded
+        if (result.modifiedCount === 0) {
+          continue;
+        }
+
+        fired++;
+        await this.deliver(alert, snapshot, now);
+      }
+
+      if (fired > 0) {
+        this.logger.log(`Fired ${fired} of ${alerts.length} active alerts`);
+      }
+    } catch (error) {
+      this.logger.error(`Alert evaluation failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private snapshotKey(alert: LeanAlert): string {
+    return isCrossing(alert.condition)
+      ? `${alert.symbol}:${alert.smaPeriod || DEFAULT_SMA_PERIOD}`
+      : alert.symbol;
+  }
+
+  /**
+   * Market data for every alert, keyed by snapshotKey
+   */
+  private async loadSnapshots(
+    alerts: LeanAlert[],
+  ): Promise<Map<string, AlertSnapshot>> {
+    const snapshots = new Map<string, AlertSnapshot>();
+
+    const quoteSymbols = [
+      ...new Set(
+        alerts
+          .filter((alert) => needsQuote(alert.condition))
+          .map((alert) => alert.symbol),
+      ),
+    ];
+    const quotes =
+      quoteSymbols.length > 0
+        ? await this.marketDataService.getMultipleQuotes(quoteSymbols)
+        : {};
+
+    const earningsSymbols = alerts.some(
+      (alert) => alert.condition === AlertCondition.EARNINGS_TOMORROW,
+    )
+      ? await this.loadEarningsTomorrow()
+      : new Set<string>();
+
+    const smas = new Map<string, number | null>();
+    for (const alert of alerts.filter((a) => isCrossing(a.condition))) {
+      const key = this.snapshotKey(alert);
+      if (!smas.has(key)) {
+        smas.set(
+          key,
+          await this.loadSma(
+            alert.symbol,
+            alert.smaPeriod || DEFAULT_SMA_PERIOD,
+          ),
+        );
+      }
+    }
+
+    for (const alert of alerts) {
+      const quote = quotes[alert.symbol];
+      snapshots.set(this.snapshotKey(alert), {
+        // Finnhub answers unknown symbols with a zero quote
+        price: quote?.c ? quote.c : undefined,
+        changePercent: quote?.c ? quote.dp : undefined,
+        sma: smas.get(this.snapshotKey(alert)),
+        earningsTomorrow: earningsSymbols.has(alert.symbol),
+      });
+    }
+
+    return snapshots;
+  }
+
+  private async loadSma(symbol: string, period: number) {
+    try {
+      // Calendar days covering `period` sessions plus holidays
+      const closes = await this.marketDataService.getDailyCloses(
+        symbol,
+        Math.ceil(period * 1.5) + 10,
+      );
+      return simpleMovingAverage(closes, period);
+    } catch (error) {
+      this.logger.warn(`Could not load SMA for ${symbol}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async loadEarningsTomorrow(): Promise<Set<string>> {
+    const tomorrow = tomorrowInNewYork();
+    try {
+      const earnings = await this.marketDataService.getEarningsCalendar(
+        tomorrow,
+        tomorrow,
+      );
+      return new Set(
+        earnings
+          .filter((item) => item.date === tomorrow)
+          .map((item) => item.symbol.toUpperCase()),
+      );
+    } catch (error) {
+      this.logger.warn(`Could not load earnings calendar: ${error.message}`);
+      return new Set();
+    }
+  }
+
+  /**
+   * In-app notification always; socket push and email per the alert's
+   * channels. A failing channel does not stop the others.
+   */
+  private async deliver(alert: LeanAlert, snapshot: AlertSnapshot, now: Date) {
+    const userId = alert.userId.toString();
+    const description = describeAlert(alert);
+    const payload = {
+      alertId: alert._id.toString(),
+      symbol: alert.symbol,
+      condition: alert.condition,
+      mode: alert.mode,
+      description,
+      price: snapshot.price,
+      changePercent: snapshot.changePercent,
+      note: alert.note,
+      triggeredAt: now,
+    };
+
+    try {
+      await this.notificationService.create({
+        type: NotificationType.PRICE_ALERT,
+        title: `${alert.symbol} alert`,
+        message:
+          snapshot.price != null
+            ? `${description} (last ${snapshot.price})`
+            : description,
+        data: payload,
+        priority: NotificationPriority.HIGH,
+        actionUrl: '/academy/alerts',
+        icon: 'bell',
+        recipient: userId,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Could not create notification for alert ${payload.alertId}: ${error.message}`,
+      );
+    }
+
+    if (alert.channels?.push !== false) {
+      this.marketStreamGateway.emitToUser(userId, 'market:alert', payload);
+    }
+
+    if (alert.channels?.email) {
+      try {
+        const user = await this.userService.findById(userId);
+        if (user?.email) {
+          await this.emailService.sendPriceAlertEmail(user.email, {
+            firstName: user.firstName || '',
+            symbol: alert.symbol,
+            description,
+            price: snapshot.price,
+            changePercent: snapshot.changePercent,
+            note: alert.note,
+            triggeredAt: now,
+          });
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Could not email alert ${payload.alertId}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth-guard';
+import { RequestWithUser } from '../types/request-with-user.interface';
+import { AlertsService } from './alerts.service';
+import {
+  CreatePriceAlertDto,
+  FilterPriceAlertsDto,
+  UpdatePriceAlertDto,
+} from './dto/price-alert.dto';
+
+@ApiTags('Alerts')
+@ApiBearerAuth()
+@Controller('alerts')
+@UseGuards(JwtAuthGuard)
+export class AlertsController {
+  constructor(private readonly alertsService: AlertsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List own price alerts with quota usage' })
+  findAll(@Req() req: RequestWithUser, @Query() filter: FilterPriceAlertsDto) {
+    return this.alertsService.findAll(req.user._id.toString(), filter);
+  }
+
+  @Get('quota')
+  @ApiOperation({ summary: 'Open alerts used and allowed by plan' })
+  getQuota(@Req() req: RequestWithUser) {
+    return this.alertsService.getQuota(req.user._id.toString());
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a price or indicator alert' })
+  create(@Req() req: RequestWithUser, @Body() dto: CreatePriceAlertDto) {
+    return this.alertsService.create(req.user._id.toString(), dto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an alert' })
+  findOne(@Req() req: RequestWithUser, @Param('id') id: string) {
+    return this.alertsService.findOne(id, req.user._id.toString());
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Edit, pause or resume an alert' })
+  update(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Body() dto: UpdatePriceAlertDto,
+  ) {
+    return this.alertsService.update(id, req.user._id.toString(), dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an alert' })
+  remove(@Req() req: RequestWithUser, @Param('id') id: string) {
+    return this.alertsService.remove(id, req.user._id.toString());
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PriceAlert, PriceAlertSchema } from './price-alert.schema';
+import { AlertsController } from './alerts.controller';
+import { AlertsService } from './alerts.service';
+import { AlertEvaluatorService } from './alert-evaluator.service';
+import { MarketModule } from '../services/market/market.module';
+import { FinnhubModule } from '../services/finnhub/finnhub.module';
+import { NotificationModule } from '../notification/notification.module';
+import { EmailModule } from '../email/email.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PriceAlert.name, schema: PriceAlertSchema },
+    ]),
+    MarketModule,
+    FinnhubModule,
+    NotificationModule,
+    EmailModule,
+    UsersModule,
+  ],
+  controllers: [AlertsController],
+  providers: [AlertsService, AlertEvaluatorService],
+  exports: [AlertsService],
+})
+export class AlertsModule {}
@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { UserService } from '../users/users.service';
+import { normalizeSymbol } from '../services/finnhub/market-stream.utils';
+import {
+  AlertStatus,
+  PriceAlert,
+  PriceAlertDocument,
+} from './price-alert.schema';
+import {
+  CreatePriceAlertDto,
+  FilterPriceAlertsDto,
+  UpdatePriceAlertDto,
+} from './dto/price-alert.dto';
+import {
+  alertQuotaFor,
+  DEFAULT_SMA_PERIOD,
+  describeAlert,
+  isCrossing,
+  needsValue,
+} from './utils/alert-conditions';
+
+// Alerts counted against the quota
+const OPEN_STATUSES = [AlertStatus.ACTIVE, AlertStatus.PAUSED];
+
+@Injectable()
+export class AlertsService {
+  constructor(
+    @InjectModel(PriceAlert.name)
+    private alertModel: Model<PriceAlertDocument>,
+    private userService: UserService,
+  ) {}
+
+  async findAll(userId: string, filter: FilterPriceAlertsDto) {
+    const query: Record<string, unknown> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (filter.status) query.status = filter.status;
+    if (filter.symbol) query.symbol = filter.symbol.trim().toUpperCase();
+
+    const [alerts, quota] = await Promise.all([
+      this.alertModel.find(query).sort({ createdAt: -1 }).lean(),
+      this.getQuota(userId),
+    ]);
+
+    return {
+      alerts: alerts.map((alert) => ({
+        ...alert,
+        description: describeAlert(alert),
+      })),
+      quota,
+    };
+  }
+
+  async findOne(id: string, userId: string) {
+    const alert = await this.alertModel
+      .findOne({ _id: this.toId(id), userId: new Types.ObjectId(userId) })
+      .lean();
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+    return { ...alert, description: describeAlert(alert) };
+  }
+
+  async create(userId: string, dto: CreatePriceAlertDto) {
+    const symbol = normalizeSymbol(dto.symbol);
+    if (!symbol) {
+      throw new BadRequestException(`Invalid symbol: ${dto.symbol}`);
+    }
+    this.assertNotExpired(dto.expiresAt);
+    await this.assertQuota(userId);
+
+    const alert = await this.alertModel.create({
+      ...dto,
+      userId: new Types.ObjectId(userId),
+      symbol,
+      smaPeriod: isCrossing(dto.condition)
+        ? dto.smaPeriod || DEFAULT_SMA_PERIOD
+        : undefined,
+      status: AlertStatus.ACTIVE,
+      armed: null,
+    });
+    return this.findOne(alert._id.toString(), userId);
+  }
+
+  async update(id: string, userId: string, dto: UpdatePriceAlertDto) {
+    const alert = await this.alertModel.findOne({
+      _id: this.toId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+
+    const { status, channels, ...fields } = dto;
+    const conditionChanged = ['condition', 'value', 'smaPeriod'].some(
+      (key) => fields[key] !== undefined && fields[key] !== alert[key],
+    );
+
+    if (fields.expiresAt !== undefined) this.assertNotExpired(fields.expiresAt);
+    alert.set(fields);
+    for (const [channel, enabled] of Object.entries(channels || {})) {
+      alert.set(`channels.${channel}`, enabled);
+    }
+    if (isCrossing(alert.condition) && !alert.smaPeriod) {
+      alert.smaPeriod = DEFAULT_SMA_PERIOD;
+    }
+    if (needsValue(alert.condition) && alert.value == null) {
+      throw new BadRequestException('value is required for this condition');
+    }
+
+    if (status === AlertStatus.PAUSED) {
+      alert.status = AlertStatus.PAUSED;
+    } else if (status === AlertStatus.ACTIVE) {
+      if (!OPEN_STATUSES.includes(alert.status)) {
+        await this.assertQuota(userId);
+      }
+      this.assertNotExpired(alert.expiresAt);
+      alert.status = AlertStatus.ACTIVE;
+    }
+
+    // A new condition or a resumed alert starts over
+    if (conditionChanged || status === AlertStatus.ACTIVE) {
+      alert.armed = null;
+    }
+
+    await alert.save();
+    return this.findOne(id, userId);
+  }
+
+  async remove(id: string, userId: string) {
+    const result = await this.alertModel.deleteOne({
+      _id: this.toId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Alert not found');
+    }
+    return { message: 'Alert deleted' };
+  }
+
+  async getQuota(userId: string) {
+    const [user, used] = await Promise.all([
+      this.userService.findById(userId),
+      this.alertModel.countDocuments({
+        userId: new Types.ObjectId(userId),
+        status: { $in: OPEN_STATUSES },
+      }),
+    ]);
+    return { used, limit: user ? alertQuotaFor(user) : 0 };
+  }
+
+  private async assertQuota(userId: string) {
+    const { used, limit } = await this.getQuota(userId);
+    if (limit !== null && used >= limit) {
+      throw new ForbiddenException(
+        `Your plan allows ${limit} open alerts. Delete or let some expire to add more.`,
+      );
+    }
+  }
+
+  private assertNotExpired(expiresAt?: Date) {
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+  }
+
+  private toId(id: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Alert not found');
+    }
+    return new Types.ObjectId(id);
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { AlertCondition, AlertMode, AlertStatus } from '../price-alert.schema';
+import { needsValue } from '../utils/alert-conditions';
+
+export class AlertChannelsDto {
+  @ApiPropertyOptional({ description: 'Send an email', default: false })
+  @IsOptional()
+  @IsBoolean()
+  email?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Push over the market socket',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  push?: boolean;
+}
+
+export class CreatePriceAlertDto {
+  @ApiProperty({ description: 'Ticker symbol', example: 'AAPL' })
+  @IsString()
+  @IsNotEmpty()
+  symbol: string;
+
+  @ApiProperty({ enum: AlertCondition })
+  @IsEnum(AlertCondition)
+  condition: AlertCondition;
+
+  @ApiPropertyOptional({
+    description:
+      'Price level, or percent change for change conditions (e.g. -3 for a 3% drop)',
+  })
+  @ValidateIf((dto) => needsValue(dto.condition))
+  @IsNumber()
+  value?: number;
+
+  @ApiPropertyOptional({
+    description: 'Moving average length in daily closes',
+    default: 50,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(200)
+  smaPeriod?: number;
+
+  @ApiPropertyOptional({ enum: AlertMode, default: AlertMode.ONCE })
+  @IsOptional()
+  @IsEnum(AlertMode)
+  mode?: AlertMode;
+
+  @ApiPropertyOptional({
+    description: 'Minimum minutes between fires of a recurring alert',
+    default: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10080)
+  cooldownMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Alert stops being checked after' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+
+  @ApiPropertyOptional({ type: AlertChannelsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AlertChannelsDto)
+  channels?: AlertChannelsDto;
+
+  @ApiPropertyOptional({ description: 'Note', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class UpdatePriceAlertDto extends PartialType(
+  OmitType(CreatePriceAlertDto, ['symbol'] as const),
+) {
+  @ApiPropertyOptional({
+    description: 'Pause or resume; resuming a fired alert re-arms it',
+    enum: [AlertStatus.ACTIVE, AlertStatus.PAUSED],
+  })
+  @IsOptional()
+  @IsIn([AlertStatus.ACTIVE, AlertStatus.PAUSED])
+  status?: AlertStatus.ACTIVE | AlertStatus.PAUSED;
+}
+
+export class FilterPriceAlertsDto {
+  @ApiPropertyOptional({ enum: AlertStatus })
+  @IsOptional()
+  @IsEnum(AlertStatus)
+  status?: AlertStatus;
+
+  @ApiPropertyOptional({ description: 'Ticker symbol' })
+  @IsOptional()
+  @IsString()
+  symbol?: string;
+}
@@ -0,0 +1,106 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PriceAlertDocument = PriceAlert & Document;
+
+export enum AlertCondition {
+  PRICE_ABOVE = 'price_above',
+  PRICE_BELOW = 'price_below',
+  // Percent change on the day versus the previous close
+  CHANGE_ABOVE = 'change_above',
+  CHANGE_BELOW = 'change_below',
+  // Price crossing its simple moving average of daily closes
+  CROSSES_ABOVE_SMA = 'crosses_above_sma',
+  CROSSES_BELOW_SMA = 'crosses_below_sma',
+  // Earnings scheduled for the next day (US Eastern)
+  EARNINGS_TOMORROW = 'earnings_tomorrow',
+}
+
+export enum AlertMode {
+  // Fires once and is done
+  ONCE = 'once',
+  // Fires every time the condition becomes true again, after the cooldown
+  RECURRING = 'recurring',
+}
+
+export enum AlertStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  TRIGGERED = 'triggered',
+  EXPIRED = 'expired',
+}
+
+@Schema({ _id: false })
+export class AlertChannels {
+  // The in-app notification is always created
+  @Prop({ default: false })
+  email: boolean;
+
+  @Prop({ default: true })
+  push: boolean;
+}
+
+export const AlertChannelsSchema = SchemaFactory.createForClass(AlertChannels);
+
+@Schema({ timestamps: true })
+export class PriceAlert {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, uppercase: true, trim: true })
+  symbol: string;
+
+  @Prop({ required: true, enum: AlertCondition })
+  condition: AlertCondition;
+
+  // Price level or percent change; unused for SMA and earnings conditions
+  @Prop()
+  value?: number;
+
+  // Moving average length in daily closes
+  @Prop({ min: 2, max: 200 })
+  smaPeriod?: number;
+
+  @Prop({ enum: AlertMode, default: AlertMode.ONCE })
+  mode: AlertMode;
+
+  // Minimum time between two fires of a recurring alert
+  @Prop({ default: 60, min: 1 })
+  cooldownMinutes: number;
+
+  @Prop()
+  expiresAt?: Date;
+
+  @Prop({ enum: AlertStatus, default: AlertStatus.ACTIVE, index: true })
+  status: AlertStatus;
+
+  @Prop({ type: AlertChannelsSchema, default: () => ({}) })
+  channels: AlertChannels;
+
+  @Prop({ maxlength: 500 })
+  note?: string;
+
+  // Whether the next time the condition holds fires the alert. Cleared on
+  // fire and set again once the condition stops holding; unset until the
+  // first evaluation for crossing conditions.
+  @Prop({ type: Boolean, default: null })
+  armed: boolean | null;
+
+  @Prop()
+  lastEvaluatedAt?: Date;
+
+  @Prop()
+  lastTriggeredAt?: Date;
+
+  // Price when the alert last fired
+  @Prop()
+  lastTriggerPrice?: number;
+
+  @Prop({ default: 0 })
+  triggerCount: number;
+}
+
+export const PriceAlertSchema = SchemaFactory.createForClass(PriceAlert);
+
+PriceAlertSchema.index({ status: 1, symbol: 1 });
+PriceAlertSchema.index({ userId: 1, status: 1, createdAt: -1 });
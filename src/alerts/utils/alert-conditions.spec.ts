@@ -0,0 +1,137 @@
+import { Role } from '../../constants';
+import { AlertCondition, AlertMode } from '../price-alert.schema';
+import {
+  AlertInput,
+  alertQuotaFor,
+  describeAlert,
+  evaluateAlert,
+  FREE_ALERT_QUOTA,
+  simpleMovingAverage,
+  tomorrowInNewYork,
+} from './alert-conditions';
+
+const alert = (extra: Partial<AlertInput>): AlertInput => ({
+  symbol: 'AAPL',
+  condition: AlertCondition.PRICE_ABOVE,
+  value: 200,
+  mode: AlertMode.ONCE,
+  ...extra,
+});
+
+describe('alert conditions', () => {
+  const now = new Date('2025-03-10T15:00:00Z');
+
+  it('fires a level alert while the condition holds', () => {
+    expect(evaluateAlert(alert({}), { price: 199 }, now)).toEqual({
+      holds: false,
+      fire: false,
+      armed: true,
+    });
+    expect(evaluateAlert(alert({}), { price: 200 }, now)).toEqual({
+      holds: true,
+      fire: true,
+      armed: false,
+    });
+  });
+
+  it('waits for data it needs', () => {
+    expect(evaluateAlert(alert({}), {}, now)).toEqual({
+      holds: null,
+      fire: false,
+      armed: true,
+    });
+  });
+
+  it('re-arms a recurring alert once the condition stops holding', () => {
+    const recurring = alert({
+      mode: AlertMode.RECURRING,
+      cooldownMinutes: 30,
+      armed: false,
+      lastTriggeredAt: new Date('2025-03-10T14:00:00Z'),
+    });
+
+    expect(evaluateAlert(recurring, { price: 205 }, now).fire).toBe(false);
+    expect(evaluateAlert(recurring, { price: 195 }, now).armed).toBe(true);
+
+    const rearmed = { ...recurring, armed: true };
+    expect(evaluateAlert(rearmed, { price: 201 }, now).fire).toBe(true);
+    expect(
+      evaluateAlert(
+        { ...rearmed, lastTriggeredAt: new Date('2025-03-10T14:45:00Z') },
+        { price: 201 },
+        now,
+      ).fire,
+    ).toBe(false);
+  });
+
+  it('only fires crossings after seeing the other side', () => {
+    const cross = alert({ condition: AlertCondition.CROSSES_ABOVE_SMA });
+
+    const first = evaluateAlert(cross, { price: 110, sma: 100 }, now);
+    expect(first).toEqual({ holds: true, fire: false, armed: false });
+
+    const below = evaluateAlert(
+      { ...cross, armed: first.armed },
+      { price: 95, sma: 100 },
+      now,
+    );
+    expect(below.armed).toBe(true);
+
+    expect(
+      evaluateAlert(
+        { ...cross, armed: below.armed },
+        { price: 101, sma: 100 },
+        now,
+      ).fire,
+    ).toBe(true);
+  });
+
+  it('evaluates day change and earnings', () => {
+    expect(
+      evaluateAlert(
+        alert({ condition: AlertCondition.CHANGE_BELOW, value: -3 }),
+        { changePercent: -3.4 },
+        now,
+      ).fire,
+    ).toBe(true);
+    expect(
+      evaluateAlert(
+        alert({ condition: AlertCondition.EARNINGS_TOMORROW }),
+        { earningsTomorrow: true },
+        now,
+      ).fire,
+    ).toBe(true);
+  });
+
+  it('computes the simple moving average of the last closes', () => {
+    expect(simpleMovingAverage([1, 2, 3, 4, 5], 3)).toBe(4);
+    expect(simpleMovingAverage([1, 2], 3)).toBeNull();
+  });
+
+  it('gives tomorrow in New York', () => {
+    // 01:00 UTC on the 11th is still the 10th in New York
+    expect(tomorrowInNewYork(new Date('2025-03-11T01:00:00Z'))).toBe(
+      '2025-03-11',
+    );
+    expect(tomorrowInNewYork(new Date('2025-12-31T18:00:00Z'))).toBe(
+      '2026-01-01',
+    );
+  });
+
+  it('sizes the quota by plan', () => {
+    expect(alertQuotaFor({ subscriptions: [] }, now)).toBe(FREE_ALERT_QUOTA);
+    expect(
+      alertQuotaFor({ subscriptions: [{ plan: 'Stocks', status: 'active' }] }),
+    ).toBe(100);
+    expect(alertQuotaFor({ role: Role.SUPER_ADMIN })).toBeNull();
+  });
+
+  it('describes alerts', () => {
+    expect(describeAlert(alert({ value: 189.5 }))).toBe('AAPL above 189.50');
+    expect(
+      describeAlert(
+        alert({ condition: AlertCondition.CROSSES_BELOW_SMA, smaPeriod: 20 }),
+      ),
+    ).toBe('AAPL crossed below its 20-day SMA');
+  });
+});
@@ -0,0 +1,212 @@
+import { Role } from '../../constants';
+import {
+  activePlans,
+  StreamUser,
+} from '../../services/finnhub/market-stream.utils';
+import { sma } from '../../services/market/indicators';
+import { AlertCondition, AlertMode } from '../price-alert.schema';
+
+export interface AlertInput {
+  symbol: string;
+  condition: AlertCondition;
+  value?: number;
+  smaPeriod?: number;
+  mode: AlertMode;
+  cooldownMinutes?: number;
+  armed?: boolean | null;
+  lastTriggeredAt?: Date;
+}
+
+/**
+ * Market data an alert is evaluated against; fields are missing when the
+ * alert's condition does not need them or they could not be loaded
+ */
+export interface AlertSnapshot {
+  // Current price, percent change on the day
+  price?: number;
+  changePercent?: number;
+  sma?: number | null;
+  earningsTomorrow?: boolean;
+}
+
+export interface AlertEvaluation {
+  // null when the snapshot lacks the data the condition needs
+  holds: boolean | null;
+  fire: boolean;
+  armed: boolean | null;
+}
+
+export const DEFAULT_SMA_PERIOD = 50;
+
+// Active and paused alerts a user may have; null is unlimited
+export const FREE_ALERT_QUOTA = 3;
+
+export const PLAN_ALERT_QUOTAS: Record<string, number> = {
+  Stocks: 100,
+  LiveWeeklyManual: 25,
+  LiveWeeklyRecurring: 25,
+  MasterClases: 25,
+  LiveRecorded: 25,
+  Psicotrading: 25,
+};
+
+// Conditions compared against the alert's value
+const VALUE_CONDITIONS = [
+  AlertCondition.PRICE_ABOVE,
+  AlertCondition.PRICE_BELOW,
+  AlertCondition.CHANGE_ABOVE,
+  AlertCondition.CHANGE_BELOW,
+];
+
+const CROSSING_CONDITIONS = [
+  AlertCondition.CROSSES_ABOVE_SMA,
+  AlertCondition.CROSSES_BELOW_SMA,
+];
+
+export const isCrossing = (condition: AlertCondition) =>
+  CROSSING_CONDITIONS.includes(condition);
+
+export const needsValue = (condition: AlertCondition) =>
+  VALUE_CONDITIONS.includes(condition);
+
+export const needsQuote = (condition: AlertCondition) =>
+  condition !== AlertCondition.EARNINGS_TOMORROW;
+
+/**
+ * Alert quota of a user: the best one among their active plans
+ */
+export function alertQuotaFor(
+  user: StreamUser,
+  now: Date = new Date(),
+): number | null {
+  if (user.role === Role.ADMIN || user.role === Role.SUPER_ADMIN) {
+    return null;
+  }
+  return activePlans(user, now).reduce(
+    (best, plan) => Math.max(best, PLAN_ALERT_QUOTAS[plan] || 0),
+    FREE_ALERT_QUOTA,
+  );
+}
+
+/**
+ * Mean of the last `period` closes, or null when there are not enough
+ */
+export function simpleMovingAverage(
+  closes: number[],
+  period: number,
+): number | null {
+  const valid = closes.filter(
+    (close) => typeof close === 'number' && isFinite(close),
+  );
+  return sma(valid, period).pop() ?? null;
+}
+
+/**
+ * Next calendar day in New York as YYYY-MM-DD, to match earnings dates
+ */
+export function tomorrowInNewYork(now: Date = new Date()): string {
+  const today = new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/New_York',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+  const [year, month, day] = today.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function conditionHolds(
+  alert: AlertInput,
+  snapshot: AlertSnapshot,
+): boolean | null {
+  const { price, changePercent, sma } = snapshot;
+
+  switch (alert.condition) {
+    case AlertCondition.PRICE_ABOVE:
+      return price == null ? null : price >= alert.value;
+    case AlertCondition.PRICE_BELOW:
+      return price == null ? null : price <= alert.value;
+    case AlertCondition.CHANGE_ABOVE:
+      return changePercent == null ? null : changePercent >= alert.value;
+    case AlertCondition.CHANGE_BELOW:
+      return changePercent == null ? null : changePercent <= alert.value;
+    case AlertCondition.CROSSES_ABOVE_SMA:
+      return price == null || sma == null ? null : price > sma;
+    case AlertCondition.CROSSES_BELOW_SMA:
+      return price == null || sma == null ? null : price < sma;
+    case AlertCondition.EARNINGS_TOMORROW:
+      return snapshot.earningsTomorrow ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decide whether an alert fires. An alert fires when its condition holds
+ * while armed; firing disarms it until the condition stops holding, so a
+ * recurring alert fires once per move rather than on every check. Crossing
+ * conditions start disarmed when they already hold at the first check.
+ */
+export function evaluateAlert(
+  alert: AlertInput,
+  snapshot: AlertSnapshot,
+  now: Date = new Date(),
+): AlertEvaluation {
+  const holds = conditionHolds(alert, snapshot);
+  const armed = alert.armed ?? (isCrossing(alert.condition) ? null : true);
+
+  if (holds === null) {
+    return { holds, fire: false, armed };
+  }
+  if (armed === null || !holds) {
+    // First observation of a crossing condition, or re-arm
+    return { holds, fire: false, armed: !holds };
+  }
+  if (!armed) {
+    return { holds, fire: false, armed };
+  }
+
+  const coolingDown =
+    alert.mode === AlertMode.RECURRING &&
+    alert.lastTriggeredAt &&
+    now.getTime() - new Date(alert.lastTriggeredAt).getTime() <
+      (alert.cooldownMinutes || 0) * 60000;
+  if (coolingDown) {
+    return { holds, fire: false, armed };
+  }
+
+  return { holds, fire: true, armed: false };
+}
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+/**
+ * Human-readable condition, e.g. "AAPL above 190" or "NVDA crossed above
+ * its 50-day SMA"
+ */
+export function describeAlert(alert: AlertInput): string {
+  const { symbol, value } = alert;
+  const period = alert.smaPeriod || DEFAULT_SMA_PERIOD;
+
+  switch (alert.condition) {
+    case AlertCondition.PRICE_ABOVE:
+      return `${symbol} above ${formatNumber(value)}`;
+    case AlertCondition.PRICE_BELOW:
+      return `${symbol} below ${formatNumber(value)}`;
+    case AlertCondition.CHANGE_ABOVE:
+      return `${symbol} day change at or above ${formatNumber(value)}%`;
+    case AlertCondition.CHANGE_BELOW:
+      return `${symbol} day change at or below ${formatNumber(value)}%`;
+    case AlertCondition.CROSSES_ABOVE_SMA:
+      return `${symbol} crossed above its ${period}-day SMA`;
+    case AlertCondition.CROSSES_BELOW_SMA:
+      return `${symbol} crossed below its ${period}-day SMA`;
+    case AlertCondition.EARNINGS_TOMORROW:
+      return `${symbol} reports earnings tomorrow`;
+    default:
+      return symbol;
+  }
+}
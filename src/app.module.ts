@@ -8,6 +8,7 @@ import { TradeModule } from './trade/trade.module';
 import { MissionModule } from './mission/mission.module';
 import { UsersModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
+import { AuthSessionsModule } from './auth/sessions/auth-sessions.module';
 import { AxiosModule } from './axios/axios.module';
 import { YahooFinanceModule } from './services/yahoo-finance/yahoo-finance.module';
 import { S3Module } from './aws/s3/s3.module';
@@ -56,6 +57,9 @@ import { GlobalSyncModule } from './global-sync/global-sync.module';
 import { InternalCronModule } from './internal-cron/internal-cron.module';
 import { ChatbotModule } from './chatbot/chatbot.module';
 import { CommunityGalleryModule } from './community-gallery/community-gallery.module';
+import { WatchlistsModule } from './watchlists/watchlists.module';
+import { AlertsModule } from './alerts/alerts.module';
+import { EconomicCalendarModule } from './economic-calendar/economic-calendar.module';
 
 @Module({
   controllers: [TestUploadController],
@@ -113,6 +117,7 @@ import { CommunityGalleryModule } from './community-gallery/community-gallery.mo
     MissionModule,
     UsersModule,
     AuthModule,
+    AuthSessionsModule,
     AxiosModule,
     YahooFinanceModule,
     S3Module,
@@ -150,6 +155,9 @@ import { CommunityGalleryModule } from './community-gallery/community-gallery.mo
     InternalCronModule,
     ChatbotModule,
     CommunityGalleryModule,
+    WatchlistsModule,
+    AlertsModule,
+    EconomicCalendarModule,
   ],
   providers: [
     {
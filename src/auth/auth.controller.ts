@@ -9,18 +9,30 @@ import {
   Req,
   Param,
   BadRequestException,
+  Delete,
+  Query,
 } from '@nestjs/common';
+import { Request } from 'express';
 import { AuthService } from './auth.service';
 import { RecaptchaService } from './recaptcha.service';
 import { CreateUserDto } from 'src/users/user.dto';
 import { JwtAuthGuard } from 'src/guards/jwt-auth-guard';
 import { Public } from 'src/decorators/public.decorator';
+import { AuthSessionService } from './sessions/auth-session.service';
+import { SessionRevokeReason } from './sessions/auth-session.schema';
+import { RefreshTokenDto, SignoutDto } from './dto/session.dto';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { bearerToken, sessionContext } from './utils/request-context';
+import { LoginProtectionService } from './login-protection/login-protection.service';
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
     private readonly recaptchaService: RecaptchaService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginProtectionService: LoginProtectionService,
   ) {}
 
   @Public()
@@ -45,13 +57,28 @@ export class AuthController {
 
   @Public()
   @Post('login')
-  async login(@Body() data: { email: string; password: string }) {
+  async login(
+    @Body()
+    data: { email: string; password: string; recaptchaToken?: string },
+    @Req() req: Request,
+  ) {
+    const context = sessionContext(req);
+    // Locked out accounts and IPs are turned away before the password check
+    await this.loginProtectionService.assertAllowed(
+      data.email,
+      context,
+      data.recaptchaToken,
+    );
+
     try {
       const user = await this.authService.validateUser(data.email, data.password);
       if (!user) {
+        await this.loginProtectionService.recordFailure(data.email, context);
         throw new UnauthorizedException('Invalid credentials');
       }
-      return this.authService.login(user);
+      // Accounts with two-factor authentication get a challenge instead;
+      // the login is recorded once every factor passed
+      return this.twoFactorService.beginLogin(user, context);
     } catch (error) {
       // Re-throw the error to preserve specific ban messages
       if (error instanceof UnauthorizedException) {
@@ -84,12 +111,65 @@ export class AuthController {
     return { message: 'Password has been reset successfully.' };
   }
 
+  @Public()
+  @Post('refresh')
+  async refresh(@Body() body: RefreshTokenDto, @Req() req: Request) {
+    return this.authService.refresh(body.refreshToken, sessionContext(req));
+  }
+
+  // Ends the current session; GET is kept for older clients
+  @Public()
+  @Post('signout')
+  async signout(@Body() body: SignoutDto, @Req() req: Request) {
+    await this.authService.signout(bearerToken(req), body?.refreshToken);
+    return { message: 'Signout successful' };
+  }
+
   @Public()
   @Get('signout')
-  async signout() {
+  async signoutLegacy(@Req() req: Request) {
+    await this.authService.signout(bearerToken(req));
     return { message: 'Signout successful' };
   }
 
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  async getSessions(@Req() req) {
+    return this.authSessionService.list(req.user._id, req.user.sessionId);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('login-history')
+  async getLoginHistory(
+    @Req() req,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.loginProtectionService.getHistory(req.user._id, page, limit);
+  }
+
+  // Log out everywhere; keepCurrent=true spares the calling device
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions')
+  async revokeAllSessions(
+    @Req() req,
+    @Query('keepCurrent') keepCurrent?: string,
+  ) {
+    const revoked = await this.authSessionService.revokeAll(
+      req.user._id,
+      SessionRevokeReason.SIGN_OUT_EVERYWHERE,
+      keepCurrent === 'true' ? req.user.sessionId : undefined,
+    );
+    return { message: 'Sessions revoked', revoked };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:sessionId')
+  async revokeSession(@Req() req, @Param('sessionId') sessionId: string) {
+    await this.authSessionService.revoke(req.user._id, sessionId);
+    return { message: 'Session revoked' };
+  }
+
   @UseGuards(JwtAuthGuard)
   @Put('update-password')
   async updatePassword(
@@ -100,6 +180,8 @@ export class AuthController {
       req.user._id,
       body.newPassword,
       body.currentPassword,
+      false,
+      req.user.sessionId,
     );
     return { message: 'Password updated successfully' };
   }
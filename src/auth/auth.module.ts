@@ -10,11 +10,41 @@ import { UsersModule } from '../users/users.module';
 import { JwtStrategy } from './jwt.strategy';
 import { EmailModule } from '../email/email.module';
 import { User, UserSchema } from '../users/user.schema';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { TwoFactorController } from './two-factor/two-factor.controller';
+import {
+  TwoFactorAuth,
+  TwoFactorAuthSchema,
+} from './two-factor/two-factor.schema';
+import {
+  TwoFactorChallenge,
+  TwoFactorChallengeSchema,
+} from './two-factor/two-factor-challenge.schema';
+import { AdminLog, AdminLogSchema } from '../admin/schemas/admin-log.schema';
+import { EmailVerificationService } from './email-verification/email-verification.service';
+import { EmailVerificationController } from './email-verification/email-verification.controller';
+import { GoogleStrategy } from './social/google.strategy';
+import { AppleStrategy } from './social/apple.strategy';
+import { SocialAuthService } from './social/social-auth.service';
+import { SocialAuthController } from './social/social-auth.controller';
+import { LoginProtectionService } from './login-protection/login-protection.service';
+import {
+  LoginAttempt,
+  LoginAttemptSchema,
+} from './login-protection/login-attempt.schema';
 
 @Module({
   imports: [
     ConfigModule,
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: TwoFactorAuth.name, schema: TwoFactorAuthSchema },
+      { name: TwoFactorChallenge.name, schema: TwoFactorChallengeSchema },
+      // 2FA changes are audited without depending on AdminModule, which
+      // imports this module
+      { name: AdminLog.name, schema: AdminLogSchema },
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
+    ]),
     forwardRef(() => UsersModule),
     PassportModule,
     EmailModule,
@@ -27,8 +57,23 @@ import { User, UserSchema } from '../users/user.schema';
       }),
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, RecaptchaService],
-  exports: [AuthService, JwtModule, RecaptchaService],
+  controllers: [
+    AuthController,
+    TwoFactorController,
+    EmailVerificationController,
+    SocialAuthController,
+  ],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    RecaptchaService,
+    TwoFactorService,
+    EmailVerificationService,
+    GoogleStrategy,
+    AppleStrategy,
+    SocialAuthService,
+    LoginProtectionService,
+  ],
+  exports: [AuthService, JwtModule, RecaptchaService, LoginProtectionService],
 })
 export class AuthModule {}
@@ -6,6 +6,7 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 import { plainToInstance } from 'class-transformer';
@@ -13,6 +14,14 @@ import { CreateUserInput, UserEntity } from 'src/users/user.dto';
 import { UserService } from 'src/users/users.service';
 import { EmailService } from 'src/email/email.service';
 import { N8nWebhookService } from 'src/webhooks/n8n-webhook.service';
+import {
+  AuthSessionService,
+  SessionContext,
+} from './sessions/auth-session.service';
+import { SessionRevokeReason } from './sessions/auth-session.schema';
+import { Role } from 'src/constants';
+import { EmailVerificationService } from './email-verification/email-verification.service';
+import { SocialIdentity } from './utils/social-identity';
 
 @Injectable()
 export class AuthService {
@@ -21,6 +30,9 @@ export class AuthService {
     private readonly jwtService: JwtService,
     private readonly emailService: EmailService,
     private readonly n8nWebhookService: N8nWebhookService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly configService: ConfigService,
+    private readonly emailVerificationService: EmailVerificationService,
   ) {}
 
   async validateUser(email: string, password: string): Promise<any> {
@@ -36,13 +48,17 @@ export class AuthService {
     return null;
   }
 
-  async login(user: any) {
-    const payload = { username: user.email, sub: user._id.toString() };
+  async login(user: any, context: SessionContext = {}) {
+    const { session, refreshToken } = await this.authSessionService.create(
+      user._id.toString(),
+      context,
+    );
 
     const userSubscriptions = user.subscriptions.map((sub) => sub.plan);
 
     return {
-      access_token: this.jwtService.sign(payload),
+      ...this.issueTokens(user, session._id.toString(), refreshToken),
+      refresh_expires_at: session.expiresAt,
       user: {
         ...user,
         subscriptions: userSubscriptions,
@@ -50,6 +66,111 @@ export class AuthService {
     };
   }
 
+  /**
+   * New access token and rotated refresh token for a session
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}) {
+    const { session, refreshToken: nextToken } =
+      await this.authSessionService.rotate(refreshToken, context);
+
+    const user = await this.userService.findById(session.userId.toString());
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+    if (user.status === 'banned' || user.status === 'suspended') {
+      await this.authSessionService.revokeAll(
+        user._id.toString(),
+        SessionRevokeReason.ACCOUNT_BANNED,
+      );
+      throw new UnauthorizedException(
+        'Your account has been suspended. Please contact support for assistance.',
+      );
+    }
+
+    // Admins signed in before enrollment was enforced must enroll at their
+    // next login
+    if (this.isTwoFactorMandatory(user) && !user.twoFactorEnabled) {
+      await this.authSessionService.revokeAll(
+        user._id.toString(),
+        SessionRevokeReason.TWO_FACTOR_REQUIRED,
+      );
+      throw new UnauthorizedException(
+        'Two-factor authentication is required, please sign in again',
+      );
+    }
+
+    return {
+      ...this.issueTokens(user, session._id.toString(), nextToken),
+      refresh_expires_at: session.expiresAt,
+    };
+  }
+
+  /**
+   * Whether the account may not sign in without a second factor
+   */
+  isTwoFactorMandatory(user: { role?: string }): boolean {
+    const enforced =
+      this.configService.get<boolean>('twoFactor.enforceForAdmins') ?? true;
+    return (
+      enforced && (user.role === Role.ADMIN || user.role === Role.SUPER_ADMIN)
+    );
+  }
+
+  /**
+   * Ends the session of an access token (expired ones included) or, without
+   * one, of a refresh token. Unknown or already ended sessions are ignored.
+   */
+  async signout(accessToken?: string, refreshToken?: string): Promise<void> {
+    let payload: { sub?: string; sid?: string } = {};
+    if (accessToken) {
+      try {
+        payload = this.jwtService.verify(accessToken, {
+          ignoreExpiration: true,
+        });
+      } catch {
+        // Not one of our tokens: nothing to sign out
+      }
+    }
+
+    if (payload.sub && payload.sid) {
+      try {
+        await this.authSessionService.revoke(
+          payload.sub,
+          payload.sid,
+          SessionRevokeReason.SIGN_OUT,
+        );
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) throw error;
+      }
+    } else if (refreshToken) {
+      await this.authSessionService.revokeByRefreshToken(refreshToken);
+    }
+  }
+
+  private recoveryTokenSecret() {
+    const secret =
+      this.configService.get<string>('JWT_SECRET') || 'yourSecretKey';
+    return `${secret}:recovery`;
+  }
+
+  private issueTokens(user: any, sessionId: string, refreshToken: string) {
+    const payload = {
+      username: user.email,
+      sub: user._id.toString(),
+      sid: sessionId,
+    };
+    const expiresIn =
+      this.configService.get<string>('jwt.accessExpiresIn') || '15m';
+    const accessToken = this.jwtService.sign(payload, { expiresIn });
+    const { exp, iat } = this.jwtService.decode(accessToken);
+
+    return {
+      access_token: accessToken,
+      expires_in: exp - iat,
+      refresh_token: refreshToken,
+    };
+  }
+
   async signup(user: CreateUserInput & { acceptedMediaUsageTerms?: boolean; acceptedCommunityGuidelines?: boolean }) {
     const userExists = await this.userService.findByEmail(user.email);
     if (userExists) {
@@ -68,19 +189,83 @@ export class AuthService {
       communityGuidelinesAcceptedAt: user.acceptedCommunityGuidelines ? new Date() : undefined,
     });
 
-    const plainUser = userCreated.toObject();
+    await this.afterSignup(userCreated, {
+      source: 'password',
+      acceptedMediaUsageTerms: user.acceptedMediaUsageTerms,
+      acceptedCommunityGuidelines: user.acceptedCommunityGuidelines,
+    });
+
+    return plainToInstance(UserEntity, userCreated.toObject());
+  }
+
+  /**
+   * Account for a first Google or Apple sign-in. It gets an unusable random
+   * password until the user sets one.
+   */
+  async signupWithProvider(identity: SocialIdentity) {
+    const userCreated = await this.userService.createUser({
+      firstName: identity.firstName || identity.email.split('@')[0],
+      lastName: identity.lastName || '',
+      email: identity.email,
+      password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+      hasPassword: false,
+      emailVerified: identity.emailVerified,
+      emailVerifiedAt: identity.emailVerified ? new Date() : undefined,
+      authProviders: [
+        {
+          provider: identity.provider,
+          subject: identity.subject,
+          email: identity.email,
+          linkedAt: new Date(),
+        },
+      ],
+    });
+
+    await this.afterSignup(userCreated, { source: identity.provider });
+    return userCreated;
+  }
+
+  // Side effects shared by every way of creating an account; none of them
+  // fails the signup
+  private async afterSignup(user: any, metadata: Record<string, any>) {
+    const plainUser = user.toObject();
 
     // Send welcome email
     try {
       await this.emailService.sendWelcomeEmail({
-        firstName: userCreated.firstName,
-        email: userCreated.email,
+        firstName: user.firstName,
+        email: user.email,
       });
     } catch (error) {
       // Log error but don't fail the signup process
       console.error('Failed to send welcome email:', error);
     }
 
+    if (!user.emailVerified) {
+      try {
+        await this.emailVerificationService.sendVerification(
+          user._id.toString(),
+          false,
+        );
+      } catch (error) {
+        // The user can request a new link from their account
+        console.error('Failed to send verification email:', error);
+      }
+    }
+
+    const usersListId = parseInt(process.env.BREVO_USERS_LIST_ID || '0', 10);
+    if (usersListId) {
+      try {
+        await this.emailService.addContactToList(user.email, [usersListId], {
+          FIRSTNAME: user.firstName,
+          LASTNAME: user.lastName,
+          SOURCE: metadata.source,
+        });
+      } catch (error) {
+        console.error('Failed to add user to the Brevo list:', error);
+      }
+    }
+
     // Notify n8n (non-blocking, fire-and-forget)
     this.n8nWebhookService.notifyUserRegistration({
       event: 'user.registered',
@@ -92,19 +277,18 @@ export class AuthService {
         email: plainUser.email,
         phone: plainUser.phone,
       },
-      metadata: {
-        acceptedMediaUsageTerms: user.acceptedMediaUsageTerms,
-        acceptedCommunityGuidelines: user.acceptedCommunityGuidelines,
-      },
+      metadata,
     });
-
-    return plainToInstance(UserEntity, plainUser);
   }
 
   async generateRecoveryToken(email: string): Promise<string> {
     const user = await this.userService.findByEmail(email);
     if (!user) throw new Error('User not found');
-    const token = this.jwtService.sign({ sub: user.id });
+    // Own secret and purpose, so the token never passes as an access token
+    const token = this.jwtService.sign(
+      { sub: user.id, purpose: 'recovery' },
+      { secret: this.recoveryTokenSecret(), expiresIn: '1h' },
+    );
     user.recoveryToken = token;
     await user.save();
     return token;
@@ -114,13 +298,15 @@ export class AuthService {
     newPassword: string,
     oldPassword?: string,
     skipValidation = false,
+    keepSessionId?: string,
   ) {
     const user = await this.userService.findById(userId);
     if (!user) {
       throw new NotFoundException('El usuario no existe');
     }
 
-    if (!skipValidation) {
+    // Accounts created through Google or Apple have no password to confirm
+    if (!skipValidation && user.hasPassword !== false) {
       const passwordMatches = await bcrypt.compare(
         oldPassword || '',
         user.password,
@@ -137,7 +323,18 @@ export class AuthService {
     }
 
     user.password = await bcrypt.hash(newPassword, 10);
+    user.hasPassword = true;
     await user.save();
+
+    // Other devices must sign in again with the new password; a user
+    // changing their own password keeps the session they did it from
+    await this.authSessionService.revokeAll(
+      userId,
+      skipValidation
+        ? SessionRevokeReason.ADMIN_PASSWORD_RESET
+        : SessionRevokeReason.PASSWORD_CHANGED,
+      skipValidation ? undefined : keepSessionId,
+    );
   }
 
   async requestPasswordReset(email: string): Promise<void> {
@@ -215,8 +412,14 @@ export class AuthService {
 
     // Update password and clear reset token
     user.password = await bcrypt.hash(newPassword, 10);
+    user.hasPassword = true;
     user.passwordResetToken = undefined;
     user.passwordResetExpires = undefined;
     await user.save();
+
+    await this.authSessionService.revokeAll(
+      user._id.toString(),
+      SessionRevokeReason.PASSWORD_RESET,
+    );
   }
 }
@@ -0,0 +1,29 @@
+import { IsEmail, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification link' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class ChangeEmailDto {
+  @ApiProperty({ example: 'new@example.com' })
+  @IsEmail()
+  newEmail: string;
+
+  @ApiPropertyOptional({ description: 'Current password' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  password?: string;
+
+  @ApiPropertyOptional({
+    description: 'Emailed code, for accounts without a password',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  code?: string;
+}
@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({ description: 'Refresh token returned by login or refresh' })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
+
+export class SignoutDto {
+  @ApiPropertyOptional({
+    description:
+      'Refresh token of the session to end when no access token is sent',
+  })
+  @IsOptional()
+  @IsString()
+  refreshToken?: string;
+}
@@ -0,0 +1,43 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SocialProvider } from '../utils/social-identity';
+
+export class SocialSignInDto {
+  @ApiProperty({ description: 'ID token issued by the provider' })
+  @IsString()
+  @IsNotEmpty()
+  idToken: string;
+
+  @ApiPropertyOptional({
+    description: 'Nonce the client sent with the request; required for Apple',
+  })
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name Apple returned to the client on the first sign-in',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  lastName?: string;
+}
+
+export class SocialProviderParamDto {
+  @ApiProperty({ enum: SocialProvider })
+  @IsEnum(SocialProvider)
+  provider: SocialProvider;
+}
@@ -0,0 +1,76 @@
+import {
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum TwoFactorMethod {
+  TOTP = 'totp',
+  EMAIL = 'email',
+  RECOVERY = 'recovery',
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: 'Challenge token returned by auth/login' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class VerifyTwoFactorLoginDto extends TwoFactorChallengeDto {
+  @ApiProperty({ description: 'Authenticator, emailed or recovery code' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiPropertyOptional({ enum: TwoFactorMethod, default: TwoFactorMethod.TOTP })
+  @IsOptional()
+  @IsEnum(TwoFactorMethod)
+  method?: TwoFactorMethod;
+}
+
+export class CompleteTwoFactorEnrollmentDto extends TwoFactorChallengeDto {
+  @ApiProperty({ description: 'First code shown by the authenticator app' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+export class EnableTwoFactorDto {
+  @ApiProperty({ description: 'First code shown by the authenticator app' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+export class DisableTwoFactorDto {
+  @ApiPropertyOptional({
+    description: 'Current password; not needed for accounts without one',
+  })
+  @IsOptional()
+  @IsString()
+  password?: string;
+
+  @ApiProperty({ description: 'Authenticator or recovery code' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiPropertyOptional({
+    enum: [TwoFactorMethod.TOTP, TwoFactorMethod.RECOVERY],
+    default: TwoFactorMethod.TOTP,
+  })
+  @IsOptional()
+  @IsIn([TwoFactorMethod.TOTP, TwoFactorMethod.RECOVERY])
+  method?: TwoFactorMethod;
+}
+
+export class RegenerateRecoveryCodesDto {
+  @ApiProperty({ description: 'Current authenticator code' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Public } from '../../decorators/public.decorator';
+import { JwtAuthGuard } from '../../guards/jwt-auth-guard';
+import { RequestWithUser } from '../../types/request-with-user.interface';
+import { EmailVerificationService } from './email-verification.service';
+import { ChangeEmailDto, VerifyEmailDto } from '../dto/email-verification.dto';
+
+@ApiTags('Email verification')
+@Controller('auth/email')
+export class EmailVerificationController {
+  constructor(
+    private readonly emailVerificationService: EmailVerificationService,
+  ) {}
+
+  @Public()
+  @Post('verify')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Apply a verification or email change link' })
+  verify(@Body() dto: VerifyEmailDto) {
+    return this.emailVerificationService.verify(dto.token);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Own email verification status' })
+  getStatus(@Req() req: RequestWithUser) {
+    return this.emailVerificationService.getStatus(req.user._id.toString());
+  }
+
+  @Post('verification/resend')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Send the verification link again' })
+  resend(@Req() req: RequestWithUser) {
+    return this.emailVerificationService.sendVerification(
+      req.user._id.toString(),
+    );
+  }
+
+  @Post('change')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Request an email change, confirmed by link' })
+  requestChange(@Req() req: RequestWithUser, @Body() dto: ChangeEmailDto) {
+    return this.emailVerificationService.requestEmailChange(
+      req.user._id.toString(),
+      dto.newEmail,
+      { password: dto.password, code: dto.code },
+    );
+  }
+
+  @Post('change/code')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Email a code to confirm an email change without a password',
+  })
+  sendChangeCode(@Req() req: RequestWithUser) {
+    return this.emailVerificationService.sendChangeCode(
+      req.user._id.toString(),
+    );
+  }
+
+  @Delete('change')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Cancel a pending email change' })
+  async cancelChange(@Req() req: RequestWithUser) {
+    await this.emailVerificationService.cancelEmailChange(
+      req.user._id.toString(),
+    );
+    return { message: 'Email change cancelled' };
+  }
+}
@@ -0,0 +1,315 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { UserService } from '../../users/users.service';
+import { EmailService } from '../../email/email.service';
+import { StripeService } from '../../payments/stripe/stripe.service';
+import { hashOneTimeCode } from '../utils/totp';
+
+const TOKEN_EXPIRES_IN = '24h';
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const CHANGE_CODE_TTL_MINUTES = 10;
+
+export enum EmailTokenPurpose {
+  VERIFY = 'verify_email',
+  CHANGE = 'change_email',
+}
+
+interface EmailTokenPayload {
+  sub: string;
+  email: string;
+  purpose: EmailTokenPurpose;
+}
+
+/**
+ * Confirms that users own their email address, at signup and before an
+ * address change takes effect. Links carry a signed token bound to the
+ * address it was sent to, so a link stops working once the address
+ * changes.
+ */
+@Injectable()
+export class EmailVerificationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    private readonly userService: UserService,
+    private readonly jwtService: JwtService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  /**
+   * Existing accounts would otherwise read the `emailVerified: false`
+   * default and lose access to purchases and the chatbot. Runs before the
+   * server accepts requests, so no save can store that default first.
+   */
+  async onApplicationBootstrap() {
+    try {
+      const marked = await this.userService.markLegacyEmailsVerified();
+      if (marked > 0) {
+        this.logger.log(`Marked ${marked} existing users as email verified`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Could not mark existing users as email verified: ${error.message}`,
+      );
+    }
+  }
+
+  async getStatus(userId: string) {
+    const user = await this.findUser(userId);
+    return {
+      email: user.email,
+      emailVerified: !!user.emailVerified,
+      emailVerifiedAt: user.emailVerifiedAt ?? null,
+      pendingEmail: user.pendingEmail ?? null,
+    };
+  }
+
+  /**
+   * Sends the verification link for the current address. Outside signup a
+   * new link can be requested once a minute.
+   */
+  async sendVerification(userId: string, throttle = true) {
+    const user = await this.findUser(userId);
+    if (user.emailVerified) {
+      throw new BadRequestException('Email is already verified');
+    }
+    this.checkCooldown(user, throttle);
+
+    await this.sendLink(user, user.email, EmailTokenPurpose.VERIFY);
+    return { message: 'Verification email sent', email: user.email };
+  }
+
+  /**
+   * Emails a code to the current address of an account without a password;
+   * the code then stands in for the password when changing the address
+   */
+  async sendChangeCode(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.hasPassword !== false) {
+      throw new BadRequestException('Confirm the change with your password');
+    }
+    this.checkCooldown(user, true);
+
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+    const expiresAt = new Date(Date.now() + CHANGE_CODE_TTL_MINUTES * 60000);
+    user.emailChangeCodeHash = hashOneTimeCode(`${user._id}:${code}`);
+    user.emailChangeCodeExpiresAt = expiresAt;
+    user.emailVerificationSentAt = new Date();
+    await user.save();
+
+    await this.emailService.sendTwoFactorCodeEmail(user.email, {
+      firstName: user.firstName,
+      code,
+      expiresInMinutes: CHANGE_CODE_TTL_MINUTES,
+    });
+    return { message: 'Verification code sent', expiresAt };
+  }
+
+  /**
+   * Starts an address change. The account keeps its current address until
+   * the new one is confirmed through the link sent to it. Accounts without
+   * a password confirm with a code from `sendChangeCode` instead.
+   */
+  async requestEmailChange(
+    userId: string,
+    newEmail: string,
+    credentials: { password?: string; code?: string },
+  ) {
+    let user = await this.findUser(userId);
+    const email = newEmail.trim().toLowerCase();
+    if (email === user.email.toLowerCase()) {
+      throw new BadRequestException('This is already your email address');
+    }
+    if (await this.userService.findByEmail(email)) {
+      throw new ConflictException('This email address is already in use');
+    }
+
+    if (user.hasPassword === false) {
+      user = await this.takeChangeCode(userId, credentials.code);
+    } else {
+      if (!(await bcrypt.compare(credentials.password || '', user.password))) {
+        throw new UnauthorizedException('Invalid password');
+      }
+      this.checkCooldown(user, true);
+    }
+
+    user.pendingEmail = email;
+    await this.sendLink(user, email, EmailTokenPurpose.CHANGE);
+    return { message: 'Confirmation email sent', pendingEmail: email };
+  }
+
+  async cancelEmailChange(userId: string) {
+    const user = await this.findUser(userId);
+    if (!user.pendingEmail) {
+      throw new BadRequestException('No email change in progress');
+    }
+    user.pendingEmail = undefined;
+    await user.save();
+  }
+
+  /**
+   * Applies a link: marks the address verified, or swaps in the pending
+   * address it confirms
+   */
+  async verify(token: string) {
+    const payload = this.decodeToken(token);
+    const user = await this.userService.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired verification link');
+    }
+
+    if (payload.purpose === EmailTokenPurpose.VERIFY) {
+      if (payload.email !== user.email) {
+        throw new UnauthorizedException('Invalid or expired verification link');
+      }
+      if (!user.emailVerified) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        await user.save();
+      }
+      return { message: 'Email verified', email: user.email, changed: false };
+    }
+
+    if (payload.email !== user.pendingEmail) {
+      throw new UnauthorizedException('Invalid or expired verification link');
+    }
+    const previousEmail = user.email;
+    user.email = user.pendingEmail;
+    user.pendingEmail = undefined;
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    try {
+      await user.save();
+    } catch (error) {
+      // Another account confirmed the address first
+      if (error?.code === 11000) {
+        throw new ConflictException('This email address is already in use');
+      }
+      throw error;
+    }
+    this.logger.log(`User ${user._id} changed email from ${previousEmail}`);
+
+    await this.syncStripeCustomer(user._id.toString());
+    return { message: 'Email changed', email: user.email, changed: true };
+  }
+
+  private async sendLink(user: any, email: string, purpose: EmailTokenPurpose) {
+    const payload: EmailTokenPayload = {
+      sub: user._id.toString(),
+      email,
+      purpose,
+    };
+    const token = this.jwtService.sign(payload, {
+      secret: this.tokenSecret(),
+      expiresIn: TOKEN_EXPIRES_IN,
+    });
+
+    user.emailVerificationSentAt = new Date();
+    await user.save();
+
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+    try {
+      await this.emailService.sendEmailVerificationEmail(email, {
+        firstName: user.firstName,
+        verifyLink: `${frontendUrl}/auth/verify-email?token=${token}`,
+        expiresIn: '24 horas',
+        isEmailChange: purpose === EmailTokenPurpose.CHANGE,
+      });
+    } catch {
+      throw new BadRequestException(
+        'Failed to send verification email. Please try again.',
+      );
+    }
+  }
+
+  private decodeToken(token: string): EmailTokenPayload {
+    try {
+      const payload = this.jwtService.verify<EmailTokenPayload>(token, {
+        secret: this.tokenSecret(),
+      });
+      if (
+        !payload.sub ||
+        !payload.email ||
+        !Object.values(EmailTokenPurpose).includes(payload.purpose)
+      ) {
+        throw new Error('Unexpected payload');
+      }
+      return payload;
+    } catch {
+      throw new UnauthorizedException('Invalid or expired verification link');
+    }
+  }
+
+  // Separate from the access token secret so a verification link can never
+  // pass as an access token
+  private tokenSecret() {
+    const secret =
+      this.configService.get<string>('JWT_SECRET') || 'yourSecretKey';
+    return `${secret}:email-verification`;
+  }
+
+  // Consumes the code whether or not it matches, so a wrong guess needs a
+  // new code
+  private async takeChangeCode(userId: string, code?: string) {
+    const user = await this.userService.takeEmailChangeCode(userId);
+    if (
+      !user ||
+      !code ||
+      !user.emailChangeCodeExpiresAt ||
+      user.emailChangeCodeExpiresAt.getTime() < Date.now() ||
+      user.emailChangeCodeHash !== hashOneTimeCode(`${user._id}:${code}`)
+    ) {
+      throw new UnauthorizedException('Invalid or expired verification code');
+    }
+    return user;
+  }
+
+  private checkCooldown(user: any, throttle: boolean) {
+    if (
+      throttle &&
+      user.emailVerificationSentAt &&
+      Date.now() - user.emailVerificationSentAt.getTime() < RESEND_COOLDOWN_MS
+    ) {
+      throw new BadRequestException(
+        'Please wait a minute before requesting another email',
+      );
+    }
+  }
+
+  // Resolved lazily: the payments module depends on this one
+  private async syncStripeCustomer(userId: string) {
+    try {
+      const stripeService = this.moduleRef.get(StripeService, {
+        strict: false,
+      });
+      await stripeService.syncCustomerEmail(userId);
+    } catch (error) {
+      this.logger.error(
+        `Could not update the Stripe customer of user ${userId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+}
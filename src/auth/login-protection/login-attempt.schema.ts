@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LoginAttemptDocument = LoginAttempt &
+  Document & {
+    _id: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+
+export enum LoginAttemptResult {
+  // Credentials were right; a second factor may still be pending
+  SUCCESS = 'success',
+  FAILED = 'failed',
+  // Rejected without checking the password
+  BLOCKED = 'blocked',
+}
+
+export enum LoginFailureReason {
+  INVALID_CREDENTIALS = 'invalid_credentials',
+  ACCOUNT_LOCKED = 'account_locked',
+  IP_LOCKED = 'ip_locked',
+  CAPTCHA_FAILED = 'captcha_failed',
+  INVALID_TWO_FACTOR_CODE = 'invalid_two_factor_code',
+}
+
+export enum LoginMethod {
+  PASSWORD = 'password',
+  GOOGLE = 'google',
+  APPLE = 'apple',
+}
+
+/**
+ * One sign-in attempt, shown to the user and to admins as login history
+ * and used to spot logins from unfamiliar devices or places
+ */
+@Schema({ timestamps: true, collection: 'login_attempts' })
+export class LoginAttempt {
+  // Unset when the email matches no account
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  email: string;
+
+  @Prop({ required: true, enum: LoginAttemptResult })
+  result: LoginAttemptResult;
+
+  @Prop({ enum: LoginFailureReason })
+  reason?: LoginFailureReason;
+
+  @Prop({ enum: LoginMethod, default: LoginMethod.PASSWORD })
+  method: LoginMethod;
+
+  @Prop({ default: '' })
+  ip: string;
+
+  @Prop({ default: '' })
+  userAgent: string;
+
+  // "Chrome on Windows"
+  @Prop({ default: '' })
+  device: string;
+
+  @Prop()
+  country?: string;
+
+  // What was new about a successful login, e.g. new_device
+  @Prop({ type: [String], default: [] })
+  anomalies: string[];
+}
+
+export const LoginAttemptSchema = SchemaFactory.createForClass(LoginAttempt);
+
+LoginAttemptSchema.index({ userId: 1, createdAt: -1 });
+LoginAttemptSchema.index({ userId: 1, result: 1, createdAt: -1 });
+// History is kept for 180 days
+LoginAttemptSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 180 * 24 * 3600 },
+);
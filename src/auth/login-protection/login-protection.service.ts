@@ -0,0 +1,410 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  LoginAttempt,
+  LoginAttemptDocument,
+  LoginAttemptResult,
+  LoginFailureReason,
+  LoginMethod,
+} from './login-attempt.schema';
+import { User, UserDocument } from '../../users/user.schema';
+import { CacheService } from '../../cache/cache.service';
+import { EmailService } from '../../email/email.service';
+import { RecaptchaService } from '../recaptcha.service';
+import { SessionContext } from '../sessions/auth-session.service';
+import { describeUserAgent } from '../utils/user-agent';
+import {
+  blockedForSeconds,
+  LoginAnomaly,
+  loginAnomalies,
+  registerFailure,
+  stateTtlSeconds,
+  ThrottlePolicy,
+  ThrottleState,
+} from '../utils/login-throttle';
+
+const KEY_PREFIX = 'login-throttle';
+// Successful logins compared against when looking for anomalies
+const KNOWN_LOGINS_LIMIT = 50;
+const MEMORY_STORE_LIMIT = 10000;
+
+const ANOMALY_LABELS: Record<LoginAnomaly, string> = {
+  [LoginAnomaly.NEW_DEVICE]: 'un dispositivo nuevo',
+  [LoginAnomaly.NEW_COUNTRY]: 'un país nuevo',
+  [LoginAnomaly.NEW_IP]: 'una dirección IP nueva',
+};
+
+const normalizeEmail = (email: string) =>
+  String(email || '')
+    .trim()
+    .toLowerCase();
+
+// Emails are hashed so Redis keys do not expose them
+const accountKey = (email: string) =>
+  CacheService.generateKey(
+    KEY_PREFIX,
+    'account',
+    crypto.createHash('sha256').update(normalizeEmail(email)).digest('hex'),
+  );
+const ipKey = (ip: string) => CacheService.generateKey(KEY_PREFIX, 'ip', ip);
+
+/**
+ * Brute-force protection and login history for `auth/login`. Failures are
+ * counted per account and per IP in Redis, or in process memory while Redis
+ * is down, so protection never silently turns off.
+ */
+@Injectable()
+export class LoginProtectionService {
+  private readonly logger = new Logger(LoginProtectionService.name);
+  private readonly memory = new Map<
+    string,
+    { state: ThrottleState; expiresAt: number }
+  >();
+
+  constructor(
+    @InjectModel(LoginAttempt.name)
+    private readonly attemptModel: Model<LoginAttemptDocument>,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    private readonly cacheService: CacheService,
+    private readonly emailService: EmailService,
+    private readonly recaptchaService: RecaptchaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Rejects the attempt while the account or IP is locked out or must wait
+   * out its delay, and asks for reCAPTCHA once failures pile up
+   */
+  async assertAllowed(
+    email: string,
+    context: SessionContext,
+    recaptchaToken?: string,
+  ) {
+    const now = Date.now();
+    const [account, ip] = await Promise.all([
+      this.readState(accountKey(email)),
+      context.ip ? this.readState(ipKey(context.ip)) : null,
+    ]);
+    const accountWait = blockedForSeconds(account, now, this.accountPolicy());
+    const ipWait = blockedForSeconds(ip, now, this.ipPolicy());
+
+    if (accountWait > 0 || ipWait > 0) {
+      await this.record(email, context, LoginAttemptResult.BLOCKED, {
+        reason:
+          accountWait >= ipWait
+            ? LoginFailureReason.ACCOUNT_LOCKED
+            : LoginFailureReason.IP_LOCKED,
+      });
+      throw new HttpException(
+        {
+          message: `Too many failed login attempts. Try again in ${Math.max(accountWait, ipWait)} seconds.`,
+          error: 'LOGIN_THROTTLED',
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const captchaAfter =
+      this.configService.get<number>('loginProtection.captchaAfter') || 3;
+    const failures = Math.max(account?.failures || 0, ip?.failures || 0);
+    if (failures >= captchaAfter || (account?.lockouts || 0) > 0) {
+      const valid = await this.recaptchaService
+        .verifyToken(recaptchaToken, 'login')
+        .catch(() => false);
+      if (!valid) {
+        await this.record(email, context, LoginAttemptResult.BLOCKED, {
+          reason: LoginFailureReason.CAPTCHA_FAILED,
+        });
+        throw new BadRequestException(
+          'Please complete the security check to continue',
+          'CAPTCHA_REQUIRED',
+        );
+      }
+    }
+  }
+
+  /**
+   * Counts a wrong email or password, or a wrong second factor, against the
+   * account and the IP
+   */
+  async recordFailure(
+    email: string,
+    context: SessionContext,
+    reason = LoginFailureReason.INVALID_CREDENTIALS,
+  ) {
+    const now = Date.now();
+    const account = await this.bump(
+      accountKey(email),
+      now,
+      this.accountPolicy(),
+    );
+    if (context.ip) {
+      await this.bump(ipKey(context.ip), now, this.ipPolicy());
+    }
+    if (account.lockedUntil) {
+      this.logger.warn(
+        `Login locked for ${normalizeEmail(email)} until ${new Date(account.lockedUntil).toISOString()}`,
+      );
+    }
+
+    await this.record(email, context, LoginAttemptResult.FAILED, { reason });
+  }
+
+  /**
+   * Clears the account's failures, stores the login and emails the user
+   * when it comes from a device, country or IP the account has not used.
+   * Called once every factor passed, right before the session is created.
+   */
+  async recordSuccess(
+    user: { _id: any; email: string; firstName?: string },
+    context: SessionContext,
+    method: LoginMethod = LoginMethod.PASSWORD,
+  ) {
+    const userId = user._id.toString();
+    await this.deleteState(accountKey(user.email));
+
+    const known = await this.attemptModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        result: LoginAttemptResult.SUCCESS,
+      })
+      .sort({ createdAt: -1 })
+      .limit(KNOWN_LOGINS_LIMIT)
+      .select('ip device country')
+      .lean();
+    const device = describeUserAgent(context.userAgent);
+    const anomalies = loginAnomalies(known, {
+      ip: context.ip,
+      device,
+      country: context.country,
+    });
+
+    const attempt = await this.record(
+      user.email,
+      context,
+      LoginAttemptResult.SUCCESS,
+      { userId, method, anomalies },
+    );
+    await this.userModel.updateOne({ _id: userId }, { lastLogin: new Date() });
+
+    const alertsEnabled =
+      this.configService.get<boolean>('loginProtection.alertsEnabled') ?? true;
+    if (anomalies.length > 0 && alertsEnabled) {
+      // Not awaited: the alert must not slow down or fail the login
+      this.sendAlert(user, attempt, anomalies);
+    }
+  }
+
+  /**
+   * Newest first
+   */
+  async getHistory(userId: string, page = 1, limit = 20) {
+    const filter = { userId: new Types.ObjectId(userId) };
+    const safeLimit = Math.min(Math.max(Number(limit) || 20, 1), 100);
+    const safePage = Math.max(Number(page) || 1, 1);
+
+    const [attempts, total] = await Promise.all([
+      this.attemptModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((safePage - 1) * safeLimit)
+        .limit(safeLimit)
+        .select('-email -__v -updatedAt')
+        .lean(),
+      this.attemptModel.countDocuments(filter),
+    ]);
+
+    return {
+      attempts,
+      total,
+      page: safePage,
+      totalPages: Math.ceil(total / safeLimit),
+    };
+  }
+
+  /**
+   * Lockout state of an account, for admins
+   */
+  async getLockStatus(email: string) {
+    const state = await this.readState(accountKey(email));
+    const retryAfter = blockedForSeconds(
+      state,
+      Date.now(),
+      this.accountPolicy(),
+    );
+    return {
+      locked: retryAfter > 0,
+      retryAfter,
+      failures: state?.failures || 0,
+      lockouts: state?.lockouts || 0,
+    };
+  }
+
+  /**
+   * Lifts an account lockout, e.g. after support confirmed the owner
+   */
+  async unlock(email: string) {
+    await this.deleteState(accountKey(email));
+  }
+
+  private async bump(key: string, now: number, policy: ThrottlePolicy) {
+    const state = registerFailure(await this.readState(key), now, policy);
+    await this.writeState(key, state, stateTtlSeconds(state, now, policy));
+    return state;
+  }
+
+  private async record(
+    email: string,
+    context: SessionContext,
+    result: LoginAttemptResult,
+    details: {
+      userId?: string;
+      reason?: LoginFailureReason;
+      method?: LoginMethod;
+      anomalies?: LoginAnomaly[];
+    } = {},
+  ) {
+    let userId = details.userId;
+    if (!userId && result !== LoginAttemptResult.SUCCESS) {
+      const user = await this.userModel
+        .findOne({ email: normalizeEmail(email) })
+        .select('_id')
+        .lean();
+      userId = user?._id?.toString();
+    }
+
+    try {
+      return await this.attemptModel.create({
+        userId: userId ? new Types.ObjectId(userId) : undefined,
+        email: normalizeEmail(email),
+        result,
+        reason: details.reason,
+        method: details.method || LoginMethod.PASSWORD,
+        ip: context.ip || '',
+        userAgent: (context.userAgent || '').slice(0, 500),
+        device: describeUserAgent(context.userAgent),
+        country: context.country,
+        anomalies: details.anomalies || [],
+      });
+    } catch (error) {
+      // History is best effort; the login itself goes on
+      this.logger.error(`Could not store login attempt: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async sendAlert(
+    user: { email: string; firstName?: string },
+    attempt: LoginAttemptDocument | null,
+    anomalies: LoginAnomaly[],
+  ) {
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+    try {
+      await this.emailService.sendNewLoginAlertEmail(user.email, {
+        firstName: user.firstName || '',
+        device: attempt?.device || 'Unknown device',
+        ip: attempt?.ip || '-',
+        country: attempt?.country,
+        time: (attempt?.createdAt || new Date()).toLocaleString('es-ES', {
+          timeZone: 'UTC',
+          timeZoneName: 'short',
+        }),
+        reasons: anomalies.map((anomaly) => ANOMALY_LABELS[anomaly]),
+        securityLink: `${frontendUrl}/account/security`,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Could not send login alert to ${user.email}: ${error.message}`,
+      );
+    }
+  }
+
+  private accountPolicy(): ThrottlePolicy {
+    return {
+      freeAttempts: 3,
+      maxFailures:
+        this.configService.get<number>('loginProtection.maxAccountFailures') ||
+        10,
+      lockoutSeconds: this.lockoutSeconds(),
+      windowSeconds: 3600,
+    };
+  }
+
+  private ipPolicy(): ThrottlePolicy {
+    return {
+      freeAttempts: 10,
+      maxFailures:
+        this.configService.get<number>('loginProtection.maxIpFailures') || 50,
+      lockoutSeconds: this.lockoutSeconds(),
+      windowSeconds: 3600,
+    };
+  }
+
+  private lockoutSeconds() {
+    return (
+      (this.configService.get<number>('loginProtection.lockoutMinutes') || 15) *
+      60
+    );
+  }
+
+  private async readState(key: string): Promise<ThrottleState | null> {
+    if (this.cacheService.isAvailable()) {
+      const state = await this.cacheService.get<ThrottleState>(key);
+      if (state) {
+        return state;
+      }
+    }
+    // Written while Redis was down
+    const entry = this.memory.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.memory.delete(key);
+      return null;
+    }
+    return entry.state;
+  }
+
+  private async writeState(key: string, state: ThrottleState, ttl: number) {
+    if (
+      this.cacheService.isAvailable() &&
+      (await this.cacheService.set(key, state, ttl))
+    ) {
+      return;
+    }
+    if (this.memory.size >= MEMORY_STORE_LIMIT) {
+      this.pruneMemory();
+    }
+    this.memory.set(key, { state, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  private async deleteState(key: string) {
+    this.memory.delete(key);
+    if (this.cacheService.isAvailable()) {
+      await this.cacheService.del(key);
+    }
+  }
+
+  private pruneMemory() {
+    const now = Date.now();
+    for (const [key, entry] of this.memory) {
+      if (entry.expiresAt <= now) {
+        this.memory.delete(key);
+      }
+    }
+    // Still full: drop the oldest entries rather than grow without bound
+    for (const key of this.memory.keys()) {
+      if (this.memory.size < MEMORY_STORE_LIMIT) break;
+      this.memory.delete(key);
+    }
+  }
+}
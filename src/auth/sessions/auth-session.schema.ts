@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AuthSessionDocument = AuthSession &
+  Document & {
+    _id: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+
+export enum SessionRevokeReason {
+  SIGN_OUT = 'sign_out',
+  REVOKED_BY_USER = 'revoked_by_user',
+  SIGN_OUT_EVERYWHERE = 'sign_out_everywhere',
+  PASSWORD_CHANGED = 'password_changed',
+  PASSWORD_RESET = 'password_reset',
+  ADMIN_PASSWORD_RESET = 'admin_password_reset',
+  ACCOUNT_BANNED = 'account_banned',
+  REFRESH_TOKEN_REUSE = 'refresh_token_reuse',
+  TWO_FACTOR_RESET = 'two_factor_reset',
+  TWO_FACTOR_REQUIRED = 'two_factor_required',
+}
+
+/**
+ * A signed-in device. Holds the hash of its current refresh token, which
+ * rotates on every refresh; access tokens carry the session id so revoking
+ * the session signs the device out.
+ */
+@Schema({ timestamps: true, collection: 'auth_sessions' })
+export class AuthSession {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  // SHA-256 of the refresh token; the token itself is never stored
+  @Prop({ required: true, select: false })
+  refreshTokenHash: string;
+
+  // Token replaced by the last rotation, to detect a stolen token being
+  // replayed after the legitimate client refreshed
+  @Prop({ select: false })
+  previousRefreshTokenHash?: string;
+
+  @Prop()
+  rotatedAt?: Date;
+
+  @Prop({ default: '' })
+  userAgent: string;
+
+  @Prop({ default: '' })
+  ip: string;
+
+  // Readable label, e.g. "Chrome on Windows"
+  @Prop({ default: 'Unknown device' })
+  device: string;
+
+  @Prop({ default: Date.now })
+  lastUsedAt: Date;
+
+  // Refresh token expiry; extended on every rotation
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop({ enum: SessionRevokeReason })
+  revokedReason?: SessionRevokeReason;
+}
+
+export const AuthSessionSchema = SchemaFactory.createForClass(AuthSession);
+
+AuthSessionSchema.index({ userId: 1, revokedAt: 1 });
+// Expired sessions are removed by MongoDB
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
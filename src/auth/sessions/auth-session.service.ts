@@ -0,0 +1,354 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  AuthSession,
+  AuthSessionDocument,
+  SessionRevokeReason,
+} from './auth-session.schema';
+import { CacheService } from '../../cache/cache.service';
+import { describeUserAgent } from '../utils/user-agent';
+
+// Concurrent refreshes (two tabs) may replay the previous token this soon
+// after a rotation without it counting as theft
+const ROTATION_GRACE_MS = 15 * 1000;
+
+// Session state is cached so the auth guard rarely reads MongoDB. Revoked
+// markers outlive any access token signed for the session.
+const ACTIVE_CACHE_TTL = 60;
+const REVOKED_CACHE_TTL = 24 * 3600;
+
+// Access tokens signed before sessions existed carry no session id and
+// lasted an hour
+const SESSIONLESS_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export interface SessionContext {
+  userAgent?: string;
+  ip?: string;
+  // ISO country code from the edge proxy, when it sends one
+  country?: string;
+}
+
+export interface IssuedSession {
+  session: AuthSessionDocument;
+  // `<sessionId>.<secret>`, returned to the client once
+  refreshToken: string;
+}
+
+// Told which sessions of a user just ended
+export type SessionRevokedListener = (
+  userId: string,
+  sessionIds: string[],
+) => void;
+
+const hashToken = (secret: string) =>
+  crypto.createHash('sha256').update(secret).digest('hex');
+
+function parseRefreshToken(refreshToken: string) {
+  const [sessionId, secret] = String(refreshToken || '').split('.');
+  return secret && Types.ObjectId.isValid(sessionId)
+    ? { sessionId, hash: hashToken(secret) }
+    : { sessionId: null, hash: null };
+}
+
+@Injectable()
+export class AuthSessionService {
+  private readonly logger = new Logger(AuthSessionService.name);
+  private readonly revokedListeners: SessionRevokedListener[] = [];
+  private readonly startedAt = Date.now();
+
+  constructor(
+    @InjectModel(AuthSession.name)
+    private readonly sessionModel: Model<AuthSessionDocument>,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async create(
+    userId: string,
+    context: SessionContext = {},
+  ): Promise<IssuedSession> {
+    const secret = this.newSecret();
+    const session = await this.sessionModel.create({
+      userId: new Types.ObjectId(userId),
+      refreshTokenHash: hashToken(secret),
+      userAgent: (context.userAgent || '').slice(0, 500),
+      ip: context.ip || '',
+      device: describeUserAgent(context.userAgent),
+      lastUsedAt: new Date(),
+      expiresAt: this.refreshExpiry(),
+    });
+    return { session, refreshToken: `${session._id}.${secret}` };
+  }
+
+  /**
+   * Exchanges a refresh token for a new one on the same session. Replaying
+   * an already rotated token revokes the session, since either the client
+   * or an attacker holds a stolen copy. The swap only matches the current
+   * hash, so two requests racing with one token cannot both win.
+   */
+  async rotate(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<IssuedSession> {
+    const { sessionId, hash } = parseRefreshToken(refreshToken);
+    if (!sessionId) {
+      throw new UnauthorizedException('Session expired, please sign in again');
+    }
+
+    const next = this.newSecret();
+    const now = new Date();
+    const rotated = await this.sessionModel.findOneAndUpdate(
+      {
+        _id: sessionId,
+        refreshTokenHash: hash,
+        revokedAt: null,
+        expiresAt: { $gt: now },
+      },
+      {
+        $set: {
+          previousRefreshTokenHash: hash,
+          refreshTokenHash: hashToken(next),
+          rotatedAt: now,
+          lastUsedAt: now,
+          expiresAt: this.refreshExpiry(),
+          ...(context.ip ? { ip: context.ip } : {}),
+        },
+      },
+      { new: true },
+    );
+    if (rotated) {
+      return { session: rotated, refreshToken: `${rotated._id}.${next}` };
+    }
+
+    // Not swapped: find out whether the token was stale or stolen
+    const session = await this.sessionModel
+      .findById(sessionId)
+      .select('+previousRefreshTokenHash');
+    if (!session || session.revokedAt || session.expiresAt <= now) {
+      throw new UnauthorizedException('Session expired, please sign in again');
+    }
+
+    const replayed = hash === session.previousRefreshTokenHash;
+    const withinGrace =
+      session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (replayed && !withinGrace) {
+      this.logger.warn(
+        `Refresh token reuse on session ${sessionId}, revoking it`,
+      );
+      await this.revokeSession(
+        session,
+        SessionRevokeReason.REFRESH_TOKEN_REUSE,
+      );
+    }
+    throw new UnauthorizedException('Invalid refresh token');
+  }
+
+  /**
+   * Ends the session a refresh token belongs to, if the token is current
+   */
+  async revokeByRefreshToken(
+    refreshToken: string,
+    reason: SessionRevokeReason = SessionRevokeReason.SIGN_OUT,
+  ): Promise<boolean> {
+    const session = await this.findByRefreshToken(refreshToken);
+    if (!session || session.revokedAt) {
+      return false;
+    }
+    await this.revokeSession(session, reason);
+    return true;
+  }
+
+  /**
+   * Lets long-lived connections (e.g. websockets), which only check the
+   * session when they open, close once it is revoked
+   */
+  onRevoked(listener: SessionRevokedListener) {
+    this.revokedListeners.push(listener);
+  }
+
+  /**
+   * Whether an access token is still accepted. Tokens without a session are
+   * only honoured for the hour after start, and only when issued before it,
+   * so the ones handed out before sessions existed can run out.
+   */
+  async acceptsToken(payload: { sid?: string; iat?: number }) {
+    if (payload.sid) {
+      return this.isActive(payload.sid);
+    }
+    return (
+      !!payload.iat &&
+      payload.iat * 1000 < this.startedAt &&
+      Date.now() < this.startedAt + SESSIONLESS_TOKEN_TTL_MS
+    );
+  }
+
+  /**
+   * Whether access tokens of a session are still accepted
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    const cacheKey = this.cacheKey(sessionId);
+    const cached = await this.cacheService.get<string>(cacheKey);
+    if (cached) {
+      return cached === 'active';
+    }
+
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const session = await this.sessionModel
+      .findById(sessionId)
+      .select('revokedAt expiresAt')
+      .lean();
+    const active =
+      !!session && !session.revokedAt && session.expiresAt > new Date();
+    await this.cacheService.set(
+      cacheKey,
+      active ? 'active' : 'revoked',
+      active ? ACTIVE_CACHE_TTL : REVOKED_CACHE_TTL,
+    );
+    return active;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async list(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    return sessions.map((session) => ({
+      id: session._id.toString(),
+      device: session.device,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  async revoke(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason = SessionRevokeReason.REVOKED_BY_USER,
+  ): Promise<void> {
+    const session = Types.ObjectId.isValid(sessionId)
+      ? await this.sessionModel.findOne({
+          _id: sessionId,
+          userId: new Types.ObjectId(userId),
+          revokedAt: { $exists: false },
+        })
+      : null;
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.revokeSession(session, reason);
+  }
+
+  /**
+   * Revokes every active session of a user, optionally keeping one (the
+   * caller's own). Returns how many were revoked.
+   */
+  async revokeAll(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const filter: Record<string, any> = {
+      userId: new Types.ObjectId(userId),
+      revokedAt: { $exists: false },
+    };
+    if (exceptSessionId && Types.ObjectId.isValid(exceptSessionId)) {
+      filter._id = { $ne: new Types.ObjectId(exceptSessionId) };
+    }
+
+    const sessions = await this.sessionModel.find(filter).select('_id').lean();
+    if (sessions.length === 0) {
+      return 0;
+    }
+    await this.sessionModel.updateMany(
+      { _id: { $in: sessions.map((session) => session._id) } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+    );
+    await Promise.all(
+      sessions.map((session) => this.markRevoked(session._id.toString())),
+    );
+    this.notifyRevoked(
+      userId,
+      sessions.map((session) => session._id.toString()),
+    );
+    return sessions.length;
+  }
+
+  private async findByRefreshToken(refreshToken: string) {
+    const { sessionId, hash } = parseRefreshToken(refreshToken);
+    if (!sessionId) {
+      return null;
+    }
+    return this.sessionModel.findOne({
+      _id: sessionId,
+      refreshTokenHash: hash,
+    });
+  }
+
+  private async revokeSession(
+    session: AuthSessionDocument,
+    reason: SessionRevokeReason,
+  ) {
+    await this.sessionModel.updateOne(
+      { _id: session._id },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+    );
+    await this.markRevoked(session._id.toString());
+    this.notifyRevoked(session.userId.toString(), [session._id.toString()]);
+  }
+
+  private notifyRevoked(userId: string, sessionIds: string[]) {
+    for (const listener of this.revokedListeners) {
+      try {
+        listener(userId, sessionIds);
+      } catch (error) {
+        this.logger.error(
+          `Session revocation listener failed: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private markRevoked(sessionId: string) {
+    return this.cacheService.set(
+      this.cacheKey(sessionId),
+      'revoked',
+      REVOKED_CACHE_TTL,
+    );
+  }
+
+  private cacheKey(sessionId: string) {
+    return `auth:session:${sessionId}`;
+  }
+
+  private newSecret() {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  private refreshExpiry() {
+    const days = this.configService.get<number>('jwt.refreshExpiresInDays');
+    return new Date(Date.now() + (days || 30) * 86400000);
+  }
+}
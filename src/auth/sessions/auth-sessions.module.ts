@@ -0,0 +1,17 @@
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuthSession, AuthSessionSchema } from './auth-session.schema';
+import { AuthSessionService } from './auth-session.service';
+
+// Global so JwtAuthGuard can check sessions in every module that uses it
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuthSession.name, schema: AuthSessionSchema },
+    ]),
+  ],
+  providers: [AuthSessionService],
+  exports: [AuthSessionService],
+})
+export class AuthSessionsModule {}
@@ -0,0 +1,43 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { createRemoteJWKSet } from 'jose';
+import { IdTokenStrategy, verifyIdToken } from './id-token.strategy';
+import {
+  identityFromClaims,
+  nonceMatches,
+  SocialIdentity,
+  SocialProvider,
+} from '../utils/social-identity';
+
+const APPLE_KEYS_URL = 'https://appleid.apple.com/auth/keys';
+const APPLE_ISSUER = 'https://appleid.apple.com';
+
+@Injectable()
+export class AppleStrategy extends PassportStrategy(
+  IdTokenStrategy,
+  SocialProvider.APPLE,
+) {
+  private readonly keys = createRemoteJWKSet(new URL(APPLE_KEYS_URL));
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+  }
+
+  async validate(req: Request, idToken: string): Promise<SocialIdentity> {
+    const claims = await verifyIdToken(idToken, this.keys, {
+      provider: 'Apple',
+      issuer: APPLE_ISSUER,
+      audience: this.configService.get<string[]>('social.appleClientIds') || [],
+    });
+    if (!nonceMatches(SocialProvider.APPLE, claims.nonce, req.body?.nonce)) {
+      throw new UnauthorizedException('Invalid Apple sign-in');
+    }
+    // Apple gives the name to the client on the first sign-in only
+    return identityFromClaims(SocialProvider.APPLE, claims, {
+      firstName: req.body?.firstName,
+      lastName: req.body?.lastName,
+    });
+  }
+}
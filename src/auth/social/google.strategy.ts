@@ -0,0 +1,41 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { createRemoteJWKSet } from 'jose';
+import { IdTokenStrategy, verifyIdToken } from './id-token.strategy';
+import {
+  identityFromClaims,
+  nonceMatches,
+  SocialIdentity,
+  SocialProvider,
+} from '../utils/social-identity';
+
+const GOOGLE_KEYS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+
+@Injectable()
+export class GoogleStrategy extends PassportStrategy(
+  IdTokenStrategy,
+  SocialProvider.GOOGLE,
+) {
+  // Keys are fetched once and refreshed when Google rotates them
+  private readonly keys = createRemoteJWKSet(new URL(GOOGLE_KEYS_URL));
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+  }
+
+  async validate(req: Request, idToken: string): Promise<SocialIdentity> {
+    const claims = await verifyIdToken(idToken, this.keys, {
+      provider: 'Google',
+      issuer: GOOGLE_ISSUERS,
+      audience:
+        this.configService.get<string[]>('social.googleClientIds') || [],
+    });
+    if (!nonceMatches(SocialProvider.GOOGLE, claims.nonce, req.body?.nonce)) {
+      throw new UnauthorizedException('Invalid Google sign-in');
+    }
+    return identityFromClaims(SocialProvider.GOOGLE, claims);
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { Strategy } from 'passport';
+import { JWTVerifyGetKey, jwtVerify } from 'jose';
+
+type VerifyDone = (error: any, identity?: any, info?: any) => void;
+type VerifyFunction = (req: Request, idToken: string, done: VerifyDone) => void;
+
+/**
+ * Passport strategy for clients that sign in with a provider SDK (Google
+ * Identity Services, Sign in with Apple, the native mobile SDKs) and post
+ * the resulting ID token as `idToken`. Subclasses verify the token in
+ * `validate(req, idToken)`.
+ */
+export class IdTokenStrategy extends Strategy {
+  // Actions passport adds to the strategy for each request
+  declare success: (user: any, info?: any) => void;
+  declare fail: (challenge?: any, status?: number) => void;
+  declare error: (error: any) => void;
+
+  constructor(private readonly verify: VerifyFunction) {
+    super();
+  }
+
+  authenticate(req: Request) {
+    const idToken = req.body?.idToken;
+    if (typeof idToken !== 'string' || !idToken) {
+      return this.fail({ message: 'idToken is required' }, 400);
+    }
+
+    this.verify(req, idToken, (error, identity, info) => {
+      if (error) {
+        return this.error(error);
+      }
+      if (!identity) {
+        return this.fail(info, 401);
+      }
+      this.success(identity, info);
+    });
+  }
+}
+
+/**
+ * Claims of a provider ID token after checking its signature against the
+ * provider keys, issuer, audience and expiry
+ */
+export async function verifyIdToken(
+  idToken: string,
+  keys: JWTVerifyGetKey,
+  options: { provider: string; issuer: string | string[]; audience: string[] },
+): Promise<Record<string, unknown>> {
+  if (options.audience.length === 0) {
+    throw new ServiceUnavailableException(
+      `${options.provider} sign-in is not configured`,
+    );
+  }
+  try {
+    const { payload } = await jwtVerify(idToken, keys, {
+      issuer: options.issuer,
+      audience: options.audience,
+    });
+    if (!payload.sub) {
+      throw new Error('Token has no subject');
+    }
+    return payload;
+  } catch {
+    throw new UnauthorizedException(`Invalid ${options.provider} sign-in`);
+  }
+}
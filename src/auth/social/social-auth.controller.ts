@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Public } from '../../decorators/public.decorator';
+import { JwtAuthGuard } from '../../guards/jwt-auth-guard';
+import { RequestWithUser } from '../../types/request-with-user.interface';
+import { SocialAuthService } from './social-auth.service';
+import { SocialTokenGuard } from './social-token.guard';
+import { SocialIdentity, SocialProvider } from '../utils/social-identity';
+import {
+  SocialProviderParamDto,
+  SocialSignInDto,
+} from '../dto/social-auth.dto';
+import { sessionContext } from '../utils/request-context';
+
+type SocialRequest = Request & { socialIdentity: SocialIdentity };
+
+// The body is read by the token guard; the DTO documents and validates it
+@ApiTags('Social sign-in')
+@Controller('auth/social')
+export class SocialAuthController {
+  constructor(private readonly socialAuthService: SocialAuthService) {}
+
+  @Public()
+  @Post('google')
+  @HttpCode(200)
+  @UseGuards(SocialTokenGuard(SocialProvider.GOOGLE))
+  @ApiOperation({ summary: 'Sign in or sign up with a Google ID token' })
+  signInWithGoogle(@Body() _dto: SocialSignInDto, @Req() req: SocialRequest) {
+    return this.socialAuthService.signIn(
+      req.socialIdentity,
+      sessionContext(req),
+    );
+  }
+
+  @Public()
+  @Post('apple')
+  @HttpCode(200)
+  @UseGuards(SocialTokenGuard(SocialProvider.APPLE))
+  @ApiOperation({ summary: 'Sign in or sign up with an Apple ID token' })
+  signInWithApple(@Body() _dto: SocialSignInDto, @Req() req: SocialRequest) {
+    return this.socialAuthService.signIn(
+      req.socialIdentity,
+      sessionContext(req),
+    );
+  }
+
+  @Get('providers')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Providers linked to the own account' })
+  listProviders(@Req() req: RequestWithUser) {
+    return this.socialAuthService.listProviders(req.user._id.toString());
+  }
+
+  @Post('google/link')
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard, SocialTokenGuard(SocialProvider.GOOGLE))
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Link a Google account to the own account' })
+  linkGoogle(
+    @Body() _dto: SocialSignInDto,
+    @Req() req: RequestWithUser & SocialRequest,
+  ) {
+    return this.socialAuthService.link(
+      req.user._id.toString(),
+      req.socialIdentity,
+    );
+  }
+
+  @Post('apple/link')
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard, SocialTokenGuard(SocialProvider.APPLE))
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Link an Apple account to the own account' })
+  linkApple(
+    @Body() _dto: SocialSignInDto,
+    @Req() req: RequestWithUser & SocialRequest,
+  ) {
+    return this.socialAuthService.link(
+      req.user._id.toString(),
+      req.socialIdentity,
+    );
+  }
+
+  @Delete(':provider')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Unlink a provider from the own account' })
+  unlink(@Req() req: RequestWithUser, @Param() params: SocialProviderParamDto) {
+    return this.socialAuthService.unlink(
+      req.user._id.toString(),
+      params.provider,
+    );
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthService } from '../auth.service';
+import { TwoFactorService } from '../two-factor/two-factor.service';
+import { SessionContext } from '../sessions/auth-session.service';
+import { SocialIdentity, SocialProvider } from '../utils/social-identity';
+import { UserService } from '../../users/users.service';
+import { UserDocument } from '../../users/user.schema';
+import { LoginMethod } from '../login-protection/login-attempt.schema';
+
+/**
+ * Google and Apple sign-in. An identity signs in to the account it is
+ * linked to; otherwise to the account with the same email when both the
+ * provider and the account verified that address, or to a new account.
+ */
+@Injectable()
+export class SocialAuthService {
+  private readonly logger = new Logger(SocialAuthService.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly userService: UserService,
+  ) {}
+
+  async signIn(identity: SocialIdentity, context: SessionContext = {}) {
+    let user = await this.findLinkedUser(identity);
+
+    if (!user) {
+      if (!identity.email) {
+        throw new UnauthorizedException(
+          'The provider did not share an email address',
+        );
+      }
+
+      const existing = await this.userService.findByEmail(identity.email);
+      if (existing) {
+        // An unverified address on either side could belong to someone
+        // else: anyone can register a local account with an address they
+        // do not own and wait for its owner to sign in with a provider
+        if (!identity.emailVerified || !existing.emailVerified) {
+          throw new ConflictException(
+            'An account already uses this email. Sign in with your password and link the provider from your profile.',
+          );
+        }
+        this.assertActive(existing);
+        user = await this.addProvider(existing, identity);
+        this.logger.log(
+          `Linked ${identity.provider} to user ${user._id} by verified email`,
+        );
+      } else {
+        user = await this.authService.signupWithProvider(identity);
+        this.logger.log(`Created user ${user._id} from ${identity.provider}`);
+      }
+    }
+
+    this.assertActive(user);
+
+    // Two-factor authentication applies to social sign-in as well
+    const plainUser = user.toObject();
+    delete plainUser.password;
+    return this.twoFactorService.beginLogin(
+      plainUser,
+      context,
+      identity.provider === SocialProvider.APPLE
+        ? LoginMethod.APPLE
+        : LoginMethod.GOOGLE,
+    );
+  }
+
+  async listProviders(userId: string) {
+    const user = await this.findUser(userId);
+    return {
+      hasPassword: user.hasPassword !== false,
+      providers: Object.values(SocialProvider).map((provider) => {
+        const link = user.authProviders?.find(
+          (candidate) => candidate.provider === provider,
+        );
+        return {
+          provider,
+          linked: !!link,
+          email: link?.email ?? null,
+          linkedAt: link?.linkedAt ?? null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Links a provider identity to the signed-in user
+   */
+  async link(userId: string, identity: SocialIdentity) {
+    const user = await this.findUser(userId);
+    const owner = await this.findLinkedUser(identity);
+    if (owner && owner._id.toString() !== userId) {
+      throw new ConflictException(
+        'This account is already linked to another user',
+      );
+    }
+    if (
+      user.authProviders?.some((link) => link.provider === identity.provider)
+    ) {
+      throw new ConflictException(
+        `A ${identity.provider} account is already linked; unlink it first`,
+      );
+    }
+
+    await this.addProvider(user, identity);
+    return this.listProviders(userId);
+  }
+
+  /**
+   * Removes a provider, unless it is the only way left to sign in
+   */
+  async unlink(userId: string, provider: SocialProvider) {
+    const user = await this.findUser(userId);
+    const links = user.authProviders || [];
+    if (!links.some((link) => link.provider === provider)) {
+      throw new NotFoundException(`No ${provider} account is linked`);
+    }
+    if (user.hasPassword === false && links.length === 1) {
+      throw new BadRequestException(
+        'Set a password before unlinking your only sign-in method',
+      );
+    }
+
+    user.authProviders = links.filter((link) => link.provider !== provider);
+    await user.save();
+    return this.listProviders(userId);
+  }
+
+  private findLinkedUser(identity: SocialIdentity) {
+    return this.userService.findOne({
+      authProviders: {
+        $elemMatch: { provider: identity.provider, subject: identity.subject },
+      },
+    });
+  }
+
+  private assertActive(user: UserDocument) {
+    if (user.status === 'banned' || user.status === 'suspended') {
+      throw new UnauthorizedException(
+        'Your account has been suspended. Please contact support for assistance.',
+      );
+    }
+  }
+
+  private async addProvider(user: UserDocument, identity: SocialIdentity) {
+    user.authProviders = [
+      ...(user.authProviders || []),
+      {
+        provider: identity.provider,
+        subject: identity.subject,
+        email: identity.email,
+        linkedAt: new Date(),
+      },
+    ];
+    // The provider confirmed the address the account uses
+    if (
+      identity.emailVerified &&
+      !user.emailVerified &&
+      identity.email === user.email.toLowerCase()
+    ) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+    return user;
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable, UnauthorizedException, mixin } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { SocialProvider } from '../utils/social-identity';
+
+/**
+ * Verifies the posted provider ID token and stores the identity on
+ * `req.socialIdentity`, leaving `req.user` to JwtAuthGuard when a signed-in
+ * user links a provider
+ */
+export const SocialTokenGuard = (provider: SocialProvider) => {
+  @Injectable()
+  class ProviderTokenGuard extends AuthGuard(provider) {
+    getAuthenticateOptions() {
+      return { session: false, property: 'socialIdentity' };
+    }
+
+    handleRequest(error: any, identity: any, info: any) {
+      if (error || !identity) {
+        throw (
+          error ||
+          new UnauthorizedException(info?.message || 'Invalid sign-in token')
+        );
+      }
+      return identity;
+    }
+  }
+  return mixin(ProviderTokenGuard);
+};
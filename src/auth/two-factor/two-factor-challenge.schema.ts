@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { LoginMethod } from '../login-protection/login-attempt.schema';
+
+export type TwoFactorChallengeDocument = TwoFactorChallenge &
+  Document & {
+    _id: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+
+export enum TwoFactorChallengePurpose {
+  // Password was correct, a second factor completes the login
+  LOGIN = 'login',
+  // Password was correct but the account must enroll before signing in
+  ENROLL = 'enroll',
+}
+
+/**
+ * Pending login between the password step and the second factor. The
+ * client holds `<challengeId>.<secret>`; no session exists until the
+ * challenge is completed.
+ */
+@Schema({ timestamps: true, collection: 'two_factor_challenges' })
+export class TwoFactorChallenge {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, enum: TwoFactorChallengePurpose })
+  purpose: TwoFactorChallengePurpose;
+
+  @Prop({ required: true, select: false })
+  tokenHash: string;
+
+  // Emailed fallback code, hashed
+  @Prop({ select: false })
+  emailCodeHash?: string;
+
+  @Prop()
+  emailCodeSentAt?: Date;
+
+  @Prop()
+  emailCodeExpiresAt?: Date;
+
+  // Codes entered, counted before checking; the challenge dies at the limit
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ default: '' })
+  userAgent: string;
+
+  @Prop({ default: '' })
+  ip: string;
+
+  // How the first step was passed, for the login history
+  @Prop({ enum: LoginMethod, default: LoginMethod.PASSWORD })
+  method: LoginMethod;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  completedAt?: Date;
+}
+
+export const TwoFactorChallengeSchema =
+  SchemaFactory.createForClass(TwoFactorChallenge);
+
+TwoFactorChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
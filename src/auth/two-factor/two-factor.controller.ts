@@ -0,0 +1,160 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Public } from '../../decorators/public.decorator';
+import { JwtAuthGuard } from '../../guards/jwt-auth-guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { Roles } from '../../decorators/role.decorator';
+import { Role } from '../../constants';
+import { RequestWithUser } from '../../types/request-with-user.interface';
+import { TwoFactorActor, TwoFactorService } from './two-factor.service';
+import {
+  CompleteTwoFactorEnrollmentDto,
+  DisableTwoFactorDto,
+  EnableTwoFactorDto,
+  RegenerateRecoveryCodesDto,
+  TwoFactorChallengeDto,
+  VerifyTwoFactorLoginDto,
+} from '../dto/two-factor.dto';
+import { sessionContext } from '../utils/request-context';
+
+function actorOf(req: RequestWithUser): TwoFactorActor {
+  return {
+    id: req.user._id.toString(),
+    email: req.user.email,
+    ...sessionContext(req),
+  };
+}
+
+@ApiTags('Two-factor authentication')
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Public()
+  @Post('login/verify')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Answer a login challenge and sign in' })
+  verifyLogin(@Body() dto: VerifyTwoFactorLoginDto, @Req() req: Request) {
+    return this.twoFactorService.completeLogin(
+      dto.challengeToken,
+      dto.code,
+      dto.method,
+      sessionContext(req),
+    );
+  }
+
+  @Public()
+  @Post('login/email-code')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Email a one-time code for a login challenge' })
+  sendLoginEmailCode(@Body() dto: TwoFactorChallengeDto) {
+    return this.twoFactorService.sendLoginEmailCode(dto.challengeToken);
+  }
+
+  @Public()
+  @Post('enroll/setup')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Authenticator secret for a required enrollment' })
+  setupEnrollment(@Body() dto: TwoFactorChallengeDto) {
+    return this.twoFactorService.setupEnrollment(dto.challengeToken);
+  }
+
+  @Public()
+  @Post('enroll/verify')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Confirm a required enrollment and sign in' })
+  completeEnrollment(
+    @Body() dto: CompleteTwoFactorEnrollmentDto,
+    @Req() req: Request,
+  ) {
+    return this.twoFactorService.completeEnrollment(
+      dto.challengeToken,
+      dto.code,
+      sessionContext(req),
+    );
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Own two-factor status' })
+  getStatus(@Req() req: RequestWithUser) {
+    return this.twoFactorService.getStatus(req.user._id.toString());
+  }
+
+  @Post('setup')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start authenticator enrollment' })
+  setup(@Req() req: RequestWithUser) {
+    return this.twoFactorService.setup(req.user._id.toString());
+  }
+
+  @Post('enable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Confirm enrollment; returns recovery codes once' })
+  enable(@Req() req: RequestWithUser, @Body() dto: EnableTwoFactorDto) {
+    return this.twoFactorService.enable(
+      req.user._id.toString(),
+      dto.code,
+      actorOf(req),
+    );
+  }
+
+  @Post('disable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Turn two-factor authentication off' })
+  async disable(@Req() req: RequestWithUser, @Body() dto: DisableTwoFactorDto) {
+    await this.twoFactorService.disable(
+      req.user._id.toString(),
+      dto.password,
+      dto.code,
+      dto.method,
+      actorOf(req),
+    );
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Post('recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Replace the recovery codes' })
+  regenerateRecoveryCodes(
+    @Req() req: RequestWithUser,
+    @Body() dto: RegenerateRecoveryCodesDto,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(
+      req.user._id.toString(),
+      dto.code,
+    );
+  }
+
+  @Delete('admin/users/:userId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove the second factor of a user who lost it' })
+  async adminReset(
+    @Req() req: RequestWithUser,
+    @Param('userId') userId: string,
+  ) {
+    await this.twoFactorService.adminReset(userId, actorOf(req));
+    return { message: 'Two-factor authentication reset' };
+  }
+}
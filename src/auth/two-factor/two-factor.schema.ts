@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type TwoFactorAuthDocument = TwoFactorAuth &
+  Document & {
+    _id: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+
+/**
+ * Second-factor credentials of a user, kept apart from the user document
+ * so they never leak through user queries. `User.twoFactorEnabled` mirrors
+ * `enabledAt` for the login flow and clients.
+ */
+@Schema({ timestamps: true, collection: 'user_two_factor' })
+export class TwoFactorAuth {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  userId: Types.ObjectId;
+
+  // Sealed TOTP secret in use; set once enrollment is confirmed
+  @Prop({ select: false })
+  secret?: string;
+
+  // Sealed secret awaiting its first valid code
+  @Prop({ select: false })
+  pendingSecret?: string;
+
+  @Prop()
+  pendingCreatedAt?: Date;
+
+  // SHA-256 of the unused recovery codes
+  @Prop({ type: [String], default: [], select: false })
+  recoveryCodeHashes: string[];
+
+  // Last accepted TOTP time step, so a code cannot be replayed
+  @Prop()
+  lastUsedStep?: number;
+
+  @Prop()
+  enabledAt?: Date;
+
+  @Prop()
+  lastVerifiedAt?: Date;
+}
+
+export const TwoFactorAuthSchema = SchemaFactory.createForClass(TwoFactorAuth);
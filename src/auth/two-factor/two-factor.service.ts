@@ -0,0 +1,688 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { TwoFactorAuth, TwoFactorAuthDocument } from './two-factor.schema';
+import {
+  TwoFactorChallenge,
+  TwoFactorChallengeDocument,
+  TwoFactorChallengePurpose,
+} from './two-factor-challenge.schema';
+import { TwoFactorMethod } from '../dto/two-factor.dto';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashOneTimeCode,
+  normalizeRecoveryCode,
+  openSecret,
+  otpauthUri,
+  sealSecret,
+  verifyTotp,
+} from '../utils/totp';
+import { describeUserAgent } from '../utils/user-agent';
+import { AuthService } from '../auth.service';
+import {
+  AuthSessionService,
+  SessionContext,
+} from '../sessions/auth-session.service';
+import { SessionRevokeReason } from '../sessions/auth-session.schema';
+import { LoginProtectionService } from '../login-protection/login-protection.service';
+import {
+  LoginFailureReason,
+  LoginMethod,
+} from '../login-protection/login-attempt.schema';
+import { UserService } from '../../users/users.service';
+import { EmailService } from '../../email/email.service';
+import {
+  AdminLog,
+  AdminLogDocument,
+} from '../../admin/schemas/admin-log.schema';
+
+const LOGIN_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const ENROLL_CHALLENGE_TTL_MS = 15 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const EMAIL_CODE_TTL_MINUTES = 10;
+const EMAIL_CODE_RESEND_MS = 60 * 1000;
+// An unconfirmed secret must be confirmed within this time
+const PENDING_SECRET_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Who performed a 2FA change, recorded in the admin log
+ */
+export interface TwoFactorActor extends SessionContext {
+  id: string;
+  email: string;
+}
+
+const hashToken = (secret: string) =>
+  crypto.createHash('sha256').update(secret).digest('hex');
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectModel(TwoFactorAuth.name)
+    private readonly twoFactorModel: Model<TwoFactorAuthDocument>,
+    @InjectModel(TwoFactorChallenge.name)
+    private readonly challengeModel: Model<TwoFactorChallengeDocument>,
+    @InjectModel(AdminLog.name)
+    private readonly adminLogModel: Model<AdminLogDocument>,
+    private readonly authService: AuthService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly loginProtectionService: LoginProtectionService,
+    private readonly userService: UserService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Second step of a password or social login. Accounts with 2FA get a
+   * challenge to answer, admins without it a challenge to enroll first;
+   * everyone else is signed in right away. The login only counts as a
+   * success, and clears the account's failures, once the challenge passes.
+   */
+  async beginLogin(
+    user: any,
+    context: SessionContext = {},
+    method: LoginMethod = LoginMethod.PASSWORD,
+  ) {
+    if (user.twoFactorEnabled) {
+      const { token, challenge } = await this.createChallenge(
+        user._id.toString(),
+        TwoFactorChallengePurpose.LOGIN,
+        context,
+        method,
+      );
+      return {
+        twoFactorRequired: true,
+        challengeToken: token,
+        methods: Object.values(TwoFactorMethod),
+        expiresAt: challenge.expiresAt,
+      };
+    }
+
+    if (this.authService.isTwoFactorMandatory(user)) {
+      const { token, challenge } = await this.createChallenge(
+        user._id.toString(),
+        TwoFactorChallengePurpose.ENROLL,
+        context,
+        method,
+      );
+      return {
+        twoFactorSetupRequired: true,
+        challengeToken: token,
+        expiresAt: challenge.expiresAt,
+      };
+    }
+
+    await this.loginProtectionService.recordSuccess(user, context, method);
+    return this.authService.login(user, context);
+  }
+
+  /**
+   * Emails a one-time code for a login challenge, the fallback when the
+   * authenticator is not at hand
+   */
+  async sendLoginEmailCode(challengeToken: string) {
+    const challenge = await this.findChallenge(
+      challengeToken,
+      TwoFactorChallengePurpose.LOGIN,
+    );
+    if (
+      challenge.emailCodeSentAt &&
+      Date.now() - challenge.emailCodeSentAt.getTime() < EMAIL_CODE_RESEND_MS
+    ) {
+      throw new BadRequestException(
+        'Please wait a minute before requesting another code',
+      );
+    }
+
+    const user = await this.findUser(challenge.userId.toString());
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+    const expiresAt = new Date(Date.now() + EMAIL_CODE_TTL_MINUTES * 60000);
+    await this.challengeModel.updateOne(
+      { _id: challenge._id },
+      {
+        $set: {
+          emailCodeHash: hashOneTimeCode(`${challenge._id}:${code}`),
+          emailCodeSentAt: new Date(),
+          emailCodeExpiresAt: expiresAt,
+        },
+      },
+    );
+
+    await this.emailService.sendTwoFactorCodeEmail(user.email, {
+      firstName: user.firstName,
+      code,
+      expiresInMinutes: EMAIL_CODE_TTL_MINUTES,
+      device: challenge.userAgent
+        ? describeUserAgent(challenge.userAgent)
+        : undefined,
+    });
+
+    return { message: 'Verification code sent', expiresAt };
+  }
+
+  /**
+   * Answers a login challenge and signs the user in
+   */
+  async completeLogin(
+    challengeToken: string,
+    code: string,
+    method: TwoFactorMethod = TwoFactorMethod.TOTP,
+    context: SessionContext = {},
+  ) {
+    const challenge = await this.findChallenge(
+      challengeToken,
+      TwoFactorChallengePurpose.LOGIN,
+    );
+    const user = await this.findUser(challenge.userId.toString());
+    const attempt = await this.claimAttempt(challenge);
+
+    const valid =
+      method === TwoFactorMethod.EMAIL
+        ? this.matchesEmailCode(challenge, code)
+        : await this.verifyFactor(user._id.toString(), code, method);
+    if (!valid) {
+      await this.failAttempt(attempt, user.email, context);
+    }
+
+    await this.completeChallenge(challenge);
+    if (method === TwoFactorMethod.RECOVERY) {
+      this.logger.warn(`User ${user._id} signed in with a recovery code`);
+    }
+    const loginUser = this.toLoginUser(user);
+    await this.loginProtectionService.recordSuccess(
+      loginUser,
+      context,
+      challenge.method,
+    );
+    return this.authService.login(loginUser, context);
+  }
+
+  /**
+   * Secret for an admin enrolling during login
+   */
+  async setupEnrollment(challengeToken: string) {
+    const challenge = await this.findChallenge(
+      challengeToken,
+      TwoFactorChallengePurpose.ENROLL,
+    );
+    return this.setup(challenge.userId.toString());
+  }
+
+  /**
+   * Confirms the enrollment started at login and signs the admin in
+   */
+  async completeEnrollment(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {},
+  ) {
+    const challenge = await this.findChallenge(
+      challengeToken,
+      TwoFactorChallengePurpose.ENROLL,
+    );
+    const user = await this.findUser(challenge.userId.toString());
+    const attempt = await this.claimAttempt(challenge);
+
+    let recoveryCodes: string[];
+    try {
+      ({ recoveryCodes } = await this.enable(user._id.toString(), code, {
+        id: user._id.toString(),
+        email: user.email,
+        ...context,
+      }));
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.failAttempt(attempt, user.email, context);
+      }
+      throw error;
+    }
+
+    await this.completeChallenge(challenge);
+    const enrolled = this.toLoginUser(await this.findUser(user._id.toString()));
+    await this.loginProtectionService.recordSuccess(
+      enrolled,
+      context,
+      challenge.method,
+    );
+    return {
+      ...(await this.authService.login(enrolled, context)),
+      recoveryCodes,
+    };
+  }
+
+  async getStatus(userId: string) {
+    const user = await this.findUser(userId);
+    const record = await this.twoFactorModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .select('+recoveryCodeHashes')
+      .lean();
+
+    return {
+      enabled: !!user.twoFactorEnabled,
+      required: this.authService.isTwoFactorMandatory(user),
+      enabledAt: record?.enabledAt ?? null,
+      lastVerifiedAt: record?.lastVerifiedAt ?? null,
+      recoveryCodesRemaining: user.twoFactorEnabled
+        ? (record?.recoveryCodeHashes?.length ?? 0)
+        : 0,
+    };
+  }
+
+  /**
+   * Starts TOTP enrollment with a fresh secret. Nothing changes for the
+   * account until a code from the app confirms it.
+   */
+  async setup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.twoFactorModel.updateOne(
+      { userId: user._id },
+      {
+        $set: {
+          pendingSecret: sealSecret(secret, this.encryptionKey()),
+          pendingCreatedAt: new Date(),
+        },
+      },
+      { upsert: true },
+    );
+
+    const issuer =
+      this.configService.get<string>('twoFactor.issuer') || 'Day Trade Dak';
+    return {
+      secret,
+      otpauthUri: otpauthUri(issuer, user.email, secret),
+      expiresAt: new Date(Date.now() + PENDING_SECRET_TTL_MS),
+    };
+  }
+
+  /**
+   * Confirms the pending secret with a code from the app and turns 2FA on.
+   * Recovery codes are returned this once.
+   */
+  async enable(userId: string, code: string, actor: TwoFactorActor) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const record = await this.twoFactorModel
+      .findOne({ userId: user._id })
+      .select('+pendingSecret');
+    if (
+      !record?.pendingSecret ||
+      !record.pendingCreatedAt ||
+      Date.now() - record.pendingCreatedAt.getTime() > PENDING_SECRET_TTL_MS
+    ) {
+      throw new BadRequestException(
+        'No enrollment in progress, please start the setup again',
+      );
+    }
+
+    const secret = openSecret(record.pendingSecret, this.encryptionKey());
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.twoFactorModel.updateOne(
+      { _id: record._id },
+      {
+        $set: {
+          secret: record.pendingSecret,
+          recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+            hashOneTimeCode(normalizeRecoveryCode(recoveryCode)),
+          ),
+          lastUsedStep: step,
+          enabledAt: new Date(),
+          lastVerifiedAt: new Date(),
+        },
+        $unset: { pendingSecret: 1, pendingCreatedAt: 1 },
+      },
+    );
+    user.twoFactorEnabled = true;
+    await user.save();
+
+    await this.audit('enable_two_factor', user, actor);
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turns 2FA off after checking the password, if the account has one, and
+   * a current code. Accounts required to use 2FA cannot turn it off.
+   */
+  async disable(
+    userId: string,
+    password: string | undefined,
+    code: string,
+    method: TwoFactorMethod = TwoFactorMethod.TOTP,
+    actor: TwoFactorActor,
+  ) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (this.authService.isTwoFactorMandatory(user)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for administrator accounts',
+      );
+    }
+    // Accounts created through Google or Apple have no password to confirm
+    if (
+      user.hasPassword !== false &&
+      !(await bcrypt.compare(password || '', user.password))
+    ) {
+      throw new UnauthorizedException('Invalid password');
+    }
+    if (!(await this.verifyFactor(userId, code, method))) {
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    await this.removeFactor(user);
+    await this.audit('disable_two_factor', user, actor, { method });
+  }
+
+  /**
+   * Replaces every recovery code, used or not
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyFactor(userId, code, TwoFactorMethod.TOTP))) {
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.twoFactorModel.updateOne(
+      { userId: user._id },
+      {
+        $set: {
+          recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+            hashOneTimeCode(normalizeRecoveryCode(recoveryCode)),
+          ),
+        },
+      },
+    );
+    return { recoveryCodes };
+  }
+
+  /**
+   * Removes the second factor of a user who lost it. Their sessions end so
+   * the next login goes through enrollment again where it is required.
+   */
+  async adminReset(userId: string, actor: TwoFactorActor) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    await this.removeFactor(user);
+    await this.authSessionService.revokeAll(
+      userId,
+      SessionRevokeReason.TWO_FACTOR_RESET,
+    );
+    await this.audit('reset_two_factor', user, actor);
+  }
+
+  // TOTP codes are accepted once per time step and recovery codes once
+  // ever; both checks are atomic so parallel requests cannot reuse a code
+  private async verifyFactor(
+    userId: string,
+    code: string,
+    method: TwoFactorMethod,
+  ): Promise<boolean> {
+    const filter = { userId: new Types.ObjectId(userId) };
+
+    if (method === TwoFactorMethod.RECOVERY) {
+      const hash = hashOneTimeCode(normalizeRecoveryCode(code));
+      const result = await this.twoFactorModel.updateOne(
+        { ...filter, recoveryCodeHashes: hash },
+        {
+          $pull: { recoveryCodeHashes: hash },
+          $set: { lastVerifiedAt: new Date() },
+        },
+      );
+      return result.modifiedCount > 0;
+    }
+
+    if (method !== TwoFactorMethod.TOTP) {
+      return false;
+    }
+    const record = await this.twoFactorModel
+      .findOne(filter)
+      .select('+secret')
+      .lean();
+    if (!record?.secret) {
+      return false;
+    }
+    const step = verifyTotp(
+      openSecret(record.secret, this.encryptionKey()),
+      code,
+    );
+    if (step === null) {
+      return false;
+    }
+    const result = await this.twoFactorModel.updateOne(
+      {
+        ...filter,
+        $or: [
+          { lastUsedStep: { $exists: false } },
+          { lastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { lastUsedStep: step, lastVerifiedAt: new Date() } },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  private matchesEmailCode(
+    challenge: TwoFactorChallengeDocument,
+    code: string,
+  ): boolean {
+    if (
+      !challenge.emailCodeHash ||
+      !challenge.emailCodeExpiresAt ||
+      challenge.emailCodeExpiresAt <= new Date()
+    ) {
+      return false;
+    }
+    const normalized = String(code || '').replace(/\s/g, '');
+    return (
+      hashOneTimeCode(`${challenge._id}:${normalized}`) ===
+      challenge.emailCodeHash
+    );
+  }
+
+  private async createChallenge(
+    userId: string,
+    purpose: TwoFactorChallengePurpose,
+    context: SessionContext,
+    method: LoginMethod,
+  ) {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const ttl =
+      purpose === TwoFactorChallengePurpose.ENROLL
+        ? ENROLL_CHALLENGE_TTL_MS
+        : LOGIN_CHALLENGE_TTL_MS;
+    const challenge = await this.challengeModel.create({
+      userId: new Types.ObjectId(userId),
+      purpose,
+      tokenHash: hashToken(secret),
+      userAgent: (context.userAgent || '').slice(0, 500),
+      ip: context.ip || '',
+      method,
+      expiresAt: new Date(Date.now() + ttl),
+    });
+    return { challenge, token: `${challenge._id}.${secret}` };
+  }
+
+  private async findChallenge(
+    challengeToken: string,
+    purpose: TwoFactorChallengePurpose,
+  ): Promise<TwoFactorChallengeDocument> {
+    const [challengeId, secret] = String(challengeToken || '').split('.');
+    const challenge =
+      secret && Types.ObjectId.isValid(challengeId)
+        ? await this.challengeModel
+            .findById(challengeId)
+            .select('+tokenHash +emailCodeHash')
+        : null;
+    if (
+      !challenge ||
+      challenge.tokenHash !== hashToken(secret) ||
+      challenge.purpose !== purpose ||
+      challenge.completedAt ||
+      challenge.expiresAt <= new Date() ||
+      challenge.attempts >= MAX_CHALLENGE_ATTEMPTS
+    ) {
+      throw new UnauthorizedException(
+        'Verification expired, please sign in again',
+      );
+    }
+    return challenge;
+  }
+
+  // Counted before the code is checked, so parallel guesses cannot all
+  // slip under the limit
+  private async claimAttempt(challenge: TwoFactorChallengeDocument) {
+    const claimed = await this.challengeModel.findOneAndUpdate(
+      {
+        _id: challenge._id,
+        completedAt: { $exists: false },
+        attempts: { $lt: MAX_CHALLENGE_ATTEMPTS },
+      },
+      { $inc: { attempts: 1 } },
+      { new: true },
+    );
+    if (!claimed) {
+      throw new UnauthorizedException(
+        'Verification expired, please sign in again',
+      );
+    }
+    return claimed;
+  }
+
+  // Wrong codes also count toward the account and IP lockouts, so new
+  // challenges cannot be used to keep guessing
+  private async failAttempt(
+    attempt: TwoFactorChallengeDocument,
+    email: string,
+    context: SessionContext,
+  ) {
+    await this.loginProtectionService.recordFailure(
+      email,
+      context,
+      LoginFailureReason.INVALID_TWO_FACTOR_CODE,
+    );
+    throw new UnauthorizedException(
+      attempt.attempts >= MAX_CHALLENGE_ATTEMPTS
+        ? 'Too many invalid codes, please sign in again'
+        : 'Invalid verification code',
+    );
+  }
+
+  // A challenge signs in once, even when answered twice in parallel
+  private async completeChallenge(challenge: TwoFactorChallengeDocument) {
+    const result = await this.challengeModel.updateOne(
+      { _id: challenge._id, completedAt: { $exists: false } },
+      { $set: { completedAt: new Date() } },
+    );
+    if (result.modifiedCount === 0) {
+      throw new UnauthorizedException(
+        'Verification expired, please sign in again',
+      );
+    }
+  }
+
+  private async removeFactor(user: any) {
+    await this.twoFactorModel.deleteOne({ userId: user._id });
+    user.twoFactorEnabled = false;
+    await user.save();
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.status === 'banned' || user.status === 'suspended') {
+      throw new UnauthorizedException(
+        'Your account has been suspended. Please contact support for assistance.',
+      );
+    }
+    return user;
+  }
+
+  // Same shape as AuthService.validateUser
+  private toLoginUser(user: any) {
+    const result = user.toObject();
+    delete result.password;
+    return result;
+  }
+
+  private encryptionKey(): string {
+    const key =
+      this.configService.get<string>('twoFactor.encryptionKey') ||
+      this.configService.get<string>('JWT_SECRET');
+    if (!key) {
+      throw new Error('No key configured to seal two-factor secrets');
+    }
+    return key;
+  }
+
+  // Security changes are kept in the admin log whoever makes them; a
+  // failure to log never undoes the change
+  private async audit(
+    action: string,
+    user: any,
+    actor: TwoFactorActor,
+    details: Record<string, any> = {},
+  ) {
+    try {
+      await this.adminLogModel.create({
+        adminId: actor.id,
+        adminEmail: actor.email,
+        action,
+        resource: 'two_factor',
+        resourceId: user._id,
+        details: {
+          ...details,
+          userEmail: user.email,
+          role: user.role,
+          self: actor.id === user._id.toString(),
+        },
+        newValue: { twoFactorEnabled: !!user.twoFactorEnabled },
+        ipAddress: actor.ip || '0.0.0.0',
+        userAgent: actor.userAgent,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to log ${action} for user ${user._id}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  blockedForSeconds,
+  LoginAnomaly,
+  loginAnomalies,
+  registerFailure,
+  retryDelaySeconds,
+  ThrottlePolicy,
+  ThrottleState,
+} from './login-throttle';
+
+const policy: ThrottlePolicy = {
+  freeAttempts: 3,
+  maxFailures: 6,
+  lockoutSeconds: 900,
+  windowSeconds: 3600,
+};
+
+describe('login throttle', () => {
+  it('delays attempts progressively after the free ones', () => {
+    expect(
+      [1, 2, 3, 4, 5, 6, 20].map((n) => retryDelaySeconds(n, policy)),
+    ).toEqual([0, 0, 0, 1, 2, 4, 60]);
+  });
+
+  it('locks out at the limit and doubles later lockouts', () => {
+    let state: ThrottleState = null;
+    for (let i = 0; i < 6; i++) {
+      state = registerFailure(state, 1_000, policy);
+    }
+    expect(state.failures).toBe(0);
+    expect(state.lockouts).toBe(1);
+    expect(blockedForSeconds(state, 1_000, policy)).toBe(900);
+    expect(blockedForSeconds(state, 1_000 + 900_000, policy)).toBe(0);
+
+    for (let i = 0; i < 6; i++) {
+      state = registerFailure(state, 2_000_000, policy);
+    }
+    expect(blockedForSeconds(state, 2_000_000, policy)).toBe(1800);
+  });
+
+  it('waits out the delay of the last failure', () => {
+    const state = { failures: 5, lastFailureAt: 10_000, lockouts: 0 };
+    expect(blockedForSeconds(state, 10_500, policy)).toBe(2);
+    expect(blockedForSeconds(state, 12_000, policy)).toBe(0);
+    expect(blockedForSeconds(null, 0, policy)).toBe(0);
+  });
+});
+
+describe('login anomalies', () => {
+  const history = [
+    { ip: '1.1.1.1', device: 'Chrome on Windows', country: 'MX' },
+    { ip: '2.2.2.2', device: 'Safari on iOS', country: 'MX' },
+  ];
+
+  it('flags what the account has not used before', () => {
+    expect(
+      loginAnomalies(history, {
+        ip: '2.2.2.2',
+        device: 'Safari on iOS',
+        country: 'MX',
+      }),
+    ).toEqual([]);
+    expect(
+      loginAnomalies(history, {
+        ip: '3.3.3.3',
+        device: 'Firefox on Linux',
+        country: 'US',
+      }),
+    ).toEqual([
+      LoginAnomaly.NEW_DEVICE,
+      LoginAnomaly.NEW_COUNTRY,
+      LoginAnomaly.NEW_IP,
+    ]);
+  });
+
+  it('ignores first logins and unknown countries', () => {
+    expect(loginAnomalies([], { ip: '1.1.1.1' })).toEqual([]);
+    expect(
+      loginAnomalies([{ ip: '1.1.1.1', device: 'Chrome on Windows' }], {
+        ip: '1.1.1.1',
+        device: 'Chrome on Windows',
+        country: 'MX',
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Failed-login bookkeeping for one account or one IP. The first failures
+ * are free; after that each attempt must wait twice as long as the last,
+ * and reaching the limit locks the key out. Repeated lockouts grow longer.
+ */
+
+export interface ThrottleState {
+  // Failures since the last lockout or successful login
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil?: number;
+  lockouts: number;
+}
+
+export interface ThrottlePolicy {
+  freeAttempts: number;
+  maxFailures: number;
+  lockoutSeconds: number;
+  // How long failures are remembered without new ones
+  windowSeconds: number;
+}
+
+const MAX_DELAY_SECONDS = 60;
+const MAX_LOCKOUT_SECONDS = 24 * 3600;
+
+/**
+ * Seconds the next attempt has to wait after `failures` failures
+ */
+export function retryDelaySeconds(
+  failures: number,
+  policy: ThrottlePolicy,
+): number {
+  const extra = failures - policy.freeAttempts;
+  return extra > 0 ? Math.min(2 ** (extra - 1), MAX_DELAY_SECONDS) : 0;
+}
+
+export function registerFailure(
+  state: ThrottleState | null,
+  now: number,
+  policy: ThrottlePolicy,
+): ThrottleState {
+  const next: ThrottleState = {
+    failures: (state?.failures || 0) + 1,
+    lastFailureAt: now,
+    lockouts: state?.lockouts || 0,
+  };
+  if (next.failures >= policy.maxFailures) {
+    const seconds = Math.min(
+      policy.lockoutSeconds * 2 ** next.lockouts,
+      MAX_LOCKOUT_SECONDS,
+    );
+    next.lockedUntil = now + seconds * 1000;
+    next.lockouts += 1;
+    next.failures = 0;
+  }
+  return next;
+}
+
+/**
+ * Seconds before the key may try again, 0 when it may try now
+ */
+export function blockedForSeconds(
+  state: ThrottleState | null,
+  now: number,
+  policy: ThrottlePolicy,
+): number {
+  if (!state) {
+    return 0;
+  }
+  const until = Math.max(
+    state.lockedUntil || 0,
+    state.lastFailureAt + retryDelaySeconds(state.failures, policy) * 1000,
+  );
+  return until > now ? Math.ceil((until - now) / 1000) : 0;
+}
+
+/**
+ * Seconds the state has to be kept: the failure window, or longer while a
+ * lockout is running
+ */
+export function stateTtlSeconds(
+  state: ThrottleState,
+  now: number,
+  policy: ThrottlePolicy,
+): number {
+  const locked = state.lockedUntil
+    ? Math.ceil((state.lockedUntil - now) / 1000)
+    : 0;
+  return Math.max(policy.windowSeconds, locked + policy.windowSeconds);
+}
+
+export interface KnownLogin {
+  ip?: string;
+  device?: string;
+  country?: string;
+}
+
+export enum LoginAnomaly {
+  NEW_DEVICE = 'new_device',
+  NEW_IP = 'new_ip',
+  NEW_COUNTRY = 'new_country',
+}
+
+/**
+ * What is new about a login compared to the account's earlier successful
+ * logins. A first login has nothing to compare against.
+ */
+export function loginAnomalies(
+  previous: KnownLogin[],
+  current: KnownLogin,
+): LoginAnomaly[] {
+  if (previous.length === 0) {
+    return [];
+  }
+  const seen = (field: keyof KnownLogin) =>
+    new Set(previous.map((login) => login[field]).filter(Boolean));
+  const isNew = (field: keyof KnownLogin) => {
+    const known = seen(field);
+    // Without earlier values there is nothing to tell it apart from
+    return !!current[field] && known.size > 0 && !known.has(current[field]);
+  };
+
+  const anomalies: LoginAnomaly[] = [];
+  if (isNew('device')) anomalies.push(LoginAnomaly.NEW_DEVICE);
+  if (isNew('country')) anomalies.push(LoginAnomaly.NEW_COUNTRY);
+  if (isNew('ip')) anomalies.push(LoginAnomaly.NEW_IP);
+  return anomalies;
+}
@@ -0,0 +1,31 @@
+import { Request } from 'express';
+import { SessionContext } from '../sessions/auth-session.service';
+
+// Device details stored on the session created at login. The IP comes from
+// Express, which only reads X-Forwarded-For through the trusted proxies
+// (`trust proxy` in main.ts), so clients cannot pick their own.
+export function sessionContext(req: Request): SessionContext {
+  return {
+    userAgent: req.headers['user-agent'] || '',
+    ip: req.ip || '',
+    country: requestCountry(req),
+  };
+}
+
+// Only the header of the proxy in front of the app (COUNTRY_HEADER) is
+// read, and only when that proxy is trusted: it overwrites its own header,
+// but passes along any other a client sends.
+function requestCountry(req: Request): string | undefined {
+  const header = process.env.COUNTRY_HEADER?.toLowerCase();
+  if (!header || !req.app?.get('trust proxy')) {
+    return undefined;
+  }
+  const value = String(req.headers[header] || '').toUpperCase();
+  // Cloudflare uses XX for unknown and T1 for Tor
+  return /^[A-Z]{2}$/.test(value) && value !== 'XX' ? value : undefined;
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice(7) : undefined;
+}
@@ -0,0 +1,76 @@
+import * as crypto from 'crypto';
+import {
+  identityFromClaims,
+  nonceMatches,
+  SocialProvider,
+} from './social-identity';
+
+describe('social identity', () => {
+  it('maps Google claims', () => {
+    expect(
+      identityFromClaims(SocialProvider.GOOGLE, {
+        sub: '1098',
+        email: ' Ana@Example.com ',
+        email_verified: true,
+        given_name: 'Ana',
+        family_name: 'García',
+      }),
+    ).toEqual({
+      provider: SocialProvider.GOOGLE,
+      subject: '1098',
+      email: 'ana@example.com',
+      emailVerified: true,
+      firstName: 'Ana',
+      lastName: 'García',
+    });
+  });
+
+  it('maps Apple claims with name hints and string flags', () => {
+    const identity = identityFromClaims(
+      SocialProvider.APPLE,
+      {
+        sub: '001234.abcd',
+        email: 'x7@privaterelay.appleid.com',
+        email_verified: 'true',
+      },
+      { firstName: ' Luis ', lastName: '' },
+    );
+    expect(identity.emailVerified).toBe(true);
+    expect(identity.firstName).toBe('Luis');
+    expect(identity.lastName).toBeUndefined();
+
+    expect(
+      identityFromClaims(SocialProvider.APPLE, {
+        sub: '001234.abcd',
+        email_verified: 'true',
+      }).emailVerified,
+    ).toBe(false);
+    expect(
+      identityFromClaims(SocialProvider.GOOGLE, {
+        sub: '1',
+        email: 'a@b.co',
+        email_verified: 'false',
+      }).emailVerified,
+    ).toBe(false);
+  });
+
+  it('matches raw and hashed nonces', () => {
+    const hashed = crypto.createHash('sha256').update('n-0S6').digest('hex');
+    const apple = SocialProvider.APPLE;
+    expect(nonceMatches(apple, 'n-0S6', 'n-0S6')).toBe(true);
+    expect(nonceMatches(apple, hashed, 'n-0S6')).toBe(true);
+    expect(nonceMatches(apple, 'other', 'n-0S6')).toBe(false);
+    expect(nonceMatches(apple, undefined, 'n-0S6')).toBe(false);
+    expect(nonceMatches(apple, 'n-0S6', undefined)).toBe(false);
+  });
+
+  it('requires a nonce for Apple only', () => {
+    expect(nonceMatches(SocialProvider.APPLE, undefined, undefined)).toBe(
+      false,
+    );
+    expect(nonceMatches(SocialProvider.GOOGLE, undefined, undefined)).toBe(
+      true,
+    );
+    expect(nonceMatches(SocialProvider.GOOGLE, 'n-0S6', undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import * as crypto from 'crypto';
+
+export enum SocialProvider {
+  GOOGLE = 'google',
+  APPLE = 'apple',
+}
+
+/**
+ * Verified identity taken from a provider ID token
+ */
+export interface SocialIdentity {
+  provider: SocialProvider;
+  // Stable account id at the provider (`sub`)
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+// Apple only shares the name with the app, on the very first sign-in
+export interface SocialNameHints {
+  firstName?: string;
+  lastName?: string;
+}
+
+const trimmed = (value: unknown, max = 100) =>
+  typeof value === 'string' && value.trim()
+    ? value.trim().slice(0, max)
+    : undefined;
+
+export function identityFromClaims(
+  provider: SocialProvider,
+  claims: Record<string, unknown>,
+  hints: SocialNameHints = {},
+): SocialIdentity {
+  const email = trimmed(claims.email, 254)?.toLowerCase();
+  return {
+    provider,
+    subject: String(claims.sub),
+    email,
+    // Apple sends the flag as a string
+    emailVerified:
+      !!email &&
+      (claims.email_verified === true || claims.email_verified === 'true'),
+    firstName: trimmed(claims.given_name) || trimmed(hints.firstName),
+    lastName: trimmed(claims.family_name) || trimmed(hints.lastName),
+  };
+}
+
+// Apple sign-in always runs with a nonce, so a token cannot be replayed
+const NONCE_REQUIRED: Record<SocialProvider, boolean> = {
+  [SocialProvider.GOOGLE]: false,
+  [SocialProvider.APPLE]: true,
+};
+
+/**
+ * Whether the token nonce matches the one the client generated. Some SDKs
+ * put the raw nonce in the token, others its SHA-256. A token minted with a
+ * nonce must come with it; only Google tokens may go without one on both
+ * sides.
+ */
+export function nonceMatches(
+  provider: SocialProvider,
+  tokenNonce: unknown,
+  nonce?: string,
+): boolean {
+  if (!nonce) {
+    return !NONCE_REQUIRED[provider] && tokenNonce === undefined;
+  }
+  if (typeof tokenNonce !== 'string') {
+    return false;
+  }
+  return (
+    tokenNonce === nonce ||
+    tokenNonce === crypto.createHash('sha256').update(nonce).digest('hex')
+  );
+}
@@ -0,0 +1,76 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  openSecret,
+  otpauthUri,
+  sealSecret,
+  totp,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B seed ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(base32Decode('gezd gnbv-gy3t').toString()).toBe('1234567');
+
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    const at = (seconds: number) => new Date(seconds * 1000);
+    expect(totp(RFC_SECRET, at(59), 8)).toBe('94287082');
+    expect(totp(RFC_SECRET, at(1111111109), 8)).toBe('07081804');
+    expect(totp(RFC_SECRET, at(1234567890), 8)).toBe('89005924');
+    expect(totp(RFC_SECRET, at(2000000000), 8)).toBe('69279037');
+    expect(totp(RFC_SECRET, at(59))).toBe('287082');
+  });
+
+  it('accepts one step of drift and returns the matched step', () => {
+    const now = new Date('2026-03-10T15:00:10Z');
+    const previous = new Date(now.getTime() - 30000);
+    const stale = new Date(now.getTime() - 90000);
+
+    expect(verifyTotp(RFC_SECRET, totp(RFC_SECRET, now), now)).toBe(
+      totpStep(now),
+    );
+    expect(verifyTotp(RFC_SECRET, totp(RFC_SECRET, previous), now)).toBe(
+      totpStep(now) - 1,
+    );
+    expect(verifyTotp(RFC_SECRET, totp(RFC_SECRET, stale), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('builds the provisioning uri', () => {
+    expect(otpauthUri('Day Trade Dak', 'ana@example.com', RFC_SECRET)).toBe(
+      'otpauth://totp/Day%20Trade%20Dak%3Aana%40example.com' +
+        `?secret=${RFC_SECRET}&issuer=Day+Trade+Dak&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+
+  it('generates distinct recovery codes', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/));
+    expect(normalizeRecoveryCode(' ABCDE-fghjk ')).toBe('abcdefghjk');
+  });
+
+  it('seals secrets with the given key only', () => {
+    const sealed = sealSecret(RFC_SECRET, 'key-one');
+    expect(sealed).not.toContain(RFC_SECRET);
+    expect(openSecret(sealed, 'key-one')).toBe(RFC_SECRET);
+    expect(() => openSecret(sealed, 'key-two')).toThrow();
+    expect(() => openSecret('garbage', 'key-one')).toThrow();
+  });
+});
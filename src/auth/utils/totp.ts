@@ -0,0 +1,191 @@
+import * as crypto from 'crypto';
+
+// RFC 6238 defaults understood by every authenticator app
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Recovery codes skip look-alike characters (0/o, 1/l/i)
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Random 160-bit secret, base32 encoded as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function hotp(
+  secret: Buffer,
+  counter: number,
+  digits = TOTP_DIGITS,
+): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', secret).update(message).digest();
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = digest[digest.length - 1] & 15;
+  const binary =
+    ((digest[offset] & 127) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export function totpStep(at: Date = new Date()): number {
+  return Math.floor(at.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function totp(
+  secret: string,
+  at: Date = new Date(),
+  digits = TOTP_DIGITS,
+): string {
+  return hotp(base32Decode(secret), totpStep(at), digits);
+}
+
+/**
+ * Time step a code belongs to, accepting `window` steps of clock drift on
+ * either side, or null when it matches none. Callers store the step to
+ * reject a code being replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  at: Date = new Date(),
+  window = 1,
+): number | null {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(at);
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = hotp(key, current + offset);
+    if (
+      crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))
+    ) {
+      return current + offset;
+    }
+  }
+  return null;
+}
+
+/**
+ * Provisioning URI rendered as a QR code by the client
+ */
+export function otpauthUri(
+  issuer: string,
+  accountName: string,
+  secret: string,
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Single-use codes shown once at enrollment, formatted `xxxxx-xxxxx`
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(
+      crypto.randomBytes(10),
+      (byte) => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length],
+    ).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return String(code || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+export function hashOneTimeCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Authenticated encryption of TOTP secrets at rest (AES-256-GCM). The key
+ * is derived from any string so the JWT secret can serve as a fallback.
+ */
+export function sealSecret(plain: string, key: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(key), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plain, 'utf8'),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString('base64url'))
+    .join('.');
+}
+
+export function openSecret(sealed: string, key: string): string {
+  const [iv, tag, encrypted] = String(sealed || '')
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !encrypted) {
+    throw new Error('Malformed sealed secret');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(key), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8',
+  );
+}
+
+function deriveKey(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest();
+}
@@ -0,0 +1,27 @@
+import { describeUserAgent } from './user-agent';
+
+describe('describeUserAgent', () => {
+  it('names the browser and system', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      ),
+    ).toBe('Chrome on Windows');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91',
+      ),
+    ).toBe('Edge on macOS');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1',
+      ),
+    ).toBe('Safari on iOS');
+  });
+
+  it('falls back for unknown agents', () => {
+    expect(describeUserAgent('PostmanRuntime/7.36.0')).toBe('API client');
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+    expect(describeUserAgent('something')).toBe('Unknown device');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Readable device label ("Chrome on Windows") from a User-Agent header, for
+ * the active sessions list. Order matters: Edge and Opera also claim to be
+ * Chrome, and Chrome claims to be Safari.
+ */
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/okhttp|Dart\/|CFNetwork|Expo/i, 'Mobile app'],
+  [/PostmanRuntime|curl\/|axios\//i, 'API client'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (value: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(value))?.[1] || null;
+
+export function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser = match(userAgent, BROWSERS);
+  const system = match(userAgent, SYSTEMS);
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || 'Unknown device';
+}
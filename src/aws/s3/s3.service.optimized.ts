@@ -11,6 +11,7 @@ import {
   ListObjectsV2Command,
   HeadObjectCommand,
   CopyObjectCommand,
+  DeleteObjectsCommand,
   S3ServiceException,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl as getS3SignedUrl } from '@aws-sdk/s3-request-presigner';
@@ -566,6 +567,134 @@ export class S3ServiceOptimized {
     }, this.CACHE_CLEANUP_INTERVAL);
   }
 
+  /**
+   * Presigned PUT URL for a direct upload from the client. Content type and
+   * length are part of the signature, so the upload must match them.
+   */
+  async getPresignedUploadUrl(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    expiresIn = 15 * 60,
+  ): Promise<string> {
+    try {
+      const command = new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentType: contentType,
+        ContentLength: contentLength,
+        CacheControl: 'max-age=31536000',
+      });
+
+      return await getS3SignedUrl(this.s3, command, { expiresIn });
+    } catch (error) {
+      this.customLogger.error(
+        `Failed to generate upload URL for key: ${key}`,
+        error.stack,
+        'S3Service',
+      );
+      throw new InternalServerErrorException('Failed to generate upload URL');
+    }
+  }
+
+  // Download an object into memory (small files only)
+  async getObjectBuffer(
+    key: string,
+  ): Promise<{ buffer: Buffer; contentType?: string } | null> {
+    try {
+      const response = await this.s3.send(
+        new GetObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+      const bytes = await response.Body?.transformToByteArray();
+      if (!bytes) {
+        return null;
+      }
+      return { buffer: Buffer.from(bytes), contentType: response.ContentType };
+    } catch (error) {
+      if (error?.name === 'NoSuchKey') {
+        return null;
+      }
+      this.logger.error(`Failed to download ${key}:`, error);
+      throw new InternalServerErrorException('Failed to retrieve file');
+    }
+  }
+
+  async uploadBuffer(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    metadata: Record<string, string> = {},
+  ): Promise<UploadResult> {
+    try {
+      await this.uploadWithRetry({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'max-age=31536000',
+        Metadata: {
+          ...metadata,
+          uploadedAt: new Date().toISOString(),
+        },
+      });
+
+      const url = this.useCloudFront
+        ? `https://${this.cloudFrontDomain}/${key}`
+        : `https://${this.bucketName}.s3.${this.configService.get<string>('AWS_REGION')}.amazonaws.com/${key}`;
+
+      return { url, key, size: body.length };
+    } catch (error) {
+      this.customLogger.error(
+        `Failed to upload ${key}`,
+        error.stack,
+        'S3Service',
+      );
+      throw new InternalServerErrorException('Failed to upload file');
+    }
+  }
+
+  async deleteObjects(keys: string[]): Promise<void> {
+    const unique = [...new Set(keys.filter(Boolean))];
+
+    // DeleteObjects accepts up to 1000 keys per request
+    for (let i = 0; i < unique.length; i += 1000) {
+      const batch = unique.slice(i, i + 1000);
+      await this.s3.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucketName,
+          Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+        }),
+      );
+      batch.forEach((key) => this.signedUrlCache.delete(key));
+    }
+  }
+
+  // Keys and modification dates of every object under a prefix
+  async listObjects(
+    prefix: string,
+  ): Promise<{ key: string; lastModified?: Date }[]> {
+    const objects: { key: string; lastModified?: Date }[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.s3.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      (response.Contents || []).forEach((item) =>
+        objects.push({ key: item.Key, lastModified: item.LastModified }),
+      );
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
   // Get video metadata from S3 object
   async getVideoMetadata(key: string): Promise<any> {
     try {
@@ -70,6 +70,11 @@ export class CacheService implements OnModuleDestroy {
     }
   }
 
+  // Callers that must not lose writes can fall back to their own store
+  isAvailable(): boolean {
+    return this.isConnected;
+  }
+
   async get<T>(key: string): Promise<T | null> {
     if (!this.isConnected) {
       this.logger.debug(
@@ -26,6 +26,7 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../guards/jwt-auth-guard';
+import { EmailVerifiedGuard } from '../guards/email-verified.guard';
 import { ChatbotService } from './chatbot.service';
 import { VectorStoreService } from './embeddings/vector-store.service';
 import { KnowledgeBaseSeedService, SeedResult } from './seeds/seed.service';
@@ -99,7 +100,7 @@ export class ChatbotController {
   // ==================== User Endpoints (Authenticated) ====================
 
   @Post('message')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Send a message to the chatbot' })
   @ApiResponse({
@@ -108,6 +109,7 @@ export class ChatbotController {
     type: ChatResponseDto,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Email not verified' })
   @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
   async sendMessage(
     @Request() req,
@@ -32,6 +32,9 @@ export default () => ({
     s3: {
       bucketName: process.env.AWS_S3_BUCKET_NAME,
       profileImageFolder: process.env.AWS_S3_PROFILE_IMAGE_FOLDER,
+      tradeScreenshotFolder:
+        process.env.AWS_S3_TRADE_SCREENSHOT_FOLDER ||
+        'trading-journal/screenshots',
       classFolder: process.env.AWS_S3_CLASS_VIDEO_FOLDER,
       mentorshipFolder: process.env.AWS_S3_MENTORSHIP_FOLDER,
       stockFolder: process.env.AWS_S3_STOCK_VIDEO_FOLDER,
@@ -51,6 +54,46 @@ export default () => ({
   jwt: {
     secret: process.env.JWT_SECRET,
     expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    // Short-lived access tokens, renewed with a rotating refresh token
+    accessExpiresIn: process.env.JWT_ACCESS_EXPIRES_IN || '15m',
+    refreshExpiresInDays:
+      parseInt(process.env.JWT_REFRESH_EXPIRES_IN_DAYS, 10) || 30,
+  },
+
+  // Two-factor authentication
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Day Trade Dak',
+    // Seals TOTP secrets at rest; falls back to the JWT secret
+    encryptionKey:
+      process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET,
+    enforceForAdmins: process.env.TWO_FACTOR_ENFORCE_ADMINS !== 'false',
+  },
+
+  // Brute-force protection on auth/login
+  loginProtection: {
+    // Failures before a temporary lockout, per account and per IP. IPs get
+    // more room since offices and mobile carriers share addresses.
+    maxAccountFailures:
+      parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES, 10) || 10,
+    maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES, 10) || 50,
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES, 10) || 15,
+    // Failures after which the login form must send a reCAPTCHA token
+    captchaAfter: parseInt(process.env.LOGIN_CAPTCHA_AFTER, 10) || 3,
+    alertsEnabled: process.env.LOGIN_ALERTS_ENABLED !== 'false',
+  },
+
+  // Social sign-in: ID token audiences accepted per provider
+  social: {
+    // Web, iOS and Android OAuth client ids
+    googleClientIds: (process.env.GOOGLE_CLIENT_IDS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    // App bundle id and web Services ID
+    appleClientIds: (process.env.APPLE_CLIENT_IDS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
   },
 
   // Stripe
@@ -67,6 +110,24 @@ export default () => ({
   // Finnhub
   finnhub: {
     apiKey: process.env.FINNHUB_API_KEY,
+    // Minimum interval between ticks pushed to browser clients per symbol
+    streamThrottleMs:
+      parseInt(process.env.MARKET_STREAM_THROTTLE_MS, 10) || 250,
+  },
+
+  // Market data providers, tried in order with failover
+  marketData: {
+    providers: (process.env.MARKET_DATA_PROVIDERS || 'finnhub,yahoo')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean),
+    fixturesDir: process.env.MARKET_DATA_FIXTURES_DIR,
+  },
+
+  // Trading journal
+  tradingJournal: {
+    candleSource: process.env.TRADING_JOURNAL_CANDLE_SOURCE || 'finnhub',
+    candleFixturesDir: process.env.TRADING_JOURNAL_CANDLE_FIXTURES_DIR,
   },
 
   // Email (SendGrid)
@@ -7,6 +7,15 @@ export const validationSchema = Joi.object({
     .default('development'),
   PORT: Joi.number().default(4000),
   HOST: Joi.string().default('0.0.0.0'),
+  // Proxies in front of the app (load balancer, CDN) whose X-Forwarded-For
+  // entries are trusted for the client IP
+  TRUST_PROXY_HOPS: Joi.number().integer().min(0).default(1),
+  // Header the outermost proxy sets with the client's country (Cloudflare,
+  // CloudFront or Vercel), shown on sessions
+  COUNTRY_HEADER: Joi.string()
+    .valid('cf-ipcountry', 'cloudfront-viewer-country', 'x-vercel-ip-country')
+    .insensitive()
+    .optional(),
 
   // Database
   MONGO_URI: Joi.string().required(),
@@ -24,6 +33,7 @@ export const validationSchema = Joi.object({
   AWS_REGION: Joi.string().required(),
   AWS_S3_BUCKET_NAME: Joi.string().required(),
   AWS_S3_PROFILE_IMAGE_FOLDER: Joi.string().optional(),
+  AWS_S3_TRADE_SCREENSHOT_FOLDER: Joi.string().optional(),
   AWS_S3_CLASS_VIDEO_FOLDER: Joi.string().optional(),
   AWS_S3_MENTORSHIP_FOLDER: Joi.string().optional(),
   AWS_S3_STOCK_VIDEO_FOLDER: Joi.string().optional(),
@@ -37,6 +47,24 @@ export const validationSchema = Joi.object({
   // JWT
   JWT_SECRET: Joi.string().required(),
   JWT_EXPIRES_IN: Joi.string().default('7d'),
+  JWT_ACCESS_EXPIRES_IN: Joi.string().default('15m'),
+  JWT_REFRESH_EXPIRES_IN_DAYS: Joi.number().default(30),
+
+  // Two-factor authentication
+  TWO_FACTOR_ISSUER: Joi.string().default('Day Trade Dak'),
+  TWO_FACTOR_ENCRYPTION_KEY: Joi.string().min(32).optional(),
+  TWO_FACTOR_ENFORCE_ADMINS: Joi.boolean().default(true),
+
+  // Login protection
+  LOGIN_MAX_ACCOUNT_FAILURES: Joi.number().integer().min(1).default(10),
+  LOGIN_MAX_IP_FAILURES: Joi.number().integer().min(1).default(50),
+  LOGIN_LOCKOUT_MINUTES: Joi.number().integer().min(1).default(15),
+  LOGIN_CAPTCHA_AFTER: Joi.number().integer().min(1).default(3),
+  LOGIN_ALERTS_ENABLED: Joi.boolean().default(true),
+
+  // Social sign-in (comma-separated client ids)
+  GOOGLE_CLIENT_IDS: Joi.string().optional().allow(''),
+  APPLE_CLIENT_IDS: Joi.string().optional().allow(''),
 
   // Stripe
   STRIPE_SECRET_KEY: Joi.string().required(),
@@ -48,6 +76,12 @@ export const validationSchema = Joi.object({
   // Finnhub
   FINNHUB_API_KEY: Joi.string().optional().allow(''),
 
+  // Trading journal
+  TRADING_JOURNAL_CANDLE_SOURCE: Joi.string()
+    .valid('finnhub', 'fixture')
+    .default('finnhub'),
+  TRADING_JOURNAL_CANDLE_FIXTURES_DIR: Joi.string().optional(),
+
   // Email
   SENDGRID_API_KEY: Joi.string().optional().allow(''),
   FROM_EMAIL: Joi.string().email().default('noreply@daytradedak.com'),
@@ -0,0 +1,112 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EventImpact } from '../economic-event.schema';
+
+export const EVENT_LANGUAGES = ['en', 'es'];
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Accepts a comma-separated string or a repeated query parameter
+const toList = ({ value }) =>
+  (Array.isArray(value) ? value : String(value).split(','))
+    .map((item: string) => item.trim())
+    .filter(Boolean);
+
+export class FilterEconomicEventsDto {
+  @ApiPropertyOptional({
+    description: 'First New York day (YYYY-MM-DD), today by default',
+  })
+  @IsOptional()
+  @Matches(DAY_PATTERN, { message: 'from must be YYYY-MM-DD' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last New York day (YYYY-MM-DD), a week after from by default',
+  })
+  @IsOptional()
+  @Matches(DAY_PATTERN, { message: 'to must be YYYY-MM-DD' })
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated country codes (US,EU,GB)',
+    example: 'US',
+  })
+  @IsOptional()
+  @Transform((params) => toList(params).map((item) => item.toUpperCase()))
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(30)
+  countries?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated impact levels',
+    example: 'high,medium',
+  })
+  @IsOptional()
+  @Transform((params) => toList(params).map((item) => item.toLowerCase()))
+  @IsArray()
+  @IsEnum(EventImpact, { each: true })
+  impact?: EventImpact[];
+
+  @ApiPropertyOptional({ enum: EVENT_LANGUAGES, default: 'en' })
+  @IsOptional()
+  @IsIn(EVENT_LANGUAGES)
+  language?: string;
+}
+
+export class UpdateEconomicRemindersDto {
+  @ApiPropertyOptional({ description: 'Receive reminders' })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minutes before the release',
+    default: 15,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(240)
+  minutesBefore?: number;
+
+  @ApiPropertyOptional({ type: [String], example: ['US'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(30)
+  @Transform(({ value }) =>
+    Array.isArray(value)
+      ? value.map((item) => String(item).trim().toUpperCase())
+      : value,
+  )
+  countries?: string[];
+
+  @ApiPropertyOptional({
+    enum: EventImpact,
+    isArray: true,
+    default: [EventImpact.HIGH],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EventImpact, { each: true })
+  impacts?: EventImpact[];
+
+  @ApiPropertyOptional({ enum: EVENT_LANGUAGES, default: 'es' })
+  @IsOptional()
+  @IsIn(EVENT_LANGUAGES)
+  language?: string;
+}
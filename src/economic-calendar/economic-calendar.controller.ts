@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth-guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { Roles } from '../decorators/role.decorator';
+import { Role } from '../constants';
+import { RequestWithUser } from '../types/request-with-user.interface';
+import { EconomicCalendarService } from './economic-calendar.service';
+import {
+  FilterEconomicEventsDto,
+  UpdateEconomicRemindersDto,
+} from './dto/economic-calendar.dto';
+
+@ApiTags('Economic Calendar')
+@Controller('economic-calendar')
+export class EconomicCalendarController {
+  constructor(
+    private readonly economicCalendarService: EconomicCalendarService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Economic releases by date range, country and impact',
+  })
+  findEvents(@Query() filter: FilterEconomicEventsDto) {
+    return this.economicCalendarService.findEvents(filter);
+  }
+
+  @Get('reminders')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Own release reminder preferences' })
+  getReminders(@Req() req: RequestWithUser) {
+    return this.economicCalendarService.getReminders(req.user._id.toString());
+  }
+
+  @Put('reminders')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Opt in or out of release reminders' })
+  updateReminders(
+    @Req() req: RequestWithUser,
+    @Body() dto: UpdateEconomicRemindersDto,
+  ) {
+    return this.economicCalendarService.updateReminders(
+      req.user._id.toString(),
+      dto,
+    );
+  }
+
+  @Post('sync')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Refresh the stored calendar from the sources' })
+  sync() {
+    return this.economicCalendarService.sync();
+  }
+}
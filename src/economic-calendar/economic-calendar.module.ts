@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { EconomicEvent, EconomicEventSchema } from './economic-event.schema';
+import {
+  EconomicReminder,
+  EconomicReminderSchema,
+} from './economic-reminder.schema';
+import { EconomicCalendarController } from './economic-calendar.controller';
+import { EconomicCalendarService } from './economic-calendar.service';
+import { EconomicRemindersService } from './economic-reminders.service';
+import { MarketModule } from '../services/market/market.module';
+import { FinnhubModule } from '../services/finnhub/finnhub.module';
+import { YahooFinanceModule } from '../services/yahoo-finance/yahoo-finance.module';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: EconomicEvent.name, schema: EconomicEventSchema },
+      { name: EconomicReminder.name, schema: EconomicReminderSchema },
+    ]),
+    MarketModule,
+    FinnhubModule,
+    YahooFinanceModule,
+    NotificationModule,
+  ],
+  controllers: [EconomicCalendarController],
+  providers: [EconomicCalendarService, EconomicRemindersService],
+  exports: [EconomicCalendarService],
+})
+export class EconomicCalendarModule {}
@@ -0,0 +1,307 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { EconomicEvent, EconomicEventDocument } from './economic-event.schema';
+import {
+  EconomicReminder,
+  EconomicReminderDocument,
+} from './economic-reminder.schema';
+import {
+  FilterEconomicEventsDto,
+  UpdateEconomicRemindersDto,
+} from './dto/economic-calendar.dto';
+import {
+  dedupeEvents,
+  fromFinnhub,
+  fromYahoo,
+  isSameEvent,
+  NormalizedEconomicEvent,
+} from './utils/economic-events';
+import {
+  addDays,
+  marketDay,
+  marketTime,
+} from '../services/market/market-calendar';
+import { FinnhubService } from '../services/finnhub/finnhub.service';
+import { YahooFinanceService } from '../services/yahoo-finance/yahoo-finance.service';
+import { RateLimiterService } from '../services/market/rate-limiter.service';
+
+// Days synced around today
+const SYNC_DAYS_BEHIND = 1;
+const SYNC_DAYS_AHEAD = 14;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 62;
+
+export interface EconomicCalendarSyncResult {
+  from: string;
+  to: string;
+  fetched: Record<string, number>;
+  errors: Record<string, string>;
+  created: number;
+  updated: number;
+}
+
+@Injectable()
+export class EconomicCalendarService {
+  private readonly logger = new Logger(EconomicCalendarService.name);
+  private syncing = false;
+
+  constructor(
+    @InjectModel(EconomicEvent.name)
+    private readonly eventModel: Model<EconomicEventDocument>,
+    @InjectModel(EconomicReminder.name)
+    private readonly reminderModel: Model<EconomicReminderDocument>,
+    private readonly finnhubService: FinnhubService,
+    private readonly yahooFinanceService: YahooFinanceService,
+    private readonly rateLimiter: RateLimiterService,
+  ) {}
+
+  /**
+   * Stored events of a New York date range, optionally translated. Names
+   * missing a translation are translated once and saved on the event.
+   */
+  async findEvents(filter: FilterEconomicEventsDto) {
+    const from = filter.from || marketDay();
+    let to = filter.to || addDays(from, DEFAULT_RANGE_DAYS - 1);
+    if (to < from) {
+      to = from;
+    }
+    if (to > addDays(from, MAX_RANGE_DAYS - 1)) {
+      to = addDays(from, MAX_RANGE_DAYS - 1);
+    }
+
+    const query: Record<string, any> = {
+      scheduledAt: {
+        $gte: marketTime(from, 0),
+        $lt: marketTime(addDays(to, 1), 0),
+      },
+    };
+    if (filter.countries?.length) {
+      query.country = { $in: filter.countries };
+    }
+    if (filter.impact?.length) {
+      query.impact = { $in: filter.impact };
+    }
+
+    const events = await this.eventModel
+      .find(query)
+      .sort({ scheduledAt: 1 })
+      .lean();
+
+    const language = filter.language || 'en';
+    if (language !== 'en') {
+      await this.translateMissing(events, language);
+    }
+
+    return {
+      from,
+      to,
+      language,
+      count: events.length,
+      events: events.map((event) => this.toResponse(event, language)),
+    };
+  }
+
+  async getReminders(userId: string) {
+    const reminder = await this.reminderModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .lean();
+    return this.toReminderResponse(reminder);
+  }
+
+  async updateReminders(userId: string, dto: UpdateEconomicRemindersDto) {
+    const reminder = await this.reminderModel
+      .findOneAndUpdate(
+        { userId: new Types.ObjectId(userId) },
+        { $set: dto },
+        { new: true, upsert: true, setDefaultsOnInsert: true },
+      )
+      .lean();
+    return this.toReminderResponse(reminder);
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async scheduledSync() {
+    try {
+      await this.sync();
+    } catch (error) {
+      this.logger.error(`Economic calendar sync failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Pulls the window around today from Finnhub and Yahoo Finance, merges
+   * the reports of each release and upserts them. A failing source is
+   * skipped so the other still refreshes the calendar.
+   */
+  async sync(now: Date = new Date()): Promise<EconomicCalendarSyncResult> {
+    const from = addDays(marketDay(now), -SYNC_DAYS_BEHIND);
+    const to = addDays(marketDay(now), SYNC_DAYS_AHEAD);
+    const result: EconomicCalendarSyncResult = {
+      from,
+      to,
+      fetched: {},
+      errors: {},
+      created: 0,
+      updated: 0,
+    };
+
+    if (this.syncing) {
+      result.errors.sync = 'A sync is already running';
+      return result;
+    }
+    this.syncing = true;
+
+    try {
+      const reports: NormalizedEconomicEvent[] = [];
+
+      try {
+        const raw = await this.rateLimiter.execute(
+          () => this.finnhubService.fetchEconomicCalendar(from, to),
+          'finnhub',
+        );
+        const events = raw.map(fromFinnhub).filter(Boolean);
+        result.fetched.finnhub = events.length;
+        reports.push(...events);
+      } catch (error) {
+        result.errors.finnhub = error?.message || String(error);
+      }
+
+      try {
+        const events: NormalizedEconomicEvent[] = [];
+        for (let day = from; day <= to; day = addDays(day, 1)) {
+          const raw = await this.rateLimiter.execute(
+            () => this.yahooFinanceService.getEconomicEvents(day),
+            'yahoo',
+          );
+          events.push(...raw.map(fromYahoo).filter(Boolean));
+        }
+        result.fetched.yahoo = events.length;
+        reports.push(...events);
+      } catch (error) {
+        result.errors.yahoo = error?.message || String(error);
+      }
+
+      const merged = dedupeEvents(reports);
+      const counts = await this.upsert(merged, from, to, now);
+      result.created = counts.created;
+      result.updated = counts.updated;
+
+      if (Object.keys(result.errors).length) {
+        this.logger.warn(
+          `Economic calendar sync errors: ${JSON.stringify(result.errors)}`,
+        );
+      }
+      return result;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  // Matches merged reports against the stored events of the window so a
+  // release keeps one document across syncs and sources
+  private async upsert(
+    events: NormalizedEconomicEvent[],
+    from: string,
+    to: string,
+    now: Date,
+  ) {
+    const stored = await this.eventModel
+      .find({
+        scheduledAt: {
+          $gte: marketTime(addDays(from, -1), 0),
+          $lt: marketTime(addDays(to, 2), 0),
+        },
+      })
+      .select('name country scheduledAt sources')
+      .lean();
+
+    let created = 0;
+    let updated = 0;
+    for (const event of events) {
+      const existing = stored.find((candidate) =>
+        isSameEvent(candidate, event),
+      );
+
+      if (!existing) {
+        await this.eventModel.create({ ...event, lastSyncedAt: now });
+        created++;
+        continue;
+      }
+
+      // Fresh figures replace stored ones; a source that stopped
+      // reporting an event does not erase it
+      const figures = Object.fromEntries(
+        (['actual', 'estimate', 'previous'] as const)
+          .filter((field) => event[field] !== null)
+          .map((field) => [field, event[field]]),
+      );
+      await this.eventModel.updateOne(
+        { _id: existing._id },
+        {
+          $set: {
+            ...figures,
+            scheduledAt: event.scheduledAt,
+            impact: event.impact,
+            ...(event.unit ? { unit: event.unit } : {}),
+            lastSyncedAt: now,
+          },
+          $addToSet: { sources: { $each: event.sources } },
+        },
+      );
+      updated++;
+    }
+    return { created, updated };
+  }
+
+  private async translateMissing(events: any[], language: string) {
+    const missing = events.filter((event) => !event.translations?.[language]);
+    for (const event of missing) {
+      const translated = await this.yahooFinanceService.translateText(
+        event.name,
+        language,
+      );
+      event.translations = { ...event.translations, [language]: translated };
+      // translateText falls back to the original text on failure; only
+      // keep real translations
+      if (translated && translated !== event.name) {
+        await this.eventModel.updateOne(
+          { _id: event._id },
+          { $set: { [`translations.${language}`]: translated } },
+        );
+      }
+    }
+  }
+
+  private toResponse(event: any, language: string) {
+    return {
+      id: event._id.toString(),
+      name:
+        language === 'en'
+          ? event.name
+          : event.translations?.[language] || event.name,
+      originalName: event.name,
+      country: event.country,
+      scheduledAt: event.scheduledAt,
+      impact: event.impact,
+      actual: event.actual,
+      estimate: event.estimate,
+      previous: event.previous,
+      unit: event.unit,
+      sources: event.sources,
+      lastSyncedAt: event.lastSyncedAt,
+    };
+  }
+
+  private toReminderResponse(reminder: any) {
+    const defaults = new this.reminderModel();
+    return {
+      enabled: reminder?.enabled ?? defaults.enabled,
+      minutesBefore: reminder?.minutesBefore ?? defaults.minutesBefore,
+      countries: reminder?.countries ?? defaults.countries,
+      impacts: reminder?.impacts ?? defaults.impacts,
+      language: reminder?.language ?? defaults.language,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type EconomicEventDocument = EconomicEvent & Document;
+
+export enum EventImpact {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+/**
+ * A scheduled economic release, merged from every calendar source that
+ * reported it
+ */
+@Schema({ timestamps: true, collection: 'economic_events' })
+export class EconomicEvent {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  // ISO 3166 alpha-2, or EU for the euro area
+  @Prop({ required: true, uppercase: true })
+  country: string;
+
+  @Prop({ required: true })
+  scheduledAt: Date;
+
+  @Prop({ type: String, enum: EventImpact, default: EventImpact.LOW })
+  impact: EventImpact;
+
+  @Prop({ type: Number, default: null })
+  actual: number | null;
+
+  @Prop({ type: Number, default: null })
+  estimate: number | null;
+
+  @Prop({ type: Number, default: null })
+  previous: number | null;
+
+  @Prop({ default: '' })
+  unit: string;
+
+  @Prop({ type: [String], default: [] })
+  sources: string[];
+
+  // Translated names by language code, filled on first request
+  @Prop({ type: Map, of: String, default: {} })
+  translations: Map<string, string>;
+
+  // Users already reminded about this release
+  @Prop({
+    type: [{ type: 'ObjectId', ref: 'User' }],
+    default: [],
+    select: false,
+  })
+  remindedUserIds: any[];
+
+  @Prop()
+  lastSyncedAt?: Date;
+}
+
+export const EconomicEventSchema = SchemaFactory.createForClass(EconomicEvent);
+
+EconomicEventSchema.index({ scheduledAt: 1, country: 1, impact: 1 });
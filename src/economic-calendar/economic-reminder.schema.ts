@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { EventImpact } from './economic-event.schema';
+
+export type EconomicReminderDocument = EconomicReminder & Document;
+
+/**
+ * A student's opt-in to notifications before economic releases
+ */
+@Schema({ timestamps: true, collection: 'economic_reminders' })
+export class EconomicReminder {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  userId: Types.ObjectId;
+
+  @Prop({ default: false })
+  enabled: boolean;
+
+  @Prop({ default: 15, min: 1, max: 240 })
+  minutesBefore: number;
+
+  @Prop({ type: [String], default: ['US'] })
+  countries: string[];
+
+  @Prop({ type: [String], enum: EventImpact, default: [EventImpact.HIGH] })
+  impacts: EventImpact[];
+
+  // Language of the event names in reminders
+  @Prop({ default: 'es' })
+  language: string;
+}
+
+export const EconomicReminderSchema =
+  SchemaFactory.createForClass(EconomicReminder);
+
+EconomicReminderSchema.index({ enabled: 1 });
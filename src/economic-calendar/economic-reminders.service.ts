@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { EconomicEvent, EconomicEventDocument } from './economic-event.schema';
+import {
+  EconomicReminder,
+  EconomicReminderDocument,
+} from './economic-reminder.schema';
+import { NotificationService } from '../notification/notification.service';
+import {
+  NotificationPriority,
+  NotificationType,
+} from '../notification/notification.schema';
+
+// Lean documents carry maps as plain objects
+type LeanEvent = Omit<EconomicEvent, 'translations'> & {
+  _id: Types.ObjectId;
+  translations?: Record<string, string>;
+};
+
+/**
+ * Notifies opted-in students ahead of the releases matching their
+ * countries and impact levels, once per release
+ */
+@Injectable()
+export class EconomicRemindersService {
+  private readonly logger = new Logger(EconomicRemindersService.name);
+  private running = false;
+
+  constructor(
+    @InjectModel(EconomicEvent.name)
+    private readonly eventModel: Model<EconomicEventDocument>,
+    @InjectModel(EconomicReminder.name)
+    private readonly reminderModel: Model<EconomicReminderDocument>,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async sendDueReminders(now: Date = new Date()) {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const reminders = await this.reminderModel.find({ enabled: true }).lean();
+      if (reminders.length === 0) {
+        return;
+      }
+
+      const longestLead = Math.max(
+        ...reminders.map((reminder) => reminder.minutesBefore),
+      );
+      const events = await this.eventModel
+        .find({
+          scheduledAt: {
+            $gt: now,
+            $lte: new Date(now.getTime() + longestLead * 60000),
+          },
+        })
+        .select('+remindedUserIds')
+        .lean<LeanEvent[]>();
+
+      for (const event of events) {
+        const minutesLeft =
+          (event.scheduledAt.getTime() - now.getTime()) / 60000;
+        const reminded = new Set(
+          (event.remindedUserIds || []).map((id) => id.toString()),
+        );
+
+        for (const reminder of reminders) {
+          const userId = reminder.userId.toString();
+          if (
+            reminded.has(userId) ||
+            minutesLeft > reminder.minutesBefore ||
+            !reminder.countries.includes(event.country) ||
+            !reminder.impacts.includes(event.impact)
+          ) {
+            continue;
+          }
+          await this.remind(event, reminder, minutesLeft);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Economic reminders failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async remind(
+    event: LeanEvent,
+    reminder: EconomicReminder,
+    minutesLeft: number,
+  ) {
+    // Claim the reminder first so overlapping runs never notify twice
+    const claimed = await this.eventModel.updateOne(
+      { _id: event._id, remindedUserIds: { $ne: reminder.userId } },
+      { $addToSet: { remindedUserIds: reminder.userId } },
+    );
+    if (claimed.modifiedCount === 0) {
+      return;
+    }
+
+    const name = event.translations?.[reminder.language] || event.name;
+    const minutes = Math.max(1, Math.round(minutesLeft));
+    try {
+      await this.notificationService.create({
+        type: NotificationType.ECONOMIC_EVENT,
+        title: `${event.country}: ${name}`,
+        message:
+          reminder.language === 'es'
+            ? `Se publica en ${minutes} min (impacto ${event.impact})`
+            : `Releases in ${minutes} min (${event.impact} impact)`,
+        data: {
+          eventId: event._id.toString(),
+          name: event.name,
+          country: event.country,
+          impact: event.impact,
+          scheduledAt: event.scheduledAt,
+          estimate: event.estimate,
+          previous: event.previous,
+          unit: event.unit,
+        },
+        priority: NotificationPriority.HIGH,
+        actionUrl: '/academy/economic-calendar',
+        icon: 'calendar',
+        recipient: reminder.userId.toString(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Could not notify ${reminder.userId} about ${event.name}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  dedupeEvents,
+  fromFinnhub,
+  fromYahoo,
+  isSameEvent,
+  nameSimilarity,
+  normalizeCountry,
+  normalizeImpact,
+  toNumber,
+} from './economic-events';
+
+describe('economic events', () => {
+  it('normalizes countries, impact and figures', () => {
+    expect(normalizeCountry('United States')).toBe('US');
+    expect(normalizeCountry('Euro Area')).toBe('EU');
+    expect(normalizeCountry('jp')).toBe('JP');
+    expect(normalizeImpact('High')).toBe('high');
+    expect(normalizeImpact(2)).toBe('medium');
+    expect(normalizeImpact('3')).toBe('high');
+    expect(normalizeImpact(undefined)).toBe('low');
+    expect(toNumber('3.2%')).toBe(3.2);
+    expect(toNumber('-1,250K')).toBe(-1250);
+    expect(toNumber('')).toBeNull();
+  });
+
+  it('maps Finnhub and Yahoo entries', () => {
+    expect(
+      fromFinnhub({
+        event: 'CPI MoM',
+        country: 'US',
+        time: '2025-03-12 12:30:00',
+        impact: 'high',
+        actual: null,
+        estimate: 0.3,
+        prev: 0.5,
+        unit: '%',
+      }),
+    ).toEqual({
+      name: 'CPI MoM',
+      country: 'US',
+      scheduledAt: new Date('2025-03-12T12:30:00Z'),
+      impact: 'high',
+      actual: null,
+      estimate: 0.3,
+      previous: 0.5,
+      unit: '%',
+      sources: ['finnhub'],
+    });
+
+    const yahoo = fromYahoo({
+      event: 'CPI (MoM)',
+      country: 'United States',
+      eventTime: 1741782600000,
+      consensus: '0.3%',
+      prior: '0.5%',
+      importance: 3,
+    });
+    expect(yahoo.country).toBe('US');
+    expect(yahoo.scheduledAt).toEqual(new Date('2025-03-12T12:30:00Z'));
+    expect(yahoo.previous).toBe(0.5);
+    expect(fromYahoo({ event: 'No time' })).toBeNull();
+  });
+
+  it('matches the same release across sources', () => {
+    const at = new Date('2025-03-12T12:30:00Z');
+    expect(nameSimilarity('CPI MoM', 'CPI (MoM)')).toBe(1);
+    expect(
+      isSameEvent(
+        { name: 'Core CPI YoY', country: 'US', scheduledAt: at },
+        { name: 'US Core CPI (YoY)', country: 'US', scheduledAt: at },
+      ),
+    ).toBe(true);
+    expect(
+      isSameEvent(
+        { name: 'CPI MoM', country: 'US', scheduledAt: at },
+        { name: 'PPI MoM', country: 'US', scheduledAt: at },
+      ),
+    ).toBe(false);
+    expect(
+      isSameEvent(
+        { name: 'CPI MoM', country: 'US', scheduledAt: at },
+        { name: 'CPI MoM', country: 'CA', scheduledAt: at },
+      ),
+    ).toBe(false);
+  });
+
+  it('merges duplicates keeping the first source', () => {
+    const at = new Date('2025-03-12T12:30:00Z');
+    const merged = dedupeEvents([
+      {
+        name: 'CPI MoM',
+        country: 'US',
+        scheduledAt: at,
+        impact: 'medium',
+        actual: null,
+        estimate: 0.3,
+        previous: null,
+        unit: '%',
+        sources: ['finnhub'],
+      },
+      {
+        name: 'CPI (MoM)',
+        country: 'US',
+        scheduledAt: at,
+        impact: 'high',
+        actual: 0.2,
+        estimate: 0.4,
+        previous: 0.5,
+        unit: '',
+        sources: ['yahoo'],
+      },
+    ]);
+
+    expect(merged).toEqual([
+      {
+        name: 'CPI MoM',
+        country: 'US',
+        scheduledAt: at,
+        impact: 'high',
+        actual: 0.2,
+        estimate: 0.3,
+        previous: 0.5,
+        unit: '%',
+        sources: ['finnhub', 'yahoo'],
+      },
+    ]);
+  });
+});
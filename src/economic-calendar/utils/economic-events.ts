@@ -0,0 +1,234 @@
+/**
+ * Normalization and de-duplication of economic calendar entries. Finnhub
+ * and Yahoo Finance report the same releases with different country names,
+ * impact scales, number formats and slightly different event titles.
+ */
+
+export type ImpactLevel = 'low' | 'medium' | 'high';
+
+export interface NormalizedEconomicEvent {
+  name: string;
+  country: string;
+  scheduledAt: Date;
+  impact: ImpactLevel;
+  actual: number | null;
+  estimate: number | null;
+  previous: number | null;
+  unit: string;
+  sources: string[];
+}
+
+const IMPACT_RANK: Record<ImpactLevel, number> = { low: 0, medium: 1, high: 2 };
+
+const COUNTRY_CODES: Record<string, string> = {
+  'united states': 'US',
+  usa: 'US',
+  'euro area': 'EU',
+  'euro zone': 'EU',
+  eurozone: 'EU',
+  'european union': 'EU',
+  emu: 'EU',
+  'united kingdom': 'GB',
+  uk: 'GB',
+  'great britain': 'GB',
+  japan: 'JP',
+  china: 'CN',
+  canada: 'CA',
+  germany: 'DE',
+  france: 'FR',
+  italy: 'IT',
+  spain: 'ES',
+  australia: 'AU',
+  'new zealand': 'NZ',
+  switzerland: 'CH',
+  mexico: 'MX',
+  brazil: 'BR',
+  india: 'IN',
+  'south korea': 'KR',
+};
+
+// Words that vary between sources without changing the release
+const STOP_WORDS = new Set(['the', 'of', 'and', 'for', 's', 'index', 'us']);
+
+// Sources report the same release up to a few minutes apart
+const SAME_TIME_TOLERANCE_MS = 5 * 60 * 1000;
+const NAME_SIMILARITY = 0.5;
+
+/**
+ * ISO 3166 alpha-2 code (EU for the euro area) from a code or country name
+ */
+export function normalizeCountry(value: string): string {
+  const key = String(value || '')
+    .trim()
+    .toLowerCase();
+  return COUNTRY_CODES[key] || key.toUpperCase();
+}
+
+/**
+ * Impact from a label ('high', 'Medium') or a 1-3 importance score
+ */
+export function normalizeImpact(value: unknown): ImpactLevel {
+  if (typeof value === 'number' || /^\d+$/.test(String(value ?? ''))) {
+    const score = Number(value);
+    if (score >= 3) return 'high';
+    return score === 2 ? 'medium' : 'low';
+  }
+  const label = String(value || '').toLowerCase();
+  if (label.startsWith('high')) return 'high';
+  if (label.startsWith('med') || label.startsWith('moderate')) return 'medium';
+  return 'low';
+}
+
+/**
+ * Number from a value such as 3.2, "3.2%", "-1,250K" or "", else null
+ */
+export function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  const parsed = parseFloat(String(value).replace(/[,%\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Finnhub times are UTC "YYYY-MM-DD HH:mm:ss"
+function parseUtc(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  const text = String(value).trim();
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(text)
+    ? `${text.replace(' ', 'T')}Z`
+    : text;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Maps a Finnhub economic calendar entry; null when it has no name or time
+ */
+export function fromFinnhub(raw: any): NormalizedEconomicEvent | null {
+  const scheduledAt = parseUtc(raw?.time);
+  if (!raw?.event || !scheduledAt) {
+    return null;
+  }
+  return {
+    name: String(raw.event).trim(),
+    country: normalizeCountry(raw.country),
+    scheduledAt,
+    impact: normalizeImpact(raw.impact),
+    actual: toNumber(raw.actual),
+    estimate: toNumber(raw.estimate),
+    previous: toNumber(raw.prev),
+    unit: raw.unit || '',
+    sources: ['finnhub'],
+  };
+}
+
+/**
+ * Maps a Yahoo Finance economic event, whose field names vary between
+ * responses; null when it has no name or time
+ */
+export function fromYahoo(raw: any): NormalizedEconomicEvent | null {
+  const name = raw?.event || raw?.name;
+  const scheduledAt = parseUtc(raw?.eventTime ?? raw?.time ?? raw?.date);
+  if (!name || !scheduledAt) {
+    return null;
+  }
+  return {
+    name: String(name).trim(),
+    country: normalizeCountry(raw.countryCode || raw.country),
+    scheduledAt,
+    impact: normalizeImpact(raw.impact ?? raw.importance),
+    actual: toNumber(raw.actual),
+    estimate: toNumber(raw.consensus ?? raw.expected ?? raw.estimate),
+    previous: toNumber(raw.prior ?? raw.previous ?? raw.last),
+    unit: raw.unit || '',
+    sources: ['yahoo'],
+  };
+}
+
+export function nameTokens(name: string): Set<string> {
+  return new Set(
+    name
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token && !STOP_WORDS.has(token)),
+  );
+}
+
+/**
+ * Jaccard similarity of two event names' tokens
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  const shared = [...left].filter((token) => right.has(token)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Whether two entries describe the same release: same country, about the
+ * same time and similar names
+ */
+export function isSameEvent(
+  a: Pick<NormalizedEconomicEvent, 'name' | 'country' | 'scheduledAt'>,
+  b: Pick<NormalizedEconomicEvent, 'name' | 'country' | 'scheduledAt'>,
+): boolean {
+  return (
+    a.country === b.country &&
+    Math.abs(a.scheduledAt.getTime() - b.scheduledAt.getTime()) <=
+      SAME_TIME_TOLERANCE_MS &&
+    nameSimilarity(a.name, b.name) >= NAME_SIMILARITY
+  );
+}
+
+/**
+ * Combines two reports of the same release. The first one's name and time
+ * win; figures are filled from whichever source has them and the higher
+ * impact is kept.
+ */
+export function mergeEvent(
+  into: NormalizedEconomicEvent,
+  from: NormalizedEconomicEvent,
+): NormalizedEconomicEvent {
+  return {
+    ...into,
+    impact:
+      IMPACT_RANK[from.impact] > IMPACT_RANK[into.impact]
+        ? from.impact
+        : into.impact,
+    actual: into.actual ?? from.actual,
+    estimate: into.estimate ?? from.estimate,
+    previous: into.previous ?? from.previous,
+    unit: into.unit || from.unit,
+    sources: [...new Set([...into.sources, ...from.sources])],
+  };
+}
+
+/**
+ * De-duplicates entries across sources, keeping the first report of each
+ * release (so earlier sources take precedence) merged with the later ones
+ */
+export function dedupeEvents(
+  events: NormalizedEconomicEvent[],
+): NormalizedEconomicEvent[] {
+  const merged: NormalizedEconomicEvent[] = [];
+  for (const event of events) {
+    const index = merged.findIndex((existing) => isSameEvent(existing, event));
+    if (index === -1) {
+      merged.push({ ...event, sources: [...event.sources] });
+    } else {
+      merged[index] = mergeEvent(merged[index], event);
+    }
+  }
+  return merged;
+}
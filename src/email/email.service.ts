@@ -37,6 +37,22 @@ import {
   newUserEventTemplate,
   NewUserEventData,
 } from './templates/new-user-event.template';
+import {
+  priceAlertTemplate,
+  PriceAlertEmailData,
+} from './templates/price-alert.template';
+import {
+  twoFactorCodeTemplate,
+  TwoFactorCodeEmailData,
+} from './templates/two-factor-code.template';
+import {
+  emailVerificationTemplate,
+  EmailVerificationData,
+} from './templates/email-verification.template';
+import {
+  newLoginAlertTemplate,
+  NewLoginAlertData,
+} from './templates/new-login-alert.template';
 
 @Injectable()
 export class EmailService {
@@ -156,6 +172,65 @@ export class EmailService {
     }
   }
 
+  async sendPriceAlertEmail(to: string, data: PriceAlertEmailData) {
+    try {
+      const html = priceAlertTemplate(data);
+      const result = await this.send(to, `🔔 ${data.description}`, html);
+      this.logger.log(`Price alert email sent to ${to}`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to send price alert email to ${to}`, error);
+      throw error;
+    }
+  }
+
+  async sendTwoFactorCodeEmail(to: string, data: TwoFactorCodeEmailData) {
+    try {
+      const html = twoFactorCodeTemplate(data);
+      const result = await this.send(
+        to,
+        `${data.code} es tu código de verificación - DayTradeDak`,
+        html,
+      );
+      this.logger.log(`Two-factor code email sent to ${to}`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to send two-factor code email to ${to}`, error);
+      throw error;
+    }
+  }
+
+  async sendEmailVerificationEmail(to: string, data: EmailVerificationData) {
+    try {
+      const html = emailVerificationTemplate(data);
+      const subject = data.isEmailChange
+        ? 'Confirma tu nuevo correo - DayTradeDak'
+        : 'Verifica tu correo - DayTradeDak';
+      const result = await this.send(to, subject, html);
+      this.logger.log(`Email verification sent to ${to}`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to send email verification to ${to}`, error);
+      throw error;
+    }
+  }
+
+  async sendNewLoginAlertEmail(to: string, data: NewLoginAlertData) {
+    try {
+      const html = newLoginAlertTemplate(data);
+      const result = await this.send(
+        to,
+        'Nuevo inicio de sesión en tu cuenta - DayTradeDak',
+        html,
+      );
+      this.logger.log(`New login alert sent to ${to}`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to send new login alert to ${to}`, error);
+      throw error;
+    }
+  }
+
   async sendWebinarRegistrationEmail(to: string, data: WebinarRegistrationData) {
     try {
       const html = webinarRegistrationTemplate(data);
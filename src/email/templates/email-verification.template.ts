@@ -0,0 +1,56 @@
+import { baseEmailTemplate, emailButton } from './base-email.template';
+
+export interface EmailVerificationData {
+  firstName: string;
+  verifyLink: string;
+  expiresIn: string;
+  // Confirming a new address for an existing account
+  isEmailChange?: boolean;
+}
+
+export const emailVerificationTemplate = (
+  data: EmailVerificationData,
+): string => {
+  const { firstName, verifyLink, expiresIn, isEmailChange } = data;
+
+  const content = `
+    <div style="text-align: center; margin-bottom: 30px;">
+      <div style="display: inline-block; width: 80px; height: 80px; background-color: #16a34a15; border-radius: 50%; text-align: center; line-height: 80px; margin-bottom: 20px;">
+        <span style="font-size: 40px;">✉️</span>
+      </div>
+      <h2 style="margin: 0 0 10px 0; color: #212636; font-size: 28px; font-weight: 600;">
+        ${isEmailChange ? 'Confirma tu nuevo correo' : 'Verifica tu correo'}
+      </h2>
+    </div>
+
+    <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Hola ${firstName},
+    </p>
+
+    <p style="margin: 0 0 30px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      ${
+        isEmailChange
+          ? 'Solicitaste usar esta dirección en tu cuenta de DayTradeDak. Confírmala para completar el cambio; hasta entonces seguiremos usando tu correo anterior.'
+          : 'Confirma que esta dirección es tuya para activar las compras y el asistente de DayTradeDak.'
+      }
+    </p>
+
+    ${emailButton(isEmailChange ? 'Confirmar nuevo correo' : 'Verificar mi correo', verifyLink)}
+
+    <p style="margin: 30px 0 0 0; color: #6b7280; font-size: 14px; line-height: 21px;">
+      El enlace caduca en ${expiresIn}. Si no fuiste tú, ignora este mensaje.
+    </p>
+
+    <p style="margin: 20px 0 0 0; color: #4b5563; font-size: 16px;">
+      Un abrazo,<br>
+      <strong style="color: #212636;">El equipo de DayTradeDak</strong>
+    </p>
+  `;
+
+  return baseEmailTemplate({
+    preheader: isEmailChange
+      ? 'Confirma tu nuevo correo electrónico'
+      : 'Verifica tu correo electrónico',
+    content,
+  });
+};
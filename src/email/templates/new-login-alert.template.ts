@@ -0,0 +1,66 @@
+import { baseEmailTemplate, emailButton } from './base-email.template';
+
+export interface NewLoginAlertData {
+  firstName: string;
+  // "Chrome on Windows"
+  device: string;
+  ip: string;
+  country?: string;
+  // Already formatted for the reader
+  time: string;
+  // What was unfamiliar: "un dispositivo nuevo", "un país nuevo"...
+  reasons: string[];
+  securityLink: string;
+}
+
+export const newLoginAlertTemplate = (data: NewLoginAlertData): string => {
+  const { firstName, device, ip, country, time, reasons, securityLink } = data;
+
+  const row = (label: string, value: string) => `
+      <tr>
+        <td style="padding: 6px 0; color: #6b7280; font-size: 14px; width: 120px;">${label}</td>
+        <td style="padding: 6px 0; color: #212636; font-size: 14px; font-weight: 600;">${value}</td>
+      </tr>`;
+
+  const content = `
+    <div style="text-align: center; margin-bottom: 30px;">
+      <div style="display: inline-block; width: 80px; height: 80px; background-color: #f59e0b15; border-radius: 50%; text-align: center; line-height: 80px; margin-bottom: 20px;">
+        <span style="font-size: 40px;">🛡️</span>
+      </div>
+      <h2 style="margin: 0 0 10px 0; color: #212636; font-size: 28px; font-weight: 600;">
+        Nuevo inicio de sesión
+      </h2>
+    </div>
+
+    <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Hola ${firstName},
+    </p>
+
+    <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Alguien inició sesión en tu cuenta desde ${reasons.join(', ')}:
+    </p>
+
+    <table style="width: 100%; background-color: #f9fafb; border-radius: 8px; padding: 16px 24px; margin: 0 0 30px 0;">
+      ${row('Fecha', time)}
+      ${row('Dispositivo', device)}
+      ${row('Dirección IP', ip)}
+      ${country ? row('País', country) : ''}
+    </table>
+
+    <p style="margin: 0 0 30px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Si fuiste tú, no necesitas hacer nada. Si no, cambia tu contraseña y cierra las demás sesiones cuanto antes.
+    </p>
+
+    ${emailButton('Revisar mi seguridad', securityLink)}
+
+    <p style="margin: 30px 0 0 0; color: #4b5563; font-size: 16px;">
+      Un abrazo,<br>
+      <strong style="color: #212636;">El equipo de DayTradeDak</strong>
+    </p>
+  `;
+
+  return baseEmailTemplate({
+    preheader: `Nuevo inicio de sesión desde ${device}`,
+    content,
+  });
+};
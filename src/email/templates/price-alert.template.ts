@@ -0,0 +1,91 @@
+import { baseEmailTemplate, emailButton } from './base-email.template';
+
+export interface PriceAlertEmailData {
+  firstName: string;
+  symbol: string;
+  // Condition that fired, e.g. "AAPL above 190"
+  description: string;
+  price?: number;
+  changePercent?: number;
+  note?: string;
+  triggeredAt: Date;
+}
+
+const formatDateTime = (date: Date): string => {
+  return new Intl.DateTimeFormat('es-ES', {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'America/New_York',
+    timeZoneName: 'short',
+  }).format(date);
+};
+
+export const priceAlertTemplate = (data: PriceAlertEmailData): string => {
+  const { firstName, symbol, description, price, changePercent, note } = data;
+  const changeColor = (changePercent || 0) >= 0 ? '#16a34a' : '#ef4444';
+
+  const content = `
+    <div style="text-align: center; margin-bottom: 30px;">
+      <div style="display: inline-block; width: 80px; height: 80px; background-color: #16a34a15; border-radius: 50%; text-align: center; line-height: 80px; margin-bottom: 20px;">
+        <span style="font-size: 40px;">🔔</span>
+      </div>
+      <h2 style="margin: 0 0 10px 0; color: #212636; font-size: 28px; font-weight: 600;">
+        Alerta de ${symbol}
+      </h2>
+      <p style="margin: 0; color: #4b5563; font-size: 18px;">
+        ${description}
+      </p>
+    </div>
+
+    <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Hola ${firstName},
+    </p>
+
+    <p style="margin: 0 0 30px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Tu alerta se activó el ${formatDateTime(data.triggeredAt)}.
+    </p>
+
+    ${
+      price != null
+        ? `
+    <div style="background-color: #f9fafb; border-radius: 8px; padding: 24px; margin: 0 0 30px 0; text-align: center;">
+      <p style="margin: 0 0 10px 0; color: #6b7280; font-size: 14px;">
+        Precio actual
+      </p>
+      <p style="margin: 0; color: #212636; font-size: 28px; font-weight: 600;">
+        $${price.toFixed(2)}
+      </p>
+      ${
+        changePercent != null
+          ? `<p style="margin: 8px 0 0 0; color: ${changeColor}; font-size: 16px; font-weight: 600;">
+        ${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}% hoy
+      </p>`
+          : ''
+      }
+    </div>`
+        : ''
+    }
+
+    ${
+      note
+        ? `<p style="margin: 0 0 30px 0; color: #6b7280; font-size: 14px; line-height: 21px; font-style: italic;">
+      "${note}"
+    </p>`
+        : ''
+    }
+
+    ${emailButton('Ver mis alertas', `${process.env.FRONTEND_URL}/academy/alerts`)}
+
+    <p style="margin: 20px 0 0 0; color: #4b5563; font-size: 16px;">
+      Un abrazo,<br>
+      <strong style="color: #212636;">El equipo de DayTradeDak</strong>
+    </p>
+  `;
+
+  return baseEmailTemplate({
+    preheader: `${description}`,
+    content,
+  });
+};
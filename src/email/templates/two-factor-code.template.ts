@@ -0,0 +1,55 @@
+import { baseEmailTemplate } from './base-email.template';
+
+export interface TwoFactorCodeEmailData {
+  firstName: string;
+  code: string;
+  expiresInMinutes: number;
+  // Device the login attempt came from, e.g. "Chrome on Windows"
+  device?: string;
+}
+
+export const twoFactorCodeTemplate = (data: TwoFactorCodeEmailData): string => {
+  const { firstName, code, expiresInMinutes, device } = data;
+
+  const content = `
+    <div style="text-align: center; margin-bottom: 30px;">
+      <div style="display: inline-block; width: 80px; height: 80px; background-color: #16a34a15; border-radius: 50%; text-align: center; line-height: 80px; margin-bottom: 20px;">
+        <span style="font-size: 40px;">🔐</span>
+      </div>
+      <h2 style="margin: 0 0 10px 0; color: #212636; font-size: 28px; font-weight: 600;">
+        Código de verificación
+      </h2>
+    </div>
+
+    <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Hola ${firstName},
+    </p>
+
+    <p style="margin: 0 0 30px 0; color: #4b5563; font-size: 16px; line-height: 24px;">
+      Usa este código para completar tu inicio de sesión${device ? ` desde ${device}` : ''}:
+    </p>
+
+    <div style="background-color: #f9fafb; border-radius: 8px; padding: 24px; margin: 0 0 30px 0; text-align: center;">
+      <p style="margin: 0; color: #212636; font-size: 36px; font-weight: 700; letter-spacing: 8px;">
+        ${code}
+      </p>
+      <p style="margin: 10px 0 0 0; color: #6b7280; font-size: 14px;">
+        Caduca en ${expiresInMinutes} minutos
+      </p>
+    </div>
+
+    <p style="margin: 0 0 30px 0; color: #6b7280; font-size: 14px; line-height: 21px;">
+      Si no intentaste iniciar sesión, alguien conoce tu contraseña: cámbiala cuanto antes.
+    </p>
+
+    <p style="margin: 20px 0 0 0; color: #4b5563; font-size: 16px;">
+      Un abrazo,<br>
+      <strong style="color: #212636;">El equipo de DayTradeDak</strong>
+    </p>
+  `;
+
+  return baseEmailTemplate({
+    preheader: `Tu código de verificación es ${code}`,
+    content,
+  });
+};
@@ -0,0 +1,32 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Role } from 'src/constants';
+
+/**
+ * Lets through users who confirmed their email address. Runs after
+ * JwtAuthGuard, which loads the user onto the request.
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated.');
+    }
+    if (user.role === Role.ADMIN || user.role === Role.SUPER_ADMIN) {
+      return true;
+    }
+    if (!user.emailVerified) {
+      throw new ForbiddenException(
+        'Please verify your email address to continue.',
+        'EMAIL_NOT_VERIFIED',
+      );
+    }
+    return true;
+  }
+}
@@ -8,6 +8,7 @@ import { Reflector } from '@nestjs/core';
 import { JwtService } from '@nestjs/jwt';
 import { UserService } from 'src/users/users.service';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { AuthSessionService } from '../auth/sessions/auth-session.service';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
@@ -15,6 +16,7 @@ export class JwtAuthGuard implements CanActivate {
     private jwtService: JwtService,
     private userService: UserService,
     private reflector: Reflector,
+    private authSessionService: AuthSessionService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -45,12 +47,23 @@ export class JwtAuthGuard implements CanActivate {
         throw new UnauthorizedException('Invalid token payload: missing sub');
       }
 
+      // Tokens stop working once their session is revoked
+      if (!(await this.authSessionService.acceptsToken(decoded))) {
+        throw new UnauthorizedException('Session has been revoked');
+      }
+
       // Find user by ID (sub)
       const user = await this.userService.findById(decoded.sub);
       if (!user) {
         throw new UnauthorizedException('User not found');
       }
 
+      if (user.status === 'banned' || user.status === 'suspended') {
+        throw new UnauthorizedException(
+          'Your account has been suspended. Please contact support for assistance.',
+        );
+      }
+
       // Set user in request with expected structure
       request.user = {
         userId: user._id.toString(),
@@ -58,10 +71,15 @@ export class JwtAuthGuard implements CanActivate {
         email: user.email,
         role: user.role,
         ...user.toObject(),
+        sessionId: decoded.sid,
       };
       return true;
     } catch (err) {
       console.error('JWT Verification Error:', err.message);
+      // Keep revocation and suspension messages for the client
+      if (err instanceof UnauthorizedException) {
+        throw err;
+      }
       throw new UnauthorizedException('Invalid or expired token');
     }
   }
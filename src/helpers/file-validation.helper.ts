@@ -64,6 +64,51 @@ export class FileValidationHelper {
     }
   }
 
+  /**
+   * Validate an image before a direct (presigned) upload, when only the
+   * declared name, type and size are known
+   */
+  static validateImageUpload(
+    fileName: string,
+    mimetype: string,
+    size: number,
+    maxSize: number = this.MAX_FILE_SIZE,
+  ): void {
+    if (!size || size <= 0) {
+      throw new BadRequestException('File is empty');
+    }
+
+    if (size > maxSize) {
+      throw new BadRequestException(
+        `File size must not exceed ${maxSize / 1024 / 1024}MB`,
+      );
+    }
+
+    if (!this.ALLOWED_IMAGE_TYPES.includes(mimetype)) {
+      throw new BadRequestException(
+        `Invalid file type. Allowed types: ${this.ALLOWED_IMAGE_TYPES.join(', ')}`,
+      );
+    }
+
+    const ext = fileName.toLowerCase().substring(fileName.lastIndexOf('.'));
+    if (!this.ALLOWED_IMAGE_EXTENSIONS.includes(ext)) {
+      throw new BadRequestException(
+        `Invalid file extension. Allowed extensions: ${this.ALLOWED_IMAGE_EXTENSIONS.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Validate the content of an uploaded image against its declared type
+   */
+  static validateImageContent(buffer: Buffer, mimetype: string): void {
+    if (!this.validateFileSignature(buffer, mimetype)) {
+      throw new BadRequestException(
+        'File signature does not match the declared MIME type. Possible file tampering detected.',
+      );
+    }
+  }
+
   private static validateFileSignature(buffer: Buffer, mimetype: string): boolean {
     if (!buffer || buffer.length < 4) {
       return false;
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe, VersioningType } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import * as dotenv from 'dotenv';
 import * as express from 'express';
 import { json, raw, urlencoded } from 'body-parser';
@@ -48,7 +49,7 @@ async function bootstrap() {
 
   // Create the NestJS application with Winston logger
   console.log('[BOOTSTRAP] Creating NestJS application...');
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: WinstonModule.createLogger(winstonConfig),
   });
   console.log('[BOOTSTRAP] NestJS application created successfully');
@@ -56,6 +57,10 @@ async function bootstrap() {
   // Get custom logger service
   const customLogger = app.get(CustomLoggerService);
 
+  // req.ip is the client address as seen by the last trusted proxy; the
+  // leftmost X-Forwarded-For entry is whatever the client sent
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '1', 10));
+
   // Apply security headers
   app.use(
     helmet({
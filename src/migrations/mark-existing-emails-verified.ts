@@ -0,0 +1,44 @@
+import { MongoClient } from 'mongodb';
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const MONGO_URI =
+  process.env.MONGO_URI || 'mongodb://localhost:27017/daytradedak';
+
+// Accounts created before email verification existed keep purchasing and
+// chatbot access: they are marked verified as of their signup date. The API
+// runs the same update on startup; this script does it ahead of a deploy.
+async function markExistingEmailsVerified() {
+  const client = new MongoClient(MONGO_URI);
+
+  try {
+    await client.connect();
+    console.log('Connected to MongoDB');
+
+    const usersCollection = client.db().collection('users');
+    const result = await usersCollection.updateMany(
+      { emailVerified: { $exists: false } },
+      [
+        {
+          $set: {
+            emailVerified: true,
+            emailVerifiedAt: { $ifNull: ['$createdAt', '$$NOW'] },
+          },
+        },
+      ],
+    );
+
+    console.log(`\nMigration completed!`);
+    console.log(`Marked as verified: ${result.modifiedCount} users`);
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await client.close();
+    console.log('MongoDB connection closed');
+  }
+}
+
+// Run the migration
+markExistingEmailsVerified().catch(console.error);
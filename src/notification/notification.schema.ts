@@ -15,6 +15,8 @@ export enum NotificationType {
   MEETING_REMINDER = 'meeting_reminder',
   COURSE_ENROLLMENT = 'course_enrollment',
   SUBSCRIPTION_UPDATE = 'subscription_update',
+  PRICE_ALERT = 'price_alert',
+  ECONOMIC_EVENT = 'economic_event',
 }
 
 export enum NotificationStatus {
@@ -12,6 +12,7 @@ import {
 } from '@nestjs/common';
 import { LocalFinancingService } from './local-financing.service';
 import { JwtAuthGuard } from '../../guards/jwt-auth-guard';
+import { EmailVerifiedGuard } from '../../guards/email-verified.guard';
 
 @Controller('v1/local-financing')
 export class LocalFinancingController {
@@ -48,7 +49,7 @@ export class LocalFinancingController {
   /**
    * Create an installment plan for event registration
    */
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('create-event-plan')
   async createEventInstallmentPlan(
     @Req() req: any,
@@ -76,7 +77,7 @@ export class LocalFinancingController {
   /**
    * Create an installment plan for course purchase
    */
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('create-course-plan')
   async createCourseInstallmentPlan(
     @Req() req: any,
@@ -16,6 +16,7 @@ import { PricingService } from './pricing.service';
 import { Request, Response } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { JwtAuthGuard } from 'src/guards/jwt-auth-guard';
+import { EmailVerifiedGuard } from 'src/guards/email-verified.guard';
 import { RequestWithUser } from 'src/auth/auth.interfaces';
 import { SubscriptionPlan } from 'src/users/user.dto';
 import { EventRegistrationsService } from 'src/event/event-registration.service';
@@ -30,11 +31,14 @@ export class StripeController {
   ) {}
 
   // **Create a checkout session**
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('checkout')
   async createCheckoutSession(
-    @Body() body: { userId: string; priceId: string },
+    @Req() req: RequestWithUser,
+    @Body() body: { userId?: string; priceId: string },
   ) {
-    return this.stripeService.createCheckoutSession(body.userId, body.priceId);
+    const userId = body.userId || req.user._id.toString();
+    return this.stripeService.createCheckoutSession(userId, body.priceId);
   }
 
   @Post('vip-event-checkout')
@@ -83,7 +87,7 @@ export class StripeController {
   }
 
   // **Create classes checkout session (NEW)**
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('classes-checkout')
   async createClassesCheckoutSession(
     @Req() req: RequestWithUser,
@@ -185,7 +189,7 @@ export class StripeController {
   }
 
   // **Update subscription**
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('update-subscription')
   async updateSubscription(
     @Req() req: RequestWithUser,
@@ -234,7 +238,7 @@ export class StripeController {
   }
 
   // **Create enhanced checkout session**
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('checkout/enhanced')
   async createEnhancedCheckout(
     @Req() req: RequestWithUser,
@@ -256,7 +260,7 @@ export class StripeController {
   }
 
   // **Create weekly manual subscription**
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('checkout/live-weekly-manual')
   async createWeeklyManualCheckout(@Req() req: RequestWithUser) {
     return this.stripeService.createWeeklyManualSubscription(
@@ -265,7 +269,7 @@ export class StripeController {
   }
 
   // **Create weekly recurring subscription**
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
   @Post('checkout/live-weekly-recurring')
   async createWeeklyRecurringCheckout(@Req() req: RequestWithUser) {
     return this.stripeService.createWeeklyRecurringSubscription(
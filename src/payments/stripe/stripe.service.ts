@@ -2549,6 +2549,20 @@ export class StripeService {
     return { url: session.url };
   }
 
+  /**
+   * Keeps the Stripe customer on the user's current email address, so
+   * receipts and customer matching follow an email change
+   */
+  async syncCustomerEmail(userId: string) {
+    const user = await this.userService.findById(userId);
+    if (!user?.stripeCustomerId) {
+      return;
+    }
+    await this.stripe.customers.update(user.stripeCustomerId, {
+      email: user.email,
+    });
+  }
+
   /**
    * Get payment history for a user
    */
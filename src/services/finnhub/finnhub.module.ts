@@ -3,14 +3,25 @@ import { ConfigModule } from '@nestjs/config';
 import { FinnhubService } from './finnhub.service';
 import { FinnhubWebSocketService } from './finnhub-websocket.service';
 import { EnhancedWebSocketService } from './enhanced-websocket.service';
+import { MarketStreamGateway } from './market-stream.gateway';
 import { FinnhubController } from './finnhub.controller';
 import { AuthModule } from '../../auth/auth.module';
 import { UsersModule } from '../../users/users.module';
 
 @Module({
   imports: [ConfigModule, AuthModule, UsersModule],
-  providers: [FinnhubService, FinnhubWebSocketService, EnhancedWebSocketService],
+  providers: [
+    FinnhubService,
+    FinnhubWebSocketService,
+    EnhancedWebSocketService,
+    MarketStreamGateway,
+  ],
   controllers: [FinnhubController],
-  exports: [FinnhubService, FinnhubWebSocketService, EnhancedWebSocketService],
+  exports: [
+    FinnhubService,
+    FinnhubWebSocketService,
+    EnhancedWebSocketService,
+    MarketStreamGateway,
+  ],
 })
 export class FinnhubModule {}
@@ -205,6 +205,26 @@ export class FinnhubService {
     });
   }
 
+  /**
+   * Economic releases from Finnhub's /calendar/economic endpoint. Times are
+   * UTC ("YYYY-MM-DD HH:mm:ss"); the endpoint needs a premium plan and
+   * rejects free keys.
+   */
+  async fetchEconomicCalendar(from: string, to: string): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.finnhubClient.economicCalendar(
+        { from, to },
+        (error: any, data: any) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve(data?.economicCalendar || []);
+          }
+        },
+      );
+    });
+  }
+
   /**
    * Get economic calendar
    */
@@ -0,0 +1,339 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayInit,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { UserService } from '../../users/users.service';
+import { AuthSessionService } from '../../auth/sessions/auth-session.service';
+import { EnhancedWebSocketService, Trade } from './enhanced-websocket.service';
+import {
+  conflateTrades,
+  ConflatedTick,
+  normalizeSymbol,
+  StreamLimit,
+  streamLimitFor,
+  UserSymbolQuota,
+} from './market-stream.utils';
+
+interface StreamSocket extends Socket {
+  userId?: string;
+  limit?: StreamLimit;
+  symbols?: Set<string>;
+}
+
+interface SymbolsPayload {
+  symbols?: string[];
+  symbol?: string;
+}
+
+/**
+ * One upstream Finnhub subscription shared by every socket in the symbol's
+ * room. Trades are conflated into `pending` and flushed at most once per
+ * throttle interval.
+ */
+interface SymbolStream {
+  release: () => void;
+  listeners: Set<string>;
+  priority: number;
+  pending: ConflatedTick | null;
+  timer: NodeJS.Timeout | null;
+  lastFlush: number;
+}
+
+const room = (symbol: string) => `symbol-${symbol}`;
+
+@WebSocketGateway({
+  namespace: '/market',
+  cors: {
+    origin: '*', // Configure properly for production
+    credentials: true,
+  },
+})
+export class MarketStreamGateway
+  implements
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleDestroy
+{
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(MarketStreamGateway.name);
+  private readonly streams = new Map<string, SymbolStream>();
+  private readonly quota = new UserSymbolQuota();
+  private readonly throttleMs: number;
+
+  constructor(
+    private readonly webSocketService: EnhancedWebSocketService,
+    private readonly jwtService: JwtService,
+    private readonly userService: UserService,
+    private readonly authSessionService: AuthSessionService,
+    configService: ConfigService,
+  ) {
+    this.throttleMs = configService.get<number>(
+      'finnhub.streamThrottleMs',
+      250,
+    );
+  }
+
+  afterInit() {
+    // Sockets authenticate once, so a revoked session or banned user would
+    // otherwise keep streaming
+    this.authSessionService.onRevoked((userId, sessionIds) => {
+      this.disconnectSessions(userId, sessionIds).catch((error) =>
+        this.logger.error(`Could not close revoked sockets: ${error.message}`),
+      );
+    });
+    this.logger.log('Market stream WebSocket Gateway initialized');
+  }
+
+  async handleConnection(client: StreamSocket) {
+    try {
+      const token =
+        client.handshake.auth?.token ||
+        client.handshake.headers?.authorization?.replace('Bearer ', '');
+
+      if (!token) {
+        client.emit('market:error', { message: 'Authentication required' });
+        client.disconnect();
+        return;
+      }
+
+      const payload = this.jwtService.verify(token);
+      const userId = payload.sub || payload._id;
+      const revoked = !(await this.authSessionService.acceptsToken(payload));
+      const user = revoked ? null : await this.userService.findById(userId);
+      if (!user || user.status === 'banned' || user.status === 'suspended') {
+        client.emit('market:error', { message: 'Authentication failed' });
+        client.disconnect();
+        return;
+      }
+
+      client.userId = String(userId);
+      // Kept in socket data, which fetchSockets() exposes
+      client.data.sessionId = payload.sid;
+      client.limit = streamLimitFor(user);
+      client.symbols = new Set();
+
+      // Personal room for alerts and other per-user pushes
+      client.join(`user-${client.userId}`);
+
+      client.emit('market:connected', {
+        maxSymbols: client.limit.maxSymbols,
+        throttleMs: this.throttleMs,
+      });
+    } catch (error) {
+      this.logger.warn(`Market stream connection rejected: ${error.message}`);
+      client.emit('market:error', { message: 'Authentication failed' });
+      client.disconnect();
+    }
+  }
+
+  handleDisconnect(client: StreamSocket) {
+    for (const symbol of client.symbols || []) {
+      this.quota.release(client.userId, symbol);
+      this.removeListener(symbol, client.id);
+    }
+    client.symbols?.clear();
+  }
+
+  @SubscribeMessage('market:subscribe')
+  handleSubscribe(
+    @MessageBody() data: SymbolsPayload,
+    @ConnectedSocket() client: StreamSocket,
+  ) {
+    if (!client.userId) {
+      client.emit('market:error', { message: 'Not authenticated' });
+      return;
+    }
+
+    const requested = this.parseSymbols(data);
+    const rejected: string[] = [];
+
+    for (const symbol of requested) {
+      if (client.symbols.has(symbol)) {
+        continue;
+      }
+      // The limit covers all of the user's connections together
+      if (!this.quota.acquire(client.userId, symbol, client.limit.maxSymbols)) {
+        rejected.push(symbol);
+        continue;
+      }
+      client.symbols.add(symbol);
+      client.join(room(symbol));
+      this.addListener(symbol, client.id, client.limit.priority);
+    }
+
+    if (rejected.length > 0) {
+      client.emit('market:error', {
+        message: `Your plan allows streaming ${client.limit.maxSymbols} symbols at once`,
+        code: 'SYMBOL_LIMIT',
+        symbols: rejected,
+      });
+    }
+
+    client.emit('market:subscribed', {
+      symbols: [...client.symbols],
+      maxSymbols: client.limit.maxSymbols,
+    });
+  }
+
+  @SubscribeMessage('market:unsubscribe')
+  handleUnsubscribe(
+    @MessageBody() data: SymbolsPayload,
+    @ConnectedSocket() client: StreamSocket,
+  ) {
+    if (!client.userId) {
+      client.emit('market:error', { message: 'Not authenticated' });
+      return;
+    }
+
+    for (const symbol of this.parseSymbols(data)) {
+      if (client.symbols.delete(symbol)) {
+        this.quota.release(client.userId, symbol);
+        client.leave(room(symbol));
+        this.removeListener(symbol, client.id);
+      }
+    }
+
+    client.emit('market:subscribed', {
+      symbols: [...client.symbols],
+      maxSymbols: client.limit.maxSymbols,
+    });
+  }
+
+  /**
+   * Push an event to every market stream socket of a user
+   */
+  emitToUser(userId: string, event: string, payload: unknown) {
+    this.server?.to(`user-${userId}`).emit(event, payload);
+  }
+
+  onModuleDestroy() {
+    for (const stream of this.streams.values()) {
+      if (stream.timer) clearTimeout(stream.timer);
+      stream.release();
+    }
+    this.streams.clear();
+  }
+
+  /**
+   * Close the user's sockets opened with a revoked session. Tokens issued
+   * before sessions existed carry no session id and are closed on any
+   * revocation.
+   */
+  private async disconnectSessions(userId: string, sessionIds: string[]) {
+    if (!this.server) {
+      return;
+    }
+    const revoked = new Set(sessionIds);
+    const sockets = await this.server.in(`user-${userId}`).fetchSockets();
+    for (const socket of sockets) {
+      const sessionId = socket.data?.sessionId;
+      if (!sessionId || revoked.has(sessionId)) {
+        socket.emit('market:error', {
+          message: 'Session ended, please sign in again',
+          code: 'SESSION_REVOKED',
+        });
+        socket.disconnect(true);
+      }
+    }
+  }
+
+  private parseSymbols(data: SymbolsPayload): string[] {
+    const values = Array.isArray(data?.symbols)
+      ? data.symbols
+      : data?.symbol
+        ? [data.symbol]
+        : [];
+    return [...new Set(values.map(normalizeSymbol).filter(Boolean))];
+  }
+
+  private addListener(symbol: string, socketId: string, priority: number) {
+    const existing = this.streams.get(symbol);
+    if (existing) {
+      existing.listeners.add(socketId);
+      if (priority > existing.priority) {
+        existing.priority = priority;
+        this.webSocketService.updateSymbolPriority(symbol, priority);
+      }
+      return;
+    }
+
+    const stream: SymbolStream = {
+      release: () => undefined,
+      listeners: new Set([socketId]),
+      priority,
+      pending: null,
+      timer: null,
+      lastFlush: 0,
+    };
+    this.streams.set(symbol, stream);
+    stream.release = this.webSocketService.subscribe(
+      symbol,
+      (trades: Trade[]) => this.handleTrades(symbol, stream, trades),
+      priority,
+    );
+    this.logger.debug(`Streaming ${symbol} (priority: ${priority})`);
+  }
+
+  /**
+   * Drop a socket from the symbol; the upstream subscription is released
+   * with the last listener
+   */
+  private removeListener(symbol: string, socketId: string) {
+    const stream = this.streams.get(symbol);
+    if (!stream) {
+      return;
+    }
+
+    stream.listeners.delete(socketId);
+    if (stream.listeners.size > 0) {
+      return;
+    }
+
+    if (stream.timer) clearTimeout(stream.timer);
+    stream.release();
+    this.streams.delete(symbol);
+    this.logger.debug(`Stopped streaming ${symbol}`);
+  }
+
+  private handleTrades(symbol: string, stream: SymbolStream, trades: Trade[]) {
+    if (this.streams.get(symbol) !== stream) {
+      return;
+    }
+
+    stream.pending = conflateTrades(symbol, trades, stream.pending);
+    if (!stream.pending || stream.timer) {
+      return;
+    }
+
+    const wait = stream.lastFlush + this.throttleMs - Date.now();
+    if (wait <= 0) {
+      this.flush(symbol, stream);
+      return;
+    }
+    stream.timer = setTimeout(() => this.flush(symbol, stream), wait);
+  }
+
+  private flush(symbol: string, stream: SymbolStream) {
+    stream.timer = null;
+    if (!stream.pending) {
+      return;
+    }
+
+    this.server.to(room(symbol)).emit('market:tick', stream.pending);
+    stream.pending = null;
+    stream.lastFlush = Date.now();
+  }
+}
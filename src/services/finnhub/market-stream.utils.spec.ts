@@ -0,0 +1,112 @@
+import { Role } from '../../constants';
+import {
+  ADMIN_STREAM_LIMIT,
+  conflateTrades,
+  FREE_STREAM_LIMIT,
+  normalizeSymbol,
+  PLAN_STREAM_LIMITS,
+  streamLimitFor,
+  UserSymbolQuota,
+} from './market-stream.utils';
+
+describe('market stream utils', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  describe('streamLimitFor', () => {
+    it('gives the free limit without an active plan', () => {
+      expect(streamLimitFor({ subscriptions: [] }, now)).toBe(
+        FREE_STREAM_LIMIT,
+      );
+      expect(
+        streamLimitFor(
+          {
+            subscriptions: [
+              {
+                plan: 'Stocks',
+                currentPeriodEnd: new Date('2025-05-01T00:00:00Z'),
+              },
+              {
+                plan: 'LiveWeeklyRecurring',
+                status: 'cancelled',
+              },
+            ],
+          },
+          now,
+        ),
+      ).toBe(FREE_STREAM_LIMIT);
+    });
+
+    it('picks the best active plan', () => {
+      const limit = streamLimitFor(
+        {
+          subscriptions: [
+            { plan: 'MasterClases', status: 'active' },
+            {
+              plan: 'Stocks',
+              expiresAt: new Date('2025-07-01T00:00:00Z'),
+            },
+            { plan: 'Classes' },
+          ],
+        },
+        now,
+      );
+      expect(limit).toBe(PLAN_STREAM_LIMITS.Stocks);
+    });
+
+    it('gives admins the admin limit', () => {
+      expect(streamLimitFor({ role: Role.ADMIN }, now)).toBe(
+        ADMIN_STREAM_LIMIT,
+      );
+    });
+  });
+
+  it('normalizes symbols', () => {
+    expect(normalizeSymbol(' aapl ')).toBe('AAPL');
+    expect(normalizeSymbol('binance:btcusdt')).toBe('BINANCE:BTCUSDT');
+    expect(normalizeSymbol('BRK.B')).toBe('BRK.B');
+    expect(normalizeSymbol('AAPL; DROP')).toBeNull();
+    expect(normalizeSymbol(42)).toBeNull();
+  });
+
+  it('conflates trades into one tick per window', () => {
+    let tick = conflateTrades('AAPL', [
+      { s: 'AAPL', p: 190, t: 1000, v: 10 },
+      { s: 'AAPL', p: 191.5, t: 1002, v: 5 },
+    ]);
+    tick = conflateTrades(
+      'AAPL',
+      [
+        { s: 'AAPL', p: 189.75, t: 1003, v: 20 },
+        { s: 'AAPL', p: 192, t: 1001, v: 1 },
+      ],
+      tick,
+    );
+
+    expect(tick).toEqual({
+      symbol: 'AAPL',
+      price: 189.75,
+      high: 192,
+      low: 189.75,
+      volume: 36,
+      trades: 4,
+      timestamp: 1003,
+    });
+    expect(conflateTrades('AAPL', [])).toBeNull();
+  });
+
+  it('limits symbols per user across connections', () => {
+    const quota = new UserSymbolQuota();
+    // Two sockets of the same user watching AAPL use one slot
+    expect(quota.acquire('u1', 'AAPL', 2)).toBe(true);
+    expect(quota.acquire('u1', 'AAPL', 2)).toBe(true);
+    expect(quota.acquire('u1', 'MSFT', 2)).toBe(true);
+    expect(quota.acquire('u1', 'TSLA', 2)).toBe(false);
+    expect(quota.acquire('u2', 'TSLA', 2)).toBe(true);
+
+    quota.release('u1', 'AAPL');
+    expect(quota.acquire('u1', 'TSLA', 2)).toBe(false);
+    quota.release('u1', 'AAPL');
+    expect(quota.count('u1')).toBe(1);
+    expect(quota.acquire('u1', 'TSLA', 2)).toBe(true);
+  });
+});
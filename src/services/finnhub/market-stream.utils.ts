@@ -0,0 +1,181 @@
+import { Role } from '../../constants';
+import type { SubscriptionPlan } from '../../users/user.dto';
+import { Trade } from './enhanced-websocket.service';
+
+export interface StreamLimit {
+  // Symbols a user may stream at once, across all of their connections
+  maxSymbols: number;
+  // Priority of the user's symbols in the shared Finnhub subscription pool
+  priority: number;
+}
+
+export interface StreamUser {
+  role?: string;
+  subscriptions?: {
+    plan: string;
+    status?: string;
+    expiresAt?: Date;
+    currentPeriodEnd?: Date;
+  }[];
+}
+
+export interface ConflatedTick {
+  symbol: string;
+  price: number;
+  high: number;
+  low: number;
+  volume: number;
+  trades: number;
+  timestamp: number;
+}
+
+export const FREE_STREAM_LIMIT: StreamLimit = { maxSymbols: 3, priority: 1 };
+
+export const ADMIN_STREAM_LIMIT: StreamLimit = { maxSymbols: 50, priority: 5 };
+
+// Plans not listed here get the free limit. Keyed by plan value so this
+// module stays free of the users DTO at runtime.
+export const PLAN_STREAM_LIMITS: Partial<
+  Record<`${SubscriptionPlan}`, StreamLimit>
+> = {
+  Stocks: { maxSymbols: 25, priority: 4 },
+  LiveWeeklyManual: { maxSymbols: 15, priority: 3 },
+  LiveWeeklyRecurring: { maxSymbols: 15, priority: 3 },
+  MasterClases: { maxSymbols: 10, priority: 2 },
+  LiveRecorded: { maxSymbols: 10, priority: 2 },
+  Psicotrading: { maxSymbols: 10, priority: 2 },
+};
+
+// Finnhub symbols: tickers, share classes, indices and exchange-prefixed
+// crypto/forex pairs such as BINANCE:BTCUSDT
+const SYMBOL_PATTERN = /^[A-Z0-9^][A-Z0-9.:_\-/=^]{0,29}$/;
+
+export function normalizeSymbol(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const symbol = value.trim().toUpperCase();
+  return SYMBOL_PATTERN.test(symbol) ? symbol : null;
+}
+
+/**
+ * Plans of the user whose subscription is active: status active (or unset)
+ * and billing period (recurring) or expiration (one-time) not passed
+ */
+export function activePlans(
+  user: StreamUser,
+  now: Date = new Date(),
+): `${SubscriptionPlan}`[] {
+  return (user.subscriptions || [])
+    .filter((subscription) => {
+      if (subscription.status && subscription.status !== 'active') {
+        return false;
+      }
+      const end = subscription.currentPeriodEnd || subscription.expiresAt;
+      return !end || new Date(end) > now;
+    })
+    .map((subscription) => subscription.plan as `${SubscriptionPlan}`);
+}
+
+/**
+ * Streaming limit of a user: the best one among their active plans
+ */
+export function streamLimitFor(
+  user: StreamUser,
+  now: Date = new Date(),
+): StreamLimit {
+  if (user.role === Role.ADMIN || user.role === Role.SUPER_ADMIN) {
+    return ADMIN_STREAM_LIMIT;
+  }
+
+  return activePlans(user, now)
+    .map((plan) => PLAN_STREAM_LIMITS[plan])
+    .filter(Boolean)
+    .reduce(
+      (best, limit) => (limit.maxSymbols > best.maxSymbols ? limit : best),
+      FREE_STREAM_LIMIT,
+    );
+}
+
+/**
+ * Fold a batch of Finnhub trades into the tick waiting to be flushed: last
+ * price wins, volume and trade count accumulate, high/low span the window
+ */
+export function conflateTrades(
+  symbol: string,
+  trades: Trade[],
+  pending?: ConflatedTick | null,
+): ConflatedTick | null {
+  let tick = pending ? { ...pending } : null;
+
+  for (const trade of trades) {
+    if (typeof trade.p !== 'number' || !isFinite(trade.p)) {
+      continue;
+    }
+    if (!tick) {
+      tick = {
+        symbol,
+        price: trade.p,
+        high: trade.p,
+        low: trade.p,
+        volume: 0,
+        trades: 0,
+        timestamp: trade.t,
+      };
+    }
+    if (trade.t >= tick.timestamp) {
+      tick.price = trade.p;
+      tick.timestamp = trade.t;
+    }
+    tick.high = Math.max(tick.high, trade.p);
+    tick.low = Math.min(tick.low, trade.p);
+    tick.volume += trade.v || 0;
+    tick.trades++;
+  }
+
+  return tick;
+}
+
+/**
+ * Distinct symbols each user streams across all of their sockets, so
+ * opening more connections does not multiply the plan limit. A symbol
+ * counts once however many of the user's sockets watch it.
+ */
+export class UserSymbolQuota {
+  // userId -> symbol -> sockets of the user watching it
+  private readonly users = new Map<string, Map<string, number>>();
+
+  /**
+   * Adds a socket's interest in a symbol; false when it would take the user
+   * past `maxSymbols`
+   */
+  acquire(userId: string, symbol: string, maxSymbols: number): boolean {
+    const symbols = this.users.get(userId) || new Map<string, number>();
+    if (!symbols.has(symbol) && symbols.size >= maxSymbols) {
+      return false;
+    }
+    symbols.set(symbol, (symbols.get(symbol) || 0) + 1);
+    this.users.set(userId, symbols);
+    return true;
+  }
+
+  release(userId: string, symbol: string) {
+    const symbols = this.users.get(userId);
+    const count = symbols?.get(symbol);
+    if (!count) {
+      return;
+    }
+    if (count > 1) {
+      symbols.set(symbol, count - 1);
+      return;
+    }
+    symbols.delete(symbol);
+    if (symbols.size === 0) {
+      this.users.delete(userId);
+    }
+  }
+
+  count(userId: string): number {
+    return this.users.get(userId)?.size || 0;
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { BAR_RESOLUTIONS, BarResolution } from '../indicators';
+
+export class IndicatorsQueryDto {
+  @ApiProperty({
+    description:
+      'Comma-separated indicators with optional colon parameters: sma:20, ema:50, rsi:14, macd:12:26:9, bbands:20:2, vwap, atr:14, pivots',
+    example: 'sma:20,rsi,macd',
+  })
+  @IsString()
+  @IsNotEmpty()
+  indicators: string;
+
+  @ApiPropertyOptional({ enum: BAR_RESOLUTIONS, default: 'D' })
+  @IsOptional()
+  @IsIn(BAR_RESOLUTIONS)
+  resolution?: BarResolution;
+
+  @ApiPropertyOptional({
+    description: 'Range start in unix seconds (default: 300 bars back)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  from?: number;
+
+  @ApiPropertyOptional({
+    description: 'Range end in unix seconds (default: now)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  to?: number;
+
+  @ApiPropertyOptional({
+    description: 'Include the OHLCV bars alongside the indicators',
+    default: false,
+  })
+  @IsOptional()
+  // Query values are strings, so "false" must not become true
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  includeBars?: boolean;
+}
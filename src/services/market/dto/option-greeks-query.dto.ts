@@ -0,0 +1,118 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  MAX_BINOMIAL_STEPS,
+  OPTION_MODELS,
+  OptionKind,
+  OptionModel,
+} from '../options-pricing';
+
+export class OptionGreeksQueryDto {
+  @ApiProperty({ enum: ['call', 'put'] })
+  @IsIn(['call', 'put'])
+  type: OptionKind;
+
+  @ApiPropertyOptional({
+    description:
+      'Underlying ticker; its live price is used when underlyingPrice is missing',
+    example: 'SPY',
+  })
+  @ValidateIf((dto) => dto.underlyingPrice === undefined)
+  @IsString()
+  symbol?: string;
+
+  @ApiPropertyOptional({ description: 'Underlying price' })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  underlyingPrice?: number;
+
+  @ApiProperty({ description: 'Strike price' })
+  @IsNumber()
+  @IsPositive()
+  strike: number;
+
+  @ApiProperty({
+    description:
+      'Expiration date (YYYY-MM-DD), expiring at the 4 p.m. New York close',
+    example: '2025-12-19',
+  })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'expiry must be YYYY-MM-DD' })
+  expiry: string;
+
+  @ApiPropertyOptional({
+    description: 'Annual risk-free rate as a decimal (0.045 = 4.5%)',
+    default: 0.045,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-0.1)
+  @Max(1)
+  rate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Annual continuous dividend yield as a decimal',
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  dividendYield?: number;
+
+  @ApiPropertyOptional({
+    description: 'Option price to solve implied volatility from',
+  })
+  @ValidateIf((dto) => dto.volatility === undefined)
+  @IsNumber()
+  @IsPositive()
+  price?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Annual volatility as a decimal; solved from price when missing',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.0001)
+  @Max(5)
+  volatility?: number;
+
+  @ApiPropertyOptional({ enum: OPTION_MODELS, default: 'black-scholes' })
+  @IsOptional()
+  @IsIn(OPTION_MODELS)
+  model?: OptionModel;
+
+  @ApiPropertyOptional({
+    description: 'Allow early exercise (binomial model only)',
+    default: true,
+  })
+  @IsOptional()
+  // Query values are strings, so "false" must not become true
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  american?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Binomial tree steps',
+    default: 200,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(10)
+  @Max(MAX_BINOMIAL_STEPS)
+  steps?: number;
+}
@@ -0,0 +1,92 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { MarketDataService } from './market-data.service';
+import {
+  Bar,
+  BarResolution,
+  computeIndicator,
+  IndicatorResult,
+  IndicatorSpec,
+  parseIndicatorSpecs,
+  sliceResult,
+  warmupBars,
+  warmupSeconds,
+} from './indicators';
+
+// Range served when the caller gives no start
+const DEFAULT_RANGE_BARS = 300;
+
+export interface IndicatorSeries {
+  symbol: string;
+  resolution: BarResolution;
+  // Bar start times (unix seconds) every series is aligned to
+  time: number[];
+  bars?: Bar[];
+  indicators: Record<string, IndicatorResult>;
+}
+
+@Injectable()
+export class IndicatorsService {
+  constructor(private marketDataService: MarketDataService) {}
+
+  /**
+   * Indicator series for the bars in [from, to]. Extra history before
+   * `from` is fetched so the first returned values are already settled.
+   */
+  async getIndicators(
+    symbol: string,
+    indicators: string,
+    resolution: BarResolution = 'D',
+    from?: number,
+    to?: number,
+    includeBars = false,
+  ): Promise<IndicatorSeries> {
+    let specs: IndicatorSpec[];
+    try {
+      specs = parseIndicatorSpecs(indicators);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const end = to ?? Math.floor(Date.now() / 1000);
+    const start = from ?? end - warmupSeconds(resolution, DEFAULT_RANGE_BARS);
+    if (start >= end) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const series = await this.compute(symbol, resolution, start, end, specs);
+    return includeBars ? series : { ...series, bars: undefined };
+  }
+
+  /**
+   * Shared entry point for services that already hold parsed specs
+   */
+  async compute(
+    symbol: string,
+    resolution: BarResolution,
+    from: number,
+    to: number,
+    specs: IndicatorSpec[],
+  ): Promise<IndicatorSeries> {
+    const bars = await this.marketDataService.getCandles(
+      symbol,
+      resolution,
+      from - warmupSeconds(resolution, warmupBars(specs)),
+      to,
+    );
+    const first = bars.findIndex((bar) => bar.time >= from);
+    const offset = first === -1 ? bars.length : first;
+
+    return {
+      symbol,
+      resolution,
+      time: bars.slice(offset).map((bar) => bar.time),
+      bars: bars.slice(offset),
+      indicators: Object.fromEntries(
+        specs.map((spec) => [
+          spec.key,
+          sliceResult(computeIndicator(spec, bars, resolution), offset),
+        ]),
+      ),
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  atr,
+  Bar,
+  bollinger,
+  ema,
+  macd,
+  parseIndicatorSpecs,
+  pivots,
+  rsi,
+  sliceResult,
+  sma,
+  vwap,
+  warmupBars,
+} from './indicators';
+
+const t = (iso: string) => new Date(iso).getTime() / 1000;
+
+const bar = (
+  time: string,
+  high: number,
+  low: number,
+  close: number,
+  volume = 0,
+): Bar => ({ time: t(time), open: close, high, low, close, volume });
+
+describe('indicators', () => {
+  const linear = Array.from({ length: 20 }, (_, i) => i + 1);
+
+  it('computes simple and exponential averages', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    // An EMA of a straight line lags it by (period - 1) / 2
+    const result = ema(linear.slice(0, 10), 3);
+    expect(result.slice(0, 3)).toEqual([null, null, 2]);
+    expect(result[9]).toBeCloseTo(9, 10);
+  });
+
+  // Wilder's worked example; published values round the averages first
+  it('matches the reference Wilder RSI', () => {
+    const closes = [
+      44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08,
+      45.89, 46.03, 45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22,
+    ];
+    const result = rsi(closes, 14);
+    expect(result[13]).toBeNull();
+    expect(result[14]).toBeCloseTo(70.464, 3);
+    expect(result[15]).toBeCloseTo(66.25, 2);
+    expect(result[17]).toBeCloseTo(69.347, 3);
+  });
+
+  it('computes MACD as the gap between averages', () => {
+    const result = macd(linear, 3, 5, 2);
+    expect(result.macd[3]).toBeNull();
+    expect(result.macd[19]).toBeCloseTo(1, 10);
+    expect(result.signal[19]).toBeCloseTo(1, 10);
+    expect(result.histogram[19]).toBeCloseTo(0, 10);
+  });
+
+  it('draws Bollinger bands with the population deviation', () => {
+    const result = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(result.middle[7]).toBe(5);
+    expect(result.upper[7]).toBe(9);
+    expect(result.lower[7]).toBe(1);
+    expect(result.upper[6]).toBeNull();
+  });
+
+  it('resets VWAP every New York session', () => {
+    const bars = [
+      bar('2025-03-03T14:30:00Z', 11, 9, 10, 100),
+      bar('2025-03-03T20:55:00Z', 21, 19, 20, 300),
+      // 00:30 UTC on the 4th is still the 3rd in New York
+      bar('2025-03-04T00:30:00Z', 31, 29, 30, 100),
+      bar('2025-03-04T14:30:00Z', 41, 39, 40, 50),
+    ];
+    expect(vwap(bars)).toEqual([10, 17.5, 20, 40]);
+  });
+
+  it('averages true ranges including gaps', () => {
+    const bars = [
+      bar('2025-03-03T00:00:00Z', 10, 8, 9),
+      bar('2025-03-04T00:00:00Z', 11, 9, 10),
+      bar('2025-03-05T00:00:00Z', 12, 10, 11),
+      bar('2025-03-06T00:00:00Z', 15, 13, 14),
+    ];
+    expect(atr(bars, 2)).toEqual([null, 2, 2, 3]);
+  });
+
+  it('builds floor pivots from the previous period', () => {
+    const bars = [
+      bar('2025-03-03T00:00:00Z', 12, 8, 10),
+      bar('2025-03-04T00:00:00Z', 14, 10, 13),
+    ];
+    const result = pivots(bars, 'D');
+    expect(result.pivot).toEqual([null, 10]);
+    expect([result.r1[1], result.r2[1], result.r3[1]]).toEqual([12, 14, 16]);
+    expect([result.s1[1], result.s2[1], result.s3[1]]).toEqual([8, 6, 4]);
+  });
+
+  it('parses indicator lists with defaults', () => {
+    const specs = parseIndicatorSpecs('SMA:50, rsi, macd::30, sma:50');
+    expect(specs.map((spec) => spec.key)).toEqual([
+      'sma:50',
+      'rsi:14',
+      'macd:12:30:9',
+    ]);
+    expect(warmupBars(specs)).toBe(117);
+
+    expect(() => parseIndicatorSpecs('foo')).toThrow('Unknown indicator');
+    expect(() => parseIndicatorSpecs('sma:0')).toThrow('Invalid parameter');
+    expect(() => parseIndicatorSpecs('macd:26:12')).toThrow('fast period');
+  });
+
+  it('trims warmup bars and rounds results', () => {
+    expect(sliceResult([null, 1.234567, 2], 1)).toEqual([1.2346, 2]);
+    expect(
+      sliceResult({ macd: [1, 2], signal: [null, 3], histogram: [1, 2] }, 1),
+    ).toEqual({ macd: [2], signal: [3], histogram: [2] });
+  });
+});
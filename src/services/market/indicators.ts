@@ -0,0 +1,490 @@
+/**
+ * Technical indicators over OHLCV bars. Every series has one entry per
+ * input bar, with null until the indicator has enough history, so results
+ * line up with the bar timestamps.
+ */
+
+export interface Bar {
+  // Unix seconds at the start of the bar
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Finnhub candle resolutions: minutes per bar, or daily/weekly/monthly
+ */
+export type BarResolution = '1' | '5' | '15' | '30' | '60' | 'D' | 'W' | 'M';
+
+export const BAR_RESOLUTIONS: BarResolution[] = [
+  '1',
+  '5',
+  '15',
+  '30',
+  '60',
+  'D',
+  'W',
+  'M',
+];
+
+export type Series = (number | null)[];
+
+export interface MacdSeries {
+  macd: Series;
+  signal: Series;
+  histogram: Series;
+}
+
+export interface BollingerSeries {
+  middle: Series;
+  upper: Series;
+  lower: Series;
+}
+
+export interface PivotSeries {
+  pivot: Series;
+  r1: Series;
+  r2: Series;
+  r3: Series;
+  s1: Series;
+  s2: Series;
+  s3: Series;
+}
+
+export type IndicatorName =
+  | 'sma'
+  | 'ema'
+  | 'rsi'
+  | 'macd'
+  | 'bbands'
+  | 'vwap'
+  | 'atr'
+  | 'pivots';
+
+export interface IndicatorSpec {
+  name: IndicatorName;
+  params: number[];
+  // Canonical "name:param:param" used as the result key
+  key: string;
+}
+
+export type IndicatorResult =
+  | Series
+  | MacdSeries
+  | BollingerSeries
+  | PivotSeries;
+
+interface IndicatorDefinition {
+  defaults: number[];
+  // Parameter bounds, inclusive
+  min: number[];
+  max: number[];
+  // Bars before the first requested one needed for a settled value
+  warmup: (params: number[]) => number;
+}
+
+const DEFINITIONS: Record<IndicatorName, IndicatorDefinition> = {
+  sma: { defaults: [20], min: [1], max: [500], warmup: ([p]) => p },
+  // Exponential averages take about three periods to forget their seed
+  ema: { defaults: [20], min: [1], max: [500], warmup: ([p]) => p * 3 },
+  rsi: { defaults: [14], min: [2], max: [100], warmup: ([p]) => p * 3 },
+  macd: {
+    defaults: [12, 26, 9],
+    min: [1, 2, 1],
+    max: [100, 200, 100],
+    warmup: ([, slow, signal]) => (slow + signal) * 3,
+  },
+  bbands: {
+    defaults: [20, 2],
+    min: [2, 0.5],
+    max: [200, 5],
+    warmup: ([p]) => p,
+  },
+  vwap: { defaults: [], min: [], max: [], warmup: () => 0 },
+  atr: { defaults: [14], min: [1], max: [100], warmup: ([p]) => p * 3 },
+  // One previous session; the service pads intraday ranges by whole days
+  pivots: { defaults: [], min: [], max: [], warmup: () => 1 },
+};
+
+export const MAX_INDICATORS = 10;
+
+const round = (value: number, decimals = 4) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Parse "sma:20,ema:50,rsi,macd:12:26:9" into indicator specs, filling
+ * defaults. Throws an Error naming the first invalid token.
+ */
+export function parseIndicatorSpecs(input: string): IndicatorSpec[] {
+  const tokens = input
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error('At least one indicator is required');
+  }
+  if (tokens.length > MAX_INDICATORS) {
+    throw new Error(`At most ${MAX_INDICATORS} indicators per request`);
+  }
+
+  const specs = new Map<string, IndicatorSpec>();
+  for (const token of tokens) {
+    const [name, ...rawParams] = token.split(':');
+    const definition = DEFINITIONS[name as IndicatorName];
+    if (!definition) {
+      throw new Error(`Unknown indicator: ${name}`);
+    }
+    if (rawParams.length > definition.defaults.length) {
+      throw new Error(`Too many parameters for ${name}`);
+    }
+
+    const params = definition.defaults.map((fallback, index) => {
+      if (rawParams[index] === undefined || rawParams[index] === '') {
+        return fallback;
+      }
+      const value = Number(rawParams[index]);
+      if (
+        !isFinite(value) ||
+        value < definition.min[index] ||
+        value > definition.max[index]
+      ) {
+        throw new Error(`Invalid parameter for ${name}: ${rawParams[index]}`);
+      }
+      return value;
+    });
+    if (name === 'macd' && params[0] >= params[1]) {
+      throw new Error('MACD fast period must be shorter than the slow one');
+    }
+
+    const key = [name, ...params].join(':');
+    specs.set(key, { name: name as IndicatorName, params, key });
+  }
+
+  return [...specs.values()];
+}
+
+/**
+ * Bars of history the specs need before the first requested bar
+ */
+export function warmupBars(specs: IndicatorSpec[]): number {
+  return specs.reduce(
+    (most, spec) => Math.max(most, DEFINITIONS[spec.name].warmup(spec.params)),
+    0,
+  );
+}
+
+/**
+ * Calendar seconds that hold `bars` bars of the resolution, allowing for
+ * nights, weekends and holidays (6.5 trading hours, ~252 sessions a year)
+ */
+export function warmupSeconds(resolution: BarResolution, bars: number): number {
+  const day = 86400;
+  if (bars <= 0) return 0;
+  switch (resolution) {
+    case 'D':
+      return Math.ceil((bars * 365) / 252 + 4) * day;
+    case 'W':
+      return (bars + 1) * 7 * day;
+    case 'M':
+      return (bars + 1) * 31 * day;
+    default: {
+      const sessions = Math.ceil((bars * Number(resolution)) / 390);
+      return Math.ceil((sessions * 365) / 252 + 4) * day;
+    }
+  }
+}
+
+/**
+ * Trading session (New York calendar date) of a bar
+ */
+const sessionFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+export function sessionOf(time: number): string {
+  return sessionFormatter.format(new Date(time * 1000));
+}
+
+export function sma(values: number[], period: number): Series {
+  const result: Series = [];
+  let sum = 0;
+  values.forEach((value, index) => {
+    sum += value;
+    if (index >= period) {
+      sum -= values[index - period];
+    }
+    result.push(index >= period - 1 ? sum / period : null);
+  });
+  return result;
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period`
+ * values. Null entries in the input (an upstream warmup) are skipped.
+ */
+export function ema(values: Series, period: number): Series {
+  const k = 2 / (period + 1);
+  const result: Series = [];
+  let previous: number | null = null;
+  let seed: number[] = [];
+
+  for (const value of values) {
+    if (value === null) {
+      result.push(null);
+      continue;
+    }
+    if (previous === null) {
+      seed.push(value);
+      if (seed.length === period) {
+        previous = seed.reduce((sum, item) => sum + item, 0) / period;
+        seed = [];
+      }
+      result.push(previous);
+      continue;
+    }
+    previous = value * k + previous * (1 - k);
+    result.push(previous);
+  }
+  return result;
+}
+
+/**
+ * Wilder's relative strength index
+ */
+export function rsi(closes: number[], period = 14): Series {
+  const result: Series = closes.map(() => null);
+  if (closes.length <= period) {
+    return result;
+  }
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  const value = () => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  result[period] = value();
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = value();
+  }
+  return result;
+}
+
+export function macd(
+  closes: number[],
+  fast = 12,
+  slow = 26,
+  signalPeriod = 9,
+): MacdSeries {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line: Series = closes.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? fastEma[i] - slowEma[i] : null,
+  );
+  const signal = ema(line, signalPeriod);
+  const histogram: Series = line.map((value, i) =>
+    value !== null && signal[i] !== null ? value - signal[i] : null,
+  );
+  return { macd: line, signal, histogram };
+}
+
+/**
+ * Bollinger bands with the population standard deviation, as charting
+ * platforms draw them
+ */
+export function bollinger(
+  closes: number[],
+  period = 20,
+  multiplier = 2,
+): BollingerSeries {
+  const middle = sma(closes, period);
+  const upper: Series = [];
+  const lower: Series = [];
+
+  middle.forEach((mean, index) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = closes.slice(index - period + 1, index + 1);
+    const variance =
+      window.reduce((sum, close) => sum + Math.pow(close - mean, 2), 0) /
+      period;
+    const deviation = Math.sqrt(variance) * multiplier;
+    upper.push(mean + deviation);
+    lower.push(mean - deviation);
+  });
+
+  return { middle, upper, lower };
+}
+
+/**
+ * Volume-weighted average of the typical price, reset every session
+ */
+export function vwap(bars: Bar[]): Series {
+  let session: string | null = null;
+  let priceVolume = 0;
+  let volume = 0;
+
+  return bars.map((bar) => {
+    const barSession = sessionOf(bar.time);
+    if (barSession !== session) {
+      session = barSession;
+      priceVolume = 0;
+      volume = 0;
+    }
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    priceVolume += typical * (bar.volume || 0);
+    volume += bar.volume || 0;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
+
+/**
+ * Wilder's average true range
+ */
+export function atr(bars: Bar[], period = 14): Series {
+  const ranges = bars.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const previousClose = bars[i - 1].close;
+    return Math.max(
+      bar.high - bar.low,
+      Math.abs(bar.high - previousClose),
+      Math.abs(bar.low - previousClose),
+    );
+  });
+
+  const result: Series = bars.map(() => null);
+  if (bars.length < period) {
+    return result;
+  }
+
+  let average =
+    ranges.slice(0, period).reduce((sum, range) => sum + range, 0) / period;
+  result[period - 1] = average;
+  for (let i = period; i < bars.length; i++) {
+    average = (average * (period - 1) + ranges[i]) / period;
+    result[i] = average;
+  }
+  return result;
+}
+
+/**
+ * Classic floor pivots from the previous period's high, low and close.
+ * Intraday bars use the previous session; daily and longer bars the
+ * previous bar.
+ */
+export function pivots(bars: Bar[], resolution: BarResolution): PivotSeries {
+  const intraday = !['D', 'W', 'M'].includes(resolution);
+  const result: PivotSeries = {
+    pivot: [],
+    r1: [],
+    r2: [],
+    r3: [],
+    s1: [],
+    s2: [],
+    s3: [],
+  };
+
+  let previous: { high: number; low: number; close: number } | null = null;
+  let current: { high: number; low: number; close: number } | null = null;
+  let session: string | null = null;
+
+  bars.forEach((bar) => {
+    const barSession = intraday ? sessionOf(bar.time) : String(bar.time);
+    if (barSession !== session) {
+      session = barSession;
+      previous = current;
+      current = { high: bar.high, low: bar.low, close: bar.close };
+    } else {
+      current.high = Math.max(current.high, bar.high);
+      current.low = Math.min(current.low, bar.low);
+      current.close = bar.close;
+    }
+
+    if (!previous) {
+      Object.values(result).forEach((series: Series) => series.push(null));
+      return;
+    }
+
+    const { high, low, close } = previous;
+    const pivot = (high + low + close) / 3;
+    result.pivot.push(pivot);
+    result.r1.push(2 * pivot - low);
+    result.s1.push(2 * pivot - high);
+    result.r2.push(pivot + (high - low));
+    result.s2.push(pivot - (high - low));
+    result.r3.push(high + 2 * (pivot - low));
+    result.s3.push(low - 2 * (high - pivot));
+  });
+
+  return result;
+}
+
+export function computeIndicator(
+  spec: IndicatorSpec,
+  bars: Bar[],
+  resolution: BarResolution,
+): IndicatorResult {
+  const closes = bars.map((bar) => bar.close);
+  const [a, b, c] = spec.params;
+
+  switch (spec.name) {
+    case 'sma':
+      return sma(closes, a);
+    case 'ema':
+      return ema(closes, a);
+    case 'rsi':
+      return rsi(closes, a);
+    case 'macd':
+      return macd(closes, a, b, c);
+    case 'bbands':
+      return bollinger(closes, a, b);
+    case 'vwap':
+      return vwap(bars);
+    case 'atr':
+      return atr(bars, a);
+    case 'pivots':
+      return pivots(bars, resolution);
+  }
+}
+
+/**
+ * Keep entries from `start` on and round them for the wire
+ */
+export function sliceResult<T extends IndicatorResult>(
+  result: T,
+  start: number,
+): T {
+  const trim = (series: Series): Series =>
+    series
+      .slice(start)
+      .map((value) =>
+        value === null || !isFinite(value) ? null : round(value),
+      );
+
+  if (Array.isArray(result)) {
+    return trim(result) as T;
+  }
+  return Object.fromEntries(
+    Object.entries(result).map(([name, series]) => [name, trim(series)]),
+  ) as unknown as T;
+}
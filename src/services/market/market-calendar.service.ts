@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import {
+  holidayName,
+  isOpen,
+  marketDay,
+  marketEarlyCloses,
+  marketHolidays,
+  marketSession,
+  MarketSession,
+  MARKET_TIMEZONE,
+  nextClose,
+  nextOpen,
+  previousClose,
+  sessionTimes,
+  startOfTradingDays,
+  tradingDaysBetween,
+} from './market-calendar';
+
+export interface MarketHoursStatus {
+  timezone: string;
+  day: string;
+  session: MarketSession;
+  isOpen: boolean;
+  holiday: string | null;
+  earlyClose: boolean;
+  nextOpen: Date;
+  nextClose: Date;
+}
+
+/**
+ * NYSE/Nasdaq sessions and holidays for services that schedule around the
+ * market. Everything is derived from rules in market-calendar, so no
+ * upstream call is needed.
+ */
+@Injectable()
+export class MarketCalendarService {
+  isOpen(now: Date = new Date(), extendedHours = false): boolean {
+    return isOpen(now, extendedHours);
+  }
+
+  session(now: Date = new Date()): MarketSession {
+    return marketSession(now);
+  }
+
+  nextOpen(now: Date = new Date(), extendedHours = false): Date {
+    return nextOpen(now, extendedHours);
+  }
+
+  nextClose(now: Date = new Date()): Date {
+    return nextClose(now);
+  }
+
+  previousClose(now: Date = new Date()): Date {
+    return previousClose(now);
+  }
+
+  tradingDaysBetween(from: Date | string, to: Date | string): number {
+    return tradingDaysBetween(from, to);
+  }
+
+  startOfTradingDays(count: number, now: Date = new Date()): Date {
+    return startOfTradingDays(count, now);
+  }
+
+  getStatus(now: Date = new Date()): MarketHoursStatus {
+    const day = marketDay(now);
+    return {
+      timezone: MARKET_TIMEZONE,
+      day,
+      session: marketSession(now),
+      isOpen: isOpen(now),
+      holiday: holidayName(day),
+      earlyClose: sessionTimes(day)?.earlyClose || false,
+      nextOpen: nextOpen(now),
+      nextClose: nextClose(now),
+    };
+  }
+
+  getHolidays(year: number) {
+    const closes = marketEarlyCloses(year);
+    return {
+      year,
+      holidays: Object.entries(marketHolidays(year))
+        .map(([date, name]) => ({ date, name }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      earlyCloses: Object.entries(closes)
+        .map(([date, name]) => ({ date, name, closeTime: '13:00' }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  isOpen,
+  marketEarlyCloses,
+  marketHolidays,
+  marketSession,
+  marketTime,
+  nextClose,
+  nextOpen,
+  previousClose,
+  sessionTimes,
+  startOfTradingDays,
+  tradingDaysBetween,
+} from './market-calendar';
+
+describe('market calendar', () => {
+  it('derives the published NYSE holidays', () => {
+    expect(Object.keys(marketHolidays(2025)).sort()).toEqual([
+      '2025-01-01',
+      '2025-01-09',
+      '2025-01-20',
+      '2025-02-17',
+      '2025-04-18',
+      '2025-05-26',
+      '2025-06-19',
+      '2025-07-04',
+      '2025-09-01',
+      '2025-11-27',
+      '2025-12-25',
+    ]);
+    // Juneteenth and Independence Day on weekends are observed
+    expect(marketHolidays(2026)['2026-07-03']).toBe('Independence Day');
+    expect(marketHolidays(2027)['2027-06-18']).toBe('Juneteenth');
+    // A Saturday New Year's Day is not
+    expect(marketHolidays(2022)['2021-12-31']).toBeUndefined();
+  });
+
+  it('knows the early closes', () => {
+    expect(marketEarlyCloses(2024)).toEqual({
+      '2024-07-03': 'Independence Day eve',
+      '2024-11-29': 'Day after Thanksgiving',
+      '2024-12-24': 'Christmas Eve',
+    });
+    expect(sessionTimes('2024-11-29').close).toEqual(
+      new Date('2024-11-29T18:00:00Z'),
+    );
+  });
+
+  it('converts New York times across daylight saving', () => {
+    expect(marketTime('2025-01-15', 570)).toEqual(
+      new Date('2025-01-15T14:30:00Z'),
+    );
+    expect(marketTime('2025-07-15', 570)).toEqual(
+      new Date('2025-07-15T13:30:00Z'),
+    );
+  });
+
+  it('tells the session', () => {
+    expect(marketSession(new Date('2025-03-10T12:00:00Z'))).toBe('pre');
+    expect(marketSession(new Date('2025-03-10T15:00:00Z'))).toBe('regular');
+    expect(marketSession(new Date('2025-03-10T21:00:00Z'))).toBe('post');
+    expect(marketSession(new Date('2025-03-15T15:00:00Z'))).toBe('closed');
+    expect(isOpen(new Date('2025-04-18T15:00:00Z'))).toBe(false);
+    expect(isOpen(new Date('2025-03-10T21:00:00Z'), true)).toBe(true);
+  });
+
+  it('finds the next open and closes around weekends and holidays', () => {
+    // Thursday evening before Good Friday
+    const now = new Date('2025-04-17T22:00:00Z');
+    expect(nextOpen(now)).toEqual(new Date('2025-04-21T13:30:00Z'));
+    expect(nextOpen(now, true)).toEqual(new Date('2025-04-21T08:00:00Z'));
+    expect(nextClose(now)).toEqual(new Date('2025-04-21T20:00:00Z'));
+    expect(previousClose(now)).toEqual(new Date('2025-04-17T20:00:00Z'));
+  });
+
+  it('counts trading days', () => {
+    expect(tradingDaysBetween('2025-04-14', '2025-04-20')).toBe(4);
+    expect(tradingDaysBetween('2025-12-01', '2025-12-31')).toBe(22);
+    // Sunday: the last five sessions start the previous Monday
+    expect(startOfTradingDays(5, new Date('2025-03-16T15:00:00Z'))).toEqual(
+      new Date('2025-03-10T04:00:00Z'),
+    );
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * NYSE/Nasdaq trading calendar: holidays, early closes and the pre-market,
+ * regular and after-hours sessions, all in New York time. Days are passed
+ * around as New York calendar dates (YYYY-MM-DD).
+ */
+
+export const MARKET_TIMEZONE = 'America/New_York';
+
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed';
+
+export interface SessionTimes {
+  day: string;
+  preMarket: Date;
+  open: Date;
+  close: Date;
+  afterHours: Date;
+  earlyClose: boolean;
+}
+
+// Session boundaries in minutes after New York midnight
+const PRE_MARKET = 4 * 60;
+const OPEN = 9 * 60 + 30;
+const CLOSE = 16 * 60;
+const EARLY_CLOSE = 13 * 60;
+const AFTER_HOURS = 20 * 60;
+const EARLY_AFTER_HOURS = 17 * 60;
+
+/**
+ * Unscheduled closures (national days of mourning, weather) that no rule
+ * can derive
+ */
+export const SPECIAL_CLOSURES: Record<string, string> = {
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'National Day of Mourning for George H.W. Bush',
+  '2025-01-09': 'National Day of Mourning for Jimmy Carter',
+};
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDay = (year: number, month: number, date: number) =>
+  `${year}-${pad(month)}-${pad(date)}`;
+
+function wallClock(date: Date) {
+  const parts = Object.fromEntries(
+    formatter
+      .formatToParts(date)
+      .filter((part) => part.type !== 'literal')
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return {
+    day: toDay(parts.year, parts.month, parts.day),
+    minutes: parts.hour * 60 + parts.minute,
+    // New York offset from UTC in minutes (-300 or -240)
+    offset: Math.round(
+      (Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute,
+        parts.second,
+      ) -
+        Math.floor(date.getTime() / 1000) * 1000) /
+        60000,
+    ),
+  };
+}
+
+/**
+ * New York calendar date of an instant
+ */
+export function marketDay(date: Date = new Date()): string {
+  return wallClock(date).day;
+}
+
+/**
+ * Instant of a New York wall-clock time, across DST changes
+ */
+export function marketTime(day: string, minutes: number): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, date, 0, minutes);
+  const offset = wallClock(new Date(guess)).offset;
+  const result = guess - offset * 60000;
+  const corrected = wallClock(new Date(result)).offset;
+  return new Date(corrected === offset ? result : guess - corrected * 60000);
+}
+
+export function addDays(day: string, count: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, date + count));
+  return toDay(
+    next.getUTCFullYear(),
+    next.getUTCMonth() + 1,
+    next.getUTCDate(),
+  );
+}
+
+// 0 = Sunday
+function weekday(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+}
+
+// `nth` weekday of a month; a negative `nth` counts from the month's end
+function nthWeekday(
+  year: number,
+  month: number,
+  day: number,
+  nth: number,
+): string {
+  if (nth > 0) {
+    const first = weekday(toDay(year, month, 1));
+    return toDay(year, month, 1 + ((day - first + 7) % 7) + (nth - 1) * 7);
+  }
+  const lastDate = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = weekday(toDay(year, month, lastDate));
+  return toDay(year, month, lastDate - ((last - day + 7) % 7));
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const date = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDay(year, month, date);
+}
+
+// Saturday holidays move to Friday, Sunday ones to Monday
+function observed(day: string): string {
+  const dow = weekday(day);
+  if (dow === 6) return addDays(day, -1);
+  if (dow === 0) return addDays(day, 1);
+  return day;
+}
+
+const holidayCache = new Map<number, Record<string, string>>();
+const earlyCloseCache = new Map<number, Record<string, string>>();
+
+/**
+ * Full-day closures of a year by date
+ */
+export function marketHolidays(year: number): Record<string, string> {
+  if (holidayCache.has(year)) {
+    return holidayCache.get(year);
+  }
+
+  const holidays: Record<string, string> = {};
+  // A Saturday New Year's Day is not made up on the previous Friday
+  const newYear = toDay(year, 1, 1);
+  if (weekday(newYear) !== 6) {
+    holidays[observed(newYear)] = "New Year's Day";
+  }
+  holidays[nthWeekday(year, 1, 1, 3)] = 'Martin Luther King Jr. Day';
+  holidays[nthWeekday(year, 2, 1, 3)] = "Washington's Birthday";
+  holidays[addDays(easterSunday(year), -2)] = 'Good Friday';
+  holidays[nthWeekday(year, 5, 1, -1)] = 'Memorial Day';
+  if (year >= 2022) {
+    holidays[observed(toDay(year, 6, 19))] = 'Juneteenth';
+  }
+  holidays[observed(toDay(year, 7, 4))] = 'Independence Day';
+  holidays[nthWeekday(year, 9, 1, 1)] = 'Labor Day';
+  holidays[nthWeekday(year, 11, 4, 4)] = 'Thanksgiving Day';
+  holidays[observed(toDay(year, 12, 25))] = 'Christmas Day';
+
+  Object.entries(SPECIAL_CLOSURES)
+    .filter(([day]) => day.startsWith(`${year}-`))
+    .forEach(([day, name]) => (holidays[day] = name));
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * 1 p.m. closes of a year by date: the day before Independence Day, the
+ * day after Thanksgiving and Christmas Eve, when they fall Monday to
+ * Thursday (Friday for the day after Thanksgiving)
+ */
+export function marketEarlyCloses(year: number): Record<string, string> {
+  if (earlyCloseCache.has(year)) {
+    return earlyCloseCache.get(year);
+  }
+
+  const closes: Record<string, string> = {};
+  const julyThird = toDay(year, 7, 3);
+  if (weekday(julyThird) >= 1 && weekday(julyThird) <= 4) {
+    closes[julyThird] = 'Independence Day eve';
+  }
+  closes[addDays(nthWeekday(year, 11, 4, 4), 1)] = 'Day after Thanksgiving';
+  const christmasEve = toDay(year, 12, 24);
+  if (weekday(christmasEve) >= 1 && weekday(christmasEve) <= 4) {
+    closes[christmasEve] = 'Christmas Eve';
+  }
+
+  earlyCloseCache.set(year, closes);
+  return closes;
+}
+
+export function holidayName(day: string): string | null {
+  return marketHolidays(Number(day.slice(0, 4)))[day] || null;
+}
+
+export function isTradingDay(day: string): boolean {
+  const dow = weekday(day);
+  return dow !== 0 && dow !== 6 && !holidayName(day);
+}
+
+/**
+ * Session boundaries of a trading day, or null when the market is closed
+ */
+export function sessionTimes(day: string): SessionTimes | null {
+  if (!isTradingDay(day)) {
+    return null;
+  }
+  const earlyClose = !!marketEarlyCloses(Number(day.slice(0, 4)))[day];
+  return {
+    day,
+    preMarket: marketTime(day, PRE_MARKET),
+    open: marketTime(day, OPEN),
+    close: marketTime(day, earlyClose ? EARLY_CLOSE : CLOSE),
+    afterHours: marketTime(day, earlyClose ? EARLY_AFTER_HOURS : AFTER_HOURS),
+    earlyClose,
+  };
+}
+
+export function marketSession(now: Date = new Date()): MarketSession {
+  const times = sessionTimes(marketDay(now));
+  if (!times || now < times.preMarket || now >= times.afterHours) {
+    return 'closed';
+  }
+  if (now < times.open) return 'pre';
+  if (now < times.close) return 'regular';
+  return 'post';
+}
+
+/**
+ * Whether the regular session (or, with `extendedHours`, any session) is
+ * trading
+ */
+export function isOpen(now: Date = new Date(), extendedHours = false): boolean {
+  const session = marketSession(now);
+  return extendedHours ? session !== 'closed' : session === 'regular';
+}
+
+// Trading days from `day` on (inclusive), up to a year ahead
+function* tradingDaysFrom(day: string, step: 1 | -1) {
+  for (let i = 0; i < 370; i++) {
+    const candidate = addDays(day, i * step);
+    const times = sessionTimes(candidate);
+    if (times) yield times;
+  }
+}
+
+/**
+ * Next regular (or extended) session start after `now`
+ */
+export function nextOpen(now: Date = new Date(), extendedHours = false): Date {
+  for (const times of tradingDaysFrom(marketDay(now), 1)) {
+    const start = extendedHours ? times.preMarket : times.open;
+    if (start > now) return start;
+  }
+  return null;
+}
+
+/**
+ * End of the current regular session, or of the next one when closed
+ */
+export function nextClose(now: Date = new Date()): Date {
+  for (const times of tradingDaysFrom(marketDay(now), 1)) {
+    if (times.close > now) return times.close;
+  }
+  return null;
+}
+
+/**
+ * Most recent regular session close at or before `now`
+ */
+export function previousClose(now: Date = new Date()): Date {
+  for (const times of tradingDaysFrom(marketDay(now), -1)) {
+    if (times.close <= now) return times.close;
+  }
+  return null;
+}
+
+/**
+ * Trading days whose New York date falls within [from, to], inclusive
+ */
+export function tradingDaysBetween(from: Date | string, to: Date | string) {
+  const start = typeof from === 'string' ? from : marketDay(from);
+  const end = typeof to === 'string' ? to : marketDay(to);
+  let count = 0;
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    if (isTradingDay(day)) count++;
+  }
+  return count;
+}
+
+/**
+ * New York midnight starting the last `count` trading days up to `now`,
+ * today included when it is a trading day
+ */
+export function startOfTradingDays(count: number, now: Date = new Date()) {
+  let found = 0;
+  for (const times of tradingDaysFrom(marketDay(now), -1)) {
+    if (++found >= count) {
+      return marketTime(times.day, 0);
+    }
+  }
+  return marketTime(marketDay(now), 0);
+}
@@ -1,6 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { FinnhubService, StockQuote, CompanyProfile, NewsItem, EarningsCalendarItem } from '../finnhub/finnhub.service';
+import {
+  StockQuote,
+  CompanyProfile,
+  NewsItem,
+  EarningsCalendarItem,
+} from '../finnhub/finnhub.service';
 import { CacheService } from '../../cache/cache.service';
+import { Bar, BarResolution } from './indicators';
+import { MarketDataProviderChain } from './providers/market-data-provider-chain';
+import { MarketCalendarService } from './market-calendar.service';
 
 export interface MarketOverview {
   indices: Record<string, StockQuote>;
@@ -29,9 +37,13 @@ export class MarketDataService {
   
   // Cache TTL settings (in seconds)
   private readonly QUOTE_TTL = 15; // 15 seconds for quotes
+  private readonly EXTENDED_QUOTE_TTL = 60; // 1 minute in pre-market and after-hours
+  private readonly CLOSED_QUOTE_TTL = 3600; // 1 hour while the market is closed
   private readonly COMPANY_TTL = 86400; // 24 hours for company info
   private readonly NEWS_TTL = 300; // 5 minutes for news
   private readonly EARNINGS_TTL = 3600; // 1 hour for earnings
+  private readonly CANDLES_TTL = 3600; // 1 hour for daily candles
+  private readonly INTRADAY_CANDLES_TTL = 60; // 1 minute for intraday candles
   
   // Popular symbols for tracking
   private readonly POPULAR_SYMBOLS = [
@@ -44,8 +56,9 @@ export class MarketDataService {
   private readonly INDEX_SYMBOLS = ['SPY', 'QQQ', 'DIA', 'IWM', 'VTI'];
 
   constructor(
-    private finnhubService: FinnhubService,
+    private providers: MarketDataProviderChain,
     private cacheService: CacheService,
+    private marketCalendar: MarketCalendarService,
   ) {}
 
   /**
@@ -56,21 +69,21 @@ export class MarketDataService {
     
     // Check cache first
     const cached = await this.cacheService.get<CachedQuote>(cacheKey);
-    if (cached && this.isCacheValid(cached.cachedAt, this.QUOTE_TTL)) {
+    if (cached && this.isCacheValid(cached.cachedAt, this.quoteTtl())) {
       this.logger.debug(`Cache hit for quote: ${symbol}`);
       return cached;
     }
     
     // Fetch from API
     try {
-      const quote = await this.finnhubService.getQuote(symbol);
+      const quote = await this.fetchQuote(symbol);
       
       // Cache the result
       const cachedQuote: CachedQuote = {
         ...quote,
         cachedAt: Date.now(),
       };
-      await this.cacheService.set(cacheKey, cachedQuote, this.QUOTE_TTL);
+      await this.cacheService.set(cacheKey, cachedQuote, this.quoteTtl());
       
       return quote;
     } catch (error) {
@@ -86,6 +99,18 @@ export class MarketDataService {
     }
   }
 
+  /**
+   * Quote from the first provider with a price; Finnhub answers unknown
+   * symbols with zeros, which hands over to the fallback
+   */
+  private fetchQuote(symbol: string): Promise<StockQuote> {
+    return this.providers.call(
+      'getQuote',
+      (provider) => provider.getQuote(symbol),
+      (quote) => !quote?.c,
+    );
+  }
+
   /**
    * Get multiple quotes with caching
    */
@@ -98,7 +123,7 @@ export class MarketDataService {
       const cacheKey = `quote:${symbol}`;
       const cached = await this.cacheService.get<CachedQuote>(cacheKey);
       
-      if (cached && this.isCacheValid(cached.cachedAt, this.QUOTE_TTL)) {
+      if (cached && this.isCacheValid(cached.cachedAt, this.quoteTtl())) {
         quotes[symbol] = cached;
       } else {
         uncachedSymbols.push(symbol);
@@ -108,7 +133,20 @@ export class MarketDataService {
     // Fetch uncached symbols
     if (uncachedSymbols.length > 0) {
       try {
-        const freshQuotes = await this.finnhubService.getMultipleQuotes(uncachedSymbols);
+        // One rate limiter slot per provider call; symbols that fail are left out
+        const results = await Promise.allSettled(
+          uncachedSymbols.map((symbol) => this.fetchQuote(symbol)),
+        );
+        const freshQuotes: Record<string, StockQuote> = {};
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            freshQuotes[uncachedSymbols[index]] = result.value;
+          } else {
+            this.logger.warn(
+              `Error fetching quote for ${uncachedSymbols[index]}: ${result.reason?.message}`,
+            );
+          }
+        });
         
         // Cache and add to results
         for (const [symbol, quote] of Object.entries(freshQuotes)) {
@@ -117,7 +155,7 @@ export class MarketDataService {
             ...quote,
             cachedAt: Date.now(),
           };
-          await this.cacheService.set(cacheKey, cachedQuote, this.QUOTE_TTL);
+          await this.cacheService.set(cacheKey, cachedQuote, this.quoteTtl());
           quotes[symbol] = quote;
         }
       } catch (error) {
@@ -142,7 +180,11 @@ export class MarketDataService {
     
     // Fetch from API
     try {
-      const profile = await this.finnhubService.getCompanyProfile(symbol);
+      const profile = await this.providers.call(
+        'getCompanyProfile',
+        (provider) => provider.getCompanyProfile(symbol),
+        (result) => !result?.name,
+      );
       
       // Cache for 24 hours
       await this.cacheService.set(cacheKey, profile, this.COMPANY_TTL);
@@ -227,7 +269,9 @@ export class MarketDataService {
     }
     
     try {
-      const results = await this.finnhubService.searchSymbols(query);
+      const results = await this.providers.call('searchSymbols', (provider) =>
+        provider.searchSymbols(query),
+      );
       
       // Cache for 1 hour
       await this.cacheService.set(cacheKey, results, 3600);
@@ -258,7 +302,10 @@ export class MarketDataService {
     }
     
     try {
-      const earnings = await this.finnhubService.getEarningsCalendar(from, to, symbol);
+      const earnings = await this.providers.call(
+        'getEarningsCalendar',
+        (provider) => provider.getEarningsCalendar(from, to, symbol),
+      );
       
       // Cache for 1 hour
       await this.cacheService.set(cacheKey, earnings, this.EARNINGS_TTL);
@@ -283,7 +330,9 @@ export class MarketDataService {
     }
     
     try {
-      const news = await this.finnhubService.getMarketNews(category);
+      const news = await this.providers.call('getMarketNews', (provider) =>
+        provider.getMarketNews(category),
+      );
       
       // Cache for 5 minutes
       await this.cacheService.set(cacheKey, news, this.NEWS_TTL);
@@ -312,7 +361,9 @@ export class MarketDataService {
     }
     
     try {
-      const news = await this.finnhubService.getCompanyNews(symbol, from, to);
+      const news = await this.providers.call('getCompanyNews', (provider) =>
+        provider.getCompanyNews(symbol, from, to),
+      );
       
       // Cache for 5 minutes
       await this.cacheService.set(cacheKey, news, this.NEWS_TTL);
@@ -324,6 +375,54 @@ export class MarketDataService {
     }
   }
 
+  /**
+   * OHLCV bars for [from, to] (unix seconds), oldest first, with caching.
+   * Bounds are floored to the minute so repeated requests share a key.
+   */
+  async getCandles(
+    symbol: string,
+    resolution: BarResolution,
+    from: number,
+    to: number,
+  ): Promise<Bar[]> {
+    const fromMinute = Math.floor(from / 60) * 60;
+    const toMinute = Math.floor(to / 60) * 60;
+    const cacheKey = `candles:${resolution}:${symbol}:${fromMinute}:${toMinute}`;
+
+    const cached = await this.cacheService.get<Bar[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Empty answers fall through to the next provider, then cache as empty
+    const bars = await this.providers.call(
+      'getCandles',
+      (provider) =>
+        provider.getCandles(symbol, resolution, fromMinute, toMinute),
+      (result) => result.length === 0,
+    );
+
+    // Daily and longer bars barely move intraday; intraday bars follow the quote
+    const intraday = !['D', 'W', 'M'].includes(resolution);
+    await this.cacheService.set(
+      cacheKey,
+      bars,
+      intraday ? this.INTRADAY_CANDLES_TTL : this.CANDLES_TTL,
+    );
+
+    return bars;
+  }
+
+  /**
+   * Daily closes of the last `days` calendar days, oldest first
+   */
+  async getDailyCloses(symbol: string, days: number): Promise<number[]> {
+    // Whole days, so every call in a day shares the cached candles
+    const to = Math.floor(Date.now() / 86400000) * 86400 + 86400;
+    const bars = await this.getCandles(symbol, 'D', to - days * 86400, to);
+    return bars.map((bar) => bar.close);
+  }
+
   /**
    * Get trending stocks (based on volume and price changes)
    */
@@ -360,6 +459,30 @@ export class MarketDataService {
     }
   }
 
+  /**
+   * Quote cache lifetime for the current session. Prices stand still while
+   * the market is closed, so quotes live until the next pre-market open
+   * (capped at CLOSED_QUOTE_TTL).
+   */
+  private quoteTtl(now: Date = new Date()): number {
+    switch (this.marketCalendar.session(now)) {
+      case 'regular':
+        return this.QUOTE_TTL;
+      case 'closed': {
+        const untilOpen = Math.floor(
+          (this.marketCalendar.nextOpen(now, true).getTime() - now.getTime()) /
+            1000,
+        );
+        return Math.max(
+          this.QUOTE_TTL,
+          Math.min(this.CLOSED_QUOTE_TTL, untilOpen),
+        );
+      }
+      default:
+        return this.EXTENDED_QUOTE_TTL;
+    }
+  }
+
   /**
    * Check if cache is still valid
    */
@@ -397,6 +520,7 @@ export class MarketDataService {
       'news:*',
       'earnings:*',
       'search:*',
+      'candles:*',
     ];
     
     const stats: Record<string, number> = {};
@@ -13,9 +13,16 @@ import {
 } from '@nestjs/common';
 import { MarketDataService, MarketOverview, StockData } from './market-data.service';
 import { RateLimiterService } from './rate-limiter.service';
+import { IndicatorsService } from './indicators.service';
+import { MarketCalendarService } from './market-calendar.service';
+import { MarketDataProviderChain } from './providers/market-data-provider-chain';
+import { IndicatorsQueryDto } from './dto/indicators-query.dto';
+import { OptionsPricingService } from './options-pricing.service';
+import { OptionGreeksQueryDto } from './dto/option-greeks-query.dto';
 import { JwtAuthGuard } from '../../guards/jwt-auth-guard';
 import { RequestWithUser } from '../../types/request-with-user.interface';
 import { SettingsService } from '../../settings/settings.service';
+import { normalizeSymbol } from '../finnhub/market-stream.utils';
 
 @Controller('market')
 export class MarketController {
@@ -23,8 +30,32 @@ export class MarketController {
     private readonly marketDataService: MarketDataService,
     private readonly rateLimiter: RateLimiterService,
     private readonly settingsService: SettingsService,
+    private readonly indicatorsService: IndicatorsService,
+    private readonly providerChain: MarketDataProviderChain,
+    private readonly marketCalendar: MarketCalendarService,
+    private readonly optionsPricingService: OptionsPricingService,
   ) {}
 
+  /**
+   * Current session, holiday and next open/close in New York time
+   */
+  @Get('hours')
+  getMarketHours() {
+    return this.marketCalendar.getStatus();
+  }
+
+  /**
+   * Holidays and early closes of a year (default: current)
+   */
+  @Get('holidays')
+  getMarketHolidays(@Query('year') year?: string) {
+    const parsed = year ? parseInt(year, 10) : new Date().getFullYear();
+    if (isNaN(parsed) || parsed < 2000 || parsed > 2100) {
+      throw new BadRequestException('Year must be between 2000 and 2100');
+    }
+    return this.marketCalendar.getHolidays(parsed);
+  }
+
   /**
    * Get market overview
    */
@@ -198,6 +229,45 @@ export class MarketController {
     );
   }
 
+  /**
+   * Technical indicators computed from cached candles, aligned to bar times
+   */
+  @Get('indicators/:symbol')
+  @UseGuards(JwtAuthGuard)
+  async getIndicators(
+    @Param('symbol') symbol: string,
+    @Query() query: IndicatorsQueryDto,
+  ) {
+    const normalized = normalizeSymbol(symbol);
+    if (!normalized) {
+      throw new BadRequestException(`Invalid symbol: ${symbol}`);
+    }
+    return this.indicatorsService.getIndicators(
+      normalized,
+      query.indicators,
+      query.resolution,
+      query.from,
+      query.to,
+      query.includeBars,
+    );
+  }
+
+  /**
+   * Option price, Greeks and implied volatility (Black-Scholes or binomial)
+   */
+  @Get('options/greeks')
+  @UseGuards(JwtAuthGuard)
+  async getOptionGreeks(@Query() query: OptionGreeksQueryDto) {
+    if (query.symbol !== undefined) {
+      const normalized = normalizeSymbol(query.symbol);
+      if (!normalized) {
+        throw new BadRequestException(`Invalid symbol: ${query.symbol}`);
+      }
+      query.symbol = normalized;
+    }
+    return this.optionsPricingService.calculate(query);
+  }
+
   /**
    * Get rate limit status
    */
@@ -206,6 +276,14 @@ export class MarketController {
     return this.rateLimiter.getAllStatuses();
   }
 
+  /**
+   * Get market data provider chain health
+   */
+  @Get('providers')
+  async getProviderHealth() {
+    return this.providerChain.getHealth();
+  }
+
   /**
    * Get cache statistics
    */
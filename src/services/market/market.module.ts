@@ -1,17 +1,75 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { MarketDataService } from './market-data.service';
 import { RateLimiterService } from './rate-limiter.service';
+import { IndicatorsService } from './indicators.service';
+import { MarketCalendarService } from './market-calendar.service';
+import { OptionsPricingService } from './options-pricing.service';
 import { MarketController } from './market.controller';
+import { MARKET_DATA_PROVIDERS } from './providers/market-data-provider.interface';
+import { MarketDataProviderChain } from './providers/market-data-provider-chain';
+import { FinnhubMarketDataProvider } from './providers/finnhub-market-data.provider';
+import { YahooMarketDataProvider } from './providers/yahoo-market-data.provider';
+import { FixtureMarketDataProvider } from './providers/fixture-market-data.provider';
 import { FinnhubModule } from '../finnhub/finnhub.module';
+import { FinnhubService } from '../finnhub/finnhub.service';
+import { YahooFinanceModule } from '../yahoo-finance/yahoo-finance.module';
+import { YahooFinanceService } from '../yahoo-finance/yahoo-finance.service';
 import { CacheModule } from '../../cache/cache.module';
 import { AuthModule } from '../../auth/auth.module';
 import { UsersModule } from '../../users/users.module';
 import { SettingsModule } from '../../settings/settings.module';
 
 @Module({
-  imports: [FinnhubModule, CacheModule, AuthModule, UsersModule, SettingsModule],
-  providers: [MarketDataService, RateLimiterService],
+  imports: [
+    FinnhubModule,
+    YahooFinanceModule,
+    CacheModule,
+    AuthModule,
+    UsersModule,
+    SettingsModule,
+  ],
+  providers: [
+    MarketDataService,
+    RateLimiterService,
+    IndicatorsService,
+    MarketCalendarService,
+    OptionsPricingService,
+    MarketDataProviderChain,
+    {
+      // Failover order; 'fixture' serves local JSON files for offline runs
+      provide: MARKET_DATA_PROVIDERS,
+      inject: [ConfigService, FinnhubService, YahooFinanceService],
+      useFactory: (
+        config: ConfigService,
+        finnhubService: FinnhubService,
+        yahooFinanceService: YahooFinanceService,
+      ) =>
+        config.get<string[]>('marketData.providers').map((name) => {
+          switch (name) {
+            case 'finnhub':
+              return new FinnhubMarketDataProvider(finnhubService);
+            case 'yahoo':
+              return new YahooMarketDataProvider(yahooFinanceService);
+            case 'fixture':
+              return new FixtureMarketDataProvider(
+                {},
+                config.get('marketData.fixturesDir'),
+              );
+            default:
+              throw new Error(`Unknown market data provider: ${name}`);
+          }
+        }),
+    },
+  ],
   controllers: [MarketController],
-  exports: [MarketDataService, RateLimiterService],
+  exports: [
+    MarketDataService,
+    RateLimiterService,
+    IndicatorsService,
+    MarketCalendarService,
+    OptionsPricingService,
+    MarketDataProviderChain,
+  ],
 })
-export class MarketModule {}
\ No newline at end of file
+export class MarketModule {}
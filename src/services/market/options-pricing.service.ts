@@ -0,0 +1,106 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { MarketDataService } from './market-data.service';
+import { OptionGreeksQueryDto } from './dto/option-greeks-query.dto';
+import {
+  DEFAULT_BINOMIAL_STEPS,
+  DEFAULT_RISK_FREE_RATE,
+  expiryInstant,
+  impliedVolatility,
+  OptionGreeks,
+  OptionModel,
+  priceOption,
+  yearsToExpiry,
+} from './options-pricing';
+
+export interface OptionGreeksResult {
+  type: 'call' | 'put';
+  symbol?: string;
+  underlyingPrice: number;
+  strike: number;
+  expiry: string;
+  expiresAt: Date;
+  daysToExpiry: number;
+  rate: number;
+  dividendYield: number;
+  model: OptionModel;
+  american: boolean;
+  // Given, or solved from marketPrice
+  volatility: number;
+  impliedVolatility: number | null;
+  marketPrice: number | null;
+  greeks: OptionGreeks;
+}
+
+@Injectable()
+export class OptionsPricingService {
+  constructor(private marketDataService: MarketDataService) {}
+
+  /**
+   * Theoretical price and Greeks of an option. The volatility is solved
+   * from the traded price when not given; the underlying price comes from
+   * the live quote when only a symbol is given.
+   */
+  async calculate(
+    query: OptionGreeksQueryDto,
+    now: Date = new Date(),
+  ): Promise<OptionGreeksResult> {
+    const underlying =
+      query.underlyingPrice ?? (await this.quote(query.symbol));
+    const years = yearsToExpiry(query.expiry, now);
+    if (years <= 0) {
+      throw new BadRequestException(`The option expired on ${query.expiry}`);
+    }
+
+    const model = query.model || 'black-scholes';
+    const american = model === 'binomial' && query.american !== false;
+    const binomialOptions = {
+      american,
+      steps: query.steps ?? DEFAULT_BINOMIAL_STEPS,
+    };
+    const inputs = {
+      type: query.type,
+      underlying,
+      strike: query.strike,
+      years,
+      rate: query.rate ?? DEFAULT_RISK_FREE_RATE,
+      dividendYield: query.dividendYield ?? 0,
+    };
+
+    const implied =
+      query.price !== undefined
+        ? impliedVolatility(query.price, inputs, model, binomialOptions)
+        : null;
+    const volatility = query.volatility ?? implied;
+    if (volatility === null) {
+      throw new BadRequestException(
+        `No volatility reproduces a price of ${query.price}; it is outside the option's no-arbitrage bounds`,
+      );
+    }
+
+    return {
+      type: query.type,
+      symbol: query.symbol?.toUpperCase(),
+      underlyingPrice: underlying,
+      strike: query.strike,
+      expiry: query.expiry,
+      expiresAt: expiryInstant(query.expiry),
+      daysToExpiry: Math.round(years * 365 * 100) / 100,
+      rate: inputs.rate,
+      dividendYield: inputs.dividendYield,
+      model,
+      american,
+      volatility,
+      impliedVolatility: implied,
+      marketPrice: query.price ?? null,
+      greeks: priceOption({ ...inputs, volatility }, model, binomialOptions),
+    };
+  }
+
+  private async quote(symbol: string): Promise<number> {
+    const quote = await this.marketDataService.getQuote(symbol.toUpperCase());
+    if (!quote?.c) {
+      throw new BadRequestException(`No price available for ${symbol}`);
+    }
+    return quote.c;
+  }
+}
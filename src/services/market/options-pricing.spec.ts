@@ -0,0 +1,119 @@
+import {
+  binomial,
+  blackScholes,
+  expiryInstant,
+  impliedVolatility,
+  normalCdf,
+  optionSnapshot,
+  yearsToExpiry,
+} from './options-pricing';
+
+const atTheMoney = {
+  underlying: 100,
+  strike: 100,
+  years: 1,
+  rate: 0.05,
+  volatility: 0.2,
+};
+
+describe('options pricing', () => {
+  it('approximates the normal distribution', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4);
+  });
+
+  it('prices European options with Black-Scholes', () => {
+    // Hull, Options, Futures and Other Derivatives reference values
+    const call = blackScholes({ ...atTheMoney, type: 'call' });
+    expect(call.price).toBeCloseTo(10.4506, 4);
+    expect(call.delta).toBeCloseTo(0.6368, 4);
+    expect(call.gamma).toBeCloseTo(0.018762, 5);
+    expect(call.vega).toBeCloseTo(0.37524, 4);
+    expect(call.theta).toBeCloseTo(-6.414 / 365, 5);
+    expect(call.rho).toBeCloseTo(0.53232, 4);
+
+    const put = blackScholes({ ...atTheMoney, type: 'put' });
+    expect(put.price).toBeCloseTo(5.5735, 4);
+    expect(put.delta).toBeCloseTo(-0.3632, 4);
+    // Put-call parity
+    expect(call.price - put.price).toBeCloseTo(100 - 100 * Math.exp(-0.05), 4);
+  });
+
+  it('prices American options on a binomial tree', () => {
+    const european = binomial(
+      { ...atTheMoney, type: 'call' },
+      { american: false },
+    );
+    expect(european.price).toBeCloseTo(10.4506, 1);
+    expect(european.delta).toBeCloseTo(0.6368, 2);
+
+    // Early exercise makes the American put worth more than the European
+    const americanPut = binomial({ ...atTheMoney, type: 'put' });
+    expect(americanPut.price).toBeCloseTo(6.09, 1);
+    expect(americanPut.price).toBeGreaterThan(5.5735);
+    expect(americanPut.gamma).toBeCloseTo(0.0216, 2);
+  });
+
+  it('solves implied volatility', () => {
+    const { volatility, ...inputs } = { ...atTheMoney, type: 'put' as const };
+    const price = blackScholes({ ...inputs, volatility }).price;
+    expect(impliedVolatility(price, inputs)).toBeCloseTo(0.2, 5);
+    expect(
+      impliedVolatility(
+        binomial({ ...inputs, volatility: 0.35 }, { steps: 100 }).price,
+        inputs,
+        'binomial',
+      ),
+    ).toBeCloseTo(0.35, 4);
+    // Finer trees are matched on the solver's 100-step tree
+    expect(
+      impliedVolatility(
+        binomial({ ...inputs, volatility: 0.35 }).price,
+        inputs,
+        'binomial',
+      ),
+    ).toBeCloseTo(0.35, 3);
+    // Below intrinsic value
+    expect(impliedVolatility(0.5, { ...inputs, strike: 120 })).toBeNull();
+  });
+
+  it('measures time to the expiration close', () => {
+    expect(expiryInstant('2025-03-21')).toEqual(
+      new Date('2025-03-21T20:00:00Z'),
+    );
+    expect(
+      yearsToExpiry('2025-03-21', new Date('2025-03-20T20:00:00Z')),
+    ).toBeCloseTo(1 / 365, 10);
+    expect(yearsToExpiry('2025-03-21', new Date('2025-03-22T00:00:00Z'))).toBe(
+      0,
+    );
+  });
+
+  it('snapshots a traded option', () => {
+    const at = new Date('2025-01-17T15:00:00Z');
+    const snapshot = optionSnapshot({
+      type: 'call',
+      underlying: 600,
+      strike: 610,
+      expiration: new Date('2025-02-21T00:00:00Z'),
+      at,
+      optionPrice: 9.5,
+    });
+    expect(snapshot.daysToExpiry).toBeCloseTo(35.25, 2);
+    expect(snapshot.impliedVolatility).toBeGreaterThan(0.1);
+    expect(snapshot.impliedVolatility).toBeLessThan(0.3);
+    expect(snapshot.delta).toBeGreaterThan(0.3);
+    expect(snapshot.delta).toBeLessThan(0.5);
+    expect(
+      optionSnapshot({
+        type: 'call',
+        underlying: 600,
+        strike: 610,
+        expiration: '2025-01-10',
+        at,
+        optionPrice: 1,
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Option pricing and Greeks: Black-Scholes-Merton for European exercise and
+ * a Cox-Ross-Rubinstein binomial tree for American exercise, plus an
+ * implied volatility solver. Rates, yields and volatilities are annualized
+ * decimals (0.05 = 5%) with continuous compounding.
+ */
+
+import { marketTime } from './market-calendar';
+
+export type OptionKind = 'call' | 'put';
+export type OptionModel = 'black-scholes' | 'binomial';
+
+export const OPTION_MODELS: OptionModel[] = ['black-scholes', 'binomial'];
+
+// Short-term Treasury yield used when the caller gives no rate
+export const DEFAULT_RISK_FREE_RATE = 0.045;
+
+export const DEFAULT_BINOMIAL_STEPS = 200;
+// Each tree costs steps² / 2 nodes and the Greeks reprice it twice, all on
+// the event loop
+export const MAX_BINOMIAL_STEPS = 500;
+// Tree the implied volatility solver searches on; the requested tree then
+// prices the solved volatility once
+const IMPLIED_VOLATILITY_STEPS = 100;
+
+const DAYS_PER_YEAR = 365;
+const MIN_VOLATILITY = 1e-4;
+const MAX_VOLATILITY = 5;
+
+export interface OptionInputs {
+  type: OptionKind;
+  underlying: number;
+  strike: number;
+  // Time to expiry in years
+  years: number;
+  rate: number;
+  volatility: number;
+  dividendYield?: number;
+}
+
+export interface BinomialOptions {
+  steps?: number;
+  american?: boolean;
+}
+
+/**
+ * Price and sensitivities of one option on one share. Theta is per calendar
+ * day, vega per volatility point and rho per rate point.
+ */
+export interface OptionGreeks {
+  price: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+const round = (value: number, decimals = 6) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export function normalPdf(x: number): number {
+  return Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF (Abramowitz-Stegun 26.2.17, error below 7.5e-8)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly =
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normalPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+function intrinsicValue(type: OptionKind, underlying: number, strike: number) {
+  return type === 'call'
+    ? Math.max(0, underlying - strike)
+    : Math.max(0, strike - underlying);
+}
+
+// At expiry, or with no volatility, the option is worth its (discounted
+// forward) intrinsic value and only delta is left
+function degenerate(inputs: OptionInputs): OptionGreeks {
+  const { type, underlying, strike, years, rate } = inputs;
+  const q = inputs.dividendYield || 0;
+  const forward = underlying * Math.exp(-q * years);
+  const discountedStrike = strike * Math.exp(-rate * years);
+  const inTheMoney =
+    type === 'call' ? forward > discountedStrike : forward < discountedStrike;
+  return {
+    price: round(intrinsicValue(type, forward, discountedStrike)),
+    delta: inTheMoney
+      ? round((type === 'call' ? 1 : -1) * Math.exp(-q * years))
+      : 0,
+    gamma: 0,
+    theta: 0,
+    vega: 0,
+    rho: 0,
+  };
+}
+
+/**
+ * European option under Black-Scholes-Merton
+ */
+export function blackScholes(inputs: OptionInputs): OptionGreeks {
+  const { type, underlying: s, strike: k, years: t, rate: r } = inputs;
+  const sigma = inputs.volatility;
+  const q = inputs.dividendYield || 0;
+  if (t <= 0 || sigma <= 0) {
+    return degenerate(inputs);
+  }
+
+  const sqrtT = Math.sqrt(t);
+  const d1 =
+    (Math.log(s / k) + (r - q + (sigma * sigma) / 2) * t) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const dividendDiscount = Math.exp(-q * t);
+  const rateDiscount = Math.exp(-r * t);
+  const density = normalPdf(d1);
+
+  const call = type === 'call';
+  const sign = call ? 1 : -1;
+  const nd1 = normalCdf(sign * d1);
+  const nd2 = normalCdf(sign * d2);
+
+  const price = sign * (s * dividendDiscount * nd1 - k * rateDiscount * nd2);
+  const delta = sign * dividendDiscount * nd1;
+  const gamma = (dividendDiscount * density) / (s * sigma * sqrtT);
+  const vega = s * dividendDiscount * density * sqrtT;
+  const theta =
+    -(s * dividendDiscount * density * sigma) / (2 * sqrtT) -
+    sign * r * k * rateDiscount * nd2 +
+    sign * q * s * dividendDiscount * nd1;
+  const rho = sign * k * t * rateDiscount * nd2;
+
+  return {
+    price: round(price),
+    delta: round(delta),
+    gamma: round(gamma),
+    theta: round(theta / DAYS_PER_YEAR),
+    vega: round(vega / 100),
+    rho: round(rho / 100),
+  };
+}
+
+// Node values of the first three layers of a CRR tree (the root and the
+// two steps after it) for the price, delta, gamma and theta
+function binomialTree(inputs: OptionInputs, steps: number, american: boolean) {
+  const { type, underlying: s, strike: k, years: t, rate: r } = inputs;
+  const q = inputs.dividendYield || 0;
+  const dt = t / steps;
+  const up = Math.exp(inputs.volatility * Math.sqrt(dt));
+  const down = 1 / up;
+  const growth = Math.exp((r - q) * dt);
+  const p = (growth - down) / (up - down);
+  const discount = Math.exp(-r * dt);
+
+  // Each up move instead of a down move multiplies the price by up²
+  const upSquared = up * up;
+
+  // values[i] = option value at the node with i up moves
+  let values = new Array<number>(steps + 1);
+  let nodePrice = s * down ** steps;
+  for (let i = 0; i <= steps; i++) {
+    values[i] = intrinsicValue(type, nodePrice, k);
+    nodePrice *= upSquared;
+  }
+  const layers: number[][] = [];
+
+  for (let step = steps - 1; step >= 0; step--) {
+    const next = new Array<number>(step + 1);
+    nodePrice = s * down ** step;
+    for (let i = 0; i <= step; i++) {
+      const held = discount * (p * values[i + 1] + (1 - p) * values[i]);
+      next[i] = american
+        ? Math.max(held, intrinsicValue(type, nodePrice, k))
+        : held;
+      nodePrice *= upSquared;
+    }
+    values = next;
+    if (step <= 2) {
+      layers[step] = next;
+    }
+  }
+
+  return { layers, up, down, dt };
+}
+
+/**
+ * American (or European) option on a Cox-Ross-Rubinstein tree. Delta,
+ * gamma and theta come from the tree's first steps; vega and rho from
+ * repricing with bumped inputs.
+ */
+export function binomial(
+  inputs: OptionInputs,
+  options: BinomialOptions = {},
+): OptionGreeks {
+  if (inputs.years <= 0 || inputs.volatility <= 0) {
+    return degenerate(inputs);
+  }
+
+  const steps = Math.min(
+    MAX_BINOMIAL_STEPS,
+    Math.max(3, options.steps ?? DEFAULT_BINOMIAL_STEPS),
+  );
+  const american = options.american ?? true;
+  const s = inputs.underlying;
+  const { layers, up, down, dt } = binomialTree(inputs, steps, american);
+  const [root] = layers[0];
+  const [down1, up1] = layers[1];
+  const [downDown, middle, upUp] = layers[2];
+
+  const delta = (up1 - down1) / (s * up - s * down);
+  const upDelta = (upUp - middle) / (s * up * up - s);
+  const downDelta = (middle - downDown) / (s - s * down * down);
+  const gamma = (upDelta - downDelta) / ((s * up * up - s * down * down) / 2);
+  const theta = (middle - root) / (2 * dt);
+
+  const price = (bumped: Partial<OptionInputs>) =>
+    binomialTree({ ...inputs, ...bumped }, steps, american).layers[0][0];
+  const vega = price({ volatility: inputs.volatility + 0.01 }) - root;
+  const rho = price({ rate: inputs.rate + 0.01 }) - root;
+
+  return {
+    price: round(root),
+    delta: round(delta),
+    gamma: round(gamma),
+    theta: round(theta / DAYS_PER_YEAR),
+    vega: round(vega),
+    rho: round(rho),
+  };
+}
+
+export function priceOption(
+  inputs: OptionInputs,
+  model: OptionModel = 'black-scholes',
+  options: BinomialOptions = {},
+): OptionGreeks {
+  return model === 'binomial'
+    ? binomial(inputs, options)
+    : blackScholes(inputs);
+}
+
+/**
+ * Volatility at which the model reproduces `price`, or null when the price
+ * is outside the model's no-arbitrage bounds. Newton steps on Black-Scholes
+ * vega, falling back to bisection when a step leaves the bracket. Binomial
+ * prices are matched on a small tree whatever the requested steps.
+ */
+export function impliedVolatility(
+  price: number,
+  inputs: Omit<OptionInputs, 'volatility'>,
+  model: OptionModel = 'black-scholes',
+  options: BinomialOptions = {},
+): number | null {
+  if (!(price > 0) || inputs.years <= 0) {
+    return null;
+  }
+
+  const valueAt = (volatility: number) =>
+    model === 'binomial'
+      ? binomialTree(
+          { ...inputs, volatility },
+          Math.min(
+            options.steps ?? DEFAULT_BINOMIAL_STEPS,
+            IMPLIED_VOLATILITY_STEPS,
+          ),
+          options.american ?? true,
+        ).layers[0][0]
+      : blackScholesValue({ ...inputs, volatility });
+
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  if (price < valueAt(low) - 1e-6 || price > valueAt(high)) {
+    return null;
+  }
+
+  let volatility = 0.3;
+  for (let i = 0; i < 100; i++) {
+    const diff = valueAt(volatility) - price;
+    if (Math.abs(diff) < 1e-7) {
+      break;
+    }
+    if (diff > 0) {
+      high = volatility;
+    } else {
+      low = volatility;
+    }
+
+    const vega = blackScholesVega({ ...inputs, volatility });
+    const step = vega > 1e-8 ? volatility - diff / vega : NaN;
+    volatility = step > low && step < high ? step : (low + high) / 2;
+  }
+  return round(volatility);
+}
+
+// Unrounded value and vega for the solver
+function blackScholesValue(inputs: OptionInputs): number {
+  const { type, underlying: s, strike: k, years: t, rate: r } = inputs;
+  const sigma = inputs.volatility;
+  const q = inputs.dividendYield || 0;
+  const sqrtT = Math.sqrt(t);
+  const d1 =
+    (Math.log(s / k) + (r - q + (sigma * sigma) / 2) * t) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const sign = type === 'call' ? 1 : -1;
+  return (
+    sign *
+    (s * Math.exp(-q * t) * normalCdf(sign * d1) -
+      k * Math.exp(-r * t) * normalCdf(sign * d2))
+  );
+}
+
+function blackScholesVega(inputs: OptionInputs): number {
+  const { underlying: s, strike: k, years: t, rate: r } = inputs;
+  const sigma = inputs.volatility;
+  const q = inputs.dividendYield || 0;
+  const sqrtT = Math.sqrt(t);
+  const d1 =
+    (Math.log(s / k) + (r - q + (sigma * sigma) / 2) * t) / (sigma * sqrtT);
+  return s * Math.exp(-q * t) * normalPdf(d1) * sqrtT;
+}
+
+/**
+ * Listed equity options stop trading at the 4 p.m. New York close of their
+ * expiration date
+ */
+export function expiryInstant(expiration: Date | string): Date {
+  const day =
+    typeof expiration === 'string'
+      ? expiration.slice(0, 10)
+      : expiration.toISOString().slice(0, 10);
+  return marketTime(day, 16 * 60);
+}
+
+/**
+ * Years (ACT/365) from `now` to the expiration close, never negative
+ */
+export function yearsToExpiry(
+  expiration: Date | string,
+  now: Date = new Date(),
+): number {
+  const millis = expiryInstant(expiration).getTime() - now.getTime();
+  return Math.max(0, millis / (DAYS_PER_YEAR * 86400000));
+}
+
+export interface OptionSnapshotInput {
+  type: OptionKind;
+  underlying: number;
+  strike: number;
+  expiration: Date | string;
+  at: Date;
+  optionPrice: number;
+  rate?: number;
+  dividendYield?: number;
+}
+
+export interface OptionSnapshot extends Omit<OptionGreeks, 'price'> {
+  underlyingPrice: number;
+  impliedVolatility: number;
+  daysToExpiry: number;
+}
+
+/**
+ * Implied volatility and Greeks of an option traded at `optionPrice`, or
+ * null when the inputs do not allow them (expired, price outside bounds)
+ */
+export function optionSnapshot(
+  input: OptionSnapshotInput,
+): OptionSnapshot | null {
+  const years = yearsToExpiry(input.expiration, input.at);
+  if (!(input.underlying > 0) || !(input.strike > 0) || years <= 0) {
+    return null;
+  }
+
+  const inputs = {
+    type: input.type,
+    underlying: input.underlying,
+    strike: input.strike,
+    years,
+    rate: input.rate ?? DEFAULT_RISK_FREE_RATE,
+    dividendYield: input.dividendYield || 0,
+  };
+  const volatility = impliedVolatility(input.optionPrice, inputs);
+  if (volatility === null) {
+    return null;
+  }
+
+  const greeks = blackScholes({ ...inputs, volatility });
+  return {
+    underlyingPrice: input.underlying,
+    impliedVolatility: volatility,
+    daysToExpiry: round(years * DAYS_PER_YEAR, 2),
+    delta: greeks.delta,
+    gamma: greeks.gamma,
+    theta: greeks.theta,
+    vega: greeks.vega,
+    rho: greeks.rho,
+  };
+}
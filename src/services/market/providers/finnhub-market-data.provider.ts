@@ -0,0 +1,79 @@
+import {
+  CompanyProfile,
+  EarningsCalendarItem,
+  FinnhubService,
+  NewsItem,
+  StockQuote,
+} from '../../finnhub/finnhub.service';
+import { Bar, BarResolution } from '../indicators';
+import { MarketDataProvider } from './market-data-provider.interface';
+
+/**
+ * Finnhub REST API, the primary source
+ */
+export class FinnhubMarketDataProvider implements MarketDataProvider {
+  readonly name = 'finnhub';
+
+  constructor(private readonly finnhubService: FinnhubService) {}
+
+  getQuote(symbol: string): Promise<StockQuote> {
+    return this.finnhubService.getQuote(symbol);
+  }
+
+  async getCandles(
+    symbol: string,
+    resolution: BarResolution,
+    from: number,
+    to: number,
+  ): Promise<Bar[]> {
+    const data = await this.finnhubService.getStockCandles(
+      symbol,
+      resolution,
+      from,
+      to,
+    );
+    if (data?.s === 'no_data') {
+      return [];
+    }
+    if (data?.s !== 'ok' || !Array.isArray(data.t)) {
+      throw new Error(`Unexpected Finnhub candle response for ${symbol}`);
+    }
+
+    return data.t.map((time: number, index: number) => ({
+      time,
+      open: data.o[index],
+      high: data.h[index],
+      low: data.l[index],
+      close: data.c[index],
+      volume: data.v?.[index] || 0,
+    }));
+  }
+
+  getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+    return this.finnhubService.getCompanyProfile(symbol);
+  }
+
+  searchSymbols(query: string): Promise<any> {
+    return this.finnhubService.searchSymbols(query);
+  }
+
+  getEarningsCalendar(
+    from: string,
+    to: string,
+    symbol?: string,
+  ): Promise<EarningsCalendarItem[]> {
+    return this.finnhubService.getEarningsCalendar(from, to, symbol);
+  }
+
+  getMarketNews(category: string): Promise<NewsItem[]> {
+    return this.finnhubService.getMarketNews(category);
+  }
+
+  getCompanyNews(
+    symbol: string,
+    from: string,
+    to: string,
+  ): Promise<NewsItem[]> {
+    return this.finnhubService.getCompanyNews(symbol, from, to);
+  }
+}
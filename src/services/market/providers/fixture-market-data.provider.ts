@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  CompanyProfile,
+  EarningsCalendarItem,
+  NewsItem,
+  StockQuote,
+} from '../../finnhub/finnhub.service';
+import type { Bar, BarResolution } from '../indicators';
+import { MarketDataProvider } from './market-data-provider.interface';
+
+interface FixtureBar extends Omit<Bar, 'time' | 'volume'> {
+  // ISO string, Date or unix seconds
+  time: string | number | Date;
+  volume?: number;
+}
+
+export interface SymbolFixture {
+  quote?: Partial<StockQuote>;
+  profile?: Partial<CompanyProfile>;
+  candles?: FixtureBar[];
+  news?: NewsItem[];
+}
+
+interface LoadedFixture extends Omit<SymbolFixture, 'candles'> {
+  candles: Bar[];
+}
+
+const toSeconds = (time: FixtureBar['time']): number =>
+  typeof time === 'number' ? time : Math.floor(new Date(time).getTime() / 1000);
+
+/**
+ * Market data served from memory or from a directory of JSON files:
+ * `<SYMBOL>.json` holding {quote, profile, candles, news}, plus optional
+ * `_earnings.json` and `_news.json` arrays. Lets the market module run
+ * offline in tests, CI and local development. The candle resolution is
+ * ignored, and a quote missing from the fixture is derived from the last
+ * two candles.
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+
+  private readonly symbols = new Map<string, LoadedFixture>();
+  private earnings: EarningsCalendarItem[] = [];
+  private news: NewsItem[] = [];
+
+  constructor(
+    fixtures: Record<string, SymbolFixture> = {},
+    private readonly directory?: string,
+  ) {
+    Object.entries(fixtures).forEach(([symbol, fixture]) =>
+      this.setFixture(symbol, fixture),
+    );
+    if (directory) {
+      this.earnings =
+        this.readFile<EarningsCalendarItem[]>('_earnings.json') || [];
+      this.news = this.readFile<NewsItem[]>('_news.json') || [];
+    }
+  }
+
+  setFixture(symbol: string, fixture: SymbolFixture): void {
+    this.symbols.set(symbol.toUpperCase(), {
+      ...fixture,
+      candles: (fixture.candles || [])
+        .map((bar) => ({
+          ...bar,
+          time: toSeconds(bar.time),
+          volume: bar.volume || 0,
+        }))
+        .sort((a, b) => a.time - b.time),
+    });
+  }
+
+  setEarnings(earnings: EarningsCalendarItem[]): void {
+    this.earnings = earnings;
+  }
+
+  async getQuote(symbol: string): Promise<StockQuote> {
+    const fixture = this.fixture(symbol);
+    const last = fixture.candles[fixture.candles.length - 1];
+    const previous = fixture.candles[fixture.candles.length - 2];
+    if (!fixture.quote && !last) {
+      throw new Error(`No fixture quote for ${symbol}`);
+    }
+
+    const price = fixture.quote?.c ?? last.close;
+    const previousClose = fixture.quote?.pc ?? previous?.close ?? last?.open;
+    const change = price - previousClose;
+    return {
+      c: price,
+      d: change,
+      dp: previousClose ? (change / previousClose) * 100 : 0,
+      h: last?.high ?? price,
+      l: last?.low ?? price,
+      o: last?.open ?? price,
+      pc: previousClose,
+      t: last?.time ?? Math.floor(Date.now() / 1000),
+      ...fixture.quote,
+    };
+  }
+
+  async getCandles(
+    symbol: string,
+    _resolution: BarResolution,
+    from: number,
+    to: number,
+  ): Promise<Bar[]> {
+    return this.fixture(symbol).candles.filter(
+      (bar) => bar.time >= from && bar.time <= to,
+    );
+  }
+
+  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+    const profile = this.fixture(symbol).profile;
+    if (!profile) {
+      throw new Error(`No fixture profile for ${symbol}`);
+    }
+    return {
+      country: '',
+      currency: 'USD',
+      exchange: '',
+      finnhubIndustry: '',
+      ipo: '',
+      logo: '',
+      marketCapitalization: 0,
+      name: symbol.toUpperCase(),
+      phone: '',
+      shareOutstanding: 0,
+      ticker: symbol.toUpperCase(),
+      weburl: '',
+      ...profile,
+    };
+  }
+
+  async searchSymbols(query: string) {
+    const needle = query.toUpperCase();
+    const result = [...this.symbols.entries()]
+      .filter(
+        ([symbol, fixture]) =>
+          symbol.includes(needle) ||
+          fixture.profile?.name?.toUpperCase().includes(needle),
+      )
+      .map(([symbol, fixture]) => ({
+        description: fixture.profile?.name || symbol,
+        displaySymbol: symbol,
+        symbol,
+        type: 'Common Stock',
+      }));
+    return { count: result.length, result };
+  }
+
+  async getEarningsCalendar(
+    from: string,
+    to: string,
+    symbol?: string,
+  ): Promise<EarningsCalendarItem[]> {
+    return this.earnings.filter(
+      (item) =>
+        item.date >= from &&
+        item.date <= to &&
+        (!symbol || item.symbol.toUpperCase() === symbol.toUpperCase()),
+    );
+  }
+
+  async getMarketNews(category: string): Promise<NewsItem[]> {
+    return this.news.filter(
+      (item) => !item.category || item.category === category,
+    );
+  }
+
+  async getCompanyNews(
+    symbol: string,
+    from: string,
+    to: string,
+  ): Promise<NewsItem[]> {
+    const start = new Date(from).getTime() / 1000;
+    const end = new Date(to).getTime() / 1000 + 86400;
+    return (this.fixture(symbol).news || []).filter(
+      (item) => item.datetime >= start && item.datetime < end,
+    );
+  }
+
+  private fixture(symbol: string): LoadedFixture {
+    const key = symbol.toUpperCase();
+    if (!this.symbols.has(key) && this.directory) {
+      const fixture = this.readFile<SymbolFixture>(`${key}.json`);
+      if (fixture) {
+        this.setFixture(key, fixture);
+      }
+    }
+    return this.symbols.get(key) || { candles: [] };
+  }
+
+  private readFile<T>(name: string): T | null {
+    const file = path.join(this.directory, name);
+    return fs.existsSync(file)
+      ? JSON.parse(fs.readFileSync(file, 'utf8'))
+      : null;
+  }
+}
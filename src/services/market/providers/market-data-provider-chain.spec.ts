@@ -0,0 +1,113 @@
+import { RateLimiterService } from '../rate-limiter.service';
+import { FixtureMarketDataProvider } from './fixture-market-data.provider';
+import { MarketDataProviderChain } from './market-data-provider-chain';
+import { MarketDataProvider } from './market-data-provider.interface';
+
+const failing = (name: string, error = new Error('upstream down')) =>
+  ({
+    name,
+    getQuote: jest.fn().mockRejectedValue(error),
+    getCandles: jest.fn().mockRejectedValue(error),
+  }) as MarketDataProvider & { getQuote: jest.Mock };
+
+const fixture = new FixtureMarketDataProvider({
+  AAPL: {
+    profile: { name: 'Apple Inc' },
+    candles: [
+      {
+        time: '2025-03-03T00:00:00Z',
+        open: 99,
+        high: 101,
+        low: 98,
+        close: 100,
+      },
+      {
+        time: '2025-03-04T00:00:00Z',
+        open: 100,
+        high: 106,
+        low: 99,
+        close: 105,
+      },
+    ],
+  },
+});
+
+describe('MarketDataProviderChain', () => {
+  let rateLimiter: RateLimiterService;
+
+  beforeEach(() => {
+    rateLimiter = new RateLimiterService();
+  });
+
+  it('derives fixture quotes from the last candles', async () => {
+    const quote = await fixture.getQuote('aapl');
+    expect(quote).toMatchObject({ c: 105, pc: 100, d: 5, dp: 5, h: 106 });
+    await expect(fixture.getQuote('MSFT')).rejects.toThrow('No fixture quote');
+  });
+
+  it('fails over to the next provider', async () => {
+    const primary = failing('primary');
+    const chain = new MarketDataProviderChain([primary, fixture], rateLimiter);
+
+    const quote = await chain.call('getQuote', (p) => p.getQuote('AAPL'));
+    expect(quote.c).toBe(105);
+    expect(primary.getQuote).toHaveBeenCalledTimes(1);
+    expect(chain.getHealth()[0]).toMatchObject({
+      service: 'primary',
+      failures: 1,
+      healthy: true,
+    });
+  });
+
+  it('passes empty answers on without counting a failure', async () => {
+    const empty = {
+      name: 'empty',
+      getQuote: jest.fn().mockResolvedValue({ c: 0 }),
+      getCandles: jest.fn().mockResolvedValue([]),
+    } as MarketDataProvider;
+    const chain = new MarketDataProviderChain([empty, fixture], rateLimiter);
+
+    const quote = await chain.call(
+      'getQuote',
+      (p) => p.getQuote('AAPL'),
+      (result) => !result.c,
+    );
+    expect(quote.c).toBe(105);
+
+    const bars = await chain.call(
+      'getCandles',
+      (p) => p.getCandles('MSFT', 'D', 0, Date.now() / 1000),
+      (result) => result.length === 0,
+    );
+    expect(bars).toEqual([]);
+    expect(chain.getHealth()[0]).toMatchObject({ failures: 0, successes: 2 });
+  });
+
+  it('moves unhealthy providers to the back of the chain', async () => {
+    const limited = failing(
+      'limited',
+      Object.assign(new Error('Too Many Requests'), { status: 429 }),
+    );
+    const chain = new MarketDataProviderChain([limited, fixture], rateLimiter);
+
+    await chain.call('getQuote', (p) => p.getQuote('AAPL'));
+    expect(rateLimiter.isHealthy('limited')).toBe(false);
+
+    await chain.call('getQuote', (p) => p.getQuote('AAPL'));
+    expect(limited.getQuote).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips providers without the capability and rethrows the last error', async () => {
+    const chain = new MarketDataProviderChain(
+      [failing('a'), failing('b', new Error('b down'))],
+      rateLimiter,
+    );
+
+    await expect(
+      chain.call('getCompanyProfile', (p) => p.getCompanyProfile('AAPL')),
+    ).rejects.toThrow('No market data provider supports getCompanyProfile');
+    await expect(
+      chain.call('getQuote', (p) => p.getQuote('AAPL')),
+    ).rejects.toThrow('b down');
+  });
+});
@@ -0,0 +1,103 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RateLimiterService } from '../rate-limiter.service';
+import {
+  MARKET_DATA_PROVIDERS,
+  MarketDataCapability,
+  MarketDataProvider,
+} from './market-data-provider.interface';
+
+/**
+ * Runs market data calls against the configured providers in order,
+ * failing over to the next one when a provider errors, is rate-limited or
+ * returns nothing. Each call goes through the provider's RateLimiterService
+ * slot, and the outcome feeds its health.
+ */
+@Injectable()
+export class MarketDataProviderChain {
+  private readonly logger = new Logger(MarketDataProviderChain.name);
+
+  constructor(
+    @Inject(MARKET_DATA_PROVIDERS)
+    private readonly providers: MarketDataProvider[],
+    private readonly rateLimiter: RateLimiterService,
+  ) {}
+
+  get names(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * First answer from the providers implementing `capability`. Healthy
+   * providers with a free rate limit slot are tried first, then healthy
+   * ones that would have to queue, then unhealthy ones as a last resort.
+   * An empty answer (per `isEmpty`) passes to the next provider without
+   * counting as a failure; when every answer is empty the first is returned.
+   */
+  async call<T>(
+    capability: MarketDataCapability,
+    call: (provider: MarketDataProvider) => Promise<T>,
+    isEmpty: (result: T) => boolean = () => false,
+  ): Promise<T> {
+    const candidates = this.candidates(capability);
+    if (candidates.length === 0) {
+      throw new Error(`No market data provider supports ${capability}`);
+    }
+
+    let lastError: any;
+    let emptyResult: { value: T } | null = null;
+
+    for (const [index, provider] of candidates.entries()) {
+      try {
+        const result = await this.rateLimiter.execute(
+          () => call(provider),
+          provider.name,
+        );
+        this.rateLimiter.recordSuccess(provider.name);
+
+        if (isEmpty(result)) {
+          emptyResult = emptyResult || { value: result };
+          continue;
+        }
+        if (index > 0) {
+          this.logger.debug(`${capability} served by ${provider.name}`);
+        }
+        return result;
+      } catch (error) {
+        this.rateLimiter.recordFailure(provider.name, error);
+        this.logger.warn(
+          `${provider.name} failed ${capability}: ${error?.message || error}`,
+        );
+        lastError = error;
+      }
+    }
+
+    if (emptyResult) {
+      return emptyResult.value;
+    }
+    throw lastError;
+  }
+
+  /**
+   * Chain order with rate limit slots and health
+   */
+  getHealth() {
+    const statuses = this.rateLimiter.getAllStatuses();
+    return this.rateLimiter.getHealth(this.names).map((health) => ({
+      ...health,
+      rateLimit: statuses[health.service] || null,
+    }));
+  }
+
+  private candidates(capability: MarketDataCapability): MarketDataProvider[] {
+    const rank = (provider: MarketDataProvider) => {
+      if (!this.rateLimiter.isHealthy(provider.name)) return 2;
+      return this.rateLimiter.canProceed(provider.name) ? 0 : 1;
+    };
+
+    return this.providers
+      .filter((provider) => typeof provider[capability] === 'function')
+      .map((provider, order) => ({ provider, order, rank: rank(provider) }))
+      .sort((a, b) => a.rank - b.rank || a.order - b.order)
+      .map(({ provider }) => provider);
+  }
+}
@@ -0,0 +1,42 @@
+import type {
+  CompanyProfile,
+  EarningsCalendarItem,
+  NewsItem,
+  StockQuote,
+} from '../../finnhub/finnhub.service';
+import type { Bar, BarResolution } from '../indicators';
+
+// Injection token of the ordered MarketDataProvider chain
+export const MARKET_DATA_PROVIDERS = 'MARKET_DATA_PROVIDERS';
+
+/**
+ * A source of market data. `name` doubles as the RateLimiterService key used
+ * for its rate limit and health. Optional methods are capabilities the
+ * source may lack; the chain skips providers that do not implement them.
+ * Implementations throw when the upstream fails so the chain can fail over.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<StockQuote>;
+  getCandles(
+    symbol: string,
+    resolution: BarResolution,
+    from: number,
+    to: number,
+  ): Promise<Bar[]>;
+  getCompanyProfile?(symbol: string): Promise<CompanyProfile>;
+  searchSymbols?(query: string): Promise<any>;
+  getEarningsCalendar?(
+    from: string,
+    to: string,
+    symbol?: string,
+  ): Promise<EarningsCalendarItem[]>;
+  getMarketNews?(category: string): Promise<NewsItem[]>;
+  getCompanyNews?(
+    symbol: string,
+    from: string,
+    to: string,
+  ): Promise<NewsItem[]>;
+}
+
+export type MarketDataCapability = Exclude<keyof MarketDataProvider, 'name'>;
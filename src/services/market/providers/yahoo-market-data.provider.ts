@@ -0,0 +1,122 @@
+import { CompanyProfile, StockQuote } from '../../finnhub/finnhub.service';
+import { YahooFinanceService } from '../../yahoo-finance/yahoo-finance.service';
+import { Bar, BarResolution } from '../indicators';
+import { MarketDataProvider } from './market-data-provider.interface';
+
+const INTERVALS: Record<BarResolution, string> = {
+  '1': '1m',
+  '5': '5m',
+  '15': '15m',
+  '30': '30m',
+  '60': '60m',
+  D: '1d',
+  W: '1wk',
+  M: '1mo',
+};
+
+const raw = (field: any): number | undefined =>
+  typeof field === 'object' && field !== null ? field.raw : field;
+
+/**
+ * Yahoo Finance chart and summary endpoints (through RapidAPI), used as the
+ * fallback when Finnhub is rate-limited or down. Quotes are mapped to
+ * Finnhub's shape so callers do not care which source answered.
+ */
+export class YahooMarketDataProvider implements MarketDataProvider {
+  readonly name = 'yahoo';
+
+  constructor(private readonly yahooFinanceService: YahooFinanceService) {}
+
+  async getQuote(symbol: string): Promise<StockQuote> {
+    const result = await this.chart(symbol, { interval: '1d', range: '1d' });
+    const meta = result.meta || {};
+    const price = meta.regularMarketPrice;
+    const previousClose = meta.chartPreviousClose ?? meta.previousClose;
+    if (typeof price !== 'number') {
+      throw new Error(`No Yahoo quote for ${symbol}`);
+    }
+
+    const change = previousClose ? price - previousClose : 0;
+    return {
+      c: price,
+      d: change,
+      dp: previousClose ? (change / previousClose) * 100 : 0,
+      h: meta.regularMarketDayHigh ?? price,
+      l: meta.regularMarketDayLow ?? price,
+      o: result.indicators?.quote?.[0]?.open?.[0] ?? price,
+      pc: previousClose ?? price,
+      t: meta.regularMarketTime ?? Math.floor(Date.now() / 1000),
+    };
+  }
+
+  async getCandles(
+    symbol: string,
+    resolution: BarResolution,
+    from: number,
+    to: number,
+  ): Promise<Bar[]> {
+    const result = await this.chart(symbol, {
+      interval: INTERVALS[resolution],
+      period1: from,
+      period2: to,
+    });
+    const times: number[] = result.timestamp || [];
+    const quote = result.indicators?.quote?.[0] || {};
+
+    return (
+      times
+        .map((time, index) => ({
+          time,
+          open: quote.open?.[index],
+          high: quote.high?.[index],
+          low: quote.low?.[index],
+          close: quote.close?.[index],
+          volume: quote.volume?.[index] || 0,
+        }))
+        // Yahoo pads halted minutes with nulls
+        .filter((bar) => typeof bar.close === 'number')
+    );
+  }
+
+  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+    const summary = await this.yahooFinanceService.getStockSummary(symbol);
+    const price = summary?.price || {};
+    const profile = summary?.summaryProfile || {};
+    if (!price.shortName && !price.longName) {
+      throw new Error(`No Yahoo profile for ${symbol}`);
+    }
+
+    const marketCap = raw(price.marketCap);
+    const shares = raw(summary?.defaultKeyStatistics?.sharesOutstanding);
+    return {
+      country: profile.country || '',
+      currency: price.currency || '',
+      exchange: price.exchangeName || '',
+      finnhubIndustry: profile.industry || '',
+      ipo: '',
+      logo: '',
+      // Finnhub reports both in millions
+      marketCapitalization: marketCap ? marketCap / 1e6 : 0,
+      name: price.longName || price.shortName,
+      phone: profile.phone || '',
+      shareOutstanding: shares ? shares / 1e6 : 0,
+      ticker: symbol,
+      weburl: profile.website || '',
+    };
+  }
+
+  private async chart(
+    symbol: string,
+    params: Record<string, string | number>,
+  ): Promise<any> {
+    const data = await this.yahooFinanceService.getStockData(symbol, params);
+    const result = data?.chart?.result?.[0];
+    if (!result) {
+      throw new Error(
+        data?.chart?.error?.description ||
+          `Unexpected Yahoo chart response for ${symbol}`,
+      );
+    }
+    return result;
+  }
+}
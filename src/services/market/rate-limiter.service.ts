@@ -11,6 +11,19 @@ interface RequestQueue {
   timestamp: number;
 }
 
+export interface ProviderHealth {
+  service: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  successes: number;
+  failures: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  // Failover skips the provider until then (epoch ms)
+  unhealthyUntil: number | null;
+}
+
 @Injectable()
 export class RateLimiterService {
   private readonly logger = new Logger(RateLimiterService.name);
@@ -25,11 +38,22 @@ export class RateLimiterService {
       maxRequests: 30,
       windowMs: 1000, // 1 second
     },
+    // Yahoo Finance through RapidAPI, the market data fallback
+    yahoo: {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    },
   };
+
+  // Consecutive failures that take a provider out of the failover chain
+  private readonly FAILURE_THRESHOLD = 3;
+  // How long an unhealthy provider is skipped before it is retried
+  private readonly UNHEALTHY_COOLDOWN_MS = 60000;
   
   private requestCounts: Record<string, number[]> = {};
   private requestQueues: Record<string, RequestQueue[]> = {};
   private processing: Record<string, boolean> = {};
+  private health: Record<string, ProviderHealth> = {};
 
   constructor() {
     // Initialize counters
@@ -187,6 +211,84 @@ export class RateLimiterService {
     return statuses;
   }
 
+  /**
+   * Record a successful upstream call; a healthy answer closes the circuit
+   */
+  recordSuccess(service: string): void {
+    const health = this.healthOf(service);
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.lastSuccessAt = Date.now();
+    health.unhealthyUntil = null;
+  }
+
+  /**
+   * Record a failed upstream call. A 429 takes the provider out at once;
+   * other errors after FAILURE_THRESHOLD in a row.
+   */
+  recordFailure(service: string, error?: any): void {
+    const health = this.healthOf(service);
+    const now = Date.now();
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastFailureAt = now;
+    health.lastError = error?.message || (error ? String(error) : null);
+
+    if (
+      this.isRateLimitError(error) ||
+      health.consecutiveFailures >= this.FAILURE_THRESHOLD
+    ) {
+      health.unhealthyUntil = now + this.UNHEALTHY_COOLDOWN_MS;
+      this.logger.warn(
+        `${service} marked unhealthy for ${this.UNHEALTHY_COOLDOWN_MS / 1000}s: ${health.lastError}`,
+      );
+    }
+  }
+
+  /**
+   * Whether failover should try the provider; after the cooldown it gets
+   * one more chance
+   */
+  isHealthy(service: string): boolean {
+    const health = this.health[service];
+    return !health?.unhealthyUntil || health.unhealthyUntil <= Date.now();
+  }
+
+  /**
+   * Health of the given providers, or of every provider seen so far
+   */
+  getHealth(services?: string[]): ProviderHealth[] {
+    return (services || Object.keys(this.health)).map((service) => ({
+      ...this.healthOf(service),
+      healthy: this.isHealthy(service),
+    }));
+  }
+
+  private healthOf(service: string): ProviderHealth {
+    if (!this.health[service]) {
+      this.health[service] = {
+        service,
+        healthy: true,
+        consecutiveFailures: 0,
+        successes: 0,
+        failures: 0,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        unhealthyUntil: null,
+      };
+    }
+    return this.health[service];
+  }
+
+  private isRateLimitError(error: any): boolean {
+    const status = error?.status ?? error?.response?.status;
+    return (
+      status === 429 ||
+      /rate limit|too many requests/i.test(error?.message || '')
+    );
+  }
+
   /**
    * Reset rate limits (for testing)
    */
@@ -195,12 +297,14 @@ export class RateLimiterService {
       this.requestCounts[service] = [];
       this.requestQueues[service] = [];
       this.processing[service] = false;
+      delete this.health[service];
     } else {
-      Object.keys(this.configs).forEach(key => {
+      Object.keys(this.configs).forEach((key) => {
         this.requestCounts[key] = [];
         this.requestQueues[key] = [];
         this.processing[key] = false;
       });
+      this.health = {};
     }
     
     this.logger.debug(`Rate limits reset for ${service || 'all services'}`);
@@ -213,6 +317,11 @@ export class RateLimiterService {
     fn: () => Promise<T>,
     service: string = 'finnhub',
   ): Promise<T> {
+    // Local providers (fixtures) have no limit to track
+    if (!this.configs[service]) {
+      return fn();
+    }
+
     await this.waitForSlot(service);
     
     try {
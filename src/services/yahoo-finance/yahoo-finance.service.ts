@@ -1,18 +1,27 @@
 import { Inject, Injectable, HttpException, HttpStatus } from '@nestjs/common';
 import { AxiosInstance } from 'axios';
 import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../../cache/cache.service';
+
+// Translated strings never change; keep them for 30 days
+const TRANSLATION_TTL = 30 * 86400;
 
 @Injectable()
 export class YahooFinanceService {
   constructor(
     @Inject('YAHOO_FINANCE_AXIOS') private readonly axios: AxiosInstance,
     private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
   ) {}
 
-  async getStockData(symbol: string): Promise<any> {
+  async getStockData(
+    symbol: string,
+    params?: Record<string, string | number>,
+  ): Promise<any> {
     try {
       const response = await this.axios.get(
         `/api/yahoo/finance/chart/${symbol}`,
+        { params },
       );
       return response.data;
     } catch (error) {
@@ -51,18 +60,11 @@ export class YahooFinanceService {
 
   async getCalendarNews(date: string, language: string = 'en'): Promise<any> {
     try {
-      const response = await this.axios.get(
-        `/api/v1/markets/calendar/economic_events`,
-        {
-          params: { date },
-        },
-      );
-
-      let events = response.data.economicEvents || [];
+      let events = await this.getEconomicEvents(date);
 
       // 🔍 Filter for US-only events
       events = events.filter(
-        (event) => event.country?.toLowerCase() === 'United States',
+        (event) => event.country?.toLowerCase() === 'united states',
       );
 
       // 🌍 Translate to Spanish if needed
@@ -80,6 +82,19 @@ export class YahooFinanceService {
     }
   }
 
+  /**
+   * Raw economic events of a day, every country
+   */
+  async getEconomicEvents(date: string): Promise<any[]> {
+    const response = await this.axios.get(
+      `/api/v1/markets/calendar/economic_events`,
+      {
+        params: { date },
+      },
+    );
+    return response.data.economicEvents || [];
+  }
+
   // 🛠 Translate Events to Spanish
   private async translateToSpanish(events: any[]): Promise<any[]> {
     return Promise.all(
@@ -90,11 +105,14 @@ export class YahooFinanceService {
     );
   }
 
-  // 🌍 Function to Translate Text (Uses Google Translate API)
-  private async translateText(
-    text: string,
-    targetLang: string,
-  ): Promise<string> {
+  // 🌍 Function to Translate Text (Uses Google Translate API, cached)
+  async translateText(text: string, targetLang: string): Promise<string> {
+    const cacheKey = `translation:${targetLang}:${text}`;
+    const cached = await this.cacheService.get<string>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
     const translateUrl =
       'https://translation.googleapis.com/language/translate/v2';
     const googleApiKey = this.configService.get<string>(
@@ -115,7 +133,9 @@ export class YahooFinanceService {
         },
       );
 
-      return response.data.data.translations[0].translatedText;
+      const translated = response.data.data.translations[0].translatedText;
+      await this.cacheService.set(cacheKey, translated, TRANSLATION_TTL);
+      return translated;
     } catch (error) {
       console.error('Translation error:', error.message);
       return text; // Return original if translation fails
@@ -0,0 +1,50 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  Matches,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { INSTRUMENT_SPEC_MARKETS } from '../interfaces/instrument-spec.interface';
+
+export class UpsertInstrumentSpecDto {
+  @IsNotEmpty()
+  @Matches(/^(\*|\*?[A-Z0-9]{1,10})$/, {
+    message:
+      'rootSymbol must be a root (ES), a pair (EURUSD), "*" or a suffix wildcard (*JPY)',
+  })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  rootSymbol: string;
+
+  @IsIn(INSTRUMENT_SPEC_MARKETS)
+  market: string;
+
+  @IsNumber()
+  @IsPositive()
+  multiplier: number;
+
+  @IsNumber()
+  @IsPositive()
+  tickSize: number;
+
+  @IsNumber()
+  @IsPositive()
+  tickValue: number;
+
+  @IsString()
+  @Length(3, 3)
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  currency: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
@@ -0,0 +1,205 @@
+export const INSTRUMENT_SPECS_SETTING_KEY = 'trading_journal_instrument_specs';
+
+export const INSTRUMENT_SPEC_MARKETS = [
+  'stocks',
+  'forex',
+  'crypto',
+  'futures',
+  'options',
+];
+
+/**
+ * Contract specification used by the trading journal to turn price moves
+ * into money. rootSymbol is the futures root (ES, NQ, CL), a forex pair
+ * (EURUSD), or a wildcard: '*' matches any symbol of the market and '*JPY'
+ * any symbol ending in JPY.
+ */
+export interface InstrumentSpec {
+  rootSymbol: string;
+  market: string;
+  // Currency value of a one point move per contract/lot
+  multiplier: number;
+  tickSize: number;
+  tickValue: number;
+  currency: string;
+  description?: string;
+}
+
+export const DEFAULT_INSTRUMENT_SPECS: InstrumentSpec[] = [
+  // CME equity index futures
+  {
+    rootSymbol: 'ES',
+    market: 'futures',
+    multiplier: 50,
+    tickSize: 0.25,
+    tickValue: 12.5,
+    currency: 'USD',
+    description: 'E-mini S&P 500',
+  },
+  {
+    rootSymbol: 'MES',
+    market: 'futures',
+    multiplier: 5,
+    tickSize: 0.25,
+    tickValue: 1.25,
+    currency: 'USD',
+    description: 'Micro E-mini S&P 500',
+  },
+  {
+    rootSymbol: 'NQ',
+    market: 'futures',
+    multiplier: 20,
+    tickSize: 0.25,
+    tickValue: 5,
+    currency: 'USD',
+    description: 'E-mini Nasdaq-100',
+  },
+  {
+    rootSymbol: 'MNQ',
+    market: 'futures',
+    multiplier: 2,
+    tickSize: 0.25,
+    tickValue: 0.5,
+    currency: 'USD',
+    description: 'Micro E-mini Nasdaq-100',
+  },
+  {
+    rootSymbol: 'YM',
+    market: 'futures',
+    multiplier: 5,
+    tickSize: 1,
+    tickValue: 5,
+    currency: 'USD',
+    description: 'E-mini Dow',
+  },
+  {
+    rootSymbol: 'MYM',
+    market: 'futures',
+    multiplier: 0.5,
+    tickSize: 1,
+    tickValue: 0.5,
+    currency: 'USD',
+    description: 'Micro E-mini Dow',
+  },
+  {
+    rootSymbol: 'RTY',
+    market: 'futures',
+    multiplier: 50,
+    tickSize: 0.1,
+    tickValue: 5,
+    currency: 'USD',
+    description: 'E-mini Russell 2000',
+  },
+  {
+    rootSymbol: 'M2K',
+    market: 'futures',
+    multiplier: 5,
+    tickSize: 0.1,
+    tickValue: 0.5,
+    currency: 'USD',
+    description: 'Micro E-mini Russell 2000',
+  },
+  // Energy and metals
+  {
+    rootSymbol: 'CL',
+    market: 'futures',
+    multiplier: 1000,
+    tickSize: 0.01,
+    tickValue: 10,
+    currency: 'USD',
+    description: 'Crude Oil',
+  },
+  {
+    rootSymbol: 'MCL',
+    market: 'futures',
+    multiplier: 100,
+    tickSize: 0.01,
+    tickValue: 1,
+    currency: 'USD',
+    description: 'Micro Crude Oil',
+  },
+  {
+    rootSymbol: 'NG',
+    market: 'futures',
+    multiplier: 10000,
+    tickSize: 0.001,
+    tickValue: 10,
+    currency: 'USD',
+    description: 'Natural Gas',
+  },
+  {
+    rootSymbol: 'GC',
+    market: 'futures',
+    multiplier: 100,
+    tickSize: 0.1,
+    tickValue: 10,
+    currency: 'USD',
+    description: 'Gold',
+  },
+  {
+    rootSymbol: 'MGC',
+    market: 'futures',
+    multiplier: 10,
+    tickSize: 0.1,
+    tickValue: 1,
+    currency: 'USD',
+    description: 'Micro Gold',
+  },
+  {
+    rootSymbol: 'SI',
+    market: 'futures',
+    multiplier: 5000,
+    tickSize: 0.005,
+    tickValue: 25,
+    currency: 'USD',
+    description: 'Silver',
+  },
+  // Treasuries
+  {
+    rootSymbol: 'ZB',
+    market: 'futures',
+    multiplier: 1000,
+    tickSize: 0.03125,
+    tickValue: 31.25,
+    currency: 'USD',
+    description: '30-Year T-Bond',
+  },
+  {
+    rootSymbol: 'ZN',
+    market: 'futures',
+    multiplier: 1000,
+    tickSize: 0.015625,
+    tickValue: 15.625,
+    currency: 'USD',
+    description: '10-Year T-Note',
+  },
+  // Currency futures
+  {
+    rootSymbol: '6E',
+    market: 'futures',
+    multiplier: 125000,
+    tickSize: 0.00005,
+    tickValue: 6.25,
+    currency: 'USD',
+    description: 'Euro FX',
+  },
+  // Forex, position size in standard lots (100,000 units of the base currency)
+  {
+    rootSymbol: '*JPY',
+    market: 'forex',
+    multiplier: 100000,
+    tickSize: 0.01,
+    tickValue: 1000,
+    currency: 'JPY',
+    description: 'JPY-quoted pairs, standard lot',
+  },
+  {
+    rootSymbol: '*',
+    market: 'forex',
+    multiplier: 100000,
+    tickSize: 0.0001,
+    tickValue: 10,
+    currency: 'USD',
+    description: 'Standard lot',
+  },
+];
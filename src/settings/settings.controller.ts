@@ -7,11 +7,14 @@ import {
   Param,
   Delete,
   Query,
+  Put,
+  Req,
   UseGuards,
 } from '@nestjs/common';
 import { SettingsService } from './settings.service';
 import { CreateSettingDto } from './dto/create-setting.dto';
 import { UpdateSettingDto, UpdateSettingValueDto, BulkUpdateSettingsDto } from './dto/update-setting.dto';
+import { UpsertInstrumentSpecDto } from './dto/instrument-spec.dto';
 import { SettingCategory } from './interfaces/setting.interface';
 import { JwtAuthGuard } from '../guards/jwt-auth-guard';
 import { RolesGuard } from '../guards/roles.guard';
@@ -104,4 +107,34 @@ export class SettingsController {
       };
     }
   }
+
+  @Get('trading/instruments')
+  getInstrumentSpecs() {
+    return this.settingsService.getInstrumentSpecs();
+  }
+
+  @Put('trading/instruments')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  upsertInstrumentSpec(
+    @Body() specDto: UpsertInstrumentSpecDto,
+    @Req() req: any,
+  ) {
+    return this.settingsService.upsertInstrumentSpec(specDto, req.user?.email);
+  }
+
+  @Delete('trading/instruments/:market/:rootSymbol')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  removeInstrumentSpec(
+    @Param('market') market: string,
+    @Param('rootSymbol') rootSymbol: string,
+    @Req() req: any,
+  ) {
+    return this.settingsService.removeInstrumentSpec(
+      market,
+      rootSymbol,
+      req.user?.email,
+    );
+  }
 }
\ No newline at end of file
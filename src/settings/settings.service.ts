@@ -5,6 +5,12 @@ import { Setting, SettingDocument } from './settings.schema';
 import { CreateSettingDto } from './dto/create-setting.dto';
 import { UpdateSettingDto, UpdateSettingValueDto, BulkUpdateSettingsDto } from './dto/update-setting.dto';
 import { SettingCategory, SettingType } from './interfaces/setting.interface';
+import {
+  DEFAULT_INSTRUMENT_SPECS,
+  INSTRUMENT_SPECS_SETTING_KEY,
+  InstrumentSpec,
+} from './interfaces/instrument-spec.interface';
+import { UpsertInstrumentSpecDto } from './dto/instrument-spec.dto';
 import { CacheService } from '../cache/cache.service';
 
 @Injectable()
@@ -166,6 +172,32 @@ export class SettingsService {
         return savedSetting;
       }
 
+      // Check if it's the trading journal instrument specs setting
+      if (key === INSTRUMENT_SPECS_SETTING_KEY) {
+        const newSetting = new this.settingModel({
+          key: INSTRUMENT_SPECS_SETTING_KEY,
+          value: updateValueDto.value || DEFAULT_INSTRUMENT_SPECS,
+          type: 'json',
+          category: 'trading',
+          metadata: {
+            label: 'Trading Journal Instrument Specs',
+            description:
+              'Contract multipliers and tick values used for journal P&L and risk',
+            visible: false,
+            editable: true,
+            order: 3,
+          },
+          defaultValue: DEFAULT_INSTRUMENT_SPECS,
+          isActive: true,
+          lastModifiedBy: updateValueDto.lastModifiedBy,
+          lastModifiedAt: new Date(),
+        });
+
+        const savedSetting = await newSetting.save();
+        await this.invalidateCache(key);
+        return savedSetting;
+      }
+
       // For other settings, still throw error if not found
       throw new NotFoundException(`Setting with key "${key}" not found`);
     }
@@ -208,6 +240,60 @@ export class SettingsService {
     await this.invalidateCache(key);
   }
 
+  // Instrument specification registry (trading journal multipliers)
+  async getInstrumentSpecs(): Promise<InstrumentSpec[]> {
+    return this.getValue(
+      INSTRUMENT_SPECS_SETTING_KEY,
+      DEFAULT_INSTRUMENT_SPECS,
+    );
+  }
+
+  async upsertInstrumentSpec(
+    specDto: UpsertInstrumentSpecDto,
+    lastModifiedBy?: string,
+  ): Promise<InstrumentSpec[]> {
+    const specs = (await this.getInstrumentSpecs()).filter(
+      (spec) =>
+        !(
+          spec.market === specDto.market &&
+          spec.rootSymbol === specDto.rootSymbol
+        ),
+    );
+    specs.push({ ...specDto });
+
+    await this.updateValue(INSTRUMENT_SPECS_SETTING_KEY, {
+      value: specs,
+      lastModifiedBy,
+    });
+    return specs;
+  }
+
+  async removeInstrumentSpec(
+    market: string,
+    rootSymbol: string,
+    lastModifiedBy?: string,
+  ): Promise<InstrumentSpec[]> {
+    const specs = await this.getInstrumentSpecs();
+    const remaining = specs.filter(
+      (spec) =>
+        !(
+          spec.market === market && spec.rootSymbol === rootSymbol.toUpperCase()
+        ),
+    );
+
+    if (remaining.length === specs.length) {
+      throw new NotFoundException(
+        `Instrument spec "${rootSymbol}" not found for market "${market}"`,
+      );
+    }
+
+    await this.updateValue(INSTRUMENT_SPECS_SETTING_KEY, {
+      value: remaining,
+      lastModifiedBy,
+    });
+    return remaining;
+  }
+
   async getPublicSettings(): Promise<Record<string, any>> {
     const settings = await this.settingModel.find({
       isActive: true,
@@ -420,6 +506,21 @@ export class SettingsService {
           order: 1,
         },
       },
+      {
+        key: INSTRUMENT_SPECS_SETTING_KEY,
+        value: DEFAULT_INSTRUMENT_SPECS,
+        type: SettingType.JSON,
+        category: SettingCategory.TRADING,
+        metadata: {
+          label: 'Trading Journal Instrument Specs',
+          description:
+            'Contract multipliers and tick values used for journal P&L and risk',
+          visible: false,
+          editable: true,
+          order: 3,
+        },
+        defaultValue: DEFAULT_INSTRUMENT_SPECS,
+      },
       // Branding
       {
         key: 'company_name',
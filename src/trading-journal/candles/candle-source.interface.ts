@@ -0,0 +1,36 @@
+import { MarketType } from '../schemas/trade.schema';
+
+// Injection token of the CandleSource used for excursion enrichment
+export const CANDLE_SOURCE = 'TRADING_JOURNAL_CANDLE_SOURCE';
+
+export interface Candle {
+  // Start of the bar
+  time: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+/**
+ * Minutes per bar ('1', '5', '15', '30', '60') or 'D' for daily bars,
+ * matching Finnhub's resolutions
+ */
+export type CandleResolution = '1' | '5' | '15' | '30' | '60' | 'D';
+
+/**
+ * Historical intraday prices for a symbol. Implementations return the bars
+ * overlapping [from, to] in ascending time order, or an empty array when no
+ * data is available.
+ */
+export interface CandleSource {
+  readonly name: string;
+  supports(market: MarketType): boolean;
+  getCandles(
+    symbol: string,
+    resolution: CandleResolution,
+    from: Date,
+    to: Date,
+  ): Promise<Candle[]>;
+}
@@ -0,0 +1,47 @@
+import { FinnhubService } from '../../services/finnhub/finnhub.service';
+import { MarketType } from '../schemas/trade.schema';
+import {
+  Candle,
+  CandleResolution,
+  CandleSource,
+} from './candle-source.interface';
+
+/**
+ * Stock candles from Finnhub's /stock/candle endpoint
+ */
+export class FinnhubCandleSource implements CandleSource {
+  readonly name = 'finnhub';
+
+  constructor(private readonly finnhubService: FinnhubService) {}
+
+  supports(market: MarketType): boolean {
+    return market === MarketType.STOCKS;
+  }
+
+  async getCandles(
+    symbol: string,
+    resolution: CandleResolution,
+    from: Date,
+    to: Date,
+  ): Promise<Candle[]> {
+    const data = await this.finnhubService.getStockCandles(
+      symbol.toUpperCase(),
+      resolution,
+      Math.floor(from.getTime() / 1000),
+      Math.ceil(to.getTime() / 1000),
+    );
+
+    if (!data || data.s !== 'ok' || !Array.isArray(data.t)) {
+      return [];
+    }
+
+    return data.t.map((timestamp: number, index: number) => ({
+      time: new Date(timestamp * 1000),
+      open: data.o[index],
+      high: data.h[index],
+      low: data.l[index],
+      close: data.c[index],
+      volume: data.v?.[index],
+    }));
+  }
+}
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Candle,
+  CandleResolution,
+  CandleSource,
+} from './candle-source.interface';
+
+interface FixtureCandle {
+  time: string | number | Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+/**
+ * Candles served from memory or from `<SYMBOL>.json` files in a directory
+ * (an array of {time, open, high, low, close}). Used in tests and local
+ * development instead of a market data API; the resolution is ignored.
+ */
+export class FixtureCandleSource implements CandleSource {
+  readonly name = 'fixture';
+
+  private readonly candles = new Map<string, Candle[]>();
+
+  constructor(
+    fixtures: Record<string, FixtureCandle[]> = {},
+    private readonly directory?: string,
+  ) {
+    Object.entries(fixtures).forEach(([symbol, candles]) =>
+      this.setCandles(symbol, candles),
+    );
+  }
+
+  supports(): boolean {
+    return true;
+  }
+
+  setCandles(symbol: string, candles: FixtureCandle[]): void {
+    this.candles.set(
+      symbol.toUpperCase(),
+      candles
+        .map((candle) => ({ ...candle, time: new Date(candle.time) }))
+        .sort((a, b) => a.time.getTime() - b.time.getTime()),
+    );
+  }
+
+  async getCandles(
+    symbol: string,
+    _resolution: CandleResolution,
+    from: Date,
+    to: Date,
+  ): Promise<Candle[]> {
+    const key = symbol.toUpperCase();
+    if (!this.candles.has(key) && this.directory) {
+      this.loadFile(key);
+    }
+
+    return (this.candles.get(key) || []).filter(
+      (candle) =>
+        candle.time.getTime() >= from.getTime() &&
+        candle.time.getTime() <= to.getTime(),
+    );
+  }
+
+  private loadFile(symbol: string): void {
+    const file = path.join(this.directory, `${symbol}.json`);
+    if (fs.existsSync(file)) {
+      this.setCandles(symbol, JSON.parse(fs.readFileSync(file, 'utf8')));
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { FilterTradesDto } from './filter-trades.dto';
+import { AnalyticsPeriod } from '../utils/performance-metrics';
+
+export class AdvancedAnalyticsDto extends FilterTradesDto {
+  @ApiPropertyOptional({
+    description: 'Grouping for the per-period breakdown',
+    enum: ['week', 'month'],
+    default: 'month',
+  })
+  @IsOptional()
+  @IsIn(['week', 'month'])
+  period?: AnalyticsPeriod = 'month';
+}
@@ -6,18 +6,48 @@ import {
   IsString,
   IsOptional,
   IsBoolean,
+  IsArray,
   Min,
+  ValidateIf,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { ExitReason, EmotionType } from '../schemas/trade.schema';
+import { LegExitDto } from './option-leg.dto';
 
 export class CloseTradeDto {
-  @ApiProperty({ description: 'Exit price of the trade', example: 178.50 })
+  @ApiProperty({
+    description: 'Exit price of the trade. Not used for multi-leg strategies.',
+    example: 178.5,
+  })
+  @ValidateIf((o) => !o.legExits?.length)
   @IsNotEmpty()
   @IsNumber()
   @Min(0)
   exitPrice: number;
 
+  @ApiProperty({
+    description:
+      'Quantity to close. Omit to close the whole remaining position.',
+    example: 50,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  quantity?: number;
+
+  @ApiProperty({
+    description: 'Commission and fees paid on this exit',
+    example: 1.5,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fees?: number;
+
   @ApiProperty({ description: 'Exit time', example: '2025-11-10T14:30:00Z' })
   @IsNotEmpty()
   @IsDateString()
@@ -62,6 +92,17 @@ export class CloseTradeDto {
   @Min(0)
   underlyingPriceAtExit?: number;
 
+  @ApiProperty({
+    description: 'Exit premium of every leg when closing a multi-leg strategy',
+    type: [LegExitDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LegExitDto)
+  legExits?: LegExitDto[];
+
   // Self-reflection
   @ApiProperty({
     description: 'What the trader learned from this trade',
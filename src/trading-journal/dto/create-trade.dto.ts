@@ -10,10 +10,20 @@ import {
   IsBoolean,
   MaxLength,
   IsMongoId,
+  ValidateIf,
+  ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { MarketType, TradeDirection, EmotionType, OptionType } from '../schemas/trade.schema';
+import {
+  MarketType,
+  TradeDirection,
+  EmotionType,
+  OptionType,
+  OptionsStrategyType,
+} from '../schemas/trade.schema';
+import { TradeExecutionDto } from './trade-execution.dto';
+import { OptionLegDto } from './option-leg.dto';
 
 export class CreateTradeDto {
   @ApiProperty({ description: 'Date of the trade' })
@@ -29,23 +39,42 @@ export class CreateTradeDto {
   @IsEnum(MarketType)
   market: MarketType;
 
-  // Entry Details
+  // Entry Details (derived from executions when those are provided)
   @ApiProperty({ description: 'Entry time' })
+  @ValidateIf((o) => !o.executions?.length)
   @IsDate()
   @Type(() => Date)
   entryTime: Date;
 
   @ApiProperty({ description: 'Entry price', example: 150.50 })
+  @ValidateIf((o) => !o.executions?.length && !o.legs?.length)
   @IsNumber()
   @Min(0)
   entryPrice: number;
 
   @ApiProperty({ description: 'Position size (number of shares/contracts)', example: 100 })
+  @ValidateIf((o) => !o.executions?.length)
   @IsNumber()
   @Min(0)
   positionSize: number;
 
-  @ApiProperty({ enum: TradeDirection, description: 'Trade direction (for options: long=Buy to Open, short=Sell to Open)' })
+  @ApiPropertyOptional({
+    description:
+      'Ordered fills for scale-ins and partial exits. When set, entry/exit price, size and commission are calculated from them.',
+    type: [TradeExecutionDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TradeExecutionDto)
+  executions?: TradeExecutionDto[];
+
+  @ApiProperty({
+    enum: TradeDirection,
+    description:
+      'Trade direction (for options: long=Buy to Open, short=Sell to Open). Derived from the net premium for multi-leg strategies.',
+  })
+  @ValidateIf((o) => !o.legs?.length)
   @IsEnum(TradeDirection)
   direction: TradeDirection;
 
@@ -67,6 +96,44 @@ export class CreateTradeDto {
   @Type(() => Date)
   expirationDate?: Date;
 
+  @ApiPropertyOptional({
+    description:
+      'Underlying price at entry, for entry Greeks and implied volatility (options)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  underlyingPriceAtEntry?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Underlying price at exit, for exit Greeks and implied volatility (options)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  underlyingPriceAtExit?: number;
+
+  // Multi-leg options strategies
+  @ApiPropertyOptional({
+    enum: OptionsStrategyType,
+    description: 'Strategy type. Detected from the legs when omitted.',
+  })
+  @IsOptional()
+  @IsEnum(OptionsStrategyType)
+  strategyType?: OptionsStrategyType;
+
+  @ApiPropertyOptional({
+    description:
+      'Legs of a multi-leg options strategy. When set, positionSize is the number of strategy units and prices are the net premium per share.',
+    type: [OptionLegDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => OptionLegDto)
+  legs?: OptionLegDto[];
+
   // Exit Details (optional for open trades)
   @ApiPropertyOptional({ description: 'Exit time' })
   @IsOptional()
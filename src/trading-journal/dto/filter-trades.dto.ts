@@ -16,7 +16,9 @@ import { MarketType, TradeDirection } from '../schemas/trade.schema';
 export enum TimeFilter {
   TODAY = 'today',
   YESTERDAY = 'yesterday',
+  // Last 5 trading days
   WEEK = 'week',
+  // Last 21 trading days
   MONTH = 'month',
   QUARTER = 'quarter',
   YEAR = 'year',
@@ -0,0 +1,25 @@
+import { IsIn, IsOptional, IsTimeZone } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { FilterTradesDto } from './filter-trades.dto';
+
+export class HeatmapFiltersDto extends FilterTradesDto {
+  @ApiPropertyOptional({
+    description: 'IANA timezone used to bucket entry times',
+    example: 'America/New_York',
+    default: 'America/New_York',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Size of the time-of-day buckets in minutes',
+    enum: [15, 30, 60],
+    default: 60,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn([15, 30, 60])
+  bucketMinutes?: number;
+}
@@ -0,0 +1,61 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsJSON,
+  IsOptional,
+  IsTimeZone,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketType } from '../schemas/trade.schema';
+
+export enum ImportFormat {
+  GENERIC_CSV = 'generic_csv',
+  OFX = 'ofx',
+  IBKR_FLEX = 'ibkr_flex',
+  THINKORSWIM = 'thinkorswim',
+  WEBULL = 'webull',
+}
+
+export class ImportTradesDto {
+  @ApiProperty({ enum: ImportFormat, description: 'Broker statement format' })
+  @IsEnum(ImportFormat)
+  format: ImportFormat;
+
+  @ApiPropertyOptional({
+    description:
+      'JSON mapping of fields to CSV headers (generic CSV only). Fields: symbol, side, quantity, price, time, date, fees, market',
+    example:
+      '{"symbol":"Symbol","side":"Action","quantity":"Qty","price":"Price","time":"Time","fees":"Commission"}',
+  })
+  @IsOptional()
+  @IsJSON()
+  columnMapping?: string;
+
+  @ApiPropertyOptional({
+    description: 'Preview the import without saving any trades',
+    default: false,
+  })
+  @IsOptional()
+  // Multipart fields arrive as strings, so "false" must not become true
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Timezone for statement times without an explicit offset',
+    default: 'America/New_York',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    enum: MarketType,
+    description: 'Market for rows that do not identify one',
+    default: MarketType.STOCKS,
+  })
+  @IsOptional()
+  @IsEnum(MarketType)
+  defaultMarket?: MarketType;
+}
@@ -0,0 +1,115 @@
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CreateFeedbackDto } from './create-feedback.dto';
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class JournalDayAttachmentDto {
+  @ApiProperty({ description: 'Attachment URL' })
+  @IsUrl()
+  url: string;
+
+  @ApiPropertyOptional({ description: 'File name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'MIME type', example: 'image/png' })
+  @IsOptional()
+  @IsString()
+  mimeType?: string;
+}
+
+export class UpsertJournalDayDto {
+  @ApiPropertyOptional({ description: 'Pre-market game plan', maxLength: 5000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  preMarketPlan?: string;
+
+  @ApiPropertyOptional({ description: 'Market conditions', maxLength: 2000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  marketConditions?: string;
+
+  @ApiPropertyOptional({
+    description: 'Watchlist symbols',
+    type: [String],
+    example: ['AAPL', 'NVDA'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Transform(({ value }) =>
+    Array.isArray(value)
+      ? value.map((symbol) =>
+          typeof symbol === 'string' ? symbol.trim().toUpperCase() : symbol,
+        )
+      : value,
+  )
+  watchlist?: string[];
+
+  @ApiPropertyOptional({ description: 'End-of-day review', maxLength: 5000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  endOfDayReview?: string;
+
+  @ApiPropertyOptional({ description: 'Lessons learned', maxLength: 2000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  lessonsLearned?: string;
+
+  @ApiPropertyOptional({ description: 'Day rating', minimum: 1, maximum: 5 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  dayRating?: number;
+
+  @ApiPropertyOptional({ description: 'Mood score', minimum: 1, maximum: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  moodScore?: number;
+
+  @ApiPropertyOptional({ type: [JournalDayAttachmentDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => JournalDayAttachmentDto)
+  attachments?: JournalDayAttachmentDto[];
+}
+
+export class FilterJournalDaysDto {
+  @ApiPropertyOptional({ description: 'First day (YYYY-MM-DD)' })
+  @IsOptional()
+  @Matches(DAY, { message: 'from must be YYYY-MM-DD' })
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Last day (YYYY-MM-DD)' })
+  @IsOptional()
+  @Matches(DAY, { message: 'to must be YYYY-MM-DD' })
+  to?: string;
+}
+
+export class CreateDayFeedbackDto extends OmitType(CreateFeedbackDto, [
+  'tradeId',
+  'studentId',
+] as const) {}
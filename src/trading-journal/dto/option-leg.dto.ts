@@ -0,0 +1,67 @@
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExecutionSide, OptionType } from '../schemas/trade.schema';
+
+export class OptionLegDto {
+  @ApiProperty({ enum: OptionType, description: 'Option type (CALL or PUT)' })
+  @IsEnum(OptionType)
+  optionType: OptionType;
+
+  @ApiProperty({
+    enum: ExecutionSide,
+    description: 'buy = long the leg, sell = short the leg',
+  })
+  @IsEnum(ExecutionSide)
+  side: ExecutionSide;
+
+  @ApiProperty({ description: 'Strike price', example: 180 })
+  @IsNumber()
+  @Min(0)
+  strikePrice: number;
+
+  @ApiProperty({ description: 'Expiration date' })
+  @IsDate()
+  @Type(() => Date)
+  expirationDate: Date;
+
+  @ApiPropertyOptional({
+    description: 'Contracts of this leg per strategy unit',
+    default: 1,
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  ratio?: number;
+
+  @ApiProperty({ description: 'Premium per share at entry', example: 2.35 })
+  @IsNumber()
+  @Min(0)
+  entryPremium: number;
+
+  @ApiPropertyOptional({ description: 'Premium per share at exit' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  exitPremium?: number;
+}
+
+export class LegExitDto {
+  @ApiProperty({ description: 'Leg ID' })
+  @IsMongoId()
+  legId: string;
+
+  @ApiProperty({ description: 'Premium per share at exit', example: 0.45 })
+  @IsNumber()
+  @Min(0)
+  exitPremium: number;
+}
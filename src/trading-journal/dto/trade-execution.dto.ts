@@ -0,0 +1,51 @@
+import {
+  IsDate,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExecutionSide } from '../schemas/trade.schema';
+
+export class TradeExecutionDto {
+  @ApiProperty({ enum: ExecutionSide, description: 'Buy or sell' })
+  @IsEnum(ExecutionSide)
+  side: ExecutionSide;
+
+  @ApiProperty({
+    description: 'Filled quantity (shares/contracts)',
+    example: 50,
+  })
+  @IsNumber()
+  @Min(0)
+  quantity: number;
+
+  @ApiProperty({ description: 'Fill price', example: 150.25 })
+  @IsNumber()
+  @Min(0)
+  price: number;
+
+  @ApiProperty({ description: 'Fill time' })
+  @IsDate()
+  @Type(() => Date)
+  time: Date;
+
+  @ApiPropertyOptional({
+    description: 'Commission and fees for this fill',
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fees?: number;
+
+  @ApiPropertyOptional({ description: 'Note about this fill', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
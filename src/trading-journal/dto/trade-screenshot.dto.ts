@@ -0,0 +1,106 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ChartAnnotationType } from '../schemas/trade.schema';
+
+export class RequestScreenshotUploadDto {
+  @ApiProperty({ description: 'Original file name', example: 'aapl-5m.png' })
+  @IsString()
+  @MaxLength(255)
+  fileName: string;
+
+  @ApiProperty({ description: 'MIME type', example: 'image/png' })
+  @IsString()
+  contentType: string;
+
+  @ApiProperty({ description: 'File size in bytes', example: 245760 })
+  @IsInt()
+  @Min(1)
+  size: number;
+}
+
+export class AnnotationPointDto {
+  @ApiProperty({ description: 'Horizontal position (0-1)', example: 0.42 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  x: number;
+
+  @ApiProperty({ description: 'Vertical position (0-1)', example: 0.3 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  y: number;
+}
+
+export class ChartAnnotationDto {
+  @ApiProperty({ enum: ChartAnnotationType })
+  @IsEnum(ChartAnnotationType)
+  type: ChartAnnotationType;
+
+  @ApiProperty({
+    type: [AnnotationPointDto],
+    description: 'Points relative to the image size',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => AnnotationPointDto)
+  points: AnnotationPointDto[];
+
+  @ApiPropertyOptional({ description: 'Label', maxLength: 200 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  text?: string;
+
+  @ApiPropertyOptional({ description: 'Color', example: '#16a34a' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  color?: string;
+
+  @ApiPropertyOptional({ description: 'Price the marker refers to' })
+  @IsOptional()
+  @IsNumber()
+  price?: number;
+}
+
+export class UpdateScreenshotDto {
+  @ApiPropertyOptional({ description: 'Caption', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  caption?: string;
+
+  @ApiPropertyOptional({
+    type: [ChartAnnotationDto],
+    description: 'Annotation layer; replaces the existing one',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => ChartAnnotationDto)
+  annotations?: ChartAnnotationDto[];
+}
+
+export class AttachScreenshotDto extends UpdateScreenshotDto {
+  @ApiProperty({ description: 'S3 key returned by the upload URL request' })
+  @IsString()
+  key: string;
+}
@@ -0,0 +1,127 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketType } from '../schemas/trade.schema';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class TradingPlanRulesDto {
+  @ApiPropertyOptional({ description: 'Maximum trades per day', example: 3 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxTradesPerDay?: number;
+
+  @ApiPropertyOptional({
+    description: 'Stop trading once the day is down this amount',
+    example: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDailyLoss?: number;
+
+  @ApiPropertyOptional({ description: 'Daily profit goal', example: 300 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  dailyProfitTarget?: number;
+
+  @ApiPropertyOptional({
+    description: 'No new trades before this time (HH:mm)',
+    example: '09:45',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'noTradingBefore must be HH:mm' })
+  noTradingBefore?: string;
+
+  @ApiPropertyOptional({
+    description: 'No new trades from this time (HH:mm)',
+    example: '15:30',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'noTradingAfter must be HH:mm' })
+  noTradingAfter?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only these setups may be traded',
+    type: [String],
+    example: ['A+ breakout'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedSetups?: string[];
+
+  @ApiPropertyOptional({ description: 'Minimum confidence (1-10)', example: 7 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(10)
+  minConfidence?: number;
+
+  @ApiPropertyOptional({ description: 'Every trade needs a stop loss' })
+  @IsOptional()
+  @IsBoolean()
+  requireStopLoss?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Maximum risk amount per trade',
+    example: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxRiskPerTrade?: number;
+
+  @ApiPropertyOptional({
+    description: 'Markets the plan allows',
+    enum: MarketType,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(MarketType, { each: true })
+  allowedMarkets?: MarketType[];
+}
+
+export class UpsertTradingPlanDto {
+  @ApiPropertyOptional({ type: TradingPlanRulesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TradingPlanRulesDto)
+  rules?: TradingPlanRulesDto;
+
+  @ApiPropertyOptional({
+    description: 'Timezone for the trading window and daily limits',
+    example: 'America/New_York',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Mission whose goals fill in unset rules (defaults to the active mission)',
+  })
+  @IsOptional()
+  @IsString()
+  missionId?: string;
+
+  @ApiPropertyOptional({ description: 'Enable or pause rule checks' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
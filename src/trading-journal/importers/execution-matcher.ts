@@ -0,0 +1,173 @@
+import { ExecutionSide, TradeDirection } from '../schemas/trade.schema';
+import { ImportedTrade, ParsedExecution } from './import.types';
+
+interface Fill {
+  side: ExecutionSide;
+  quantity: number;
+  price: number;
+  time: Date;
+  fees: number;
+  rowNumber: number;
+}
+
+interface OpenPosition {
+  template: ParsedExecution;
+  side: ExecutionSide;
+  entries: Fill[];
+  exits: Fill[];
+  openQuantity: number;
+}
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const totalQuantity = (fills: Fill[]) =>
+  fills.reduce((sum, fill) => sum + fill.quantity, 0);
+
+const averagePrice = (fills: Fill[]) =>
+  round(
+    fills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) /
+      totalQuantity(fills),
+  );
+
+const totalFees = (fills: Fill[]) =>
+  fills.reduce((sum, fill) => sum + fill.fees, 0);
+
+/**
+ * Instrument identity: options on the same underlying are only matched when
+ * strike, expiry and type agree.
+ */
+export function instrumentKey(execution: ParsedExecution): string {
+  return [
+    execution.market,
+    execution.symbol,
+    execution.optionType || '',
+    execution.strikePrice ?? '',
+    execution.expirationDate
+      ? execution.expirationDate.toISOString().slice(0, 10)
+      : '',
+  ].join('|');
+}
+
+/**
+ * Pair broker fills into round-trip trades. A trade opens when the position
+ * for an instrument leaves zero and closes when it returns to zero; a fill
+ * that flips the position closes the current trade and opens a new one with
+ * the remainder. Positions still open at the end of the statement become open
+ * trades that keep any partial exits among their executions.
+ */
+export function matchExecutions(
+  executions: ParsedExecution[],
+): ImportedTrade[] {
+  const byInstrument = new Map<string, ParsedExecution[]>();
+  for (const execution of executions) {
+    const key = instrumentKey(execution);
+    if (!byInstrument.has(key)) byInstrument.set(key, []);
+    byInstrument.get(key).push(execution);
+  }
+
+  const trades: ImportedTrade[] = [];
+
+  for (const fills of byInstrument.values()) {
+    fills.sort(
+      (a, b) =>
+        a.time.getTime() - b.time.getTime() || a.rowNumber - b.rowNumber,
+    );
+
+    let position: OpenPosition | null = null;
+
+    for (const execution of fills) {
+      const fill: Fill = {
+        side: execution.side,
+        quantity: execution.quantity,
+        price: execution.price,
+        time: execution.time,
+        fees: execution.fees,
+        rowNumber: execution.rowNumber,
+      };
+
+      if (!position) {
+        position = openPosition(execution, fill);
+        continue;
+      }
+
+      if (execution.side === position.side) {
+        position.entries.push(fill);
+        position.openQuantity += fill.quantity;
+        continue;
+      }
+
+      const closingQuantity = Math.min(fill.quantity, position.openQuantity);
+      const remainder = round(fill.quantity - closingQuantity);
+      position.exits.push({
+        ...fill,
+        quantity: closingQuantity,
+        fees: (fill.fees * closingQuantity) / fill.quantity,
+      });
+      position.openQuantity = round(position.openQuantity - closingQuantity);
+
+      if (position.openQuantity === 0) {
+        trades.push(toTrade(position));
+        position = null;
+
+        if (remainder > 0) {
+          position = openPosition(execution, {
+            ...fill,
+            quantity: remainder,
+            fees: (fill.fees * remainder) / fill.quantity,
+          });
+        }
+      }
+    }
+
+    if (position) {
+      trades.push(toTrade(position));
+    }
+  }
+
+  return trades.sort((a, b) => a.entryTime.getTime() - b.entryTime.getTime());
+}
+
+function openPosition(execution: ParsedExecution, fill: Fill): OpenPosition {
+  return {
+    template: execution,
+    side: execution.side,
+    entries: [fill],
+    exits: [],
+    openQuantity: fill.quantity,
+  };
+}
+
+function toTrade(position: OpenPosition): ImportedTrade {
+  const { template, entries, exits } = position;
+  const isOpen = position.openQuantity > 0;
+  const fills = [...entries, ...exits].sort(
+    (a, b) => a.time.getTime() - b.time.getTime() || a.rowNumber - b.rowNumber,
+  );
+
+  return {
+    symbol: template.symbol,
+    market: template.market,
+    direction:
+      position.side === ExecutionSide.BUY
+        ? TradeDirection.LONG
+        : TradeDirection.SHORT,
+    entryTime: entries[0].time,
+    entryPrice: averagePrice(entries),
+    positionSize: round(totalQuantity(entries)),
+    exitTime: isOpen ? undefined : exits[exits.length - 1].time,
+    exitPrice: exits.length > 0 ? averagePrice(exits) : undefined,
+    commission: round(totalFees(fills)),
+    isOpen,
+    optionType: template.optionType,
+    strikePrice: template.strikePrice,
+    expirationDate: template.expirationDate,
+    executions: fills.map((fill) => ({
+      side: fill.side,
+      quantity: round(fill.quantity),
+      price: fill.price,
+      time: fill.time,
+      fees: round(fill.fees),
+    })),
+    sourceRows: fills.map((fill) => fill.rowNumber),
+  };
+}
@@ -0,0 +1,169 @@
+import { ExecutionSide, MarketType } from '../schemas/trade.schema';
+import {
+  BrokerStatementParser,
+  ColumnMapping,
+  ParsedExecution,
+  ParseResult,
+  ParserOptions,
+} from './import.types';
+import {
+  isBlankRow,
+  parseBrokerDateTime,
+  parseCsv,
+  parseNumber,
+  parseOccSymbol,
+  parseSide,
+} from './import.utils';
+
+/**
+ * Parses any CSV of fills given a mapping from our fields to its header names
+ */
+export class GenericCsvParser implements BrokerStatementParser {
+  parse(content: string, options: ParserOptions): ParseResult {
+    const mapping = options.columnMapping;
+    const result: ParseResult = { executions: [], errors: [] };
+
+    if (!mapping) {
+      result.errors.push({
+        row: 0,
+        message: 'A column mapping is required for generic CSV imports',
+      });
+      return result;
+    }
+
+    const rows = parseCsv(content);
+    const headerIndex = rows.findIndex((row) => !isBlankRow(row));
+    if (headerIndex === -1) {
+      result.errors.push({ row: 0, message: 'File is empty' });
+      return result;
+    }
+
+    const headers = rows[headerIndex].map((header) =>
+      header.trim().toLowerCase(),
+    );
+    const columns: Partial<Record<keyof ColumnMapping, number>> = {};
+
+    for (const [field, header] of Object.entries(mapping)) {
+      if (!header) continue;
+      const index = headers.indexOf(String(header).trim().toLowerCase());
+      if (index === -1) {
+        result.errors.push({
+          row: headerIndex + 1,
+          message: `Mapped column "${header}" for "${field}" was not found in the header row`,
+        });
+        continue;
+      }
+      columns[field as keyof ColumnMapping] = index;
+    }
+
+    const required: (keyof ColumnMapping)[] = [
+      'symbol',
+      'quantity',
+      'price',
+      'time',
+    ];
+    if (required.some((field) => columns[field] === undefined)) {
+      return result;
+    }
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const row = rows[i];
+      const rowNumber = i + 1;
+      if (isBlankRow(row)) continue;
+
+      const execution = this.parseRow(row, rowNumber, columns, options);
+      if (typeof execution === 'string') {
+        result.errors.push({
+          row: rowNumber,
+          message: execution,
+          raw: row.join(','),
+        });
+      } else {
+        result.executions.push(execution);
+      }
+    }
+
+    return result;
+  }
+
+  private parseRow(
+    row: string[],
+    rowNumber: number,
+    columns: Partial<Record<keyof ColumnMapping, number>>,
+    options: ParserOptions,
+  ): ParsedExecution | string {
+    const cell = (field: keyof ColumnMapping) =>
+      columns[field] !== undefined ? (row[columns[field]] || '').trim() : '';
+
+    const rawSymbol = cell('symbol').toUpperCase();
+    if (!rawSymbol) {
+      return 'Missing symbol';
+    }
+
+    const signedQuantity = parseNumber(cell('quantity'));
+    if (isNaN(signedQuantity) || signedQuantity === 0) {
+      return `Invalid quantity "${cell('quantity')}"`;
+    }
+
+    const side =
+      columns.side !== undefined
+        ? parseSide(cell('side'))
+        : signedQuantity < 0
+          ? ExecutionSide.SELL
+          : ExecutionSide.BUY;
+    if (!side) {
+      return `Unrecognized side "${cell('side')}"`;
+    }
+
+    const price = parseNumber(cell('price'));
+    if (isNaN(price) || price < 0) {
+      return `Invalid price "${cell('price')}"`;
+    }
+
+    const rawTime =
+      columns.date !== undefined
+        ? `${cell('date')} ${cell('time')}`
+        : cell('time');
+    const time = parseBrokerDateTime(rawTime, options.timezone);
+    if (!time) {
+      return `Unrecognized date/time "${rawTime}"`;
+    }
+
+    const fees =
+      columns.fees !== undefined ? Math.abs(parseNumber(cell('fees')) || 0) : 0;
+
+    let market = options.defaultMarket;
+    if (columns.market !== undefined) {
+      const rawMarket = cell('market').toLowerCase();
+      if (
+        rawMarket &&
+        !Object.values(MarketType).includes(rawMarket as MarketType)
+      ) {
+        return `Unknown market "${cell('market')}"`;
+      }
+      market = (rawMarket as MarketType) || market;
+    }
+
+    const execution: ParsedExecution = {
+      rowNumber,
+      symbol: rawSymbol,
+      market,
+      side,
+      quantity: Math.abs(signedQuantity),
+      price,
+      time,
+      fees,
+    };
+
+    const occ = parseOccSymbol(rawSymbol);
+    if (occ) {
+      execution.symbol = occ.underlying;
+      execution.market = MarketType.OPTIONS;
+      execution.optionType = occ.optionType;
+      execution.strikePrice = occ.strikePrice;
+      execution.expirationDate = occ.expirationDate;
+    }
+
+    return execution;
+  }
+}
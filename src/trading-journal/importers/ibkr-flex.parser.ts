@@ -0,0 +1,150 @@
+import { ExecutionSide, MarketType, OptionType } from '../schemas/trade.schema';
+import {
+  BrokerStatementParser,
+  ParsedExecution,
+  ParseResult,
+  ParserOptions,
+} from './import.types';
+import { parseBrokerDateTime, parseNumber, parseSide } from './import.utils';
+
+const ASSET_CATEGORY_MARKETS: Record<string, MarketType> = {
+  STK: MarketType.STOCKS,
+  OPT: MarketType.OPTIONS,
+  FOP: MarketType.OPTIONS,
+  FUT: MarketType.FUTURES,
+  CASH: MarketType.FOREX,
+  CRYPTO: MarketType.CRYPTO,
+};
+
+/**
+ * Parses the <Trade> rows of an Interactive Brokers Flex Query (XML) report
+ */
+export class IbkrFlexParser implements BrokerStatementParser {
+  parse(content: string, options: ParserOptions): ParseResult {
+    const result: ParseResult = { executions: [], errors: [] };
+
+    if (!/<FlexQueryResponse|<FlexStatement/i.test(content)) {
+      result.errors.push({
+        row: 0,
+        message: 'Not an Interactive Brokers Flex Query XML report',
+      });
+      return result;
+    }
+
+    const tradePattern = /<Trade\s([^>]*?)\/?>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tradePattern.exec(content)) !== null) {
+      const rowNumber = content.slice(0, match.index).split('\n').length;
+      const attributes = this.parseAttributes(match[1]);
+
+      // Summary rows (ORDER / CLOSED_LOT) duplicate the underlying executions
+      const levelOfDetail = (
+        attributes.levelOfDetail || 'EXECUTION'
+      ).toUpperCase();
+      if (levelOfDetail !== 'EXECUTION') {
+        continue;
+      }
+
+      const execution = this.toExecution(attributes, rowNumber, options);
+      if (typeof execution === 'string') {
+        result.errors.push({
+          row: rowNumber,
+          message: execution,
+          raw: match[0],
+        });
+      } else {
+        result.executions.push(execution);
+      }
+    }
+
+    if (result.executions.length === 0 && result.errors.length === 0) {
+      result.errors.push({
+        row: 0,
+        message: 'Flex report contains no <Trade> executions',
+      });
+    }
+
+    return result;
+  }
+
+  private toExecution(
+    attributes: Record<string, string>,
+    rowNumber: number,
+    options: ParserOptions,
+  ): ParsedExecution | string {
+    const market =
+      ASSET_CATEGORY_MARKETS[(attributes.assetCategory || '').toUpperCase()];
+    if (!market) {
+      return `Unsupported asset category "${attributes.assetCategory}"`;
+    }
+
+    const signedQuantity = parseNumber(attributes.quantity);
+    const side =
+      parseSide(attributes.buySell) ||
+      (signedQuantity < 0 ? ExecutionSide.SELL : ExecutionSide.BUY);
+    const price = parseNumber(attributes.tradePrice);
+
+    if (isNaN(signedQuantity) || signedQuantity === 0 || isNaN(price)) {
+      return 'Missing or invalid quantity or tradePrice';
+    }
+
+    const rawTime =
+      attributes.dateTime ||
+      [attributes.tradeDate, attributes.tradeTime].filter(Boolean).join(';');
+    const time = parseBrokerDateTime(rawTime, options.timezone);
+    if (!time) {
+      return `Unrecognized dateTime "${rawTime}"`;
+    }
+
+    const execution: ParsedExecution = {
+      rowNumber,
+      symbol: (attributes.underlyingSymbol && market === MarketType.OPTIONS
+        ? attributes.underlyingSymbol
+        : attributes.symbol || ''
+      ).toUpperCase(),
+      market,
+      side,
+      quantity: Math.abs(signedQuantity),
+      price,
+      time,
+      // IBKR reports commissions as negative cash flows
+      fees: Math.abs(parseNumber(attributes.ibCommission) || 0),
+    };
+
+    if (!execution.symbol) {
+      return 'Missing symbol';
+    }
+
+    if (market === MarketType.OPTIONS) {
+      execution.optionType = attributes.putCall?.toUpperCase().startsWith('P')
+        ? OptionType.PUT
+        : OptionType.CALL;
+      execution.strikePrice = parseNumber(attributes.strike);
+      const expiry = attributes.expiry
+        ? parseBrokerDateTime(attributes.expiry, 'UTC')
+        : null;
+      if (expiry) {
+        execution.expirationDate = expiry;
+      }
+    }
+
+    return execution;
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([A-Za-z_][\w.-]*)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = attributePattern.exec(source)) !== null) {
+      attributes[match[1]] = match[2]
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"');
+    }
+
+    return attributes;
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  ExecutionSide,
+  MarketType,
+  OptionType,
+  TradeDirection,
+} from '../schemas/trade.schema';
+
+/**
+ * A single fill read from a broker statement, before it is paired into a trade
+ */
+export interface ParsedExecution {
+  rowNumber: number;
+  symbol: string;
+  market: MarketType;
+  side: ExecutionSide;
+  quantity: number;
+  price: number;
+  time: Date;
+  fees: number;
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: Date;
+}
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+  raw?: string;
+}
+
+export interface ParseResult {
+  executions: ParsedExecution[];
+  errors: ImportRowError[];
+}
+
+/**
+ * Maps our execution fields to the header names of a generic CSV export.
+ * `side` may be omitted when the quantity column is signed (negative = sell).
+ */
+export interface ColumnMapping {
+  symbol: string;
+  side?: string;
+  quantity: string;
+  price: string;
+  time: string;
+  date?: string;
+  fees?: string;
+  market?: string;
+}
+
+export interface ParserOptions {
+  timezone: string;
+  defaultMarket: MarketType;
+  columnMapping?: ColumnMapping;
+}
+
+export interface BrokerStatementParser {
+  parse(content: string, options: ParserOptions): ParseResult;
+}
+
+/**
+ * A round-trip trade assembled from one or more executions
+ */
+export interface ImportedTrade {
+  symbol: string;
+  market: MarketType;
+  direction: TradeDirection;
+  entryTime: Date;
+  entryPrice: number;
+  positionSize: number;
+  exitTime?: Date;
+  exitPrice?: number;
+  commission: number;
+  isOpen: boolean;
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: Date;
+  executions: {
+    side: ExecutionSide;
+    quantity: number;
+    price: number;
+    time: Date;
+    fees: number;
+  }[];
+  sourceRows: number[];
+}
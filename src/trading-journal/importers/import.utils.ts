@@ -0,0 +1,269 @@
+import { ExecutionSide, OptionType } from '../schemas/trade.schema';
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells, escaped quotes
+ * and CRLF line endings.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export function isBlankRow(row: string[]): boolean {
+  return row.every((cell) => cell.trim() === '');
+}
+
+/**
+ * Parse broker formatted numbers: "$1,234.50", "(12.00)", "@3.25", "-100"
+ */
+export function parseNumber(value: string | number | undefined): number {
+  if (value === undefined || value === null) {
+    return NaN;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  let cleaned = value.trim().replace(/[$,@\s]/g, '');
+  if (cleaned === '') {
+    return NaN;
+  }
+
+  let negative = false;
+  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  const parsed = Number(cleaned);
+  return negative ? -parsed : parsed;
+}
+
+export function parseSide(value: string | undefined): ExecutionSide | null {
+  const normalized = (value || '').trim().toLowerCase();
+  if (
+    /^(b|buy|bot|bought|long|buy to open|buy to close|bto|btc)$/.test(
+      normalized,
+    )
+  ) {
+    return ExecutionSide.BUY;
+  }
+  if (
+    /^(s|sell|sld|sold|short|sell short|sell to open|sell to close|sto|stc|ss)$/.test(
+      normalized,
+    )
+  ) {
+    return ExecutionSide.SELL;
+  }
+  return null;
+}
+
+/**
+ * Offset in milliseconds between UTC and the given IANA zone at an instant
+ */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in the given zone to a UTC Date
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  let utc = wallClock - getZoneOffset(wallClock, timeZone);
+  // Second pass settles times that sit next to a DST transition
+  utc = wallClock - getZoneOffset(utc, timeZone);
+  return new Date(utc);
+}
+
+function normalizeYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function to24Hour(hour: number, meridiem?: string): number {
+  if (!meridiem) {
+    return hour;
+  }
+  const isPm = meridiem.toUpperCase() === 'PM';
+  if (hour === 12) {
+    return isPm ? 12 : 0;
+  }
+  return isPm ? hour + 12 : hour;
+}
+
+/**
+ * Parse the date/time layouts used by broker exports. Values without an
+ * explicit offset are interpreted in `timeZone`.
+ *
+ * Supported: ISO 8601, "MM/DD/YYYY HH:mm[:ss] [AM|PM] [TZ]",
+ * "YYYY-MM-DD HH:mm[:ss]", "YYYYMMDD;HHmmss" (IBKR) and
+ * "YYYYMMDD[HHmmss]" (OFX, handled separately for its bracketed offset).
+ */
+export function parseBrokerDateTime(
+  value: string,
+  timeZone: string,
+): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+
+  // ISO with explicit offset or Z
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Drop trailing zone abbreviations (EST, EDT, ET); the timezone option wins
+  const withoutZone = trimmed.replace(/\s+(?!AM$|PM$)[A-Z]{2,4}$/, '');
+
+  let match = withoutZone.match(
+    /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:[\s,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM|am|pm)?)?$/,
+  );
+  if (match) {
+    return zonedTimeToUtc(
+      normalizeYear(Number(match[3])),
+      Number(match[1]),
+      Number(match[2]),
+      to24Hour(Number(match[4] || 0), match[7]),
+      Number(match[5] || 0),
+      Number(match[6] || 0),
+      timeZone,
+    );
+  }
+
+  match = withoutZone.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T\s;,]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/,
+  );
+  if (match) {
+    return zonedTimeToUtc(
+      Number(match[1]),
+      Number(match[2]),
+      Number(match[3]),
+      Number(match[4] || 0),
+      Number(match[5] || 0),
+      Number(match[6] || 0),
+      timeZone,
+    );
+  }
+
+  match = withoutZone.match(
+    /^(\d{4})(\d{2})(\d{2})(?:[;\s,]+(\d{2}):?(\d{2}):?(\d{2}))?$/,
+  );
+  if (match) {
+    return zonedTimeToUtc(
+      Number(match[1]),
+      Number(match[2]),
+      Number(match[3]),
+      Number(match[4] || 0),
+      Number(match[5] || 0),
+      Number(match[6] || 0),
+      timeZone,
+    );
+  }
+
+  return null;
+}
+
+export interface OccSymbol {
+  underlying: string;
+  expirationDate: Date;
+  optionType: OptionType;
+  strikePrice: number;
+}
+
+/**
+ * Parse an OCC option symbol such as "AAPL250117C00150000"
+ */
+export function parseOccSymbol(symbol: string): OccSymbol | null {
+  const match = (symbol || '')
+    .replace(/\s+/g, '')
+    .match(/^([A-Z.]{1,6})(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    underlying: match[1],
+    expirationDate: new Date(
+      Date.UTC(2000 + Number(match[2]), Number(match[3]) - 1, Number(match[4])),
+    ),
+    optionType: match[5] === 'C' ? OptionType.CALL : OptionType.PUT,
+    strikePrice: Number(match[6]) / 1000,
+  };
+}
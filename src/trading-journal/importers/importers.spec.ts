@@ -0,0 +1,265 @@
+import {
+  ExecutionSide,
+  MarketType,
+  OptionType,
+  TradeDirection,
+} from '../schemas/trade.schema';
+import { GenericCsvParser } from './generic-csv.parser';
+import { IbkrFlexParser } from './ibkr-flex.parser';
+import { OfxParser } from './ofx.parser';
+import { ThinkorswimParser } from './thinkorswim.parser';
+import { WebullParser } from './webull.parser';
+import { matchExecutions } from './execution-matcher';
+import { parseBrokerDateTime, parseCsv, parseOccSymbol } from './import.utils';
+import { ParserOptions } from './import.types';
+
+const options: ParserOptions = {
+  timezone: 'America/New_York',
+  defaultMarket: MarketType.STOCKS,
+};
+
+describe('broker statement importers', () => {
+  describe('import utils', () => {
+    it('parses quoted CSV cells', () => {
+      expect(parseCsv('a,"b,c","d ""e"""\r\n1,2,3')).toEqual([
+        ['a', 'b,c', 'd "e"'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('interprets local times in the given timezone', () => {
+      expect(
+        parseBrokerDateTime(
+          '01/15/2025 09:30:00',
+          'America/New_York',
+        ).toISOString(),
+      ).toBe('2025-01-15T14:30:00.000Z');
+      expect(
+        parseBrokerDateTime(
+          '07/15/2025 01:05 PM EDT',
+          'America/New_York',
+        ).toISOString(),
+      ).toBe('2025-07-15T17:05:00.000Z');
+      expect(
+        parseBrokerDateTime(
+          '20250115;093000',
+          'America/New_York',
+        ).toISOString(),
+      ).toBe('2025-01-15T14:30:00.000Z');
+    });
+
+    it('parses OCC option symbols', () => {
+      expect(parseOccSymbol('SPY250117P00475500')).toEqual({
+        underlying: 'SPY',
+        expirationDate: new Date(Date.UTC(2025, 0, 17)),
+        optionType: OptionType.PUT,
+        strikePrice: 475.5,
+      });
+    });
+  });
+
+  describe('GenericCsvParser', () => {
+    it('maps columns and reports bad rows', () => {
+      const csv = [
+        'Ticker,Action,Shares,Fill,When,Comm',
+        'AAPL,BUY,100,150.00,2025-01-15 09:35:00,1.00',
+        'AAPL,SELL,100,152.50,2025-01-15 10:05:00,1.00',
+        'MSFT,HOLD,10,400,2025-01-15 10:10:00,0',
+      ].join('\n');
+
+      const result = new GenericCsvParser().parse(csv, {
+        ...options,
+        columnMapping: {
+          symbol: 'Ticker',
+          side: 'Action',
+          quantity: 'Shares',
+          price: 'Fill',
+          time: 'When',
+          fees: 'Comm',
+        },
+      });
+
+      expect(result.executions).toHaveLength(2);
+      expect(result.executions[0]).toMatchObject({
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 100,
+        fees: 1,
+      });
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          row: 4,
+          message: 'Unrecognized side "HOLD"',
+        }),
+      ]);
+    });
+  });
+
+  describe('ThinkorswimParser', () => {
+    it('reads the trade history section including option legs', () => {
+      const csv = [
+        'Account Statement for 123',
+        '',
+        'Account Trade History',
+        ',Exec Time,Spread,Side,Qty,Pos Effect,Symbol,Exp,Strike,Type,Price,Net Price,Order Type',
+        ',1/15/25 09:35:12,SINGLE,BUY,+2,TO OPEN,SPY,17 JAN 25,475,CALL,3.20,3.20,LMT',
+        ',1/15/25 10:01:00,SINGLE,SELL,-2,TO CLOSE,SPY,17 JAN 25,475,CALL,4.10,4.10,LMT',
+        '',
+        'Profits and Losses',
+      ].join('\n');
+
+      const result = new ThinkorswimParser().parse(csv, options);
+
+      expect(result.errors).toEqual([]);
+      expect(result.executions).toHaveLength(2);
+      expect(result.executions[0]).toMatchObject({
+        symbol: 'SPY',
+        market: MarketType.OPTIONS,
+        optionType: OptionType.CALL,
+        strikePrice: 475,
+        quantity: 2,
+      });
+    });
+  });
+
+  describe('WebullParser', () => {
+    it('skips unfilled orders', () => {
+      const csv = [
+        'Name,Symbol,Side,Status,Filled,Total Qty,Price,Avg Price,Time-in-Force,Placed Time,Filled Time',
+        'Tesla,TSLA,Buy,Filled,10,10,@250.00,250.00,DAY,01/15/2025 09:31:00 EST,01/15/2025 09:31:02 EST',
+        'Tesla,TSLA,Sell,Cancelled,0,10,@260.00,,DAY,01/15/2025 09:40:00 EST,',
+      ].join('\n');
+
+      const result = new WebullParser().parse(csv, options);
+
+      expect(result.errors).toEqual([]);
+      expect(result.executions).toHaveLength(1);
+      expect(result.executions[0].time.toISOString()).toBe(
+        '2025-01-15T14:31:02.000Z',
+      );
+    });
+  });
+
+  describe('IbkrFlexParser', () => {
+    it('reads execution level trades', () => {
+      const xml = `<FlexQueryResponse queryName="trades" type="AF">
+<FlexStatements count="1"><FlexStatement accountId="U1">
+<Trades>
+<Trade assetCategory="STK" symbol="NVDA" buySell="BUY" quantity="50" tradePrice="120.5" ibCommission="-0.35" dateTime="20250115;093500" levelOfDetail="EXECUTION" />
+<Trade assetCategory="STK" symbol="NVDA" buySell="SELL" quantity="-50" tradePrice="121" ibCommission="-0.35" dateTime="20250115;094500" levelOfDetail="EXECUTION" />
+<Trade assetCategory="STK" symbol="NVDA" buySell="BUY" quantity="50" tradePrice="120.5" dateTime="20250115;093500" levelOfDetail="ORDER" />
+</Trades>
+</FlexStatement></FlexStatements></FlexQueryResponse>`;
+
+      const result = new IbkrFlexParser().parse(xml, options);
+
+      expect(result.errors).toEqual([]);
+      expect(result.executions).toHaveLength(2);
+      expect(result.executions[1]).toMatchObject({
+        side: 'sell',
+        quantity: 50,
+        fees: 0.35,
+      });
+    });
+  });
+
+  describe('OfxParser', () => {
+    it('resolves tickers from the security list', () => {
+      const ofx = `OFXHEADER:100
+<OFX><INVSTMTMSGSRSV1><INVSTMTTRNRS><INVSTMTRS><INVTRANLIST>
+<BUYSTOCK><INVBUY><INVTRAN><FITID>1<DTTRADE>20250115093500.000[-5:EST]</INVTRAN>
+<SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID><UNITS>10<UNITPRICE>150<COMMISSION>1<TOTAL>-1501</INVBUY><BUYTYPE>BUY</BUYSTOCK>
+</INVTRANLIST></INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1>
+<SECLISTMSGSRSV1><SECLIST><STOCKINFO><SECINFO><SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID><SECNAME>Apple<TICKER>AAPL</SECINFO></STOCKINFO></SECLIST></SECLISTMSGSRSV1>
+</OFX>`;
+
+      const result = new OfxParser().parse(ofx, options);
+
+      expect(result.errors).toEqual([]);
+      expect(result.executions[0]).toMatchObject({
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 10,
+        fees: 1,
+      });
+      expect(result.executions[0].time.toISOString()).toBe(
+        '2025-01-15T14:35:00.000Z',
+      );
+    });
+  });
+
+  describe('matchExecutions', () => {
+    const fill = (
+      side: 'buy' | 'sell',
+      quantity: number,
+      price: number,
+      minute: number,
+      rowNumber: number,
+    ) => ({
+      rowNumber,
+      symbol: 'AAPL',
+      market: MarketType.STOCKS,
+      side: side === 'buy' ? ExecutionSide.BUY : ExecutionSide.SELL,
+      quantity,
+      price,
+      time: new Date(Date.UTC(2025, 0, 15, 14, minute)),
+      fees: 1,
+    });
+
+    it('pairs scale-ins and scale-outs into one trade', () => {
+      const trades = matchExecutions([
+        fill('buy', 100, 10, 0, 1),
+        fill('buy', 100, 12, 5, 2),
+        fill('sell', 200, 13, 10, 3),
+      ]);
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0]).toMatchObject({
+        direction: TradeDirection.LONG,
+        entryPrice: 11,
+        exitPrice: 13,
+        positionSize: 200,
+        commission: 3,
+        isOpen: false,
+        sourceRows: [1, 2, 3],
+      });
+    });
+
+    it('splits a position flip into two trades', () => {
+      const trades = matchExecutions([
+        fill('buy', 100, 10, 0, 1),
+        fill('sell', 150, 11, 5, 2),
+      ]);
+
+      expect(trades).toHaveLength(2);
+      expect(trades[0]).toMatchObject({
+        direction: TradeDirection.LONG,
+        positionSize: 100,
+        isOpen: false,
+      });
+      expect(trades[1]).toMatchObject({
+        direction: TradeDirection.SHORT,
+        positionSize: 50,
+        isOpen: true,
+      });
+    });
+
+    it('keeps partial exits on the still-open trade', () => {
+      const trades = matchExecutions([
+        fill('buy', 100, 10, 0, 1),
+        fill('sell', 40, 11, 5, 2),
+      ]);
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0]).toMatchObject({
+        positionSize: 100,
+        exitPrice: 11,
+        isOpen: true,
+      });
+      expect(trades[0].executions.map((execution) => execution.side)).toEqual([
+        ExecutionSide.BUY,
+        ExecutionSide.SELL,
+      ]);
+    });
+  });
+});
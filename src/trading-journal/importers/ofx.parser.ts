@@ -0,0 +1,189 @@
+import { ExecutionSide, MarketType, OptionType } from '../schemas/trade.schema';
+import {
+  BrokerStatementParser,
+  ParsedExecution,
+  ParseResult,
+  ParserOptions,
+} from './import.types';
+import { parseNumber, zonedTimeToUtc } from './import.utils';
+
+const TRANSACTION_TYPES: Record<
+  string,
+  { side: ExecutionSide; market: MarketType }
+> = {
+  BUYSTOCK: { side: ExecutionSide.BUY, market: MarketType.STOCKS },
+  SELLSTOCK: { side: ExecutionSide.SELL, market: MarketType.STOCKS },
+  BUYOPT: { side: ExecutionSide.BUY, market: MarketType.OPTIONS },
+  SELLOPT: { side: ExecutionSide.SELL, market: MarketType.OPTIONS },
+  BUYMF: { side: ExecutionSide.BUY, market: MarketType.STOCKS },
+  SELLMF: { side: ExecutionSide.SELL, market: MarketType.STOCKS },
+  BUYOTHER: { side: ExecutionSide.BUY, market: MarketType.STOCKS },
+  SELLOTHER: { side: ExecutionSide.SELL, market: MarketType.STOCKS },
+};
+
+interface SecurityInfo {
+  ticker: string;
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: Date;
+}
+
+/**
+ * Parses investment transactions from an OFX/QFX statement (SGML or XML flavour)
+ */
+export class OfxParser implements BrokerStatementParser {
+  parse(content: string, options: ParserOptions): ParseResult {
+    const result: ParseResult = { executions: [], errors: [] };
+
+    if (!/<OFX>/i.test(content)) {
+      result.errors.push({
+        row: 0,
+        message: 'Not an OFX statement (missing <OFX> root)',
+      });
+      return result;
+    }
+
+    const securities = this.parseSecurities(content);
+    const transactionPattern = new RegExp(
+      `<(${Object.keys(TRANSACTION_TYPES).join('|')})>([\\s\\S]*?)</\\1>`,
+      'gi',
+    );
+    let match: RegExpExecArray | null;
+
+    while ((match = transactionPattern.exec(content)) !== null) {
+      const rowNumber = content.slice(0, match.index).split('\n').length;
+      const type = TRANSACTION_TYPES[match[1].toUpperCase()];
+      const block = match[2];
+
+      const uniqueId = this.leaf(block, 'UNIQUEID');
+      const security = securities.get(uniqueId);
+      const quantity = Math.abs(parseNumber(this.leaf(block, 'UNITS')));
+      const price = parseNumber(this.leaf(block, 'UNITPRICE'));
+      const time = this.parseOfxDate(
+        this.leaf(block, 'DTTRADE'),
+        options.timezone,
+      );
+
+      if (!security) {
+        result.errors.push({
+          row: rowNumber,
+          message: `Security ${uniqueId || '(none)'} not found in SECLIST`,
+        });
+        continue;
+      }
+      if (!quantity || isNaN(price) || !time) {
+        result.errors.push({
+          row: rowNumber,
+          message: 'Missing or invalid UNITS, UNITPRICE or DTTRADE',
+        });
+        continue;
+      }
+
+      const fees =
+        Math.abs(parseNumber(this.leaf(block, 'COMMISSION')) || 0) +
+        Math.abs(parseNumber(this.leaf(block, 'FEES')) || 0);
+
+      const execution: ParsedExecution = {
+        rowNumber,
+        symbol: security.ticker,
+        market: type.market,
+        side: type.side,
+        quantity,
+        price,
+        time,
+        fees,
+      };
+
+      if (type.market === MarketType.OPTIONS) {
+        execution.optionType = security.optionType;
+        execution.strikePrice = security.strikePrice;
+        execution.expirationDate = security.expirationDate;
+      }
+
+      result.executions.push(execution);
+    }
+
+    if (result.executions.length === 0 && result.errors.length === 0) {
+      result.errors.push({
+        row: 0,
+        message: 'Statement contains no buy/sell transactions',
+      });
+    }
+
+    return result;
+  }
+
+  private parseSecurities(content: string): Map<string, SecurityInfo> {
+    const securities = new Map<string, SecurityInfo>();
+    const infoPattern =
+      /<(STOCKINFO|OPTINFO|MFINFO|OTHERINFO|DEBTINFO)>([\s\S]*?)<\/\1>/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = infoPattern.exec(content)) !== null) {
+      const block = match[2];
+      const uniqueId = this.leaf(block, 'UNIQUEID');
+      if (!uniqueId) continue;
+
+      const info: SecurityInfo = {
+        ticker: (this.leaf(block, 'TICKER') || uniqueId).toUpperCase(),
+      };
+
+      if (match[1].toUpperCase() === 'OPTINFO') {
+        const optType = this.leaf(block, 'OPTTYPE').toUpperCase();
+        info.optionType = optType === 'PUT' ? OptionType.PUT : OptionType.CALL;
+        info.strikePrice = parseNumber(this.leaf(block, 'STRIKEPRICE'));
+        info.expirationDate =
+          this.parseOfxDate(this.leaf(block, 'DTEXPIRE'), 'UTC') || undefined;
+
+        // Option tickers are usually OCC symbols; keep just the underlying root
+        const root = info.ticker.match(/^([A-Z.]{1,6})\d{6}[CP]\d{8}$/);
+        if (root) {
+          info.ticker = root[1];
+        }
+      }
+
+      securities.set(uniqueId, info);
+    }
+
+    return securities;
+  }
+
+  /**
+   * Read a leaf element value. SGML OFX leaves have no closing tag.
+   */
+  private leaf(block: string, tag: string): string {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+  }
+
+  // YYYYMMDD[HHMMSS[.XXX]][[gmt offset[:tz name]]]
+  private parseOfxDate(value: string, timeZone: string): Date | null {
+    const match = (value || '').match(
+      /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(?:\.\d+)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?/,
+    );
+    if (!match) {
+      return null;
+    }
+
+    const [year, month, day] = [
+      Number(match[1]),
+      Number(match[2]),
+      Number(match[3]),
+    ];
+    const [hour, minute, second] = [
+      Number(match[4] || 0),
+      Number(match[5] || 0),
+      Number(match[6] || 0),
+    ];
+
+    if (match[7] !== undefined) {
+      const offsetHours = Number(match[7]);
+      return new Date(
+        Date.UTC(year, month - 1, day, hour, minute, second) -
+          offsetHours * 3600000,
+      );
+    }
+
+    return zonedTimeToUtc(year, month, day, hour, minute, second, timeZone);
+  }
+}
@@ -0,0 +1,149 @@
+import { MarketType, OptionType } from '../schemas/trade.schema';
+import {
+  BrokerStatementParser,
+  ParsedExecution,
+  ParseResult,
+  ParserOptions,
+} from './import.types';
+import {
+  isBlankRow,
+  parseBrokerDateTime,
+  parseCsv,
+  parseNumber,
+  parseSide,
+} from './import.utils';
+
+const MONTHS = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+
+/**
+ * Parses the "Account Trade History" section of a Thinkorswim account statement
+ */
+export class ThinkorswimParser implements BrokerStatementParser {
+  parse(content: string, options: ParserOptions): ParseResult {
+    const result: ParseResult = { executions: [], errors: [] };
+    const rows = parseCsv(content);
+
+    const headerIndex = rows.findIndex((row) =>
+      row.some((cell) => cell.trim().toLowerCase() === 'exec time'),
+    );
+    if (headerIndex === -1) {
+      result.errors.push({
+        row: 0,
+        message:
+          'No "Account Trade History" section found in Thinkorswim statement',
+      });
+      return result;
+    }
+
+    const headers = rows[headerIndex].map((header) =>
+      header.trim().toLowerCase(),
+    );
+    const column = (name: string) => headers.indexOf(name);
+    const columns = {
+      time: column('exec time'),
+      side: column('side'),
+      quantity: column('qty'),
+      symbol: column('symbol'),
+      expiration: column('exp'),
+      strike: column('strike'),
+      type: column('type'),
+      price: column('price'),
+    };
+
+    // Spread legs leave Exec Time blank and inherit it from the first leg
+    let lastTime: Date | null = null;
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const row = rows[i];
+      const rowNumber = i + 1;
+      if (isBlankRow(row)) break; // end of section
+
+      const cell = (index: number) =>
+        index >= 0 ? (row[index] || '').trim() : '';
+
+      const rawTime = cell(columns.time);
+      const time = rawTime
+        ? parseBrokerDateTime(rawTime, options.timezone)
+        : lastTime;
+      if (!time) {
+        result.errors.push({
+          row: rowNumber,
+          message: `Unrecognized exec time "${rawTime}"`,
+          raw: row.join(','),
+        });
+        continue;
+      }
+      lastTime = time;
+
+      const side = parseSide(cell(columns.side));
+      const quantity = Math.abs(parseNumber(cell(columns.quantity)));
+      const price = parseNumber(cell(columns.price));
+      const symbol = cell(columns.symbol).toUpperCase();
+
+      if (!symbol || !side || !quantity || isNaN(price)) {
+        result.errors.push({
+          row: rowNumber,
+          message: 'Missing symbol, side, quantity or price',
+          raw: row.join(','),
+        });
+        continue;
+      }
+
+      const type = cell(columns.type).toUpperCase();
+      const execution: ParsedExecution = {
+        rowNumber,
+        symbol,
+        market: symbol.startsWith('/') ? MarketType.FUTURES : MarketType.STOCKS,
+        side,
+        quantity,
+        price,
+        time,
+        fees: 0,
+      };
+
+      if (type === 'CALL' || type === 'PUT') {
+        execution.market = MarketType.OPTIONS;
+        execution.optionType =
+          type === 'CALL' ? OptionType.CALL : OptionType.PUT;
+        execution.strikePrice = parseNumber(cell(columns.strike));
+        execution.expirationDate = this.parseExpiration(
+          cell(columns.expiration),
+        );
+      }
+
+      if (execution.market === MarketType.FUTURES) {
+        execution.symbol = symbol.slice(1);
+      }
+
+      result.executions.push(execution);
+    }
+
+    return result;
+  }
+
+  // "17 JAN 25"
+  private parseExpiration(value: string): Date | undefined {
+    const match = value
+      .toUpperCase()
+      .match(/^(\d{1,2})\s+([A-Z]{3})\s+(\d{2,4})/);
+    if (!match || !MONTHS.includes(match[2])) {
+      return undefined;
+    }
+    const year =
+      Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+    return new Date(Date.UTC(year, MONTHS.indexOf(match[2]), Number(match[1])));
+  }
+}
@@ -0,0 +1,115 @@
+import { MarketType } from '../schemas/trade.schema';
+import {
+  BrokerStatementParser,
+  ParsedExecution,
+  ParseResult,
+  ParserOptions,
+} from './import.types';
+import {
+  isBlankRow,
+  parseBrokerDateTime,
+  parseCsv,
+  parseNumber,
+  parseOccSymbol,
+  parseSide,
+} from './import.utils';
+
+/**
+ * Parses Webull's order history CSV. Only filled orders become executions.
+ */
+export class WebullParser implements BrokerStatementParser {
+  parse(content: string, options: ParserOptions): ParseResult {
+    const result: ParseResult = { executions: [], errors: [] };
+    const rows = parseCsv(content);
+
+    const headerIndex = rows.findIndex((row) => !isBlankRow(row));
+    if (headerIndex === -1) {
+      result.errors.push({ row: 0, message: 'File is empty' });
+      return result;
+    }
+
+    const headers = rows[headerIndex].map((header) =>
+      header.trim().toLowerCase(),
+    );
+    const column = (name: string) => headers.indexOf(name);
+    const columns = {
+      symbol: column('symbol'),
+      side: column('side'),
+      status: column('status'),
+      filled: column('filled'),
+      price: column('avg price') !== -1 ? column('avg price') : column('price'),
+      time: column('filled time'),
+    };
+
+    if (
+      columns.symbol === -1 ||
+      columns.side === -1 ||
+      columns.filled === -1 ||
+      columns.time === -1
+    ) {
+      result.errors.push({
+        row: headerIndex + 1,
+        message:
+          'Not a Webull orders export (expected Symbol, Side, Filled and Filled Time columns)',
+      });
+      return result;
+    }
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const row = rows[i];
+      const rowNumber = i + 1;
+      if (isBlankRow(row)) continue;
+
+      const cell = (index: number) =>
+        index >= 0 ? (row[index] || '').trim() : '';
+
+      // Cancelled and working orders are part of the export but never traded
+      if (
+        columns.status !== -1 &&
+        cell(columns.status).toLowerCase() !== 'filled'
+      ) {
+        continue;
+      }
+
+      const symbol = cell(columns.symbol).toUpperCase();
+      const side = parseSide(cell(columns.side));
+      const quantity = Math.abs(parseNumber(cell(columns.filled)));
+      const price = parseNumber(cell(columns.price));
+      const time = parseBrokerDateTime(cell(columns.time), options.timezone);
+
+      if (!symbol || !side || !quantity || isNaN(price) || !time) {
+        result.errors.push({
+          row: rowNumber,
+          message:
+            'Missing or invalid symbol, side, filled quantity, price or filled time',
+          raw: row.join(','),
+        });
+        continue;
+      }
+
+      const execution: ParsedExecution = {
+        rowNumber,
+        symbol,
+        market: options.defaultMarket,
+        side,
+        quantity,
+        price,
+        time,
+        fees: 0,
+      };
+
+      const occ = parseOccSymbol(symbol);
+      if (occ) {
+        execution.symbol = occ.underlying;
+        execution.market = MarketType.OPTIONS;
+        execution.optionType = occ.optionType;
+        execution.strikePrice = occ.strikePrice;
+        execution.expirationDate = occ.expirationDate;
+      }
+
+      result.executions.push(execution);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as moment from 'moment';
+import { TradeDocument } from './schemas/trade.schema';
+import { Feedback, FeedbackDocument } from './schemas/feedback.schema';
+import { JournalDay, JournalDayDocument } from './schemas/journal-day.schema';
+import {
+  CreateDayFeedbackDto,
+  FilterJournalDaysDto,
+  UpsertJournalDayDto,
+} from './dto/journal-day.dto';
+
+@Injectable()
+export class JournalDayService {
+  constructor(
+    @InjectModel(JournalDay.name)
+    private journalDayModel: Model<JournalDayDocument>,
+    @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
+    @InjectModel(Feedback.name) private feedbackModel: Model<FeedbackDocument>,
+  ) {}
+
+  async upsertDay(userId: string, date: string, dto: UpsertJournalDayDto) {
+    this.assertDate(date);
+
+    return this.journalDayModel.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId), date },
+      { $set: dto },
+      { upsert: true, new: true, runValidators: true },
+    );
+  }
+
+  async findDays(userId: string, filters: FilterJournalDaysDto) {
+    const query: any = { userId: new Types.ObjectId(userId) };
+    if (filters.from || filters.to) {
+      query.date = {};
+      if (filters.from) query.date.$gte = filters.from;
+      if (filters.to) query.date.$lte = filters.to;
+    }
+
+    return this.journalDayModel.find(query).sort({ date: -1 }).lean();
+  }
+
+  /**
+   * The journal entry of a day with the trades taken on it and the mentor
+   * feedback left on it
+   */
+  async getDay(userId: string, date: string) {
+    this.assertDate(date);
+
+    const start = moment.utc(date, 'YYYY-MM-DD').toDate();
+    const end = moment.utc(date, 'YYYY-MM-DD').add(1, 'day').toDate();
+    const [journal, trades] = await Promise.all([
+      this.journalDayModel
+        .findOne({ userId: new Types.ObjectId(userId), date })
+        .lean(),
+      this.tradeModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          tradeDate: { $gte: start, $lt: end },
+        })
+        .sort({ entryTime: 1 })
+        .lean(),
+    ]);
+
+    const feedback = journal
+      ? await this.feedbackModel
+          .find({ journalDayId: journal._id, isVisible: true })
+          .populate('mentorId', 'firstName lastName')
+          .sort({ createdAt: -1 })
+          .lean()
+      : [];
+
+    return { date, journal, trades, feedback };
+  }
+
+  async deleteDay(userId: string, date: string): Promise<void> {
+    this.assertDate(date);
+
+    const journal = await this.journalDayModel.findOneAndDelete({
+      userId: new Types.ObjectId(userId),
+      date,
+    });
+    if (!journal) {
+      throw new NotFoundException('Journal day not found');
+    }
+
+    await this.feedbackModel.deleteMany({ journalDayId: journal._id });
+  }
+
+  // Feedback Methods
+  async createDayFeedback(
+    mentorId: string,
+    journalDayId: string,
+    dto: CreateDayFeedbackDto,
+  ): Promise<Feedback> {
+    const journal = await this.journalDayModel.findById(journalDayId);
+    if (!journal) {
+      throw new NotFoundException('Journal day not found');
+    }
+
+    const existingFeedback = await this.feedbackModel.findOne({
+      journalDayId: journal._id,
+      mentorId: new Types.ObjectId(mentorId),
+    });
+    if (existingFeedback) {
+      throw new BadRequestException('Feedback already exists for this day');
+    }
+
+    const feedback = new this.feedbackModel({
+      ...dto,
+      mentorId: new Types.ObjectId(mentorId),
+      journalDayId: journal._id,
+      studentId: journal.userId,
+    });
+
+    // Mark day as reviewed
+    journal.isReviewed = true;
+    journal.reviewedBy = new Types.ObjectId(mentorId);
+    journal.reviewedAt = new Date();
+    await journal.save();
+
+    return feedback.save();
+  }
+
+  private assertDate(date: string) {
+    if (!moment.utc(date, 'YYYY-MM-DD', true).isValid()) {
+      throw new BadRequestException('Date must be a valid YYYY-MM-DD day');
+    }
+  }
+}
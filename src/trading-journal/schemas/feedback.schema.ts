@@ -13,8 +13,19 @@ export enum FeedbackRating {
 
 @Schema({ timestamps: true })
 export class Feedback {
-  @Prop({ type: Types.ObjectId, ref: 'Trade', required: true, index: true })
-  tradeId: Types.ObjectId;
+  // Feedback targets either a single trade or a whole journal day
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'Trade',
+    index: true,
+    required: function (this: Feedback) {
+      return !this.journalDayId;
+    },
+  })
+  tradeId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'JournalDay', index: true })
+  journalDayId?: Types.ObjectId;
 
   @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
   mentorId: Types.ObjectId;
@@ -102,6 +113,7 @@ export const FeedbackSchema = SchemaFactory.createForClass(Feedback);
 
 // Indexes for performance
 FeedbackSchema.index({ tradeId: 1, mentorId: 1 });
+FeedbackSchema.index({ journalDayId: 1, mentorId: 1 });
 FeedbackSchema.index({ studentId: 1, createdAt: -1 });
 FeedbackSchema.index({ mentorId: 1, createdAt: -1 });
 FeedbackSchema.index({ requiresFollowUp: 1, followUpDate: 1 });
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type JournalDayDocument = JournalDay & Document;
+
+@Schema({ _id: true })
+export class JournalDayAttachment {
+  @Prop({ required: true })
+  url: string;
+
+  @Prop()
+  name?: string;
+
+  @Prop()
+  mimeType?: string;
+}
+
+export const JournalDayAttachmentSchema =
+  SchemaFactory.createForClass(JournalDayAttachment);
+
+@Schema({ timestamps: true })
+export class JournalDay {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  // Trading day as YYYY-MM-DD, matching the daily P&L buckets
+  @Prop({ required: true, match: /^\d{4}-\d{2}-\d{2}$/ })
+  date: string;
+
+  // Pre-market
+  @Prop({ maxlength: 5000 })
+  preMarketPlan?: string;
+
+  @Prop({ maxlength: 2000 })
+  marketConditions?: string;
+
+  @Prop({ type: [String], default: [] })
+  watchlist: string[];
+
+  // End-of-day review
+  @Prop({ maxlength: 5000 })
+  endOfDayReview?: string;
+
+  @Prop({ maxlength: 2000 })
+  lessonsLearned?: string;
+
+  @Prop({ min: 1, max: 5 })
+  dayRating?: number;
+
+  @Prop({ min: 1, max: 10 })
+  moodScore?: number;
+
+  @Prop({ type: [JournalDayAttachmentSchema], default: [] })
+  attachments: JournalDayAttachment[];
+
+  // Mentor review
+  @Prop({ default: false })
+  isReviewed: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop()
+  reviewedAt?: Date;
+}
+
+export const JournalDaySchema = SchemaFactory.createForClass(JournalDay);
+
+JournalDaySchema.index({ userId: 1, date: -1 }, { unique: true });
@@ -1,5 +1,18 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import {
+  getContractMultiplier,
+  seedExecutions,
+  summarizeExecutions,
+} from '../utils/trade-calculations';
+import {
+  analyzeStrategy,
+  detectStrategyType,
+  netExitPremiumPerUnit,
+  strategyPnl,
+} from '../utils/options-strategy';
+import { TradingRule } from './trading-plan.schema';
+import { optionSnapshot } from '../../services/market/options-pricing';
 
 export type TradeDocument = Trade & Document;
 
@@ -22,6 +35,26 @@ export enum OptionType {
   PUT = 'put',
 }
 
+// Multi-leg options structures grouped on a single trade
+export enum OptionsStrategyType {
+  SINGLE = 'single',
+  VERTICAL = 'vertical',
+  STRADDLE = 'straddle',
+  STRANGLE = 'strangle',
+  BUTTERFLY = 'butterfly',
+  IRON_CONDOR = 'iron_condor',
+  IRON_BUTTERFLY = 'iron_butterfly',
+  CALENDAR = 'calendar',
+  DIAGONAL = 'diagonal',
+  RATIO = 'ratio',
+  CUSTOM = 'custom',
+}
+
+export enum ExecutionSide {
+  BUY = 'buy',
+  SELL = 'sell',
+}
+
 // For options: direction field means
 // LONG = Buy to Open (you bought the option, you OWN it)
 // SHORT = Sell to Open (you wrote/sold the option, you OWE it)
@@ -55,6 +88,279 @@ export enum ExitReason {
   ROLLED_POSITION = 'rolled_position',
 }
 
+export enum ExcursionStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  NO_DATA = 'no_data',
+  UNSUPPORTED = 'unsupported',
+  FAILED = 'failed',
+}
+
+export enum ChartAnnotationType {
+  ARROW = 'arrow',
+  LINE = 'line',
+  RECTANGLE = 'rectangle',
+  TEXT = 'text',
+  ENTRY = 'entry',
+  EXIT = 'exit',
+  STOP_LOSS = 'stop_loss',
+  TAKE_PROFIT = 'take_profit',
+}
+
+// A single fill: scale-ins share the opening side, partial exits the other
+@Schema({ _id: true })
+export class TradeExecution {
+  _id?: Types.ObjectId;
+
+  @Prop({ enum: ExecutionSide, required: true })
+  side: ExecutionSide;
+
+  @Prop({ required: true, min: 0 })
+  quantity: number;
+
+  @Prop({ required: true, min: 0 })
+  price: number;
+
+  @Prop({ required: true })
+  time: Date;
+
+  @Prop({ default: 0 })
+  fees: number;
+
+  // Calculated for exits against the average cost at that point
+  @Prop()
+  realizedPnl?: number;
+
+  @Prop({ maxlength: 500 })
+  note?: string;
+}
+
+export const TradeExecutionSchema =
+  SchemaFactory.createForClass(TradeExecution);
+
+// One option contract in a multi-leg strategy. Premiums are per share.
+@Schema({ _id: true })
+export class OptionLeg {
+  _id?: Types.ObjectId;
+
+  @Prop({ enum: OptionType, required: true })
+  optionType: OptionType;
+
+  // BUY = long the leg, SELL = short the leg
+  @Prop({ enum: ExecutionSide, required: true })
+  side: ExecutionSide;
+
+  @Prop({ required: true, min: 0 })
+  strikePrice: number;
+
+  @Prop({ required: true })
+  expirationDate: Date;
+
+  // Contracts of this leg per strategy unit (e.g. 2 for the body of a butterfly)
+  @Prop({ default: 1, min: 1 })
+  ratio: number;
+
+  @Prop({ required: true, min: 0 })
+  entryPremium: number;
+
+  @Prop({ min: 0 })
+  exitPremium?: number;
+}
+
+export const OptionLegSchema = SchemaFactory.createForClass(OptionLeg);
+
+// A trading plan rule broken by this trade
+@Schema({ _id: false })
+export class TradeRuleViolation {
+  @Prop({ enum: TradingRule, required: true })
+  rule: TradingRule;
+
+  @Prop({ required: true })
+  message: string;
+
+  // Whether the rule was broken when the trade was opened or closed
+  @Prop({ enum: ['entry', 'exit'], required: true })
+  stage: 'entry' | 'exit';
+
+  @Prop({ default: Date.now })
+  detectedAt: Date;
+}
+
+export const TradeRuleViolationSchema =
+  SchemaFactory.createForClass(TradeRuleViolation);
+
+// Risk profile of a multi-leg strategy, calculated at entry (dollars)
+@Schema({ _id: false })
+export class StrategyRisk {
+  // Positive = net debit paid, negative = net credit received
+  @Prop()
+  netPremium: number;
+
+  @Prop()
+  maxProfit?: number;
+
+  @Prop()
+  maxLoss?: number;
+
+  @Prop({ default: false })
+  unlimitedProfit: boolean;
+
+  @Prop({ default: false })
+  unlimitedLoss: boolean;
+
+  @Prop({ type: [Number], default: [] })
+  breakevens: number[];
+}
+
+export const StrategyRiskSchema = SchemaFactory.createForClass(StrategyRisk);
+
+// Maximum adverse/favorable excursion while the trade was open, computed
+// from historical candles after it closes
+@Schema({ _id: false })
+export class TradeExcursion {
+  @Prop({ enum: ExcursionStatus, default: ExcursionStatus.PENDING })
+  status: ExcursionStatus;
+
+  @Prop()
+  maePrice?: number;
+
+  @Prop()
+  mfePrice?: number;
+
+  // Price points
+  @Prop()
+  mae?: number;
+
+  @Prop()
+  mfe?: number;
+
+  @Prop()
+  maeR?: number;
+
+  @Prop()
+  mfeR?: number;
+
+  // Realized move / favorable excursion (1 = exited at the best price)
+  @Prop()
+  capture?: number;
+
+  @Prop()
+  resolution?: string;
+
+  @Prop()
+  source?: string;
+
+  @Prop()
+  error?: string;
+
+  @Prop()
+  calculatedAt?: Date;
+}
+
+export const TradeExcursionSchema =
+  SchemaFactory.createForClass(TradeExcursion);
+
+// Implied volatility and Black-Scholes Greeks of a single-leg option at
+// entry or exit, per share (theta per day, vega and rho per point)
+@Schema({ _id: false })
+export class OptionGreeksSnapshot {
+  @Prop()
+  underlyingPrice: number;
+
+  @Prop()
+  impliedVolatility: number;
+
+  @Prop()
+  daysToExpiry: number;
+
+  @Prop()
+  delta: number;
+
+  @Prop()
+  gamma: number;
+
+  @Prop()
+  theta: number;
+
+  @Prop()
+  vega: number;
+
+  @Prop()
+  rho: number;
+}
+
+export const OptionGreeksSnapshotSchema =
+  SchemaFactory.createForClass(OptionGreeksSnapshot);
+
+// Position on a screenshot as a fraction of its width/height (0-1), so the
+// same annotations fit the full image and its thumbnail
+@Schema({ _id: false })
+export class AnnotationPoint {
+  @Prop({ required: true, min: 0, max: 1 })
+  x: number;
+
+  @Prop({ required: true, min: 0, max: 1 })
+  y: number;
+}
+
+export const AnnotationPointSchema =
+  SchemaFactory.createForClass(AnnotationPoint);
+
+// A drawing on a screenshot: arrows and lines use two points, markers and
+// text one, rectangles two opposite corners
+@Schema({ _id: false })
+export class ChartAnnotation {
+  @Prop({ enum: ChartAnnotationType, required: true })
+  type: ChartAnnotationType;
+
+  @Prop({ type: [AnnotationPointSchema], default: [] })
+  points: AnnotationPoint[];
+
+  @Prop({ maxlength: 200 })
+  text?: string;
+
+  @Prop()
+  color?: string;
+
+  // Price the marker refers to (entry/exit/stop/target)
+  @Prop()
+  price?: number;
+}
+
+export const ChartAnnotationSchema =
+  SchemaFactory.createForClass(ChartAnnotation);
+
+// A chart image uploaded to S3 with its thumbnail and annotation layer
+@Schema({ _id: true })
+export class TradeScreenshot {
+  @Prop({ required: true })
+  key: string;
+
+  @Prop()
+  thumbnailKey?: string;
+
+  @Prop()
+  fileName?: string;
+
+  @Prop()
+  contentType?: string;
+
+  @Prop()
+  size?: number;
+
+  @Prop({ maxlength: 500 })
+  caption?: string;
+
+  @Prop({ type: [ChartAnnotationSchema], default: [] })
+  annotations: ChartAnnotation[];
+
+  @Prop({ default: Date.now })
+  uploadedAt: Date;
+}
+
+export const TradeScreenshotSchema =
+  SchemaFactory.createForClass(TradeScreenshot);
+
 @Schema({ timestamps: true })
 export class Trade {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
@@ -70,6 +376,11 @@ export class Trade {
   @Prop({ enum: MarketType, required: true })
   market: MarketType;
 
+  // Currency value of a one point move per contract, resolved from the
+  // instrument spec registry when the trade is saved (ES = 50, options = 100)
+  @Prop()
+  contractMultiplier?: number;
+
   // Entry Details
   @Prop({ required: true })
   entryTime: Date;
@@ -83,6 +394,14 @@ export class Trade {
   @Prop({ enum: TradeDirection, required: true })
   direction: TradeDirection;
 
+  // Ordered fills. entryPrice, positionSize, exitPrice, commission and P&L
+  // are derived from these when the trade is saved.
+  @Prop({ type: [TradeExecutionSchema], default: [] })
+  executions: TradeExecution[];
+
+  @Prop()
+  openQuantity?: number;
+
   // Options-specific fields
   @Prop({ enum: OptionType })
   optionType?: OptionType; // CALL or PUT
@@ -93,6 +412,28 @@ export class Trade {
   @Prop()
   expirationDate?: Date;
 
+  @Prop()
+  underlyingPriceAtEntry?: number;
+
+  // Derived from the option price and the underlying price when both are
+  // known; unset otherwise
+  @Prop({ type: OptionGreeksSnapshotSchema })
+  entryGreeks?: OptionGreeksSnapshot;
+
+  @Prop({ type: OptionGreeksSnapshotSchema })
+  exitGreeks?: OptionGreeksSnapshot;
+
+  // Multi-leg options strategies: positionSize is the number of strategy
+  // units, and entry/exit price are the net premium per share of one unit
+  @Prop({ enum: OptionsStrategyType })
+  strategyType?: OptionsStrategyType;
+
+  @Prop({ type: [OptionLegSchema], default: [] })
+  legs: OptionLeg[];
+
+  @Prop({ type: StrategyRiskSchema })
+  strategyRisk?: StrategyRisk;
+
   // Exit Details
   @Prop()
   exitTime?: Date;
@@ -136,12 +477,21 @@ export class Trade {
   @Prop()
   riskAmount?: number;
 
+  // riskAmount was derived from the stop rather than entered by the trader,
+  // so it follows later changes to the stop and the position
+  @Prop()
+  riskAmountDerived?: boolean;
+
   @Prop()
   riskPercentage?: number;
 
   @Prop()
   rMultiple?: number;
 
+  // Trading plan rules broken by this trade
+  @Prop({ type: [TradeRuleViolationSchema], default: [] })
+  ruleViolations: TradeRuleViolation[];
+
   // Trade Analysis
   @Prop()
   setup?: string;
@@ -201,6 +551,9 @@ export class Trade {
   @Prop({ type: [String], default: [] })
   screenshots: string[];
 
+  @Prop({ type: [TradeScreenshotSchema], default: [] })
+  screenshotImages: TradeScreenshot[];
+
   // Status
   @Prop({ default: true })
   isOpen: boolean;
@@ -218,11 +571,19 @@ export class Trade {
   @Prop()
   holdingTime?: number; // in minutes
 
+  // MAE/MFE in dollars (both positive), see excursion
   @Prop()
   maxDrawdown?: number;
 
   @Prop()
   maxProfit?: number;
+
+  @Prop({ type: TradeExcursionSchema })
+  excursion?: TradeExcursion;
+
+  // Broker statement format the trade was imported from (unset for manual entries)
+  @Prop()
+  importSource?: string;
 }
 
 export const TradeSchema = SchemaFactory.createForClass(Trade);
@@ -242,46 +603,180 @@ TradeSchema.virtual('calculatedHoldingTime').get(function() {
   return null;
 });
 
-// Pre-save hook to calculate derived fields
-TradeSchema.pre('save', function(next) {
-  // Calculate P/L if trade is closed
-  if (this.exitPrice && this.entryPrice && this.positionSize) {
-    // For OPTIONS: P&L is ALWAYS (exit - entry) because:
-    // - You BUY an option (pay premium) and SELL to close (receive premium)
-    // - Profit = What you received - What you paid = exit - entry
-    // - This is true for BOTH calls and puts!
-    //
-    // For STOCKS: Use direction to determine P&L
-    // - Long: profit when price goes up (exit - entry)
-    // - Short: profit when price goes down (entry - exit)
-    const isOptions = this.market === MarketType.OPTIONS;
-    const priceDiff = isOptions
-      ? this.exitPrice - this.entryPrice  // Options: always exit - entry
-      : (this.direction === TradeDirection.LONG
-          ? this.exitPrice - this.entryPrice
-          : this.entryPrice - this.exitPrice);
-
-    // For options, positionSize is number of contracts, each contract = 100 shares
-    const contractMultiplier = isOptions ? 100 : 1;
-
-    this.pnl = priceDiff * this.positionSize * contractMultiplier;
+// Multi-leg strategies derive their prices and P&L from the legs instead of
+// executions. The trade closes once every leg has an exit premium.
+function applyStrategyLegs(trade: any) {
+  const quantity = trade.positionSize || 1;
+  const analysis = analyzeStrategy(trade.legs, quantity);
+
+  trade.strategyType = trade.strategyType || detectStrategyType(trade.legs);
+  trade.strategyRisk = {
+    netPremium: analysis.netPremium,
+    maxProfit: analysis.maxProfit ?? undefined,
+    maxLoss: analysis.maxLoss ?? undefined,
+    unlimitedProfit: analysis.unlimitedProfit,
+    unlimitedLoss: analysis.unlimitedLoss,
+    breakevens: analysis.breakevens,
+  };
+  trade.executions = [];
+  trade.positionSize = quantity;
+  trade.entryPrice = Math.abs(analysis.netPremiumPerUnit);
+  trade.direction =
+    analysis.netPremiumPerUnit >= 0
+      ? TradeDirection.LONG
+      : TradeDirection.SHORT;
+  trade.expirationDate = new Date(
+    Math.min(
+      ...trade.legs.map((leg) => new Date(leg.expirationDate).getTime()),
+    ),
+  );
+
+  const isClosed =
+    trade.legs.every((leg) => leg.exitPremium != null) && !!trade.exitTime;
+  trade.isOpen = !isClosed;
+
+  if (!isClosed) {
+    trade.isWinner = false;
+    return;
+  }
+
+  trade.exitPrice = Math.abs(netExitPremiumPerUnit(trade.legs));
+  trade.pnl = strategyPnl(trade.legs, quantity);
+  trade.netPnl = trade.pnl - (trade.commission || 0);
+  trade.pnlPercentage =
+    analysis.netPremium !== 0
+      ? (trade.pnl / Math.abs(analysis.netPremium)) * 100
+      : 0;
+  trade.isWinner = trade.netPnl > 0;
+  trade.holdingTime = Math.round(
+    (trade.exitTime.getTime() - trade.entryTime.getTime()) / 60000,
+  );
+
+  if (trade.riskAmount && trade.riskAmount !== 0) {
+    trade.rMultiple = trade.netPnl / trade.riskAmount;
+  }
+}
+
+// Entry and exit snapshots of a single-leg option trade, from the traded
+// premium and the underlying price the trader recorded
+function applyOptionGreeks(trade: any) {
+  const single =
+    trade.market === MarketType.OPTIONS &&
+    trade.optionType &&
+    trade.strikePrice &&
+    trade.expirationDate;
+
+  const snapshot = (underlying: number, optionPrice: number, at: Date) =>
+    single && underlying && optionPrice && at
+      ? (optionSnapshot({
+          type: trade.optionType,
+          underlying,
+          strike: trade.strikePrice,
+          expiration: trade.expirationDate,
+          at,
+          optionPrice,
+        }) ?? undefined)
+      : undefined;
+
+  trade.entryGreeks = snapshot(
+    trade.underlyingPriceAtEntry,
+    trade.entryPrice,
+    trade.entryTime,
+  );
+  trade.exitGreeks = trade.isOpen
+    ? undefined
+    : snapshot(
+        trade.underlyingPriceAtExit,
+        trade.exitPrice ?? trade.exitPremium,
+        trade.exitTime,
+      );
+}
+
+// Derive entry/exit prices, size, fees and P&L from the executions.
+// Runs on validate (before save) so the derived required fields are set.
+TradeSchema.pre('validate', function (next) {
+  if (this.legs && this.legs.length > 0) {
+    applyStrategyLegs(this);
+    return next();
+  }
+
+  // Trades recorded with a single entry/exit pair get equivalent executions
+  if (!this.executions || this.executions.length === 0) {
+    const seeded = seedExecutions(this);
+    if (seeded.length === 0) {
+      return next();
+    }
+    this.set('executions', seeded);
+  }
+
+  const multiplier =
+    this.contractMultiplier || getContractMultiplier(this.market);
+
+  let summary;
+  try {
+    summary = summarizeExecutions(this.executions, multiplier);
+  } catch (error) {
+    return next(error);
+  }
+
+  this.executions.forEach((execution, index) => {
+    execution.realizedPnl =
+      execution.side === summary.entrySide
+        ? undefined
+        : summary.realizedByExecution[index];
+  });
+
+  this.entryTime = summary.firstEntryTime;
+  this.entryPrice = summary.averageEntryPrice;
+  this.positionSize = summary.entryQuantity;
+  this.openQuantity = summary.openQuantity;
+  this.commission = summary.totalFees;
+  this.isOpen = summary.openQuantity > 0;
+
+  // Dollar risk from the stop when the trader did not enter one, recomputed
+  // on every save. Options stops are often set on the underlying, so those
+  // are left to the trader.
+  if (this.isModified('riskAmount')) {
+    this.riskAmountDerived = false;
+  }
+  if (!this.riskAmount || this.riskAmountDerived) {
+    const derive = this.stopLoss != null && this.market !== MarketType.OPTIONS;
+    this.riskAmount = derive
+      ? Math.abs(this.entryPrice - this.stopLoss) *
+        this.positionSize *
+        multiplier
+      : undefined;
+    this.riskAmountDerived = derive || undefined;
+  }
+
+  if (summary.exitedQuantity > 0) {
+    this.exitPrice = summary.averageExitPrice;
+    this.pnl = summary.realizedPnl;
     this.netPnl = this.pnl - this.commission;
-    this.pnlPercentage = (priceDiff / this.entryPrice) * 100;
-    this.isWinner = this.netPnl > 0;
+    this.pnlPercentage =
+      summary.realizedCostBasis !== 0
+        ? (summary.realizedPnl / summary.realizedCostBasis) * 100
+        : 0;
 
     // Calculate R-Multiple
     if (this.riskAmount && this.riskAmount !== 0) {
       this.rMultiple = this.netPnl / this.riskAmount;
     }
+  }
 
-    // Calculate holding time
-    if (this.exitTime && this.entryTime) {
-      this.holdingTime = Math.round((this.exitTime.getTime() - this.entryTime.getTime()) / 60000);
-    }
-
-    // Mark as closed
-    this.isOpen = false;
+  if (!this.isOpen) {
+    this.exitTime = summary.lastExitTime;
+    this.holdingTime = Math.round(
+      (summary.lastExitTime.getTime() - summary.firstEntryTime.getTime()) /
+        60000,
+    );
+    this.isWinner = this.netPnl > 0;
+  } else {
+    this.exitTime = undefined;
+    this.holdingTime = undefined;
+    this.isWinner = false;
   }
 
+  applyOptionGreeks(this);
   next();
-});
\ No newline at end of file
+});
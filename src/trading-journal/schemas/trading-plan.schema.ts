@@ -0,0 +1,85 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type TradingPlanDocument = TradingPlan & Document;
+
+export enum TradingRule {
+  MAX_TRADES_PER_DAY = 'max_trades_per_day',
+  MAX_DAILY_LOSS = 'max_daily_loss',
+  NO_TRADING_BEFORE = 'no_trading_before',
+  NO_TRADING_AFTER = 'no_trading_after',
+  SETUP_NOT_ALLOWED = 'setup_not_allowed',
+  MIN_CONFIDENCE = 'min_confidence',
+  STOP_LOSS_REQUIRED = 'stop_loss_required',
+  MAX_RISK_PER_TRADE = 'max_risk_per_trade',
+  MARKET_NOT_ALLOWED = 'market_not_allowed',
+}
+
+@Schema({ _id: false })
+export class TradingPlanRules {
+  @Prop({ min: 1 })
+  maxTradesPerDay?: number;
+
+  // Positive currency amount, e.g. 500 = stop trading at -$500 for the day
+  @Prop({ min: 0 })
+  maxDailyLoss?: number;
+
+  // Informational daily goal shown with the plan status
+  @Prop({ min: 0 })
+  dailyProfitTarget?: number;
+
+  // Trading window in the plan timezone, "HH:mm"
+  @Prop()
+  noTradingBefore?: string;
+
+  @Prop()
+  noTradingAfter?: string;
+
+  // Only these setups may be traded (e.g. ["A+ breakout", "A+ pullback"])
+  @Prop({ type: [String], default: undefined })
+  allowedSetups?: string[];
+
+  @Prop({ min: 1, max: 10 })
+  minConfidence?: number;
+
+  @Prop()
+  requireStopLoss?: boolean;
+
+  @Prop({ min: 0 })
+  maxRiskPerTrade?: number;
+
+  @Prop({ type: [String], default: undefined })
+  allowedMarkets?: string[];
+}
+
+export const TradingPlanRulesSchema =
+  SchemaFactory.createForClass(TradingPlanRules);
+
+@Schema({ timestamps: true })
+export class TradingPlan {
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true,
+    index: true,
+  })
+  userId: Types.ObjectId;
+
+  @Prop({ type: TradingPlanRulesSchema, default: {} })
+  rules: TradingPlanRules;
+
+  // IANA timezone for the trading window and daily limits
+  @Prop({ default: 'America/New_York' })
+  timezone: string;
+
+  // Mission whose goals fill in rules the plan leaves unset. When empty, the
+  // active mission the user participates in is used.
+  @Prop()
+  missionId?: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const TradingPlanSchema = SchemaFactory.createForClass(TradingPlan);
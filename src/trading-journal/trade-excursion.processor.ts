@@ -0,0 +1,26 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  COMPUTE_EXCURSION_JOB,
+  TRADE_EXCURSION_QUEUE,
+  TradeExcursionService,
+} from './trade-excursion.service';
+
+@Processor(TRADE_EXCURSION_QUEUE)
+export class TradeExcursionProcessor {
+  private readonly logger = new Logger(TradeExcursionProcessor.name);
+
+  constructor(private readonly tradeExcursionService: TradeExcursionService) {}
+
+  @Process(COMPUTE_EXCURSION_JOB)
+  async handleComputeExcursion(job: Job<{ tradeId: string }>) {
+    const excursion = await this.tradeExcursionService.enrichTrade(
+      job.data.tradeId,
+    );
+    this.logger.log(
+      `Excursion for trade ${job.data.tradeId}: ${excursion?.status ?? 'skipped'}`,
+    );
+    return excursion;
+  }
+}
@@ -0,0 +1,181 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { Model, Types } from 'mongoose';
+import {
+  ExcursionStatus,
+  TradeDocument,
+  TradeExcursion,
+} from './schemas/trade.schema';
+import { CANDLE_SOURCE, CandleSource } from './candles/candle-source.interface';
+import {
+  candleResolution,
+  computeExcursion,
+  resolutionMinutes,
+} from './utils/excursions';
+import { getContractMultiplier } from './utils/trade-calculations';
+
+export const TRADE_EXCURSION_QUEUE = 'trade-excursions';
+export const COMPUTE_EXCURSION_JOB = 'compute-excursion';
+
+@Injectable()
+export class TradeExcursionService {
+  private readonly logger = new Logger(TradeExcursionService.name);
+
+  constructor(
+    @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
+    @Inject(CANDLE_SOURCE) private readonly candleSource: CandleSource,
+    @InjectQueue(TRADE_EXCURSION_QUEUE) private readonly excursionQueue: Queue,
+  ) {}
+
+  /**
+   * Queue MAE/MFE enrichment of a closed trade. Queue failures (e.g. Redis
+   * being down) are logged; the trade can be backfilled later.
+   */
+  async enqueue(tradeId: string): Promise<void> {
+    try {
+      await this.excursionQueue.add(
+        COMPUTE_EXCURSION_JOB,
+        { tradeId },
+        {
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 60000 },
+          removeOnComplete: true,
+          removeOnFail: 100,
+        },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not queue excursion job for trade ${tradeId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Queue the closed trades of a user that have no excursion yet (or all of
+   * them with recalculate)
+   */
+  async enqueueMissing(userId: string, recalculate = false) {
+    const trades = await this.tradeModel
+      .find(
+        {
+          userId: new Types.ObjectId(userId),
+          isOpen: false,
+          ...(recalculate
+            ? {}
+            : {
+                $or: [
+                  { excursion: { $exists: false } },
+                  { 'excursion.status': ExcursionStatus.FAILED },
+                ],
+              }),
+        },
+        { _id: 1 },
+      )
+      .lean();
+
+    for (const trade of trades) {
+      await this.enqueue(trade._id.toString());
+    }
+    return { queued: trades.length };
+  }
+
+  /**
+   * Compute and store the excursion of a closed trade. Errors are recorded
+   * on the trade and rethrown so the job is retried.
+   */
+  async enrichTrade(tradeId: string): Promise<TradeExcursion | null> {
+    const trade = await this.tradeModel.findById(tradeId);
+    if (!trade || trade.isOpen || !trade.exitTime || trade.exitPrice == null) {
+      return null;
+    }
+
+    if (!this.candleSource.supports(trade.market)) {
+      return this.saveExcursion(trade._id, {
+        status: ExcursionStatus.UNSUPPORTED,
+        source: this.candleSource.name,
+      });
+    }
+
+    const resolution = candleResolution(trade.entryTime, trade.exitTime);
+    try {
+      // Start one bar early so the bar containing the entry is included
+      const from = new Date(
+        trade.entryTime.getTime() - resolutionMinutes(resolution) * 60000,
+      );
+      const candles = await this.candleSource.getCandles(
+        trade.symbol,
+        resolution,
+        from,
+        trade.exitTime,
+      );
+      const result = computeExcursion(
+        {
+          direction: trade.direction,
+          entryPrice: trade.entryPrice,
+          exitPrice: trade.exitPrice,
+          entryTime: trade.entryTime,
+          exitTime: trade.exitTime,
+          positionSize: trade.positionSize,
+          multiplier:
+            trade.contractMultiplier || getContractMultiplier(trade.market),
+          stopLoss: trade.stopLoss,
+          riskAmount: trade.riskAmount,
+        },
+        candles,
+        resolution,
+      );
+
+      if (!result) {
+        return this.saveExcursion(trade._id, {
+          status: ExcursionStatus.NO_DATA,
+          resolution,
+          source: this.candleSource.name,
+        });
+      }
+
+      return this.saveExcursion(
+        trade._id,
+        {
+          status: ExcursionStatus.COMPLETED,
+          maePrice: result.maePrice,
+          mfePrice: result.mfePrice,
+          mae: result.mae,
+          mfe: result.mfe,
+          maeR: result.maeR ?? undefined,
+          mfeR: result.mfeR ?? undefined,
+          capture: result.capture ?? undefined,
+          resolution,
+          source: this.candleSource.name,
+        },
+        { maxDrawdown: result.maeAmount, maxProfit: result.mfeAmount },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to compute excursion for trade ${tradeId}: ${error.message}`,
+      );
+      await this.saveExcursion(trade._id, {
+        status: ExcursionStatus.FAILED,
+        resolution,
+        source: this.candleSource.name,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  // updateOne keeps the P&L hooks from running again
+  private async saveExcursion(
+    tradeId: unknown,
+    excursion: TradeExcursion,
+    amounts: { maxDrawdown?: number; maxProfit?: number } = {},
+  ): Promise<TradeExcursion> {
+    const value = { ...excursion, calculatedAt: new Date() };
+    await this.tradeModel.updateOne(
+      { _id: tradeId },
+      { $set: { excursion: value, ...amounts } },
+    );
+    return value;
+  }
+}
@@ -0,0 +1,621 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as ExcelJS from 'exceljs';
+import * as PDFDocument from 'pdfkit';
+import * as moment from 'moment';
+import { ExcursionStatus, Trade, TradeDocument } from './schemas/trade.schema';
+import { Feedback, FeedbackDocument } from './schemas/feedback.schema';
+import { TradingJournalService } from './trading-journal.service';
+import { FilterTradesDto } from './dto/filter-trades.dto';
+import {
+  AdvancedMetrics,
+  computeAdvancedMetrics,
+  EquityPoint,
+} from './utils/performance-metrics';
+import { summarizeExcursions } from './utils/excursions';
+import { BehaviorGroupStats } from './utils/behavior-report';
+import { dailyPnlRows, describeLegs, statsBy } from './utils/journal-report';
+
+// Exports are capped like the CSV export
+const MAX_EXPORT_TRADES = 10000;
+
+const BRAND_COLOR = '16a34a';
+
+type ExportTrade = Trade & { _id: Types.ObjectId };
+
+@Injectable()
+export class TradeExportService {
+  constructor(
+    @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
+    @InjectModel(Feedback.name) private feedbackModel: Model<FeedbackDocument>,
+    private readonly tradingJournalService: TradingJournalService,
+  ) {}
+
+  /**
+   * Workbook with sheets for trades, option legs, daily P&L, per-strategy
+   * and per-symbol stats and mentor feedback
+   */
+  async generateWorkbook(
+    userId: string,
+    filters: FilterTradesDto,
+  ): Promise<Buffer> {
+    const trades = await this.findTrades(userId, filters);
+    const feedback = await this.findFeedback(userId);
+    const feedbackCount = new Map<string, number>();
+    feedback.forEach((item: any) => {
+      const tradeId = item.tradeId?._id?.toString();
+      if (tradeId) {
+        feedbackCount.set(tradeId, (feedbackCount.get(tradeId) || 0) + 1);
+      }
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'DayTradeDak';
+    workbook.created = new Date();
+
+    // Trades
+    const tradesSheet = workbook.addWorksheet('Trades');
+    tradesSheet.columns = [
+      { header: 'Date', key: 'tradeDate', width: 12 },
+      { header: 'Symbol', key: 'symbol', width: 10 },
+      { header: 'Market', key: 'market', width: 10 },
+      { header: 'Direction', key: 'direction', width: 10 },
+      { header: 'Strategy Type', key: 'strategyType', width: 16 },
+      { header: 'Legs', key: 'legs', width: 50 },
+      { header: 'Entry Time', key: 'entryTime', width: 20 },
+      { header: 'Exit Time', key: 'exitTime', width: 20 },
+      { header: 'Entry Price', key: 'entryPrice', width: 12 },
+      { header: 'Exit Price', key: 'exitPrice', width: 12 },
+      { header: 'Position Size', key: 'positionSize', width: 12 },
+      { header: 'Gross P&L', key: 'pnl', width: 12 },
+      { header: 'Commission', key: 'commission', width: 12 },
+      { header: 'Net P&L', key: 'netPnl', width: 12 },
+      { header: 'R-Multiple', key: 'rMultiple', width: 10 },
+      { header: 'Setup', key: 'setup', width: 16 },
+      { header: 'Strategy', key: 'strategy', width: 16 },
+      { header: 'Confidence', key: 'confidence', width: 10 },
+      { header: 'Emotion Before', key: 'emotionBefore', width: 14 },
+      { header: 'Emotion During', key: 'emotionDuring', width: 14 },
+      { header: 'Emotion After', key: 'emotionAfter', width: 14 },
+      { header: 'Exit Reason', key: 'exitReasonType', width: 16 },
+      { header: 'Mistakes', key: 'mistakes', width: 30 },
+      { header: 'Rule Violations', key: 'ruleViolations', width: 30 },
+      { header: 'MAE ($)', key: 'maxDrawdown', width: 10 },
+      { header: 'MFE ($)', key: 'maxProfit', width: 10 },
+      { header: 'Status', key: 'status', width: 14 },
+      { header: 'Feedback', key: 'feedback', width: 10 },
+    ];
+    trades.forEach((trade) => {
+      tradesSheet.addRow({
+        ...trade,
+        legs: describeLegs(trade.legs),
+        rMultiple:
+          trade.rMultiple != null ? Number(trade.rMultiple.toFixed(2)) : null,
+        mistakes: (trade.mistakes || []).join(', '),
+        ruleViolations: (trade.ruleViolations || [])
+          .map((violation) => violation.rule)
+          .join(', '),
+        status: trade.isOpen
+          ? 'Open'
+          : trade.isReviewed
+            ? 'Reviewed'
+            : 'Pending Review',
+        feedback: feedbackCount.get(trade._id.toString()) || 0,
+      });
+    });
+    this.formatCurrency(tradesSheet, ['pnl', 'commission', 'netPnl']);
+    tradesSheet.getColumn('tradeDate').numFmt = 'yyyy-mm-dd';
+    tradesSheet.getColumn('entryTime').numFmt = 'yyyy-mm-dd hh:mm';
+    tradesSheet.getColumn('exitTime').numFmt = 'yyyy-mm-dd hh:mm';
+
+    // Option legs, one row per leg
+    const legsSheet = workbook.addWorksheet('Option Legs');
+    legsSheet.columns = [
+      { header: 'Trade Date', key: 'tradeDate', width: 12 },
+      { header: 'Symbol', key: 'symbol', width: 10 },
+      { header: 'Strategy Type', key: 'strategyType', width: 16 },
+      { header: 'Option Type', key: 'optionType', width: 10 },
+      { header: 'Side', key: 'side', width: 8 },
+      { header: 'Strike', key: 'strikePrice', width: 10 },
+      { header: 'Expiration', key: 'expirationDate', width: 12 },
+      { header: 'Ratio', key: 'ratio', width: 8 },
+      { header: 'Entry Premium', key: 'entryPremium', width: 14 },
+      { header: 'Exit Premium', key: 'exitPremium', width: 14 },
+    ];
+    trades
+      .filter((trade) => trade.legs?.length > 0)
+      .forEach((trade) =>
+        trade.legs.forEach((leg) =>
+          legsSheet.addRow({
+            ...leg,
+            tradeDate: trade.tradeDate,
+            symbol: trade.symbol,
+            strategyType: trade.strategyType,
+          }),
+        ),
+      );
+    legsSheet.getColumn('tradeDate').numFmt = 'yyyy-mm-dd';
+    legsSheet.getColumn('expirationDate').numFmt = 'yyyy-mm-dd';
+
+    // Daily P&L
+    const dailySheet = workbook.addWorksheet('Daily P&L');
+    dailySheet.columns = [
+      { header: 'Date', key: 'date', width: 12 },
+      { header: 'Trades', key: 'trades', width: 10 },
+      { header: 'Winners', key: 'winners', width: 10 },
+      { header: 'Net P&L', key: 'netPnl', width: 14 },
+      { header: 'Cumulative', key: 'cumulative', width: 14 },
+    ];
+    dailySheet.addRows(dailyPnlRows(trades));
+    this.formatCurrency(dailySheet, ['netPnl', 'cumulative']);
+
+    this.addStatsSheet(
+      workbook,
+      'By Strategy',
+      'Strategy',
+      statsBy(trades, (trade) => trade.strategy || trade.setup),
+    );
+    this.addStatsSheet(
+      workbook,
+      'By Symbol',
+      'Symbol',
+      statsBy(trades, (trade) => trade.symbol),
+    );
+
+    // Mentor feedback
+    const feedbackSheet = workbook.addWorksheet('Mentor Feedback');
+    feedbackSheet.columns = [
+      { header: 'Date', key: 'createdAt', width: 12 },
+      { header: 'Mentor', key: 'mentor', width: 20 },
+      { header: 'Subject', key: 'subject', width: 24 },
+      { header: 'Overall', key: 'overallRating', width: 9 },
+      { header: 'Risk Mgmt', key: 'riskManagementRating', width: 10 },
+      { header: 'Execution', key: 'executionRating', width: 10 },
+      { header: 'Strengths', key: 'strengths', width: 40 },
+      { header: 'Improvements', key: 'improvements', width: 40 },
+      { header: 'Recommendations', key: 'recommendations', width: 40 },
+      { header: 'Action Items', key: 'actionItems', width: 40 },
+    ];
+    feedback.forEach((item: any) => {
+      feedbackSheet.addRow({
+        ...item,
+        mentor: item.mentorId
+          ? `${item.mentorId.firstName || ''} ${item.mentorId.lastName || ''}`.trim()
+          : '',
+        subject: item.tradeId
+          ? `${item.tradeId.symbol} ${moment.utc(item.tradeId.tradeDate).format('YYYY-MM-DD')}`
+          : item.journalDayId
+            ? `Day ${item.journalDayId.date}`
+            : '',
+        strengths: (item.strengths || []).join('\n'),
+        improvements: (item.improvements || []).join('\n'),
+        recommendations: (item.recommendations || []).join('\n'),
+        actionItems: (item.actionItems || []).join('\n'),
+      });
+    });
+    feedbackSheet.getColumn('createdAt').numFmt = 'yyyy-mm-dd';
+
+    workbook.worksheets.forEach((sheet) => {
+      sheet.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } };
+      sheet.getRow(1).fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: `FF${BRAND_COLOR}` },
+      };
+      sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  /**
+   * Multi-page performance report: key metrics, equity curve, per-strategy
+   * and per-symbol results, best/worst trades and mentor feedback
+   */
+  async generatePerformanceReport(
+    userId: string,
+    filters: FilterTradesDto,
+  ): Promise<Buffer> {
+    const trades = await this.findTrades(userId, filters);
+    const closed = trades.filter((trade) => !trade.isOpen);
+    const metrics = computeAdvancedMetrics(closed, 'month');
+    const excursions = summarizeExcursions(
+      closed
+        .filter(
+          (trade) => trade.excursion?.status === ExcursionStatus.COMPLETED,
+        )
+        .map((trade) => ({
+          maeAmount: trade.maxDrawdown,
+          mfeAmount: trade.maxProfit,
+          maeR: trade.excursion.maeR,
+          mfeR: trade.excursion.mfeR,
+          capture: trade.excursion.capture,
+        })),
+    );
+    const feedback = await this.findFeedback(userId);
+    const student = await this.findUser(userId);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, size: 'A4' });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      // Page 1: summary
+      doc
+        .fontSize(20)
+        .fillColor(`#${BRAND_COLOR}`)
+        .text('Trading Performance Report', { align: 'center' });
+      doc.moveDown(0.5);
+      doc
+        .fontSize(12)
+        .fillColor('#333')
+        .text(student || '', { align: 'center' });
+      doc
+        .fontSize(9)
+        .fillColor('#999')
+        .text(
+          `${this.describePeriod(closed)} - Generated ${moment().format('YYYY-MM-DD HH:mm')}`,
+          { align: 'center' },
+        );
+      doc.moveDown(2);
+
+      this.sectionTitle(doc, 'Key Metrics');
+      this.keyValueRows(doc, this.keyMetrics(metrics, trades.length));
+      doc.moveDown();
+
+      this.sectionTitle(doc, 'Trade Management (MAE / MFE)');
+      this.keyValueRows(doc, [
+        ['Trades analyzed', String(excursions.tradesAnalyzed)],
+        ['Average MAE', this.money(excursions.avgMae)],
+        ['Average MFE', this.money(excursions.avgMfe)],
+        ['Average MAE (R)', this.number(excursions.avgMaeR)],
+        ['Average MFE (R)', this.number(excursions.avgMfeR)],
+        ['Move captured', this.percent(excursions.captureRate)],
+      ]);
+      if (excursions.message) {
+        doc.moveDown(0.5);
+        doc.fontSize(10).fillColor('#333').text(excursions.message);
+      }
+
+      // Page 2: equity curve and monthly results
+      doc.addPage();
+      this.sectionTitle(doc, 'Equity Curve');
+      this.drawEquityCurve(doc, metrics.equityCurve);
+      doc.moveDown();
+      this.sectionTitle(doc, 'Monthly Results');
+      this.table(
+        doc,
+        ['Month', 'Trades', 'Net P&L', 'Win Rate', 'Profit Factor'],
+        metrics.byPeriod.map((period) => [
+          period.period,
+          String(period.trades),
+          this.money(period.netPnl),
+          this.percent(period.winRate),
+          this.number(period.profitFactor),
+        ]),
+      );
+
+      // Page 3: strategies and symbols
+      doc.addPage();
+      this.sectionTitle(doc, 'By Strategy');
+      this.statsTable(
+        doc,
+        statsBy(closed, (trade) => trade.strategy || trade.setup).slice(0, 15),
+      );
+      doc.moveDown();
+      this.sectionTitle(doc, 'By Symbol');
+      this.statsTable(
+        doc,
+        statsBy(closed, (trade) => trade.symbol).slice(0, 15),
+      );
+
+      // Page 4: best/worst trades and feedback
+      doc.addPage();
+      const byPnl = [...closed].sort(
+        (a, b) => (b.netPnl || 0) - (a.netPnl || 0),
+      );
+      const tradeRows = (list: ExportTrade[]) =>
+        list.map((trade) => [
+          moment.utc(trade.tradeDate).format('YYYY-MM-DD'),
+          trade.symbol,
+          trade.direction,
+          this.money(trade.netPnl || 0),
+          this.number(trade.rMultiple),
+        ]);
+      this.sectionTitle(doc, 'Best Trades');
+      this.table(
+        doc,
+        ['Date', 'Symbol', 'Direction', 'Net P&L', 'R'],
+        tradeRows(byPnl.slice(0, 5)),
+      );
+      doc.moveDown();
+      this.sectionTitle(doc, 'Worst Trades');
+      this.table(
+        doc,
+        ['Date', 'Symbol', 'Direction', 'Net P&L', 'R'],
+        tradeRows(byPnl.slice(-5).reverse()),
+      );
+      doc.moveDown();
+
+      this.sectionTitle(doc, 'Recent Mentor Feedback');
+      if (feedback.length === 0) {
+        doc.fontSize(10).fillColor('#333').text('No feedback yet');
+      }
+      feedback.slice(0, 5).forEach((item: any) => {
+        const subject = item.tradeId
+          ? item.tradeId.symbol
+          : item.journalDayId
+            ? `Day ${item.journalDayId.date}`
+            : '';
+        doc
+          .fontSize(10)
+          .fillColor('#000')
+          .text(
+            `${moment(item.createdAt).format('YYYY-MM-DD')} ${subject} - Overall ${item.overallRating}/5`,
+          );
+        doc.fontSize(9).fillColor('#333');
+        if (item.improvements?.length) {
+          doc.text(`Improve: ${item.improvements.join('; ')}`);
+        }
+        if (item.actionItems?.length) {
+          doc.text(`Action items: ${item.actionItems.join('; ')}`);
+        }
+        doc.moveDown(0.5);
+      });
+
+      doc.end();
+    });
+  }
+
+  private async findTrades(
+    userId: string,
+    filters: FilterTradesDto,
+  ): Promise<ExportTrade[]> {
+    const query = this.tradingJournalService.buildTradeQuery(
+      new Types.ObjectId(userId),
+      filters,
+    );
+    return this.tradeModel
+      .find(query)
+      .sort({ tradeDate: 1, entryTime: 1 })
+      .limit(MAX_EXPORT_TRADES)
+      .lean<ExportTrade[]>();
+  }
+
+  private async findFeedback(userId: string) {
+    return this.feedbackModel
+      .find({ studentId: new Types.ObjectId(userId), isVisible: true })
+      .populate('tradeId', 'symbol tradeDate')
+      .populate('journalDayId', 'date')
+      .populate('mentorId', 'firstName lastName')
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  private async findUser(userId: string): Promise<string | null> {
+    // Read the user directly to avoid a module dependency on UsersModule
+    const user = await this.tradeModel.db
+      .model('User')
+      .findById(userId)
+      .select('firstName lastName')
+      .lean<{ firstName?: string; lastName?: string }>();
+    return user
+      ? `${user.firstName || ''} ${user.lastName || ''}`.trim()
+      : null;
+  }
+
+  private addStatsSheet(
+    workbook: ExcelJS.Workbook,
+    name: string,
+    label: string,
+    stats: BehaviorGroupStats[],
+  ) {
+    const sheet = workbook.addWorksheet(name);
+    sheet.columns = [
+      { header: label, key: 'key', width: 20 },
+      { header: 'Trades', key: 'trades', width: 10 },
+      { header: 'Net P&L', key: 'netPnl', width: 14 },
+      { header: 'Avg P&L', key: 'avgPnl', width: 12 },
+      { header: 'Win Rate %', key: 'winRate', width: 12 },
+      { header: 'Avg R', key: 'avgRMultiple', width: 10 },
+    ];
+    sheet.addRows(stats);
+    this.formatCurrency(sheet, ['netPnl', 'avgPnl']);
+  }
+
+  private formatCurrency(sheet: ExcelJS.Worksheet, keys: string[]) {
+    keys.forEach((key) => {
+      sheet.getColumn(key).numFmt = '"$"#,##0.00;[Red]-"$"#,##0.00';
+    });
+  }
+
+  private keyMetrics(
+    metrics: AdvancedMetrics,
+    totalTrades: number,
+  ): [string, string][] {
+    return [
+      ['Trades (closed / total)', `${metrics.totalTrades} / ${totalTrades}`],
+      ['Net P&L', this.money(metrics.netPnl)],
+      ['Win rate', this.percent(metrics.winRate)],
+      ['Profit factor', this.number(metrics.profitFactor)],
+      ['Expectancy per trade', this.money(metrics.expectancy)],
+      ['Expectancy (R)', this.number(metrics.expectancyR)],
+      ['Average win', this.money(metrics.avgWin)],
+      ['Average loss', this.money(metrics.avgLoss)],
+      ['Sharpe ratio', this.number(metrics.sharpeRatio)],
+      ['Sortino ratio', this.number(metrics.sortinoRatio)],
+      ['Max drawdown', this.money(metrics.maxDrawdown.amount)],
+      ['Longest drawdown', `${metrics.longestDrawdownDays} days`],
+      ['Longest win streak', String(metrics.streaks.longestWinStreak)],
+      ['Longest loss streak', String(metrics.streaks.longestLossStreak)],
+      ['Trading days', String(metrics.tradingDays)],
+    ];
+  }
+
+  private describePeriod(trades: ExportTrade[]): string {
+    if (trades.length === 0) {
+      return 'No closed trades';
+    }
+    const first = moment.utc(trades[0].tradeDate).format('YYYY-MM-DD');
+    const last = moment
+      .utc(trades[trades.length - 1].tradeDate)
+      .format('YYYY-MM-DD');
+    return `${first} to ${last}`;
+  }
+
+  private sectionTitle(doc: PDFKit.PDFDocument, title: string) {
+    doc
+      .fontSize(14)
+      .fillColor('#000')
+      .text(title, doc.page.margins.left, doc.y, { underline: true });
+    doc.moveDown(0.5);
+  }
+
+  private keyValueRows(doc: PDFKit.PDFDocument, rows: [string, string][]) {
+    const left = doc.page.margins.left;
+    doc.fontSize(10).fillColor('#333');
+    rows.forEach(([label, value]) => {
+      const y = doc.y;
+      doc.text(label, left, y, { width: 250 });
+      doc.text(value, left + 260, y, { width: 200 });
+    });
+  }
+
+  private table(doc: PDFKit.PDFDocument, headers: string[], rows: string[][]) {
+    const left = doc.page.margins.left;
+    const width =
+      (doc.page.width - doc.page.margins.left - doc.page.margins.right) /
+      headers.length;
+    const writeRow = (cells: string[], color: string) => {
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 20) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      doc.fillColor(color);
+      cells.forEach((cell, index) =>
+        doc.text(cell ?? '', left + index * width, y, {
+          width: width - 5,
+          lineBreak: false,
+          ellipsis: true,
+        }),
+      );
+      doc.x = left;
+      doc.y = y + 14;
+    };
+
+    doc.fontSize(9);
+    writeRow(headers, `#${BRAND_COLOR}`);
+    rows.forEach((row) => writeRow(row, '#333'));
+    if (rows.length === 0) {
+      writeRow(['No data'], '#999');
+    }
+  }
+
+  private statsTable(doc: PDFKit.PDFDocument, stats: BehaviorGroupStats[]) {
+    this.table(
+      doc,
+      ['Name', 'Trades', 'Net P&L', 'Win Rate', 'Avg R'],
+      stats.map((stat) => [
+        stat.key,
+        String(stat.trades),
+        this.money(stat.netPnl),
+        this.percent(stat.winRate),
+        this.number(stat.avgRMultiple),
+      ]),
+    );
+  }
+
+  /**
+   * Equity line with the zero axis and the running peak, scaled to the
+   * printable width
+   */
+  private drawEquityCurve(doc: PDFKit.PDFDocument, curve: EquityPoint[]) {
+    const left = doc.page.margins.left;
+    const top = doc.y;
+    const width =
+      doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const height = 220;
+
+    doc.rect(left, top, width, height).lineWidth(0.5).stroke('#cccccc');
+
+    if (curve.length < 2) {
+      doc
+        .fontSize(10)
+        .fillColor('#999')
+        .text('Not enough closed trades to draw the curve', left, top + 100, {
+          width,
+          align: 'center',
+        });
+      doc.x = left;
+      doc.y = top + height + 10;
+      return;
+    }
+
+    const values = [0, ...curve.map((point) => point.equity)];
+    const max = Math.max(...values);
+    const min = Math.min(...values);
+    const range = max - min || 1;
+    const x = (index: number) => left + (index / curve.length) * width;
+    const y = (value: number) =>
+      top + height - ((value - min) / range) * height;
+
+    // Zero line
+    doc
+      .moveTo(left, y(0))
+      .lineTo(left + width, y(0))
+      .lineWidth(0.5)
+      .dash(3, { space: 3 })
+      .stroke('#999999')
+      .undash();
+
+    // Running peak
+    doc.moveTo(x(0), y(0));
+    curve.forEach((point, index) => doc.lineTo(x(index + 1), y(point.peak)));
+    doc.lineWidth(0.5).stroke('#93c5fd');
+
+    // Equity
+    doc.moveTo(x(0), y(0));
+    curve.forEach((point, index) => doc.lineTo(x(index + 1), y(point.equity)));
+    doc.lineWidth(1.5).stroke(`#${BRAND_COLOR}`);
+
+    doc.fontSize(8).fillColor('#666');
+    doc.text(this.money(max), left + 4, top + 4, { lineBreak: false });
+    doc.text(this.money(min), left + 4, top + height - 12, {
+      lineBreak: false,
+    });
+    doc.text(
+      moment.utc(curve[0].date).format('YYYY-MM-DD'),
+      left,
+      top + height + 4,
+      { lineBreak: false },
+    );
+    doc.text(
+      moment.utc(curve[curve.length - 1].date).format('YYYY-MM-DD'),
+      left + width - 60,
+      top + height + 4,
+      { lineBreak: false },
+    );
+
+    doc.x = left;
+    doc.y = top + height + 20;
+  }
+
+  private money(value: number | null | undefined): string {
+    if (value == null) return '-';
+    const sign = value < 0 ? '-' : '';
+    return `${sign}$${Math.abs(value).toFixed(2)}`;
+  }
+
+  private percent(value: number | null | undefined): string {
+    return value == null ? '-' : `${value.toFixed(1)}%`;
+  }
+
+  private number(value: number | null | undefined): string {
+    return value == null ? '-' : value.toFixed(2);
+  }
+}
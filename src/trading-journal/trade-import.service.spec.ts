@@ -0,0 +1,177 @@
+import * as mongoose from 'mongoose';
+import {
+  ExecutionSide,
+  MarketType,
+  TradeDirection,
+  TradeDocument,
+  TradeSchema,
+} from './schemas/trade.schema';
+import { ImportFormat } from './dto/import-trades.dto';
+import { ImportedTrade } from './importers/import.types';
+import { matchExecutions } from './importers/execution-matcher';
+import { TradeImportService } from './trade-import.service';
+import { TradingJournalService } from './trading-journal.service';
+import { TradeExcursionService } from './trade-excursion.service';
+import { TradingPlanService } from './trading-plan.service';
+
+jest.mock('./importers/execution-matcher', () => ({
+  matchExecutions: jest.fn(),
+}));
+// Stand-ins keep the spec from loading the services' own dependencies
+jest.mock('./trading-journal.service', () => ({
+  TradingJournalService: class {},
+}));
+jest.mock('./trade-excursion.service', () => ({
+  TradeExcursionService: class {},
+}));
+jest.mock('./trading-plan.service', () => ({
+  TradingPlanService: class {},
+}));
+
+const at = (time: string) => new Date(`2025-01-15T${time}:00Z`);
+
+const importedTrade = (
+  symbol: string,
+  row: number,
+  executions: ImportedTrade['executions'],
+): ImportedTrade => ({
+  symbol,
+  market: MarketType.STOCKS,
+  direction: TradeDirection.LONG,
+  entryTime: executions[0].time,
+  entryPrice: executions[0].price,
+  positionSize: executions[0].quantity,
+  commission: 0,
+  isOpen: false,
+  executions,
+  sourceRows: [row, row + 1],
+});
+
+describe('TradeImportService', () => {
+  const TradeModel = mongoose.model<TradeDocument>(
+    'TradeImportSpecTrade',
+    TradeSchema as mongoose.Schema,
+  );
+  let service: TradeImportService;
+  let enqueue: jest.Mock;
+  let applyRules: jest.Mock;
+
+  beforeEach(() => {
+    // No database: save() runs validation, hooks included, and resolves
+    jest
+      .spyOn(TradeModel.prototype, 'save')
+      .mockImplementation(async function () {
+        await this.validate();
+        return this;
+      });
+    jest.spyOn(TradeModel, 'find').mockReturnValue({
+      select: () => ({ lean: () => Promise.resolve([]) }),
+    } as unknown as ReturnType<typeof TradeModel.find>);
+
+    enqueue = jest.fn().mockResolvedValue(undefined);
+    applyRules = jest.fn().mockResolvedValue(false);
+    service = new TradeImportService(
+      TradeModel,
+      {
+        validateMarketType: jest.fn().mockResolvedValue(undefined),
+        getInstrumentSpecs: jest.fn().mockResolvedValue(undefined),
+      } as unknown as TradingJournalService,
+      { enqueue } as unknown as TradeExcursionService,
+      { applyRules } as unknown as TradingPlanService,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reports an over-closing row and saves the others', async () => {
+    (matchExecutions as jest.Mock).mockReturnValue([
+      importedTrade('AAPL', 2, [
+        {
+          side: ExecutionSide.BUY,
+          quantity: 100,
+          price: 150,
+          time: at('14:35'),
+          fees: 1,
+        },
+        {
+          side: ExecutionSide.SELL,
+          quantity: 100,
+          price: 152,
+          time: at('15:05'),
+          fees: 1,
+        },
+      ]),
+      importedTrade('MSFT', 4, [
+        {
+          side: ExecutionSide.BUY,
+          quantity: 10,
+          price: 400,
+          time: at('14:40'),
+          fees: 0,
+        },
+        {
+          side: ExecutionSide.SELL,
+          quantity: 25,
+          price: 405,
+          time: at('15:10'),
+          fees: 0,
+        },
+      ]),
+    ]);
+
+    const result = await service.importTrades('507f1f77bcf86cd799439011', '', {
+      format: ImportFormat.OFX,
+    });
+
+    expect(result.imported).toBe(1);
+    expect(result.errors).toContainEqual({
+      row: 4,
+      message: 'Exit of 25 exceeds the open quantity of 10',
+    });
+    expect(enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks every imported trade against the trading plan', async () => {
+    (matchExecutions as jest.Mock).mockReturnValue([
+      importedTrade('MSFT', 4, [
+        {
+          side: ExecutionSide.BUY,
+          quantity: 10,
+          price: 400,
+          time: at('15:40'),
+          fees: 0,
+        },
+      ]),
+      importedTrade('AAPL', 2, [
+        {
+          side: ExecutionSide.BUY,
+          quantity: 100,
+          price: 150,
+          time: at('14:35'),
+          fees: 1,
+        },
+        {
+          side: ExecutionSide.SELL,
+          quantity: 100,
+          price: 152,
+          time: at('15:05'),
+          fees: 1,
+        },
+      ]),
+    ]);
+    applyRules.mockResolvedValueOnce(true);
+
+    const result = await service.importTrades('507f1f77bcf86cd799439011', '', {
+      format: ImportFormat.OFX,
+    });
+
+    expect(result.imported).toBe(2);
+    expect(applyRules).toHaveBeenCalledTimes(2);
+    // Oldest first, so daily limits see the trades before it
+    expect(applyRules.mock.calls.map(([trade]) => trade.symbol)).toEqual([
+      'AAPL',
+      'MSFT',
+    ]);
+    expect(applyRules.mock.calls[0][1]).toEqual({ entry: true, exit: true });
+  });
+});
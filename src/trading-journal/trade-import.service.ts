@@ -0,0 +1,252 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { MarketType, TradeDocument } from './schemas/trade.schema';
+import { ImportFormat, ImportTradesDto } from './dto/import-trades.dto';
+import { TradingJournalService } from './trading-journal.service';
+import { TradeExcursionService } from './trade-excursion.service';
+import { TradingPlanService } from './trading-plan.service';
+import {
+  BrokerStatementParser,
+  ColumnMapping,
+  ImportedTrade,
+  ImportRowError,
+} from './importers/import.types';
+import { GenericCsvParser } from './importers/generic-csv.parser';
+import { OfxParser } from './importers/ofx.parser';
+import { IbkrFlexParser } from './importers/ibkr-flex.parser';
+import { ThinkorswimParser } from './importers/thinkorswim.parser';
+import { WebullParser } from './importers/webull.parser';
+import { matchExecutions } from './importers/execution-matcher';
+import { resolveContractMultiplier } from './utils/instrument-specs';
+import { ExecutionError } from './utils/trade-calculations';
+
+export interface ImportPreviewTrade extends ImportedTrade {
+  duplicate: boolean;
+}
+
+export interface TradeImportResult {
+  dryRun: boolean;
+  format: ImportFormat;
+  executionsParsed: number;
+  tradesDetected: number;
+  imported: number;
+  duplicates: number;
+  trades: ImportPreviewTrade[];
+  errors: ImportRowError[];
+}
+
+@Injectable()
+export class TradeImportService {
+  private readonly logger = new Logger(TradeImportService.name);
+
+  private readonly parsers: Record<ImportFormat, BrokerStatementParser> = {
+    [ImportFormat.GENERIC_CSV]: new GenericCsvParser(),
+    [ImportFormat.OFX]: new OfxParser(),
+    [ImportFormat.IBKR_FLEX]: new IbkrFlexParser(),
+    [ImportFormat.THINKORSWIM]: new ThinkorswimParser(),
+    [ImportFormat.WEBULL]: new WebullParser(),
+  };
+
+  constructor(
+    @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
+    private readonly tradingJournalService: TradingJournalService,
+    private readonly tradeExcursionService: TradeExcursionService,
+    private readonly tradingPlanService: TradingPlanService,
+  ) {}
+
+  /**
+   * Parse a broker statement, pair its fills into trades and (unless dryRun)
+   * save the trades that are not already in the journal.
+   */
+  async importTrades(
+    userId: string,
+    content: string,
+    dto: ImportTradesDto,
+  ): Promise<TradeImportResult> {
+    let columnMapping: ColumnMapping | undefined;
+    if (dto.columnMapping) {
+      columnMapping = JSON.parse(dto.columnMapping);
+    }
+    if (dto.format === ImportFormat.GENERIC_CSV && !columnMapping) {
+      throw new BadRequestException(
+        'columnMapping is required for generic CSV imports',
+      );
+    }
+
+    const { executions, errors } = this.parsers[dto.format].parse(content, {
+      timezone: dto.timezone || 'America/New_York',
+      defaultMarket: dto.defaultMarket || MarketType.STOCKS,
+      columnMapping,
+    });
+
+    const detected = matchExecutions(executions);
+    const userObjectId = new Types.ObjectId(userId);
+
+    // Drop trades in markets the journal does not accept, reporting their rows
+    const allowedMarkets = new Set<string>();
+    for (const market of new Set(detected.map((trade) => trade.market))) {
+      try {
+        await this.tradingJournalService.validateMarketType(market);
+        allowedMarkets.add(market);
+      } catch (error) {
+        for (const trade of detected.filter((t) => t.market === market)) {
+          errors.push({ row: trade.sourceRows[0], message: error.message });
+        }
+      }
+    }
+    const candidates = detected.filter((trade) =>
+      allowedMarkets.has(trade.market),
+    );
+
+    const existingKeys = await this.findExistingKeys(userObjectId, candidates);
+    const seenKeys = new Set<string>();
+    const trades: ImportPreviewTrade[] = candidates.map((trade) => {
+      const key = this.dedupKey(
+        trade.symbol,
+        trade.entryTime,
+        trade.entryPrice,
+      );
+      const duplicate = existingKeys.has(key) || seenKeys.has(key);
+      seenKeys.add(key);
+      return { ...trade, duplicate };
+    });
+
+    const toCreate = trades.filter((trade) => !trade.duplicate);
+    let imported = 0;
+
+    if (!dto.dryRun && toCreate.length > 0) {
+      const specs = await this.tradingJournalService.getInstrumentSpecs();
+      const saved: TradeDocument[] = [];
+      // Rows are saved one at a time so a row the pre-validate hook rejects
+      // (e.g. an exit larger than the open position) lands in the report
+      // instead of failing the rest of the import. Entry order lets the
+      // trading plan's daily limits count the earlier imported trades.
+      const ordered = [...toCreate].sort(
+        (a, b) => a.entryTime.getTime() - b.entryTime.getTime(),
+      );
+      for (const trade of ordered) {
+        const document = new this.tradeModel({
+          ...this.toTradeDocument(userObjectId, trade, dto.format),
+          contractMultiplier: resolveContractMultiplier(
+            specs,
+            trade.market,
+            trade.symbol,
+          ),
+        });
+        try {
+          saved.push(await this.applyTradingPlan(await document.save()));
+        } catch (error) {
+          if (
+            !(error instanceof ExecutionError) &&
+            error?.name !== 'ValidationError'
+          ) {
+            this.logger.error(
+              `Could not save imported row ${trade.sourceRows[0]}: ${error.message}`,
+            );
+          }
+          errors.push({ row: trade.sourceRows[0], message: error.message });
+        }
+      }
+
+      imported = saved.length;
+      for (const trade of saved.filter((document) => !document.isOpen)) {
+        await this.tradeExcursionService.enqueue(trade._id.toString());
+      }
+      this.logger.log(
+        `Imported ${imported} ${dto.format} trades for user ${userId}`,
+      );
+    }
+
+    return {
+      dryRun: !!dto.dryRun,
+      format: dto.format,
+      executionsParsed: executions.length,
+      tradesDetected: detected.length,
+      imported,
+      duplicates: trades.length - toCreate.length,
+      trades,
+      errors: errors.sort((a, b) => a.row - b.row),
+    };
+  }
+
+  /**
+   * Check an imported trade against the user's trading plan, as trades
+   * created in the journal are
+   */
+  private async applyTradingPlan(trade: TradeDocument): Promise<TradeDocument> {
+    try {
+      if (
+        await this.tradingPlanService.applyRules(trade, {
+          entry: true,
+          exit: true,
+        })
+      ) {
+        return await trade.save();
+      }
+    } catch (error) {
+      // The trade is already saved; a rule check failure must not drop it
+      this.logger.error(
+        `Could not apply trading plan rules to trade ${trade._id}: ${error.message}`,
+      );
+    }
+    return trade;
+  }
+
+  private async findExistingKeys(
+    userId: Types.ObjectId,
+    trades: ImportedTrade[],
+  ): Promise<Set<string>> {
+    if (trades.length === 0) {
+      return new Set();
+    }
+
+    const existing = await this.tradeModel
+      .find({
+        userId,
+        symbol: { $in: [...new Set(trades.map((trade) => trade.symbol))] },
+        entryTime: { $in: trades.map((trade) => trade.entryTime) },
+      })
+      .select('symbol entryTime entryPrice')
+      .lean();
+
+    return new Set(
+      existing.map((trade) =>
+        this.dedupKey(trade.symbol, trade.entryTime, trade.entryPrice),
+      ),
+    );
+  }
+
+  private dedupKey(
+    symbol: string,
+    entryTime: Date,
+    entryPrice: number,
+  ): string {
+    return `${symbol.toUpperCase()}|${new Date(entryTime).getTime()}|${Number(entryPrice).toFixed(4)}`;
+  }
+
+  private toTradeDocument(
+    userId: Types.ObjectId,
+    trade: ImportedTrade,
+    format: ImportFormat,
+  ) {
+    return {
+      userId,
+      tradeDate: trade.entryTime,
+      symbol: trade.symbol,
+      market: trade.market,
+      direction: trade.direction,
+      entryTime: trade.entryTime,
+      entryPrice: trade.entryPrice,
+      positionSize: trade.positionSize,
+      exitTime: trade.exitTime,
+      exitPrice: trade.exitPrice,
+      commission: trade.commission,
+      optionType: trade.optionType,
+      strikePrice: trade.strikePrice,
+      expirationDate: trade.expirationDate,
+      executions: trade.executions,
+      importSource: format,
+    };
+  }
+}
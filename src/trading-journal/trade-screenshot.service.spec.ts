@@ -0,0 +1,151 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { TradeDocument } from './schemas/trade.schema';
+import { TradeScreenshotService } from './trade-screenshot.service';
+import { S3ServiceOptimized } from '../aws/s3/s3.service.optimized';
+
+// Stand-in keeps the spec from loading the S3 client and its config
+jest.mock('../aws/s3/s3.service.optimized', () => ({
+  S3ServiceOptimized: class {},
+}));
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('TradeScreenshotService', () => {
+  const userId = new Types.ObjectId().toString();
+  const tradeId = new Types.ObjectId().toString();
+  const prefix = `trading-journal/screenshots/${userId}/${tradeId}/`;
+  const key = `${prefix}0b6f5c2e-8f1d-4d57-9a7b-1c2d3e4f5a6b-chart.png`;
+  const thumbnailKey = key.replace('.png', '-thumb.jpg');
+
+  let service: TradeScreenshotService;
+  let tradeModel: { findOne: jest.Mock; find: jest.Mock; updateOne: jest.Mock };
+  let s3Service: Record<string, jest.Mock>;
+  let screenshotImages: { _id: Types.ObjectId; key: string }[];
+
+  beforeEach(() => {
+    screenshotImages = [];
+    const lean = (value: () => unknown) => ({
+      lean: jest.fn().mockImplementation(async () => value()),
+    });
+    tradeModel = {
+      findOne: jest.fn().mockImplementation(() =>
+        lean(() => ({
+          _id: new Types.ObjectId(tradeId),
+          screenshotImages,
+        })),
+      ),
+      find: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1 }),
+    };
+    s3Service = {
+      getObjectBuffer: jest
+        .fn()
+        .mockResolvedValue({ buffer: PNG, contentType: 'image/png' }),
+      uploadBuffer: jest.fn().mockResolvedValue(undefined),
+      deleteObjects: jest.fn().mockResolvedValue(undefined),
+      getSignedUrl: jest.fn().mockImplementation(async (k) => `signed:${k}`),
+      listObjects: jest.fn(),
+    };
+    const configService = {
+      get: jest.fn((_key: string, fallback: string) => fallback),
+    };
+
+    service = new TradeScreenshotService(
+      tradeModel as unknown as Model<TradeDocument>,
+      s3Service as unknown as S3ServiceOptimized,
+      configService as unknown as ConfigService,
+    );
+    jest
+      .spyOn(service as any, 'createThumbnail')
+      .mockResolvedValue(Buffer.from('thumbnail'));
+  });
+
+  describe('attachScreenshot', () => {
+    it('attaches an uploaded image with a thumbnail', async () => {
+      const result = await service.attachScreenshot(userId, tradeId, { key });
+
+      expect(result.fileName).toBe('chart.png');
+      expect(result.thumbnailKey).toBe(thumbnailKey);
+      const [filter, update] = tradeModel.updateOne.mock.calls[0];
+      expect(filter['screenshotImages.9']).toEqual({ $exists: false });
+      expect(update.$push.screenshotImages.key).toBe(key);
+      expect(s3Service.deleteObjects).not.toHaveBeenCalled();
+    });
+
+    it('rejects keys outside the trade folder', async () => {
+      const otherKey = `trading-journal/screenshots/${new Types.ObjectId()}/${tradeId}/chart.png`;
+
+      await expect(
+        service.attachScreenshot(userId, tradeId, { key: otherKey }),
+      ).rejects.toThrow('Invalid screenshot key');
+      expect(s3Service.getObjectBuffer).not.toHaveBeenCalled();
+    });
+
+    it('deletes uploads whose content is not the declared image', async () => {
+      s3Service.getObjectBuffer.mockResolvedValue({
+        buffer: Buffer.from('<html></html>'),
+        contentType: 'image/png',
+      });
+
+      await expect(
+        service.attachScreenshot(userId, tradeId, { key }),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Service.deleteObjects).toHaveBeenCalledWith([key]);
+      expect(tradeModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('deletes the upload when the trade filled up in the meantime', async () => {
+      tradeModel.updateOne.mockResolvedValue({ matchedCount: 0 });
+
+      await expect(
+        service.attachScreenshot(userId, tradeId, { key }),
+      ).rejects.toThrow('at most 10 screenshots');
+      expect(s3Service.deleteObjects).toHaveBeenCalledWith([key, thumbnailKey]);
+    });
+
+    it('keeps the files when a concurrent request attached them', async () => {
+      tradeModel.updateOne.mockImplementation(async () => {
+        screenshotImages = [{ _id: new Types.ObjectId(), key }];
+        return { matchedCount: 0 };
+      });
+
+      await expect(
+        service.attachScreenshot(userId, tradeId, { key }),
+      ).rejects.toThrow('Screenshot is already attached');
+      expect(s3Service.deleteObjects).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeOrphanedUploads', () => {
+    it('deletes old files that no trade refers to', async () => {
+      const old = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+      const deletedTrade = new Types.ObjectId().toString();
+      const orphanKey = `trading-journal/screenshots/${userId}/${deletedTrade}/lost.png`;
+      const unattachedKey = `${prefix}never-attached.png`;
+      s3Service.listObjects.mockResolvedValue([
+        { key, lastModified: old },
+        { key: thumbnailKey, lastModified: old },
+        { key: unattachedKey, lastModified: old },
+        { key: orphanKey, lastModified: old },
+        { key: `${prefix}uploading.png`, lastModified: new Date() },
+      ]);
+      tradeModel.find.mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          lean: jest
+            .fn()
+            .mockResolvedValue([
+              { _id: tradeId, screenshotImages: [{ key, thumbnailKey }] },
+            ]),
+        }),
+      });
+
+      await expect(service.removeOrphanedUploads()).resolves.toBe(2);
+      expect(s3Service.deleteObjects).toHaveBeenCalledWith([
+        unattachedKey,
+        orphanKey,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,405 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import * as ffmpeg from 'fluent-ffmpeg';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { S3ServiceOptimized } from '../aws/s3/s3.service.optimized';
+import { FileValidationHelper } from '../helpers/file-validation.helper';
+import { Trade, TradeDocument, TradeScreenshot } from './schemas/trade.schema';
+import {
+  AttachScreenshotDto,
+  RequestScreenshotUploadDto,
+  UpdateScreenshotDto,
+} from './dto/trade-screenshot.dto';
+
+const MAX_SCREENSHOT_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_SCREENSHOTS_PER_TRADE = 10;
+const UPLOAD_URL_EXPIRY = 15 * 60; // 15 minutes
+const THUMBNAIL_WIDTH = 400;
+// Uploads left unattached for this long are treated as abandoned
+const ORPHAN_UPLOAD_AGE_MS = 24 * 60 * 60 * 1000;
+
+type StoredScreenshot = TradeScreenshot & { _id: Types.ObjectId };
+type TradeWithScreenshots = Omit<Trade, 'screenshotImages'> & {
+  _id: Types.ObjectId;
+  screenshotImages: StoredScreenshot[];
+};
+
+@Injectable()
+export class TradeScreenshotService {
+  private readonly logger = new Logger(TradeScreenshotService.name);
+
+  constructor(
+    @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
+    @Inject('S3Service') private readonly s3Service: S3ServiceOptimized,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Validate the file the client is about to upload and hand out a presigned
+   * URL to PUT it straight to S3
+   */
+  async requestUpload(
+    userId: string,
+    tradeId: string,
+    dto: RequestScreenshotUploadDto,
+  ) {
+    const trade = await this.findTrade(userId, tradeId);
+
+    FileValidationHelper.validateImageUpload(
+      dto.fileName,
+      dto.contentType,
+      dto.size,
+      MAX_SCREENSHOT_SIZE,
+    );
+    if ((trade.screenshotImages || []).length >= MAX_SCREENSHOTS_PER_TRADE) {
+      throw new BadRequestException(
+        `A trade can have at most ${MAX_SCREENSHOTS_PER_TRADE} screenshots`,
+      );
+    }
+
+    const fileName = FileValidationHelper.sanitizeFileName(dto.fileName);
+    const key = `${this.keyPrefix(userId, tradeId)}${uuidv4()}-${fileName}`;
+    const uploadUrl = await this.s3Service.getPresignedUploadUrl(
+      key,
+      dto.contentType,
+      dto.size,
+      UPLOAD_URL_EXPIRY,
+    );
+
+    return {
+      key,
+      uploadUrl,
+      method: 'PUT',
+      headers: { 'Content-Type': dto.contentType },
+      expiresIn: UPLOAD_URL_EXPIRY,
+    };
+  }
+
+  /**
+   * Attach an uploaded file to the trade once the client has PUT it: the
+   * content is checked against its type and a thumbnail is generated
+   */
+  async attachScreenshot(
+    userId: string,
+    tradeId: string,
+    dto: AttachScreenshotDto,
+  ) {
+    const trade = await this.findTrade(userId, tradeId);
+
+    if (!dto.key.startsWith(this.keyPrefix(userId, tradeId))) {
+      throw new BadRequestException('Invalid screenshot key');
+    }
+    if ((trade.screenshotImages || []).some((image) => image.key === dto.key)) {
+      throw new BadRequestException('Screenshot is already attached');
+    }
+
+    const object = await this.s3Service.getObjectBuffer(dto.key);
+    if (!object) {
+      throw new BadRequestException('Screenshot has not been uploaded');
+    }
+
+    const contentType = object.contentType || '';
+    const fileName = dto.key.substring(dto.key.lastIndexOf('/') + 1);
+    try {
+      FileValidationHelper.validateImageUpload(
+        fileName,
+        contentType,
+        object.buffer.length,
+        MAX_SCREENSHOT_SIZE,
+      );
+      FileValidationHelper.validateImageContent(object.buffer, contentType);
+    } catch (error) {
+      await this.deleteKeys([dto.key]);
+      throw error;
+    }
+
+    const thumbnailKey = await this.uploadThumbnail(
+      userId,
+      dto.key,
+      object.buffer,
+    );
+
+    const screenshot = {
+      _id: new Types.ObjectId(),
+      key: dto.key,
+      thumbnailKey,
+      fileName: fileName.replace(/^[0-9a-f-]{36}-/, ''),
+      contentType,
+      size: object.buffer.length,
+      caption: dto.caption,
+      annotations: dto.annotations || [],
+      uploadedAt: new Date(),
+    };
+
+    // The filter re-checks the limit and duplicates, since other uploads
+    // may have been attached since the trade was read
+    const result = await this.tradeModel.updateOne(
+      {
+        _id: trade._id,
+        [`screenshotImages.${MAX_SCREENSHOTS_PER_TRADE - 1}`]: {
+          $exists: false,
+        },
+        'screenshotImages.key': { $ne: dto.key },
+      },
+      { $push: { screenshotImages: screenshot } },
+      { runValidators: true },
+    );
+    if (result.matchedCount === 0) {
+      // A concurrent attach of the same key owns these files
+      if (await this.isAttached(userId, tradeId, dto.key)) {
+        throw new BadRequestException('Screenshot is already attached');
+      }
+      await this.deleteKeys([dto.key, thumbnailKey]);
+      throw new BadRequestException(
+        `A trade can have at most ${MAX_SCREENSHOTS_PER_TRADE} screenshots`,
+      );
+    }
+
+    return this.withUrls(screenshot);
+  }
+
+  /**
+   * Screenshots of a trade with signed URLs. Pass no userId for mentor access.
+   */
+  async listScreenshots(tradeId: string, userId?: string) {
+    const trade = await this.findTrade(userId, tradeId);
+    return Promise.all(
+      (trade.screenshotImages || []).map((image) => this.withUrls(image)),
+    );
+  }
+
+  async updateScreenshot(
+    userId: string,
+    tradeId: string,
+    screenshotId: string,
+    dto: UpdateScreenshotDto,
+  ) {
+    const update: Record<string, unknown> = {};
+    if (dto.caption !== undefined) {
+      update['screenshotImages.$.caption'] = dto.caption;
+    }
+    if (dto.annotations !== undefined) {
+      update['screenshotImages.$.annotations'] = dto.annotations;
+    }
+
+    const trade = await this.tradeModel
+      .findOneAndUpdate(
+        {
+          _id: new Types.ObjectId(tradeId),
+          userId: new Types.ObjectId(userId),
+          'screenshotImages._id': new Types.ObjectId(screenshotId),
+        },
+        { $set: update },
+        { new: true, runValidators: true },
+      )
+      .lean<TradeWithScreenshots>();
+    if (!trade) {
+      throw new NotFoundException('Screenshot not found');
+    }
+
+    const image = trade.screenshotImages.find(
+      (item) => item._id.toString() === screenshotId,
+    );
+    return this.withUrls(image);
+  }
+
+  async removeScreenshot(
+    userId: string,
+    tradeId: string,
+    screenshotId: string,
+  ): Promise<void> {
+    const trade = await this.findTrade(userId, tradeId);
+    const image = (trade.screenshotImages || []).find(
+      (item) => item._id.toString() === screenshotId,
+    );
+    if (!image) {
+      throw new NotFoundException('Screenshot not found');
+    }
+
+    await this.tradeModel.updateOne(
+      { _id: trade._id },
+      {
+        $pull: {
+          screenshotImages: { _id: new Types.ObjectId(screenshotId) },
+        },
+      },
+    );
+    await this.deleteKeys([image.key, image.thumbnailKey]);
+  }
+
+  /**
+   * Remove the stored files of deleted screenshots. Failures are logged and
+   * do not block the caller.
+   */
+  async deleteImages(images: TradeScreenshot[] = []): Promise<void> {
+    await this.deleteKeys(
+      images.flatMap((image) => [image.key, image.thumbnailKey]),
+    );
+  }
+
+  /**
+   * Delete uploads that were never attached to their trade, or whose trade
+   * no longer exists
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async removeOrphanedUploads(): Promise<number> {
+    const folder = this.screenshotFolder();
+    const cutoff = Date.now() - ORPHAN_UPLOAD_AGE_MS;
+    const objects = (await this.s3Service.listObjects(`${folder}/`)).filter(
+      (object) => object.lastModified && object.lastModified.getTime() < cutoff,
+    );
+
+    // Keys are <folder>/<userId>/<tradeId>/<file>
+    const tradeIds = [
+      ...new Set(
+        objects
+          .map((object) => object.key.slice(folder.length + 1).split('/')[1])
+          .filter((id) => Types.ObjectId.isValid(id)),
+      ),
+    ];
+    const trades = await this.tradeModel
+      .find({ _id: { $in: tradeIds.map((id) => new Types.ObjectId(id)) } })
+      .select('screenshotImages.key screenshotImages.thumbnailKey')
+      .lean<TradeWithScreenshots[]>();
+    const attached = new Set(
+      trades.flatMap((trade) =>
+        (trade.screenshotImages || []).flatMap((image) => [
+          image.key,
+          image.thumbnailKey,
+        ]),
+      ),
+    );
+
+    const orphaned = objects
+      .map((object) => object.key)
+      .filter((key) => !attached.has(key));
+    await this.deleteKeys(orphaned);
+    if (orphaned.length > 0) {
+      this.logger.log(`Removed ${orphaned.length} unattached screenshots`);
+    }
+    return orphaned.length;
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    const existing = keys.filter(Boolean);
+    if (existing.length === 0) {
+      return;
+    }
+    try {
+      await this.s3Service.deleteObjects(existing);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete screenshots ${existing.join(', ')}: ${error.message}`,
+      );
+    }
+  }
+
+  private async findTrade(
+    userId: string | undefined,
+    tradeId: string,
+  ): Promise<TradeWithScreenshots> {
+    const trade = await this.tradeModel
+      .findOne({
+        _id: new Types.ObjectId(tradeId),
+        ...(userId ? { userId: new Types.ObjectId(userId) } : {}),
+      })
+      .lean<TradeWithScreenshots>();
+    if (!trade) {
+      throw new NotFoundException('Trade not found');
+    }
+    return trade;
+  }
+
+  private async isAttached(
+    userId: string,
+    tradeId: string,
+    key: string,
+  ): Promise<boolean> {
+    const trade = await this.findTrade(userId, tradeId);
+    return (trade.screenshotImages || []).some((image) => image.key === key);
+  }
+
+  private keyPrefix(userId: string, tradeId: string): string {
+    return `${this.screenshotFolder()}/${userId}/${tradeId}/`;
+  }
+
+  private screenshotFolder(): string {
+    return this.configService.get<string>(
+      'aws.s3.tradeScreenshotFolder',
+      'trading-journal/screenshots',
+    );
+  }
+
+  private async withUrls(image: StoredScreenshot) {
+    const [url, thumbnailUrl] = await Promise.all([
+      this.s3Service.getSignedUrl(image.key),
+      image.thumbnailKey
+        ? this.s3Service.getSignedUrl(image.thumbnailKey)
+        : Promise.resolve(null),
+    ]);
+    return { ...image, url, thumbnailUrl };
+  }
+
+  private async uploadThumbnail(
+    userId: string,
+    key: string,
+    image: Buffer,
+  ): Promise<string | undefined> {
+    try {
+      const thumbnail = await this.createThumbnail(image);
+      const thumbnailKey = `${key.replace(/\.[^./]+$/, '')}-thumb.jpg`;
+      await this.s3Service.uploadBuffer(thumbnailKey, thumbnail, 'image/jpeg', {
+        userId,
+        source: key,
+      });
+      return thumbnailKey;
+    } catch (error) {
+      // The full image is still usable without a thumbnail
+      this.logger.warn(
+        `Failed to generate thumbnail for ${key}: ${error.message}`,
+      );
+      return undefined;
+    }
+  }
+
+  // Scale the image down to THUMBNAIL_WIDTH (never up) as a JPEG
+  private async createThumbnail(image: Buffer): Promise<Buffer> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'trade-screenshot-'));
+    const input = path.join(dir, 'source');
+    const output = path.join(dir, 'thumbnail.jpg');
+
+    try {
+      await fs.writeFile(input, image);
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(input)
+          .outputOptions([
+            '-vf',
+            `scale='min(${THUMBNAIL_WIDTH},iw)':-2`,
+            '-frames:v',
+            '1',
+            '-q:v',
+            '4',
+          ])
+          .output(output)
+          .on('end', () => resolve())
+          .on('error', reject)
+          .run();
+      });
+      return await fs.readFile(output);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
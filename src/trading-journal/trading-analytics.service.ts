@@ -0,0 +1,163 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { TradeDocument } from './schemas/trade.schema';
+import { TradingJournalService } from './trading-journal.service';
+import { AdvancedAnalyticsDto } from './dto/advanced-analytics.dto';
+import { HeatmapFiltersDto } from './dto/heatmap-filters.dto';
+import { FilterTradesDto } from './dto/filter-trades.dto';
+import {
+  AdvancedMetrics,
+  computeAdvancedMetrics,
+} from './utils/performance-metrics';
+import {
+  buildTimeHeatmaps,
+  holdingBandExpression,
+  TimeHeatmaps,
+} from './utils/time-heatmaps';
+import { BehaviorReport, buildBehaviorReport } from './utils/behavior-report';
+
+const DEFAULT_HEATMAP_TIMEZONE = 'America/New_York';
+
+@Injectable()
+export class TradingAnalyticsService {
+  constructor(
+    @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
+    private readonly tradingJournalService: TradingJournalService,
+  ) {}
+
+  /**
+   * Expectancy, risk-adjusted returns, streaks, drawdowns and the equity
+   * curve over the closed trades matching the filters
+   */
+  async getAdvancedAnalytics(
+    userId: string,
+    filters: AdvancedAnalyticsDto,
+  ): Promise<AdvancedMetrics> {
+    const query = this.tradingJournalService.buildTradeQuery(
+      new Types.ObjectId(userId),
+      filters,
+    );
+
+    const trades = await this.tradeModel
+      .find({ ...query, isOpen: false })
+      .sort({ exitTime: 1, tradeDate: 1 })
+      .select('symbol tradeDate exitTime netPnl rMultiple')
+      .lean();
+
+    return computeAdvancedMetrics(trades, filters.period);
+  }
+
+  /**
+   * Net P&L, win rate and trade count of closed trades bucketed by entry
+   * time-of-day, weekday and holding-time band in the given timezone
+   */
+  async getTimeHeatmaps(
+    userId: string,
+    filters: HeatmapFiltersDto,
+  ): Promise<TimeHeatmaps> {
+    const timezone = filters.timezone || DEFAULT_HEATMAP_TIMEZONE;
+    const bucketMinutes = filters.bucketMinutes || 60;
+    const query = this.tradingJournalService.buildTradeQuery(
+      new Types.ObjectId(userId),
+      filters,
+    );
+
+    const bucket = (...keys: string[]) => [
+      {
+        $group: {
+          _id: Object.fromEntries(keys.map((key) => [key, `$${key}`])),
+          trades: { $sum: 1 },
+          winners: { $sum: { $cond: [{ $gt: ['$netPnl', 0] }, 1, 0] } },
+          netPnl: { $sum: { $ifNull: ['$netPnl', 0] } },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          ...Object.fromEntries(keys.map((key) => [key, `$_id.${key}`])),
+          trades: 1,
+          winners: 1,
+          netPnl: 1,
+        },
+      },
+    ];
+
+    const [facets] = await this.tradeModel.aggregate([
+      {
+        $match: {
+          ...query,
+          isOpen: false,
+          entryTime: { $exists: true, $ne: null },
+        },
+      },
+      {
+        $project: {
+          netPnl: 1,
+          slot: {
+            $floor: {
+              $divide: [
+                {
+                  $add: [
+                    {
+                      $multiply: [
+                        { $hour: { date: '$entryTime', timezone } },
+                        60,
+                      ],
+                    },
+                    { $minute: { date: '$entryTime', timezone } },
+                  ],
+                },
+                bucketMinutes,
+              ],
+            },
+          },
+          weekday: {
+            $subtract: [{ $dayOfWeek: { date: '$entryTime', timezone } }, 1],
+          },
+          holdingMinutes: {
+            $ifNull: [
+              '$holdingTime',
+              { $divide: [{ $subtract: ['$exitTime', '$entryTime'] }, 60000] },
+            ],
+          },
+        },
+      },
+      { $addFields: { band: holdingBandExpression('$holdingMinutes') } },
+      {
+        $facet: {
+          byTimeOfDay: bucket('slot'),
+          byWeekday: bucket('weekday'),
+          byHoldingTime: bucket('band'),
+          byWeekdayAndTime: bucket('weekday', 'slot'),
+          byHoldingTimeAndTime: bucket('band', 'slot'),
+        },
+      },
+    ]);
+
+    return buildTimeHeatmaps(facets, timezone, bucketMinutes);
+  }
+
+  /**
+   * Correlate emotions, confidence, mistakes and exit reasons with results
+   * and flag recurring behavioural patterns
+   */
+  async getBehaviorReport(
+    userId: string,
+    filters: FilterTradesDto,
+  ): Promise<BehaviorReport> {
+    const query = this.tradingJournalService.buildTradeQuery(
+      new Types.ObjectId(userId),
+      filters,
+    );
+
+    const trades = await this.tradeModel
+      .find({ ...query, isOpen: false })
+      .select(
+        'entryTime exitTime netPnl rMultiple emotionBefore emotionDuring emotionAfter exitEmotionState confidence mistakes wouldRepeatTrade exitReasonType',
+      )
+      .lean();
+
+    return buildBehaviorReport(trades);
+  }
+}
@@ -14,7 +14,11 @@ import {
   Header,
   Res,
   StreamableFile,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
 import {
   ApiTags,
@@ -22,13 +26,36 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { TradingJournalService } from './trading-journal.service';
+import { TradeImportService } from './trade-import.service';
+import { TradingAnalyticsService } from './trading-analytics.service';
+import { TradingPlanService } from './trading-plan.service';
+import { JournalDayService } from './journal-day.service';
+import { TradeScreenshotService } from './trade-screenshot.service';
+import { TradeExcursionService } from './trade-excursion.service';
+import { TradeExportService } from './trade-export.service';
 import { CreateTradeDto } from './dto/create-trade.dto';
 import { UpdateTradeDto } from './dto/update-trade.dto';
 import { CloseTradeDto } from './dto/close-trade.dto';
 import { CreateFeedbackDto } from './dto/create-feedback.dto';
 import { FilterTradesDto } from './dto/filter-trades.dto';
+import { AdvancedAnalyticsDto } from './dto/advanced-analytics.dto';
+import { HeatmapFiltersDto } from './dto/heatmap-filters.dto';
+import { UpsertTradingPlanDto } from './dto/trading-plan.dto';
+import {
+  CreateDayFeedbackDto,
+  FilterJournalDaysDto,
+  UpsertJournalDayDto,
+} from './dto/journal-day.dto';
+import { ImportTradesDto } from './dto/import-trades.dto';
+import { TradeExecutionDto } from './dto/trade-execution.dto';
+import {
+  AttachScreenshotDto,
+  RequestScreenshotUploadDto,
+  UpdateScreenshotDto,
+} from './dto/trade-screenshot.dto';
 import { JwtAuthGuard } from '../guards/jwt-auth-guard';
 import { RolesGuard } from '../guards/roles.guard';
 import { ModuleAccessGuard } from '../guards/module-access.guard';
@@ -45,7 +72,16 @@ import { Feedback } from './schemas/feedback.schema';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class TradingJournalController {
-  constructor(private readonly tradingJournalService: TradingJournalService) {}
+  constructor(
+    private readonly tradingJournalService: TradingJournalService,
+    private readonly tradeImportService: TradeImportService,
+    private readonly tradingAnalyticsService: TradingAnalyticsService,
+    private readonly tradingPlanService: TradingPlanService,
+    private readonly journalDayService: JournalDayService,
+    private readonly tradeScreenshotService: TradeScreenshotService,
+    private readonly tradeExcursionService: TradeExcursionService,
+    private readonly tradeExportService: TradeExportService,
+  ) {}
 
   // FIX endpoint - Consolidate all trades to specific user
   @Public()
@@ -157,6 +193,43 @@ export class TradingJournalController {
     return this.tradingJournalService.createTrade(req.user._id.toString(), createTradeDto);
   }
 
+  @Post('trades/import')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Import trades from a broker statement',
+    description:
+      'Accepts generic CSV (with column mapping), OFX, Interactive Brokers Flex XML, Thinkorswim and Webull exports. ' +
+      'Fills are paired into trades, duplicates (same symbol, entry time and price) are skipped, and dryRun returns a preview without saving.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Import report with detected trades and per-row errors',
+  })
+  async importTrades(
+    @Request() req,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importTradesDto: ImportTradesDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No statement file provided');
+    }
+
+    // Max file size: 5MB
+    const maxSize = 5 * 1024 * 1024;
+    if (file.size > maxSize) {
+      throw new BadRequestException('File size exceeds 5MB limit');
+    }
+
+    return this.tradeImportService.importTrades(
+      req.user._id.toString(),
+      file.buffer.toString('utf8'),
+      importTradesDto,
+    );
+  }
+
   @Get('trades')
   @UseGuards(ModuleAccessGuard)
   @RequireModule(ModuleType.TRADING_JOURNAL)
@@ -206,7 +279,7 @@ export class TradingJournalController {
   @Post('trades/:id/close')
   @UseGuards(ModuleAccessGuard)
   @RequireModule(ModuleType.TRADING_JOURNAL)
-  @ApiOperation({ summary: 'Close an open trade' })
+  @ApiOperation({ summary: 'Close an open trade, fully or partially' })
   @ApiParam({ name: 'id', description: 'Trade ID' })
   @ApiResponse({ status: 200, description: 'Trade closed successfully', type: Trade })
   async closeTrade(
@@ -217,6 +290,148 @@ export class TradingJournalController {
     return this.tradingJournalService.closeTrade(req.user._id.toString(), tradeId, closeTradeDto);
   }
 
+  @Post('trades/:id/executions')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({
+    summary: 'Add a scale-in or partial exit execution to a trade',
+  })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Execution added and trade recalculated',
+    type: Trade,
+  })
+  async addExecution(
+    @Request() req,
+    @Param('id') tradeId: string,
+    @Body() executionDto: TradeExecutionDto,
+  ) {
+    return this.tradingJournalService.addExecution(
+      req.user._id.toString(),
+      tradeId,
+      executionDto,
+    );
+  }
+
+  @Delete('trades/:id/executions/:executionId')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Remove an execution from a trade' })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiParam({ name: 'executionId', description: 'Execution ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Execution removed and trade recalculated',
+    type: Trade,
+  })
+  async removeExecution(
+    @Request() req,
+    @Param('id') tradeId: string,
+    @Param('executionId') executionId: string,
+  ) {
+    return this.tradingJournalService.removeExecution(
+      req.user._id.toString(),
+      tradeId,
+      executionId,
+    );
+  }
+
+  @Post('trades/:id/screenshots/upload-url')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Get a presigned URL to upload a trade screenshot' })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiResponse({ status: 201, description: 'Upload URL created successfully' })
+  async requestScreenshotUpload(
+    @Request() req,
+    @Param('id') tradeId: string,
+    @Body() uploadDto: RequestScreenshotUploadDto,
+  ) {
+    return this.tradeScreenshotService.requestUpload(
+      req.user._id.toString(),
+      tradeId,
+      uploadDto,
+    );
+  }
+
+  @Post('trades/:id/screenshots')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Attach an uploaded screenshot to a trade' })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiResponse({ status: 201, description: 'Screenshot attached successfully' })
+  async attachScreenshot(
+    @Request() req,
+    @Param('id') tradeId: string,
+    @Body() screenshotDto: AttachScreenshotDto,
+  ) {
+    return this.tradeScreenshotService.attachScreenshot(
+      req.user._id.toString(),
+      tradeId,
+      screenshotDto,
+    );
+  }
+
+  @Get('trades/:id/screenshots')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Get the screenshots of a trade with signed URLs' })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Screenshots retrieved successfully',
+  })
+  async getTradeScreenshots(@Request() req, @Param('id') tradeId: string) {
+    return this.tradeScreenshotService.listScreenshots(
+      tradeId,
+      req.user._id.toString(),
+    );
+  }
+
+  @Put('trades/:id/screenshots/:screenshotId')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({
+    summary: 'Update the caption or annotations of a screenshot',
+  })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiParam({ name: 'screenshotId', description: 'Screenshot ID' })
+  @ApiResponse({ status: 200, description: 'Screenshot updated successfully' })
+  async updateScreenshot(
+    @Request() req,
+    @Param('id') tradeId: string,
+    @Param('screenshotId') screenshotId: string,
+    @Body() screenshotDto: UpdateScreenshotDto,
+  ) {
+    return this.tradeScreenshotService.updateScreenshot(
+      req.user._id.toString(),
+      tradeId,
+      screenshotId,
+      screenshotDto,
+    );
+  }
+
+  @Delete('trades/:id/screenshots/:screenshotId')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Delete a trade screenshot' })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiParam({ name: 'screenshotId', description: 'Screenshot ID' })
+  @ApiResponse({ status: 204, description: 'Screenshot deleted successfully' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeScreenshot(
+    @Request() req,
+    @Param('id') tradeId: string,
+    @Param('screenshotId') screenshotId: string,
+  ) {
+    return this.tradeScreenshotService.removeScreenshot(
+      req.user._id.toString(),
+      tradeId,
+      screenshotId,
+    );
+  }
+
   @Delete('trades/:id')
   @UseGuards(ModuleAccessGuard)
   @RequireModule(ModuleType.TRADING_JOURNAL)
@@ -231,6 +446,88 @@ export class TradingJournalController {
     return this.tradingJournalService.deleteTrade(req.user._id.toString(), tradeId);
   }
 
+  // Trading Plan Endpoints (Protected by Module Permission)
+  @Get('plan')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({
+    summary: "Get my trading plan, effective rules and today's progress",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trading plan retrieved successfully',
+  })
+  async getTradingPlan(@Request() req) {
+    return this.tradingPlanService.getPlan(req.user._id.toString());
+  }
+
+  @Put('plan')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Create or update my trading plan rules' })
+  @ApiResponse({ status: 200, description: 'Trading plan saved successfully' })
+  async upsertTradingPlan(
+    @Request() req,
+    @Body() planDto: UpsertTradingPlanDto,
+  ) {
+    return this.tradingPlanService.upsertPlan(req.user._id.toString(), planDto);
+  }
+
+  // Journal Day Endpoints (Protected by Module Permission)
+  @Get('days')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'List my journal days' })
+  @ApiResponse({
+    status: 200,
+    description: 'Journal days retrieved successfully',
+  })
+  async getJournalDays(@Request() req, @Query() filters: FilterJournalDaysDto) {
+    return this.journalDayService.findDays(req.user._id.toString(), filters);
+  }
+
+  @Get('days/:date')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Get a journal day with its trades and feedback' })
+  @ApiParam({ name: 'date', description: 'Day (YYYY-MM-DD)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Journal day retrieved successfully',
+  })
+  async getJournalDay(@Request() req, @Param('date') date: string) {
+    return this.journalDayService.getDay(req.user._id.toString(), date);
+  }
+
+  @Put('days/:date')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Create or update a journal day' })
+  @ApiParam({ name: 'date', description: 'Day (YYYY-MM-DD)' })
+  @ApiResponse({ status: 200, description: 'Journal day saved successfully' })
+  async upsertJournalDay(
+    @Request() req,
+    @Param('date') date: string,
+    @Body() dayDto: UpsertJournalDayDto,
+  ) {
+    return this.journalDayService.upsertDay(
+      req.user._id.toString(),
+      date,
+      dayDto,
+    );
+  }
+
+  @Delete('days/:date')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Delete a journal day' })
+  @ApiParam({ name: 'date', description: 'Day (YYYY-MM-DD)' })
+  @ApiResponse({ status: 204, description: 'Journal day deleted successfully' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteJournalDay(@Request() req, @Param('date') date: string) {
+    return this.journalDayService.deleteDay(req.user._id.toString(), date);
+  }
+
   // Analytics Endpoints (Protected by Module Permission)
   @Get('statistics')
   @UseGuards(ModuleAccessGuard)
@@ -247,6 +544,74 @@ export class TradingJournalController {
     return this.tradingJournalService.getTradeStatistics(req.user._id.toString(), filters);
   }
 
+  @Get('analytics/advanced')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  @ApiOperation({
+    summary:
+      'Get advanced performance analytics (expectancy, Sharpe/Sortino, streaks, drawdowns, equity curve)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Advanced analytics retrieved successfully',
+  })
+  async getAdvancedAnalytics(
+    @Request() req,
+    @Query() filters: AdvancedAnalyticsDto,
+  ) {
+    return this.tradingAnalyticsService.getAdvancedAnalytics(
+      req.user._id.toString(),
+      filters,
+    );
+  }
+
+  @Get('analytics/heatmaps')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  @ApiOperation({
+    summary: 'Get P&L heatmaps by time of day, weekday and holding time',
+  })
+  @ApiResponse({ status: 200, description: 'Heatmaps retrieved successfully' })
+  async getTimeHeatmaps(@Request() req, @Query() filters: HeatmapFiltersDto) {
+    return this.tradingAnalyticsService.getTimeHeatmaps(
+      req.user._id.toString(),
+      filters,
+    );
+  }
+
+  @Get('analytics/behavior')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @Header('Cache-Control', 'no-cache, no-store, must-revalidate')
+  @ApiOperation({ summary: 'Get psychology and mistakes correlation report' })
+  @ApiResponse({
+    status: 200,
+    description: 'Behaviour report retrieved successfully',
+  })
+  async getBehaviorReport(@Request() req, @Query() filters: FilterTradesDto) {
+    return this.tradingAnalyticsService.getBehaviorReport(
+      req.user._id.toString(),
+      filters,
+    );
+  }
+
+  @Post('analytics/excursions/backfill')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Queue MAE/MFE calculation for my closed trades' })
+  @ApiResponse({ status: 201, description: 'Trades queued successfully' })
+  async backfillExcursions(
+    @Request() req,
+    @Query('recalculate') recalculate?: string,
+  ) {
+    return this.tradeExcursionService.enqueueMissing(
+      req.user._id.toString(),
+      recalculate === 'true',
+    );
+  }
+
   @Get('daily-pnl')
   @UseGuards(ModuleAccessGuard)
   @RequireModule(ModuleType.TRADING_JOURNAL)
@@ -274,6 +639,27 @@ export class TradingJournalController {
     );
   }
 
+  @Post('days/:id/feedback')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'Create feedback for a journal day (Mentor only)' })
+  @ApiParam({ name: 'id', description: 'Journal day ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Feedback created successfully',
+    type: Feedback,
+  })
+  async createDayFeedback(
+    @Request() req,
+    @Param('id') journalDayId: string,
+    @Body() feedbackDto: CreateDayFeedbackDto,
+  ) {
+    return this.journalDayService.createDayFeedback(
+      req.user._id.toString(),
+      journalDayId,
+      feedbackDto,
+    );
+  }
+
   @Get('trades/:id/feedback')
   @UseGuards(ModuleAccessGuard)
   @RequireModule(ModuleType.TRADING_JOURNAL)
@@ -343,10 +729,89 @@ export class TradingJournalController {
   @ApiParam({ name: 'studentId', description: 'Student user ID' })
   @ApiResponse({ status: 200, description: 'Student statistics retrieved successfully' })
   async getStudentStatistics(
+    @Param('studentId') studentId: string,
+    @Query() filters: HeatmapFiltersDto,
+  ) {
+    const [statistics, heatmaps] = await Promise.all([
+      this.tradingJournalService.getTradeStatistics(studentId, filters),
+      this.tradingAnalyticsService.getTimeHeatmaps(studentId, filters),
+    ]);
+
+    return { ...statistics, heatmaps };
+  }
+
+  @Get('admin/student/:studentId/plan')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'Get the trading plan of a student (Admin only)' })
+  @ApiParam({ name: 'studentId', description: 'Student user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Student trading plan retrieved successfully',
+  })
+  async getStudentTradingPlan(@Param('studentId') studentId: string) {
+    return this.tradingPlanService.getPlan(studentId);
+  }
+
+  @Get('admin/trades/:id/screenshots')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Get the screenshots of a student trade (Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Trade ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Screenshots retrieved successfully',
+  })
+  async getStudentTradeScreenshots(@Param('id') tradeId: string) {
+    return this.tradeScreenshotService.listScreenshots(tradeId);
+  }
+
+  @Get('admin/student/:studentId/days')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'List the journal days of a student (Admin only)' })
+  @ApiParam({ name: 'studentId', description: 'Student user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Student journal days retrieved successfully',
+  })
+  async getStudentJournalDays(
+    @Param('studentId') studentId: string,
+    @Query() filters: FilterJournalDaysDto,
+  ) {
+    return this.journalDayService.findDays(studentId, filters);
+  }
+
+  @Get('admin/student/:studentId/days/:date')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'Get a journal day of a student (Admin only)' })
+  @ApiParam({ name: 'studentId', description: 'Student user ID' })
+  @ApiParam({ name: 'date', description: 'Day (YYYY-MM-DD)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Student journal day retrieved successfully',
+  })
+  async getStudentJournalDay(
+    @Param('studentId') studentId: string,
+    @Param('date') date: string,
+  ) {
+    return this.journalDayService.getDay(studentId, date);
+  }
+
+  @Get('admin/student/:studentId/behavior')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Get psychology and mistakes report for a student (Admin only)',
+  })
+  @ApiParam({ name: 'studentId', description: 'Student user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Student behaviour report retrieved successfully',
+  })
+  async getStudentBehaviorReport(
     @Param('studentId') studentId: string,
     @Query() filters: FilterTradesDto,
   ) {
-    return this.tradingJournalService.getTradeStatistics(studentId, filters);
+    return this.tradingAnalyticsService.getBehaviorReport(studentId, filters);
   }
 
   // Export Endpoints
@@ -376,6 +841,63 @@ export class TradingJournalController {
     return csv;
   }
 
+  @Get('export/xlsx')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({
+    summary: 'Export trades, daily P&L, stats and feedback to Excel',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Excel workbook exported successfully',
+  })
+  async exportTradesWorkbook(
+    @Request() req,
+    @Query() filters: FilterTradesDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const buffer = await this.tradeExportService.generateWorkbook(
+      req.user._id.toString(),
+      filters,
+    );
+    const filename = `trades_export_${new Date().toISOString().split('T')[0]}.xlsx`;
+
+    res.set({
+      'Content-Type':
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+
+    return new StreamableFile(buffer);
+  }
+
+  @Get('export/pdf')
+  @UseGuards(ModuleAccessGuard)
+  @RequireModule(ModuleType.TRADING_JOURNAL)
+  @ApiOperation({ summary: 'Download a PDF performance report' })
+  @ApiResponse({
+    status: 200,
+    description: 'PDF report generated successfully',
+  })
+  async exportPerformanceReport(
+    @Request() req,
+    @Query() filters: FilterTradesDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const buffer = await this.tradeExportService.generatePerformanceReport(
+      req.user._id.toString(),
+      filters,
+    );
+    const filename = `performance_report_${new Date().toISOString().split('T')[0]}.pdf`;
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+
+    return new StreamableFile(buffer);
+  }
+
   @Get('admin/student/:studentId/export')
   @Roles(Role.SUPER_ADMIN, Role.ADMIN)
   @ApiOperation({ summary: 'Export student trades to CSV (Admin only)' })
@@ -402,6 +924,63 @@ export class TradingJournalController {
     return csv;
   }
 
+  @Get('admin/student/:studentId/export/xlsx')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'Export student journal to Excel (Admin only)' })
+  @ApiParam({ name: 'studentId', description: 'Student user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Excel workbook exported successfully',
+  })
+  async exportStudentWorkbook(
+    @Param('studentId') studentId: string,
+    @Query() filters: FilterTradesDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const buffer = await this.tradeExportService.generateWorkbook(
+      studentId,
+      filters,
+    );
+    const filename = `student_trades_export_${studentId}_${new Date().toISOString().split('T')[0]}.xlsx`;
+
+    res.set({
+      'Content-Type':
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+
+    return new StreamableFile(buffer);
+  }
+
+  @Get('admin/student/:studentId/export/pdf')
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Download a student PDF performance report (Admin only)',
+  })
+  @ApiParam({ name: 'studentId', description: 'Student user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'PDF report generated successfully',
+  })
+  async exportStudentPerformanceReport(
+    @Param('studentId') studentId: string,
+    @Query() filters: FilterTradesDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const buffer = await this.tradeExportService.generatePerformanceReport(
+      studentId,
+      filters,
+    );
+    const filename = `student_performance_report_${studentId}_${new Date().toISOString().split('T')[0]}.pdf`;
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+
+    return new StreamableFile(buffer);
+  }
+
   // Helper method to generate CSV
   private generateCSV(trades: any[]): string {
     if (!trades || trades.length === 0) {
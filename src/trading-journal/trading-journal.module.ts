@@ -1,10 +1,31 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
 import { TradingJournalService } from './trading-journal.service';
 import { TradingJournalController } from './trading-journal.controller';
+import { TradeImportService } from './trade-import.service';
+import { TradingAnalyticsService } from './trading-analytics.service';
+import { TradingPlanService } from './trading-plan.service';
+import { JournalDayService } from './journal-day.service';
+import { TradeScreenshotService } from './trade-screenshot.service';
+import {
+  TRADE_EXCURSION_QUEUE,
+  TradeExcursionService,
+} from './trade-excursion.service';
+import { TradeExcursionProcessor } from './trade-excursion.processor';
+import { TradeExportService } from './trade-export.service';
+import { CANDLE_SOURCE } from './candles/candle-source.interface';
+import { FinnhubCandleSource } from './candles/finnhub-candle-source';
+import { FixtureCandleSource } from './candles/fixture-candle-source';
 import { Trade, TradeSchema } from './schemas/trade.schema';
 import { Feedback, FeedbackSchema } from './schemas/feedback.schema';
+import { TradingPlan, TradingPlanSchema } from './schemas/trading-plan.schema';
+import { JournalDay, JournalDaySchema } from './schemas/journal-day.schema';
 import { UsersModule } from '../users/users.module';
+import { S3Module } from '../aws/s3/s3.module';
+import { FinnhubModule } from '../services/finnhub/finnhub.module';
+import { FinnhubService } from '../services/finnhub/finnhub.service';
 import { ModulePermissionsModule } from '../module-permissions/module-permissions.module';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
 
@@ -13,13 +34,42 @@ import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
     MongooseModule.forFeature([
       { name: 'JournalTrade', schema: TradeSchema },
       { name: Feedback.name, schema: FeedbackSchema },
+      { name: TradingPlan.name, schema: TradingPlanSchema },
+      { name: JournalDay.name, schema: JournalDaySchema },
     ]),
     forwardRef(() => UsersModule),
     forwardRef(() => ModulePermissionsModule),
     forwardRef(() => SubscriptionsModule),
+    BullModule.registerQueue({
+      name: TRADE_EXCURSION_QUEUE,
+    }),
+    S3Module,
+    FinnhubModule,
   ],
   controllers: [TradingJournalController],
-  providers: [TradingJournalService],
+  providers: [
+    TradingJournalService,
+    TradeImportService,
+    TradingAnalyticsService,
+    TradingPlanService,
+    JournalDayService,
+    TradeScreenshotService,
+    TradeExcursionService,
+    TradeExcursionProcessor,
+    TradeExportService,
+    {
+      // Historical candles for MAE/MFE; 'fixture' reads local JSON files
+      provide: CANDLE_SOURCE,
+      inject: [ConfigService, FinnhubService],
+      useFactory: (config: ConfigService, finnhubService: FinnhubService) =>
+        config.get('tradingJournal.candleSource') === 'fixture'
+          ? new FixtureCandleSource(
+              {},
+              config.get('tradingJournal.candleFixturesDir'),
+            )
+          : new FinnhubCandleSource(finnhubService),
+    },
+  ],
   exports: [TradingJournalService],
 })
 export class TradingJournalModule {}
\ No newline at end of file
@@ -6,20 +6,53 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Trade, TradeDocument, TradeDirection } from './schemas/trade.schema';
+import {
+  Trade,
+  TradeDocument,
+  TradeDirection,
+  MarketType,
+  ExcursionStatus,
+} from './schemas/trade.schema';
+import { TradeExecutionDto } from './dto/trade-execution.dto';
+import { resolveContractMultiplier } from './utils/instrument-specs';
+import {
+  INSTRUMENT_SPECS_SETTING_KEY,
+  InstrumentSpec,
+} from '../settings/interfaces/instrument-spec.interface';
+import {
+  ExecutionError,
+  isSimpleExecutionHistory,
+  oppositeSide,
+  seedExecutions,
+} from './utils/trade-calculations';
 import { Feedback, FeedbackDocument } from './schemas/feedback.schema';
+import { JournalDay, JournalDayDocument } from './schemas/journal-day.schema';
+import { TradingPlanService } from './trading-plan.service';
+import { TradeScreenshotService } from './trade-screenshot.service';
+import { TradeExcursionService } from './trade-excursion.service';
+import { summarizeExcursions } from './utils/excursions';
 import { CreateTradeDto } from './dto/create-trade.dto';
 import { UpdateTradeDto } from './dto/update-trade.dto';
 import { CloseTradeDto } from './dto/close-trade.dto';
 import { CreateFeedbackDto } from './dto/create-feedback.dto';
 import { FilterTradesDto, TimeFilter, TradeResult } from './dto/filter-trades.dto';
+import { startOfTradingDays } from '../services/market/market-calendar';
 import * as moment from 'moment';
 
+// Sessions covered by the WEEK and MONTH time filters
+const TRADING_DAYS_PER_WEEK = 5;
+const TRADING_DAYS_PER_MONTH = 21;
+
 @Injectable()
 export class TradingJournalService {
   constructor(
     @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
     @InjectModel(Feedback.name) private feedbackModel: Model<FeedbackDocument>,
+    @InjectModel(JournalDay.name)
+    private journalDayModel: Model<JournalDayDocument>,
+    private readonly tradingPlanService: TradingPlanService,
+    private readonly tradeScreenshotService: TradeScreenshotService,
+    private readonly tradeExcursionService: TradeExcursionService,
   ) {}
 
   // Trade CRUD Operations
@@ -31,6 +64,7 @@ export class TradingJournalService {
 
     // Validate market against enabled markets
     await this.validateMarketType(createTradeDto.market);
+    this.validateLegs(createTradeDto);
 
     const userObjectId = new Types.ObjectId(userId);
     console.log('📝 Converted to ObjectId:', userObjectId);
@@ -39,9 +73,26 @@ export class TradingJournalService {
     const trade = new this.tradeModel({
       ...createTradeDto,
       userId: userObjectId,
+      contractMultiplier: await this.getContractMultiplier(
+        createTradeDto.market,
+        createTradeDto.symbol,
+      ),
     });
 
-    const savedTrade = await trade.save();
+    let savedTrade = await trade.save();
+
+    // Check the new trade against the user's trading plan
+    if (
+      await this.tradingPlanService.applyRules(savedTrade, {
+        entry: true,
+        exit: true,
+      })
+    ) {
+      savedTrade = await savedTrade.save();
+    }
+    if (!savedTrade.isOpen) {
+      await this.tradeExcursionService.enqueue(savedTrade._id.toString());
+    }
     console.log('📝 Trade saved with userId:', savedTrade.userId);
     console.log('📝 Saved userId matches input?', savedTrade.userId.toString() === userId);
     console.log('==================================\n');
@@ -52,7 +103,7 @@ export class TradingJournalService {
   /**
    * Validate market type against enabled markets in settings
    */
-  private async validateMarketType(market: string): Promise<void> {
+  async validateMarketType(market: string): Promise<void> {
     try {
       // Dynamically import SettingsService to avoid circular dependency
       const settingModel = this.tradeModel.db.model('Setting');
@@ -91,7 +142,76 @@ export class TradingJournalService {
       throw error;
     }
 
-    const query: any = { userId: userObjectId };
+    const query = this.buildTradeQuery(userObjectId, filters);
+
+    // Pagination
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    // Sorting
+    const sortBy = filters.sortBy || 'tradeDate';
+    const sortOrder = filters.sortOrder === 'asc' ? 1 : -1;
+    const sort: any = { [sortBy]: sortOrder };
+
+    // Execute query
+    console.log('🔍 Final query:', JSON.stringify(query, null, 2));
+    console.log('🔍 Sort:', sort);
+    console.log('🔍 Skip:', skip, 'Limit:', limit);
+
+    const [trades, total] = await Promise.all([
+      this.tradeModel.find(query).sort(sort).skip(skip).limit(limit).lean(),
+      this.tradeModel.countDocuments(query),
+    ]);
+
+    console.log('🔍 Found trades:', trades.length, 'Total count:', total);
+    if (trades.length > 0) {
+      console.log('🔍 First trade:', trades[0]);
+    }
+
+    // Let's also check if there are ANY trades for this user regardless of filters
+    const allUserTrades = await this.tradeModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .countDocuments();
+    console.log('🔍 Total trades for user (no filters):', allUserTrades);
+
+    // Check all trades in database
+    const allTradesInDB = await this.tradeModel.find({}).limit(5).lean();
+    console.log(
+      '🔍 Total trades in database:',
+      await this.tradeModel.countDocuments({}),
+    );
+    if (allTradesInDB.length > 0) {
+      console.log('🔍 Sample trade from DB:', {
+        _id: allTradesInDB[0]._id,
+        userId: allTradesInDB[0].userId,
+        userIdType: typeof allTradesInDB[0].userId,
+        symbol: allTradesInDB[0].symbol,
+      });
+      console.log('🔍 Comparing userIds:');
+      console.log('   Query userId:', userObjectId.toString());
+      console.log('   DB userId:', allTradesInDB[0].userId.toString());
+      console.log(
+        '   Match?',
+        userObjectId.toString() === allTradesInDB[0].userId.toString(),
+      );
+    }
+
+    return {
+      trades,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+      hasNext: page * limit < total,
+      hasPrev: page > 1,
+    };
+  }
+
+  /**
+   * Mongo query for a user's trades matching the list filters
+   */
+  buildTradeQuery(userId: Types.ObjectId, filters: FilterTradesDto): any {
+    const query: any = { userId };
 
     // Apply time filters
     if (filters.timeFilter && filters.timeFilter !== TimeFilter.ALL) {
@@ -110,10 +230,10 @@ export class TradingJournalService {
           };
           break;
         case TimeFilter.WEEK:
-          startDate = moment().subtract(7, 'days');
+          startDate = moment(startOfTradingDays(TRADING_DAYS_PER_WEEK));
           break;
         case TimeFilter.MONTH:
-          startDate = moment().subtract(30, 'days');
+          startDate = moment(startOfTradingDays(TRADING_DAYS_PER_MONTH));
           break;
         case TimeFilter.QUARTER:
           startDate = moment().subtract(90, 'days');
@@ -198,64 +318,7 @@ export class TradingJournalService {
       }
     }
 
-    // Pagination
-    const page = filters.page || 1;
-    const limit = filters.limit || 20;
-    const skip = (page - 1) * limit;
-
-    // Sorting
-    const sortBy = filters.sortBy || 'tradeDate';
-    const sortOrder = filters.sortOrder === 'asc' ? 1 : -1;
-    const sort: any = { [sortBy]: sortOrder };
-
-    // Execute query
-    console.log('🔍 Final query:', JSON.stringify(query, null, 2));
-    console.log('🔍 Sort:', sort);
-    console.log('🔍 Skip:', skip, 'Limit:', limit);
-
-    const [trades, total] = await Promise.all([
-      this.tradeModel
-        .find(query)
-        .sort(sort)
-        .skip(skip)
-        .limit(limit)
-        .lean(),
-      this.tradeModel.countDocuments(query),
-    ]);
-
-    console.log('🔍 Found trades:', trades.length, 'Total count:', total);
-    if (trades.length > 0) {
-      console.log('🔍 First trade:', trades[0]);
-    }
-
-    // Let's also check if there are ANY trades for this user regardless of filters
-    const allUserTrades = await this.tradeModel.find({ userId: new Types.ObjectId(userId) }).countDocuments();
-    console.log('🔍 Total trades for user (no filters):', allUserTrades);
-
-    // Check all trades in database
-    const allTradesInDB = await this.tradeModel.find({}).limit(5).lean();
-    console.log('🔍 Total trades in database:', await this.tradeModel.countDocuments({}));
-    if (allTradesInDB.length > 0) {
-      console.log('🔍 Sample trade from DB:', {
-        _id: allTradesInDB[0]._id,
-        userId: allTradesInDB[0].userId,
-        userIdType: typeof allTradesInDB[0].userId,
-        symbol: allTradesInDB[0].symbol,
-      });
-      console.log('🔍 Comparing userIds:');
-      console.log('   Query userId:', userObjectId.toString());
-      console.log('   DB userId:', allTradesInDB[0].userId.toString());
-      console.log('   Match?', userObjectId.toString() === allTradesInDB[0].userId.toString());
-    }
-
-    return {
-      trades,
-      total,
-      page,
-      pages: Math.ceil(total / limit),
-      hasNext: page * limit < total,
-      hasPrev: page > 1,
-    };
+    return query;
   }
 
   async findOneTrade(userId: string, tradeId: string): Promise<Trade> {
@@ -276,20 +339,75 @@ export class TradingJournalService {
     tradeId: string,
     updateTradeDto: UpdateTradeDto,
   ): Promise<Trade> {
-    const trade = await this.tradeModel.findOneAndUpdate(
-      {
-        _id: new Types.ObjectId(tradeId),
-        userId: new Types.ObjectId(userId),
-      },
-      updateTradeDto,
-      { new: true, runValidators: true },
-    );
+    const trade = await this.tradeModel.findOne({
+      _id: new Types.ObjectId(tradeId),
+      userId: new Types.ObjectId(userId),
+    });
 
     if (!trade) {
       throw new NotFoundException('Trade not found');
     }
 
-    return trade;
+    this.validateLegs({
+      market: updateTradeDto.market ?? trade.market,
+      legs: updateTradeDto.legs ?? trade.legs,
+      executions: updateTradeDto.executions,
+    });
+
+    const priceFields = [
+      'entryPrice',
+      'entryTime',
+      'positionSize',
+      'exitPrice',
+      'exitTime',
+      'commission',
+    ];
+    const touchesPrices = priceFields.some(
+      (field) => updateTradeDto[field] !== undefined,
+    );
+    const hasLegs = (updateTradeDto.legs ?? trade.legs)?.length > 0;
+
+    if (!hasLegs && !updateTradeDto.executions && touchesPrices) {
+      // A single entry/exit pair can be rebuilt from the edited fields; a
+      // scaled position has to be edited through its executions.
+      if (!isSimpleExecutionHistory(trade.executions)) {
+        throw new BadRequestException(
+          'This trade has multiple executions. Edit its executions instead of entry/exit prices.',
+        );
+      }
+      trade.set('executions', []);
+    }
+
+    trade.set(updateTradeDto);
+
+    if (
+      updateTradeDto.symbol !== undefined ||
+      updateTradeDto.market !== undefined
+    ) {
+      trade.contractMultiplier = await this.getContractMultiplier(
+        trade.market,
+        trade.symbol,
+      );
+    }
+
+    const saved = await this.saveTrade(trade);
+
+    const excursionFields = [
+      ...priceFields,
+      'symbol',
+      'market',
+      'direction',
+      'stopLoss',
+      'riskAmount',
+    ];
+    if (
+      !saved.isOpen &&
+      excursionFields.some((field) => updateTradeDto[field] !== undefined)
+    ) {
+      await this.tradeExcursionService.enqueue(saved._id.toString());
+    }
+
+    return saved;
   }
 
   async closeTrade(
@@ -311,44 +429,280 @@ export class TradingJournalService {
       throw new BadRequestException('Trade is already closed');
     }
 
-    // Update trade with exit data
+    if (trade.legs?.length > 0) {
+      this.closeLegs(trade, closeTradeDto);
+      return this.saveClosedTrade(trade);
+    }
+
+    if (closeTradeDto.exitPrice === undefined) {
+      throw new BadRequestException('exitPrice is required');
+    }
+
+    this.ensureExecutions(trade);
+
+    const openQuantity = trade.openQuantity ?? trade.positionSize;
+    const quantity = closeTradeDto.quantity ?? openQuantity;
+
+    if (quantity <= 0 || quantity > openQuantity) {
+      throw new BadRequestException(
+        `Close quantity must be between 0 and the open quantity of ${openQuantity}`,
+      );
+    }
+
+    const isPartial = quantity < openQuantity;
+
+    trade.executions.push({
+      side: oppositeSide(trade.executions[0].side),
+      quantity,
+      price: closeTradeDto.exitPrice,
+      time: new Date(closeTradeDto.exitTime),
+      fees: closeTradeDto.fees || 0,
+      note: isPartial ? closeTradeDto.exitReasonNotes : undefined,
+    });
+
+    // Exit reflection describes the final exit; partial exits only add an execution
+    if (!isPartial) {
+      trade.exitReasonType = closeTradeDto.exitReasonType;
+      trade.exitReasonNotes = closeTradeDto.exitReasonNotes;
+      trade.lessonsLearnedOnExit = closeTradeDto.lessonsLearnedOnExit;
+      trade.wouldRepeatTrade = closeTradeDto.wouldRepeatTrade;
+      trade.exitEmotionState = closeTradeDto.exitEmotionState;
+
+      // Mark as not reviewed (needs mentor attention)
+      trade.isReviewed = false;
+    }
+
+    // Options-specific exit data
+    if (closeTradeDto.exitPremium !== undefined) {
+      trade.exitPremium = closeTradeDto.exitPremium;
+    }
+    if (closeTradeDto.underlyingPriceAtExit !== undefined) {
+      trade.underlyingPriceAtExit = closeTradeDto.underlyingPriceAtExit;
+    }
+
+    // Save (pre-validate hook recalculates P&L from the executions)
+    return this.saveClosedTrade(trade);
+  }
+
+  /**
+   * Record a scale-in or partial exit on an existing trade
+   */
+  async addExecution(
+    userId: string,
+    tradeId: string,
+    executionDto: TradeExecutionDto,
+  ): Promise<Trade> {
+    const trade = await this.tradeModel.findOne({
+      _id: new Types.ObjectId(tradeId),
+      userId: new Types.ObjectId(userId),
+    });
+
+    if (!trade) {
+      throw new NotFoundException('Trade not found');
+    }
+
+    if (trade.legs?.length > 0) {
+      throw new BadRequestException(
+        'Multi-leg strategies are closed through their legs, not executions',
+      );
+    }
+
+    this.ensureExecutions(trade);
+    trade.executions.push({ ...executionDto, fees: executionDto.fees || 0 });
+
+    return this.saveClosedTrade(trade);
+  }
+
+  async removeExecution(
+    userId: string,
+    tradeId: string,
+    executionId: string,
+  ): Promise<Trade> {
+    const trade = await this.tradeModel.findOne({
+      _id: new Types.ObjectId(tradeId),
+      userId: new Types.ObjectId(userId),
+    });
+
+    if (!trade) {
+      throw new NotFoundException('Trade not found');
+    }
+
+    const remaining = trade.executions.filter(
+      (execution) => execution._id?.toString() !== executionId,
+    );
+
+    if (remaining.length === trade.executions.length) {
+      throw new NotFoundException('Execution not found');
+    }
+    if (remaining.length === 0) {
+      throw new BadRequestException('A trade needs at least one execution');
+    }
+
+    // Removing the open remainder of a scale-in can close the trade
+    trade.set('executions', remaining);
+
+    return this.saveClosedTrade(trade);
+  }
+
+  /**
+   * Contract multiplier for a symbol from the instrument spec registry
+   * managed in settings (built-in defaults when the setting is missing)
+   */
+  async getContractMultiplier(
+    market: MarketType,
+    symbol: string,
+  ): Promise<number> {
+    return resolveContractMultiplier(
+      await this.getInstrumentSpecs(),
+      market,
+      symbol,
+    );
+  }
+
+  async getInstrumentSpecs(): Promise<InstrumentSpec[] | undefined> {
+    try {
+      // Read the setting directly to avoid a circular module dependency
+      const settingModel = this.tradeModel.db.model('Setting');
+      const setting = await settingModel.findOne({
+        key: INSTRUMENT_SPECS_SETTING_KEY,
+        isActive: true,
+      });
+      const value = setting?.value;
+
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    } catch (error) {
+      console.error('Failed to load instrument specs:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Multi-leg strategies are options-only and track P&L per leg, so they
+   * cannot be combined with executions
+   */
+  private validateLegs(dto: {
+    market?: string;
+    legs?: unknown[];
+    executions?: unknown[];
+  }): void {
+    if (!dto.legs?.length) {
+      return;
+    }
+    if (dto.market !== MarketType.OPTIONS) {
+      throw new BadRequestException(
+        'Strategy legs are only supported for options trades',
+      );
+    }
+    if (dto.executions?.length) {
+      throw new BadRequestException(
+        'A trade cannot have both strategy legs and executions',
+      );
+    }
+  }
+
+  /**
+   * Close every leg of a strategy. Legs close together: partial closes are
+   * not supported for multi-leg strategies.
+   */
+  private closeLegs(trade: TradeDocument, closeTradeDto: CloseTradeDto): void {
+    if (
+      closeTradeDto.quantity !== undefined &&
+      closeTradeDto.quantity !== trade.positionSize
+    ) {
+      throw new BadRequestException(
+        'Multi-leg strategies can only be closed in full',
+      );
+    }
+
+    const exits = new Map(
+      (closeTradeDto.legExits || []).map((exit) => [
+        exit.legId,
+        exit.exitPremium,
+      ]),
+    );
+
+    for (const leg of trade.legs) {
+      const legId = leg._id?.toString();
+      if (!exits.has(legId) && leg.exitPremium == null) {
+        throw new BadRequestException(`Missing exit premium for leg ${legId}`);
+      }
+      if (exits.has(legId)) {
+        leg.exitPremium = exits.get(legId);
+      }
+    }
+
     trade.exitTime = new Date(closeTradeDto.exitTime);
-    trade.exitPrice = closeTradeDto.exitPrice;
+    trade.commission = (trade.commission || 0) + (closeTradeDto.fees || 0);
     trade.exitReasonType = closeTradeDto.exitReasonType;
     trade.exitReasonNotes = closeTradeDto.exitReasonNotes;
     trade.lessonsLearnedOnExit = closeTradeDto.lessonsLearnedOnExit;
     trade.wouldRepeatTrade = closeTradeDto.wouldRepeatTrade;
     trade.exitEmotionState = closeTradeDto.exitEmotionState;
-
-    // Options-specific exit data
-    if (closeTradeDto.exitPremium !== undefined) {
-      trade.exitPremium = closeTradeDto.exitPremium;
-    }
     if (closeTradeDto.underlyingPriceAtExit !== undefined) {
       trade.underlyingPriceAtExit = closeTradeDto.underlyingPriceAtExit;
     }
 
     // Mark as not reviewed (needs mentor attention)
     trade.isReviewed = false;
+  }
 
-    // Save (pre-save hook will calculate P&L automatically)
-    const closedTrade = await trade.save();
+  /**
+   * Give trades saved before executions existed their equivalent fills
+   */
+  private ensureExecutions(trade: TradeDocument): void {
+    if (!trade.executions || trade.executions.length === 0) {
+      trade.set('executions', seedExecutions(trade));
+    }
+  }
+
+  /**
+   * Save a trade after an exit and, once it is fully closed, record any
+   * trading plan rule the exit broke
+   */
+  private async saveClosedTrade(trade: TradeDocument): Promise<TradeDocument> {
+    let saved = await this.saveTrade(trade);
+    if (saved.isOpen) {
+      return saved;
+    }
 
-    return closedTrade;
+    if (await this.tradingPlanService.applyRules(saved, { exit: true })) {
+      saved = await saved.save();
+    }
+    await this.tradeExcursionService.enqueue(saved._id.toString());
+    return saved;
+  }
+
+  /**
+   * Save a trade, reporting execution inconsistencies (e.g. selling more than
+   * is open) as bad requests
+   */
+  private async saveTrade(trade: TradeDocument): Promise<TradeDocument> {
+    try {
+      return await trade.save();
+    } catch (error) {
+      if (
+        error instanceof ExecutionError ||
+        error?.name === 'ValidationError'
+      ) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
   }
 
   async deleteTrade(userId: string, tradeId: string): Promise<void> {
-    const result = await this.tradeModel.deleteOne({
+    const trade = await this.tradeModel.findOneAndDelete({
       _id: new Types.ObjectId(tradeId),
       userId: new Types.ObjectId(userId),
     });
 
-    if (result.deletedCount === 0) {
+    if (!trade) {
       throw new NotFoundException('Trade not found');
     }
 
-    // Also delete associated feedback
+    // Also delete associated feedback and uploaded screenshots
     await this.feedbackModel.deleteMany({ tradeId: new Types.ObjectId(tradeId) });
+    await this.tradeScreenshotService.deleteImages(trade.screenshotImages);
   }
 
   // Analytics Methods
@@ -372,10 +726,10 @@ export class TradingJournalService {
           startDate = moment().startOf('day');
           break;
         case TimeFilter.WEEK:
-          startDate = moment().subtract(7, 'days');
+          startDate = moment(startOfTradingDays(TRADING_DAYS_PER_WEEK));
           break;
         case TimeFilter.MONTH:
-          startDate = moment().subtract(30, 'days');
+          startDate = moment(startOfTradingDays(TRADING_DAYS_PER_MONTH));
           break;
         case TimeFilter.QUARTER:
           startDate = moment().subtract(90, 'days');
@@ -511,6 +865,22 @@ export class TradingJournalService {
       { $sort: { pnl: -1 } },
     ]);
 
+    // Get statistics by options strategy (single-leg trades count as 'single')
+    const strategyTypeStats = await this.tradeModel.aggregate([
+      { $match: { ...query, market: 'options', isOpen: false } },
+      {
+        $group: {
+          _id: { $ifNull: ['$strategyType', 'single'] },
+          trades: { $sum: 1 },
+          pnl: { $sum: '$netPnl' },
+          winRate: {
+            $avg: { $cond: [{ $gt: ['$netPnl', 0] }, 100, 0] },
+          },
+        },
+      },
+      { $sort: { pnl: -1 } },
+    ]);
+
     // Fix largestLoss: only count actual losses (negative P&L)
     const fixedLargestLoss = baseStats.largestLoss !== null && baseStats.largestLoss < 0
       ? baseStats.largestLoss
@@ -608,6 +978,82 @@ export class TradingJournalService {
       { $limit: 10 },
     ]);
 
+    // Trading plan rule violations
+    const violationsByRule = await this.tradeModel.aggregate([
+      { $match: { ...query, 'ruleViolations.0': { $exists: true } } },
+      { $unwind: '$ruleViolations' },
+      {
+        $group: {
+          _id: '$ruleViolations.rule',
+          count: { $sum: 1 },
+          trades: { $addToSet: '$_id' },
+          pnl: { $sum: { $cond: [{ $eq: ['$isOpen', false] }, '$netPnl', 0] } },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          rule: '$_id',
+          count: 1,
+          trades: { $size: '$trades' },
+          pnl: 1,
+        },
+      },
+      { $sort: { count: -1 } },
+    ]);
+
+    const complianceRaw = await this.tradeModel.aggregate([
+      { $match: { ...query, isOpen: false } },
+      {
+        $group: {
+          _id: { $gt: [{ $size: { $ifNull: ['$ruleViolations', []] } }, 0] },
+          trades: { $sum: 1 },
+          pnl: { $sum: '$netPnl' },
+          winRate: {
+            $avg: { $cond: [{ $gt: ['$netPnl', 0] }, 100, 0] },
+          },
+        },
+      },
+    ]);
+
+    const followedPlan = complianceRaw.find((group) => group._id === false);
+    const brokePlan = complianceRaw.find((group) => group._id === true);
+    const ruleViolations = {
+      total: violationsByRule.reduce((sum, rule) => sum + rule.count, 0),
+      byRule: violationsByRule,
+      followedPlan: {
+        trades: followedPlan?.trades || 0,
+        pnl: followedPlan?.pnl || 0,
+        winRate: followedPlan?.winRate || 0,
+      },
+      brokePlan: {
+        trades: brokePlan?.trades || 0,
+        pnl: brokePlan?.pnl || 0,
+        winRate: brokePlan?.winRate || 0,
+      },
+    };
+
+    // MAE/MFE of trades enriched from historical candles
+    const enriched = await this.tradeModel
+      .find(
+        {
+          ...query,
+          isOpen: false,
+          'excursion.status': ExcursionStatus.COMPLETED,
+        },
+        { excursion: 1, maxDrawdown: 1, maxProfit: 1 },
+      )
+      .lean();
+    const excursions = summarizeExcursions(
+      enriched.map((trade) => ({
+        maeAmount: trade.maxDrawdown,
+        mfeAmount: trade.maxProfit,
+        maeR: trade.excursion?.maeR,
+        mfeR: trade.excursion?.mfeR,
+        capture: trade.excursion?.capture,
+      })),
+    );
+
     return {
       ...baseStats,
       largestLoss: fixedLargestLoss,
@@ -618,46 +1064,91 @@ export class TradingJournalService {
       strategyStats,
       performanceByMarket,
       optionTypeStats,
+      strategyTypeStats,
       bestTrades,
       worstTrades,
       maxDrawdown,
       symbolStats,
+      ruleViolations,
+      excursions,
     };
   }
 
   async getDailyPnL(userId: string, days: number = 30) {
     const startDate = moment().subtract(days, 'days').startOf('day').toDate();
 
-    const dailyPnl = await this.tradeModel.aggregate([
-      {
-        $match: {
-          userId: new Types.ObjectId(userId),
-          tradeDate: { $gte: startDate },
-          isOpen: false,
+    const [dailyPnl, journals] = await Promise.all([
+      this.tradeModel.aggregate([
+        {
+          $match: {
+            userId: new Types.ObjectId(userId),
+            tradeDate: { $gte: startDate },
+            isOpen: false,
+          },
         },
-      },
-      {
-        $group: {
-          _id: {
-            $dateToString: { format: '%Y-%m-%d', date: '$tradeDate' },
+        { $sort: { entryTime: 1 } },
+        {
+          $group: {
+            _id: {
+              $dateToString: { format: '%Y-%m-%d', date: '$tradeDate' },
+            },
+            pnl: { $sum: '$netPnl' },
+            trades: { $sum: 1 },
+            winners: { $sum: { $cond: [{ $gt: ['$netPnl', 0] }, 1, 0] } },
+            tradeList: {
+              $push: {
+                _id: '$_id',
+                symbol: '$symbol',
+                market: '$market',
+                direction: '$direction',
+                setup: '$setup',
+                entryTime: '$entryTime',
+                exitTime: '$exitTime',
+                netPnl: '$netPnl',
+                rMultiple: '$rMultiple',
+              },
+            },
           },
-          pnl: { $sum: '$netPnl' },
-          trades: { $sum: 1 },
-          winners: { $sum: { $cond: [{ $gt: ['$netPnl', 0] }, 1, 0] } },
         },
-      },
-      { $sort: { _id: 1 } },
+      ]),
+      this.journalDayModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          date: { $gte: moment(startDate).format('YYYY-MM-DD') },
+        })
+        .lean(),
     ]);
 
+    // Days with a journal entry but no closed trades are included too
+    const byDate = new Map<string, any>(dailyPnl.map((day) => [day._id, day]));
+    for (const journal of journals) {
+      if (!byDate.has(journal.date)) {
+        byDate.set(journal.date, {
+          _id: journal.date,
+          pnl: 0,
+          trades: 0,
+          winners: 0,
+          tradeList: [],
+        });
+      }
+    }
+    const journalByDate = new Map(
+      journals.map((journal) => [journal.date, journal]),
+    );
+
     // Calculate cumulative P/L
     let cumulative = 0;
-    return dailyPnl.map(day => ({
-      date: day._id,
-      pnl: day.pnl,
-      cumulative: (cumulative += day.pnl),
-      trades: day.trades,
-      winners: day.winners,
-    }));
+    return [...byDate.values()]
+      .sort((a, b) => a._id.localeCompare(b._id))
+      .map((day) => ({
+        date: day._id,
+        pnl: day.pnl,
+        cumulative: (cumulative += day.pnl),
+        trades: day.trades,
+        winners: day.winners,
+        tradeList: day.tradeList,
+        journal: journalByDate.get(day._id) || null,
+      }));
   }
 
   // Feedback Methods
@@ -713,6 +1204,7 @@ export class TradingJournalService {
         isVisible: true,
       })
       .populate('tradeId', 'symbol tradeDate setup')
+      .populate('journalDayId', 'date dayRating')
       .populate('mentorId', 'firstName lastName')
       .sort({ createdAt: -1 })
       .lean();
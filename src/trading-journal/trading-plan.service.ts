@@ -0,0 +1,224 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { TradeDocument } from './schemas/trade.schema';
+import {
+  TradingPlan,
+  TradingPlanDocument,
+  TradingPlanRules,
+} from './schemas/trading-plan.schema';
+import { UpsertTradingPlanDto } from './dto/trading-plan.dto';
+import {
+  evaluateEntryRules,
+  evaluateExitRules,
+  localDayBounds,
+  MissionGoals,
+  mergeMissionGoals,
+} from './utils/trading-rules';
+
+interface ActiveMission {
+  id: string;
+  title: string;
+  goals: MissionGoals;
+}
+
+@Injectable()
+export class TradingPlanService {
+  private readonly logger = new Logger(TradingPlanService.name);
+
+  constructor(
+    @InjectModel(TradingPlan.name)
+    private planModel: Model<TradingPlanDocument>,
+    @InjectModel('JournalTrade') private tradeModel: Model<TradeDocument>,
+  ) {}
+
+  /**
+   * The user's plan with the rules in effect (plan rules plus mission goals)
+   * and today's progress against the daily limits
+   */
+  async getPlan(userId: string) {
+    const plan = await this.planModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .lean();
+    const mission = await this.findMission(userId, plan?.missionId);
+    const timezone = plan?.timezone || 'America/New_York';
+    const effectiveRules = mergeMissionGoals(plan?.rules || {}, mission?.goals);
+
+    const { start, end } = localDayBounds(new Date(), timezone);
+    const [tradesToday, pnlToday] = await Promise.all([
+      this.countTradesOpened(userId, start, end),
+      this.realizedPnl(userId, start, end),
+    ]);
+
+    return {
+      plan,
+      mission: mission ? { id: mission.id, title: mission.title } : null,
+      effectiveRules,
+      today: {
+        trades: tradesToday,
+        netPnl: pnlToday,
+        remainingTrades: effectiveRules.maxTradesPerDay
+          ? Math.max(0, effectiveRules.maxTradesPerDay - tradesToday)
+          : null,
+        lossLimitReached: effectiveRules.maxDailyLoss
+          ? pnlToday <= -effectiveRules.maxDailyLoss
+          : false,
+        profitTargetReached: effectiveRules.dailyProfitTarget
+          ? pnlToday >= effectiveRules.dailyProfitTarget
+          : false,
+      },
+    };
+  }
+
+  async upsertPlan(userId: string, dto: UpsertTradingPlanDto) {
+    const update: Record<string, unknown> = {};
+    if (dto.rules !== undefined) update.rules = dto.rules;
+    if (dto.timezone !== undefined) update.timezone = dto.timezone;
+    if (dto.missionId !== undefined) update.missionId = dto.missionId || null;
+    if (dto.isActive !== undefined) update.isActive = dto.isActive;
+
+    await this.planModel.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId) },
+      { $set: update },
+      { upsert: true, new: true, runValidators: true },
+    );
+
+    return this.getPlan(userId);
+  }
+
+  /**
+   * Evaluate a saved trade against its owner's plan and record the
+   * violations. Entry rules run when the trade is created; exit rules once
+   * it is closed. Returns true when the violations changed.
+   */
+  async applyRules(
+    trade: TradeDocument,
+    stages: { entry?: boolean; exit?: boolean },
+  ): Promise<boolean> {
+    const userId = trade.userId.toString();
+    const plan = await this.planModel.findOne({ userId: trade.userId }).lean();
+    if (plan && !plan.isActive) {
+      return false;
+    }
+
+    const mission = await this.findMission(userId, plan?.missionId);
+    if (!plan && !mission) {
+      return false;
+    }
+
+    const timezone = plan?.timezone || 'America/New_York';
+    const rules: TradingPlanRules = mergeMissionGoals(
+      plan?.rules || {},
+      mission?.goals,
+    );
+    const kept = (trade.ruleViolations || []).filter(
+      (violation) =>
+        !(stages.entry && violation.stage === 'entry') &&
+        !(stages.exit && violation.stage === 'exit'),
+    );
+    const found = [];
+
+    if (stages.entry) {
+      const { start } = localDayBounds(trade.entryTime, timezone);
+      const [tradesToday, dailyPnlBefore] = await Promise.all([
+        this.countTradesOpened(userId, start, trade.entryTime, trade._id),
+        this.realizedPnl(userId, start, trade.entryTime, trade._id),
+      ]);
+      found.push(
+        ...evaluateEntryRules(trade, rules, timezone, {
+          tradesToday,
+          dailyPnlBefore,
+        }),
+      );
+    }
+
+    if (stages.exit && !trade.isOpen && trade.exitTime) {
+      const { start } = localDayBounds(trade.exitTime, timezone);
+      const dailyPnlBefore = await this.realizedPnl(
+        userId,
+        start,
+        trade.exitTime,
+        trade._id,
+      );
+      found.push(
+        ...evaluateExitRules(trade, rules, { tradesToday: 0, dailyPnlBefore }),
+      );
+    }
+
+    if (
+      found.length === 0 &&
+      kept.length === (trade.ruleViolations || []).length
+    ) {
+      return false;
+    }
+
+    trade.set('ruleViolations', [
+      ...kept,
+      ...found.map((violation) => ({ ...violation, detectedAt: new Date() })),
+    ]);
+    return true;
+  }
+
+  private async countTradesOpened(
+    userId: string,
+    from: Date,
+    to: Date,
+    excludeId?: unknown,
+  ): Promise<number> {
+    return this.tradeModel.countDocuments({
+      userId: new Types.ObjectId(userId),
+      entryTime: { $gte: from, $lt: to },
+      ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    });
+  }
+
+  private async realizedPnl(
+    userId: string,
+    from: Date,
+    to: Date,
+    excludeId?: unknown,
+  ): Promise<number> {
+    const [result] = await this.tradeModel.aggregate([
+      {
+        $match: {
+          userId: new Types.ObjectId(userId),
+          isOpen: false,
+          exitTime: { $gte: from, $lte: to },
+          ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+        },
+      },
+      { $group: { _id: null, netPnl: { $sum: '$netPnl' } } },
+    ]);
+    return result?.netPnl || 0;
+  }
+
+  /**
+   * The plan's mission, or the active mission the user participates in
+   */
+  private async findMission(
+    userId: string,
+    missionId?: string,
+  ): Promise<ActiveMission | null> {
+    try {
+      // Read missions directly to avoid a module dependency on MissionModule
+      const missionModel = this.planModel.db.model('Mission');
+      const now = new Date();
+      const mission = await missionModel
+        .findOne(
+          missionId
+            ? { id: missionId }
+            : {
+                participants: userId,
+                startDate: { $lte: now },
+                endDate: { $gte: now },
+              },
+        )
+        .sort({ startDate: -1 })
+        .lean<ActiveMission>();
+      return mission || null;
+    } catch (error) {
+      this.logger.warn(`Could not load mission goals: ${error.message}`);
+      return null;
+    }
+  }
+}
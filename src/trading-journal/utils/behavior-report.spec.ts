@@ -0,0 +1,79 @@
+import { EmotionType } from '../schemas/trade.schema';
+import { BehaviorTradeInput, buildBehaviorReport } from './behavior-report';
+
+const at = (hour: number, minute = 0) =>
+  new Date(Date.UTC(2025, 0, 15, hour, minute));
+
+const trade = (
+  entry: Date,
+  exit: Date,
+  netPnl: number,
+  extra: Partial<BehaviorTradeInput> = {},
+): BehaviorTradeInput => ({
+  entryTime: entry,
+  exitTime: exit,
+  netPnl,
+  ...extra,
+});
+
+describe('behavior report', () => {
+  const trades = [
+    trade(at(14), at(14, 10), -100),
+    trade(at(14, 15), at(14, 20), -150, {
+      emotionBefore: EmotionType.FRUSTRATED,
+      mistakes: ['revenge trade'],
+    }),
+    trade(at(14, 25), at(14, 40), -200, {
+      emotionBefore: EmotionType.FRUSTRATED,
+      mistakes: ['revenge trade', 'oversized'],
+    }),
+    trade(at(14, 45), at(15), -50, {
+      emotionBefore: EmotionType.FRUSTRATED,
+      mistakes: ['revenge trade'],
+    }),
+    trade(at(16), at(17), 400, {
+      emotionBefore: EmotionType.CALM,
+      confidence: 7,
+    }),
+    trade(at(18), at(19), 300, {
+      emotionBefore: EmotionType.CALM,
+      confidence: 7,
+    }),
+  ];
+
+  it('correlates emotions and ranks mistakes by cost', () => {
+    const report = buildBehaviorReport(trades);
+
+    expect(report.baseline.netPnl).toBe(200);
+    expect(report.emotions.before.map((group) => group.key)).toEqual([
+      EmotionType.FRUSTRATED,
+      EmotionType.CALM,
+    ]);
+    expect(report.emotions.before[0]).toMatchObject({
+      trades: 3,
+      netPnl: -400,
+      winRate: 0,
+    });
+    expect(report.costliestMistakes.map((m) => [m.key, m.cost])).toEqual([
+      ['revenge trade', 400],
+      ['oversized', 200],
+    ]);
+    expect(report.confidence).toEqual([
+      expect.objectContaining({ key: '7', trades: 2, avgPnl: 350 }),
+    ]);
+  });
+
+  it('flags frustrated trading after losses', () => {
+    const codes = buildBehaviorReport(trades).patterns.map((p) => p.code);
+
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        'EMOTION_AFTER_LOSS',
+        'QUICK_REENTRY_AFTER_LOSS',
+        'NEGATIVE_EMOTION_ENTRY',
+        'REPEATED_MISTAKE',
+      ]),
+    );
+    expect(codes).not.toContain('OVERCONFIDENCE');
+  });
+});
@@ -0,0 +1,342 @@
+import { EmotionType, ExitReason } from '../schemas/trade.schema';
+
+export interface BehaviorTradeInput {
+  _id?: unknown;
+  entryTime: Date;
+  exitTime?: Date;
+  netPnl?: number;
+  rMultiple?: number;
+  emotionBefore?: EmotionType;
+  emotionDuring?: EmotionType;
+  emotionAfter?: EmotionType;
+  exitEmotionState?: EmotionType;
+  confidence?: number;
+  mistakes?: string[];
+  wouldRepeatTrade?: boolean;
+  exitReasonType?: ExitReason;
+}
+
+export interface BehaviorGroupStats {
+  key: string;
+  trades: number;
+  netPnl: number;
+  avgPnl: number;
+  winRate: number;
+  avgRMultiple: number | null;
+}
+
+export interface MistakeCost extends BehaviorGroupStats {
+  // Dollars lost on trades tagged with the mistake
+  cost: number;
+  // (avg P&L with the mistake - avg P&L of trades without mistakes) * trades
+  impactVsClean: number | null;
+}
+
+export type PatternSeverity = 'info' | 'warning' | 'critical';
+
+export interface BehaviorPattern {
+  code: string;
+  severity: PatternSeverity;
+  message: string;
+  trades: number;
+  netPnl: number;
+  winRate: number;
+}
+
+export interface BehaviorReport {
+  totalTrades: number;
+  baseline: BehaviorGroupStats;
+  emotions: {
+    before: BehaviorGroupStats[];
+    during: BehaviorGroupStats[];
+    after: BehaviorGroupStats[];
+    atExit: BehaviorGroupStats[];
+  };
+  confidence: BehaviorGroupStats[];
+  mistakes: MistakeCost[];
+  costliestMistakes: MistakeCost[];
+  exitReasons: BehaviorGroupStats[];
+  wouldRepeat: BehaviorGroupStats[];
+  patterns: BehaviorPattern[];
+}
+
+// Smallest group a pattern is reported on
+export const MIN_PATTERN_SAMPLE = 3;
+
+// A trade opened this soon after a losing exit counts as a quick re-entry
+export const QUICK_REENTRY_MINUTES = 30;
+
+const NEGATIVE_EMOTIONS = [
+  EmotionType.FRUSTRATED,
+  EmotionType.ANXIOUS,
+  EmotionType.FEARFUL,
+  EmotionType.GREEDY,
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const pnlOf = (trade: BehaviorTradeInput) => trade.netPnl || 0;
+
+export function groupStats(
+  key: string,
+  trades: BehaviorTradeInput[],
+): BehaviorGroupStats {
+  const netPnl = trades.reduce((sum, trade) => sum + pnlOf(trade), 0);
+  const winners = trades.filter((trade) => pnlOf(trade) > 0).length;
+  const rMultiples = trades
+    .map((trade) => trade.rMultiple)
+    .filter((r) => typeof r === 'number' && isFinite(r));
+
+  return {
+    key,
+    trades: trades.length,
+    netPnl: round(netPnl),
+    avgPnl: trades.length > 0 ? round(netPnl / trades.length) : 0,
+    winRate: trades.length > 0 ? round((winners / trades.length) * 100) : 0,
+    avgRMultiple:
+      rMultiples.length > 0
+        ? round(rMultiples.reduce((sum, r) => sum + r, 0) / rMultiples.length)
+        : null,
+  };
+}
+
+function groupBy(
+  trades: BehaviorTradeInput[],
+  keysOf: (trade: BehaviorTradeInput) => string[],
+): BehaviorGroupStats[] {
+  const groups = new Map<string, BehaviorTradeInput[]>();
+  for (const trade of trades) {
+    for (const key of keysOf(trade)) {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(trade);
+    }
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => groupStats(key, group))
+    .sort((a, b) => a.netPnl - b.netPnl);
+}
+
+const single = (value: unknown) =>
+  value === undefined || value === null || value === '' ? [] : [String(value)];
+
+/**
+ * Pair every trade with the last trade that closed before it was opened
+ */
+function withPreviousTrade(trades: BehaviorTradeInput[]) {
+  const byEntry = [...trades].sort(
+    (a, b) => new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime(),
+  );
+  const byExit = trades
+    .filter((trade) => trade.exitTime)
+    .sort(
+      (a, b) => new Date(a.exitTime).getTime() - new Date(b.exitTime).getTime(),
+    );
+
+  let pointer = -1;
+  return byEntry.map((trade) => {
+    const entry = new Date(trade.entryTime).getTime();
+    while (
+      pointer + 1 < byExit.length &&
+      new Date(byExit[pointer + 1].exitTime).getTime() <= entry
+    ) {
+      pointer++;
+    }
+    const previous = pointer >= 0 ? byExit[pointer] : undefined;
+    return { trade, previous: previous === trade ? undefined : previous };
+  });
+}
+
+function pattern(
+  code: string,
+  message: string,
+  stats: BehaviorGroupStats,
+  baseline: BehaviorGroupStats,
+): BehaviorPattern {
+  const severity: PatternSeverity =
+    stats.avgPnl < 0 && stats.winRate < baseline.winRate - 20
+      ? 'critical'
+      : stats.avgPnl < 0
+        ? 'warning'
+        : 'info';
+  return {
+    code,
+    severity,
+    message,
+    trades: stats.trades,
+    netPnl: stats.netPnl,
+    winRate: stats.winRate,
+  };
+}
+
+// A group underperforms when it loses money on average and does worse than
+// the trader's own baseline
+const underperforms = (
+  stats: BehaviorGroupStats,
+  baseline: BehaviorGroupStats,
+) =>
+  stats.trades >= MIN_PATTERN_SAMPLE &&
+  stats.avgPnl < 0 &&
+  stats.avgPnl < baseline.avgPnl;
+
+function detectPatterns(
+  trades: BehaviorTradeInput[],
+  baseline: BehaviorGroupStats,
+  mistakes: MistakeCost[],
+): BehaviorPattern[] {
+  const patterns: BehaviorPattern[] = [];
+  const sequenced = withPreviousTrade(trades);
+  const afterLoss = sequenced.filter(
+    ({ previous }) => previous && pnlOf(previous) < 0,
+  );
+
+  for (const emotion of Object.values(EmotionType)) {
+    const stats = groupStats(
+      emotion,
+      afterLoss
+        .filter(({ trade }) => trade.emotionBefore === emotion)
+        .map(({ trade }) => trade),
+    );
+    if (underperforms(stats, baseline)) {
+      patterns.push(
+        pattern(
+          'EMOTION_AFTER_LOSS',
+          `Trades taken after a loss while ${emotion.toUpperCase()} lose ${Math.abs(stats.avgPnl)} on average`,
+          stats,
+          baseline,
+        ),
+      );
+    }
+  }
+
+  const quickReentries = groupStats(
+    'quick_reentry',
+    afterLoss
+      .filter(
+        ({ trade, previous }) =>
+          new Date(trade.entryTime).getTime() -
+            new Date(previous.exitTime).getTime() <=
+          QUICK_REENTRY_MINUTES * 60000,
+      )
+      .map(({ trade }) => trade),
+  );
+  if (underperforms(quickReentries, baseline)) {
+    patterns.push(
+      pattern(
+        'QUICK_REENTRY_AFTER_LOSS',
+        `Trades opened within ${QUICK_REENTRY_MINUTES} minutes of a losing exit (possible revenge trading)`,
+        quickReentries,
+        baseline,
+      ),
+    );
+  }
+
+  for (const emotion of NEGATIVE_EMOTIONS) {
+    const stats = groupStats(
+      emotion,
+      trades.filter((trade) => trade.emotionBefore === emotion),
+    );
+    if (underperforms(stats, baseline)) {
+      patterns.push(
+        pattern(
+          'NEGATIVE_EMOTION_ENTRY',
+          `Entering while ${emotion.toUpperCase()} has negative expectancy`,
+          stats,
+          baseline,
+        ),
+      );
+    }
+  }
+
+  const highConfidence = groupStats(
+    'high_confidence',
+    trades.filter((trade) => (trade.confidence || 0) >= 8),
+  );
+  if (
+    highConfidence.trades >= MIN_PATTERN_SAMPLE &&
+    highConfidence.avgPnl < baseline.avgPnl
+  ) {
+    patterns.push(
+      pattern(
+        'OVERCONFIDENCE',
+        'Trades rated 8+ confidence perform worse than average',
+        highConfidence,
+        baseline,
+      ),
+    );
+  }
+
+  for (const mistake of mistakes) {
+    if (mistake.trades >= MIN_PATTERN_SAMPLE && mistake.netPnl < 0) {
+      patterns.push(
+        pattern(
+          'REPEATED_MISTAKE',
+          `"${mistake.key}" repeated on ${mistake.trades} trades, costing ${mistake.cost}`,
+          mistake,
+          baseline,
+        ),
+      );
+    }
+  }
+
+  const severityOrder: Record<PatternSeverity, number> = {
+    critical: 0,
+    warning: 1,
+    info: 2,
+  };
+  return patterns.sort(
+    (a, b) =>
+      severityOrder[a.severity] - severityOrder[b.severity] ||
+      a.netPnl - b.netPnl,
+  );
+}
+
+/**
+ * Correlate the psychology fields of closed trades with their results
+ */
+export function buildBehaviorReport(
+  trades: BehaviorTradeInput[],
+): BehaviorReport {
+  const baseline = groupStats('all', trades);
+  const clean = trades.filter((trade) => !trade.mistakes?.length);
+  const cleanAvg = clean.length > 0 ? groupStats('clean', clean).avgPnl : null;
+
+  const mistakes: MistakeCost[] = groupBy(trades, (trade) => [
+    ...new Set((trade.mistakes || []).map((m) => m.trim()).filter(Boolean)),
+  ]).map((stats) => {
+    const tagged = trades.filter((trade) =>
+      (trade.mistakes || []).some((m) => m.trim() === stats.key),
+    );
+    return {
+      ...stats,
+      cost: round(
+        tagged.reduce((sum, trade) => sum + Math.max(0, -pnlOf(trade)), 0),
+      ),
+      impactVsClean:
+        cleanAvg === null
+          ? null
+          : round((stats.avgPnl - cleanAvg) * stats.trades),
+    };
+  });
+
+  return {
+    totalTrades: trades.length,
+    baseline,
+    emotions: {
+      before: groupBy(trades, (trade) => single(trade.emotionBefore)),
+      during: groupBy(trades, (trade) => single(trade.emotionDuring)),
+      after: groupBy(trades, (trade) => single(trade.emotionAfter)),
+      atExit: groupBy(trades, (trade) => single(trade.exitEmotionState)),
+    },
+    confidence: groupBy(trades, (trade) => single(trade.confidence)).sort(
+      (a, b) => Number(a.key) - Number(b.key),
+    ),
+    mistakes,
+    costliestMistakes: mistakes
+      .filter((mistake) => mistake.cost > 0)
+      .sort((a, b) => b.cost - a.cost)
+      .slice(0, 5),
+    exitReasons: groupBy(trades, (trade) => single(trade.exitReasonType)),
+    wouldRepeat: groupBy(trades, (trade) => single(trade.wouldRepeatTrade)),
+    patterns: detectPatterns(trades, baseline, mistakes),
+  };
+}
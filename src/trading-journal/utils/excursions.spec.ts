@@ -0,0 +1,164 @@
+import { TradeDirection } from '../schemas/trade.schema';
+import { FixtureCandleSource } from '../candles/fixture-candle-source';
+import {
+  candleResolution,
+  computeExcursion,
+  summarizeExcursions,
+} from './excursions';
+
+// 5-minute bars from 14:30 to 14:55 UTC
+const bars = [
+  {
+    time: '2025-03-03T14:30:00Z',
+    open: 100,
+    high: 101,
+    low: 99.5,
+    close: 100.5,
+  },
+  {
+    time: '2025-03-03T14:35:00Z',
+    open: 100.5,
+    high: 100.8,
+    low: 98,
+    close: 99,
+  },
+  { time: '2025-03-03T14:40:00Z', open: 99, high: 104, low: 98.8, close: 103 },
+  {
+    time: '2025-03-03T14:45:00Z',
+    open: 103,
+    high: 106,
+    low: 102.5,
+    close: 105,
+  },
+  {
+    time: '2025-03-03T14:50:00Z',
+    open: 105,
+    high: 105.5,
+    low: 102,
+    close: 102.5,
+  },
+  {
+    time: '2025-03-03T14:55:00Z',
+    open: 102.5,
+    high: 110,
+    low: 101,
+    close: 109,
+  },
+];
+
+const longTrade = {
+  direction: TradeDirection.LONG,
+  entryPrice: 100,
+  exitPrice: 103,
+  entryTime: new Date('2025-03-03T14:32:00Z'),
+  exitTime: new Date('2025-03-03T14:52:00Z'),
+  positionSize: 100,
+  multiplier: 1,
+  stopLoss: 98.5,
+};
+
+describe('excursions', () => {
+  const source = new FixtureCandleSource({ AAPL: bars });
+
+  it('serves fixture candles inside the requested window', async () => {
+    const candles = await source.getCandles(
+      'aapl',
+      '5',
+      new Date('2025-03-03T14:27:00Z'),
+      new Date('2025-03-03T14:52:00Z'),
+    );
+
+    expect(candles.map((candle) => candle.time.toISOString())).toEqual([
+      '2025-03-03T14:30:00.000Z',
+      '2025-03-03T14:35:00.000Z',
+      '2025-03-03T14:40:00.000Z',
+      '2025-03-03T14:45:00.000Z',
+      '2025-03-03T14:50:00.000Z',
+    ]);
+  });
+
+  it('computes MAE and MFE of a long trade in price, dollars and R', async () => {
+    const candles = await source.getCandles(
+      'AAPL',
+      '5',
+      new Date('2025-03-03T14:27:00Z'),
+      longTrade.exitTime,
+    );
+    const result = computeExcursion(longTrade, candles, '5');
+
+    expect(result).toMatchObject({
+      maePrice: 98,
+      mfePrice: 106,
+      mae: 2,
+      mfe: 6,
+      maeAmount: 200,
+      mfeAmount: 600,
+      maeR: 1.3333,
+      mfeR: 4,
+      capture: 0.5,
+      candles: 5,
+    });
+  });
+
+  it('mirrors the excursions of a short trade', () => {
+    const result = computeExcursion(
+      {
+        ...longTrade,
+        direction: TradeDirection.SHORT,
+        entryPrice: 104,
+        exitPrice: 102,
+        entryTime: new Date('2025-03-03T14:46:00Z'),
+        exitTime: new Date('2025-03-03T14:53:00Z'),
+        stopLoss: undefined,
+        riskAmount: 200,
+      },
+      bars.map((bar) => ({ ...bar, time: new Date(bar.time) })),
+      '5',
+    );
+
+    expect(result).toMatchObject({
+      maePrice: 106,
+      mfePrice: 102,
+      mae: 2,
+      mfe: 2,
+      maeR: 1,
+      mfeR: 1,
+      capture: 1,
+      candles: 2,
+    });
+  });
+
+  it('returns null when no candle overlaps the trade', () => {
+    expect(computeExcursion(longTrade, [], '5')).toBeNull();
+  });
+
+  it('picks coarser candles for longer holds', () => {
+    const from = new Date('2025-03-03T14:30:00Z');
+    const days = (n: number) => new Date(from.getTime() + n * 86400000);
+
+    expect(candleResolution(from, days(1))).toBe('1');
+    expect(candleResolution(from, days(7))).toBe('5');
+    expect(candleResolution(from, days(20))).toBe('15');
+    expect(candleResolution(from, days(60))).toBe('60');
+    expect(candleResolution(from, days(200))).toBe('D');
+  });
+
+  it('reports how much of the favorable move is left on the table', () => {
+    const summary = summarizeExcursions([
+      { maeAmount: 100, mfeAmount: 600, maeR: 0.5, mfeR: 3, capture: 0.5 },
+      { maeAmount: 300, mfeAmount: 200, maeR: 1.5, mfeR: 1, capture: -1 },
+      { maeAmount: 50, mfeAmount: 200, maeR: null, mfeR: null, capture: 1 },
+    ]);
+
+    expect(summary).toEqual({
+      tradesAnalyzed: 3,
+      avgMae: 150,
+      avgMfe: 333.33,
+      avgMaeR: 1,
+      avgMfeR: 2,
+      captureRate: 50,
+      leftOnTable: 50,
+      message: 'You leave 50% of the move on the table',
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { TradeDirection } from '../schemas/trade.schema';
+import { Candle, CandleResolution } from '../candles/candle-source.interface';
+
+export interface ExcursionTradeInput {
+  direction: TradeDirection;
+  entryPrice: number;
+  exitPrice: number;
+  entryTime: Date;
+  exitTime: Date;
+  positionSize: number;
+  multiplier: number;
+  stopLoss?: number;
+  riskAmount?: number;
+}
+
+export interface ExcursionResult {
+  // Worst and best prices reached while the trade was open
+  maePrice: number;
+  mfePrice: number;
+  // Excursions in price points, always >= 0
+  mae: number;
+  mfe: number;
+  // Excursions in dollars for the whole position
+  maeAmount: number;
+  mfeAmount: number;
+  // Excursions in R; null without a stop loss or risk amount
+  maeR: number | null;
+  mfeR: number | null;
+  // Realized move / favorable excursion: 1 = exited at the best price,
+  // negative = closed at a loss; null when price never moved in favor
+  capture: number | null;
+  candles: number;
+}
+
+export interface ExcursionStatsInput {
+  maeAmount?: number;
+  mfeAmount?: number;
+  maeR?: number | null;
+  mfeR?: number | null;
+  capture?: number | null;
+}
+
+export interface ExcursionSummary {
+  tradesAnalyzed: number;
+  avgMae: number;
+  avgMfe: number;
+  avgMaeR: number | null;
+  avgMfeR: number | null;
+  // Percent of the favorable dollar excursion kept at exit
+  captureRate: number | null;
+  leftOnTable: number | null;
+  message: string | null;
+}
+
+const MINUTES: Record<CandleResolution, number> = {
+  '1': 1,
+  '5': 5,
+  '15': 15,
+  '30': 30,
+  '60': 60,
+  D: 1440,
+};
+
+const round = (value: number, decimals = 4) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export function resolutionMinutes(resolution: CandleResolution): number {
+  return MINUTES[resolution];
+}
+
+/**
+ * Finest resolution that keeps the entry-to-exit window within a few
+ * thousand bars
+ */
+export function candleResolution(from: Date, to: Date): CandleResolution {
+  const minutes = (to.getTime() - from.getTime()) / 60000;
+  if (minutes <= 2 * 1440) return '1';
+  if (minutes <= 10 * 1440) return '5';
+  if (minutes <= 30 * 1440) return '15';
+  if (minutes <= 90 * 1440) return '60';
+  return 'D';
+}
+
+/**
+ * Maximum adverse and favorable excursion of a closed trade from the bars
+ * overlapping its entry-to-exit window. Entry and exit prices bound the
+ * range, so the realized move is always inside it. Returns null when no bar
+ * overlaps the window.
+ */
+export function computeExcursion(
+  trade: ExcursionTradeInput,
+  candles: Candle[],
+  resolution: CandleResolution,
+): ExcursionResult | null {
+  const entry = new Date(trade.entryTime).getTime();
+  const exit = new Date(trade.exitTime).getTime();
+  const barMs = resolutionMinutes(resolution) * 60000;
+
+  const window = candles.filter((candle) => {
+    const start = new Date(candle.time).getTime();
+    return start <= exit && start + barMs > entry;
+  });
+  if (window.length === 0) {
+    return null;
+  }
+
+  const high = Math.max(
+    trade.entryPrice,
+    trade.exitPrice,
+    ...window.map((candle) => candle.high),
+  );
+  const low = Math.min(
+    trade.entryPrice,
+    trade.exitPrice,
+    ...window.map((candle) => candle.low),
+  );
+
+  const isLong = trade.direction === TradeDirection.LONG;
+  const mfePrice = isLong ? high : low;
+  const maePrice = isLong ? low : high;
+  const mfe = Math.abs(mfePrice - trade.entryPrice);
+  const mae = Math.abs(trade.entryPrice - maePrice);
+  const realized = (trade.exitPrice - trade.entryPrice) * (isLong ? 1 : -1);
+
+  const units = trade.positionSize * (trade.multiplier || 1);
+  const riskPerUnit =
+    trade.stopLoss != null && trade.stopLoss !== trade.entryPrice
+      ? Math.abs(trade.entryPrice - trade.stopLoss)
+      : trade.riskAmount && units > 0
+        ? Math.abs(trade.riskAmount) / units
+        : null;
+
+  return {
+    maePrice,
+    mfePrice,
+    mae: round(mae),
+    mfe: round(mfe),
+    maeAmount: round(mae * units, 2),
+    mfeAmount: round(mfe * units, 2),
+    maeR: riskPerUnit ? round(mae / riskPerUnit) : null,
+    mfeR: riskPerUnit ? round(mfe / riskPerUnit) : null,
+    capture: mfe > 0 ? round(realized / mfe) : null,
+    candles: window.length,
+  };
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+/**
+ * Averages over enriched trades, plus how much of the favorable move is
+ * kept: losing exits keep nothing, so the rate is sum(max(0, capture) *
+ * mfeAmount) / sum(mfeAmount)
+ */
+export function summarizeExcursions(
+  trades: ExcursionStatsInput[],
+): ExcursionSummary {
+  const maeRs = trades.map((t) => t.maeR).filter((r) => r != null);
+  const mfeRs = trades.map((t) => t.mfeR).filter((r) => r != null);
+
+  let kept = 0;
+  let available = 0;
+  for (const trade of trades) {
+    if (trade.capture == null || !trade.mfeAmount) continue;
+    available += trade.mfeAmount;
+    kept += Math.max(0, Math.min(1, trade.capture)) * trade.mfeAmount;
+  }
+  const captureRate = available > 0 ? round((kept / available) * 100, 2) : null;
+  const leftOnTable = captureRate === null ? null : round(100 - captureRate, 2);
+
+  const avgMaeR = average(maeRs);
+  const avgMfeR = average(mfeRs);
+  return {
+    tradesAnalyzed: trades.length,
+    avgMae: round(average(trades.map((t) => t.maeAmount || 0)) || 0, 2),
+    avgMfe: round(average(trades.map((t) => t.mfeAmount || 0)) || 0, 2),
+    avgMaeR: avgMaeR === null ? null : round(avgMaeR, 2),
+    avgMfeR: avgMfeR === null ? null : round(avgMfeR, 2),
+    captureRate,
+    leftOnTable,
+    message:
+      leftOnTable === null
+        ? null
+        : `You leave ${Math.round(leftOnTable)}% of the move on the table`,
+  };
+}
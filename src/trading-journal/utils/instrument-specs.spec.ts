@@ -0,0 +1,89 @@
+import { model, Types } from 'mongoose';
+import { DEFAULT_INSTRUMENT_SPECS } from '../../settings/interfaces/instrument-spec.interface';
+import {
+  MarketType,
+  TradeDirection,
+  TradeSchema,
+} from '../schemas/trade.schema';
+import {
+  resolveContractMultiplier,
+  resolveInstrumentSpec,
+} from './instrument-specs';
+
+describe('instrument specs', () => {
+  it('resolves futures contracts to their root', () => {
+    const specs = DEFAULT_INSTRUMENT_SPECS;
+
+    expect(
+      resolveInstrumentSpec(specs, MarketType.FUTURES, '/ES')?.multiplier,
+    ).toBe(50);
+    expect(
+      resolveInstrumentSpec(specs, MarketType.FUTURES, 'ESZ5')?.multiplier,
+    ).toBe(50);
+    expect(
+      resolveInstrumentSpec(specs, MarketType.FUTURES, 'MESH2026')?.multiplier,
+    ).toBe(5);
+    expect(
+      resolveInstrumentSpec(specs, MarketType.FUTURES, 'NQM25')?.multiplier,
+    ).toBe(20);
+    expect(
+      resolveInstrumentSpec(specs, MarketType.FUTURES, 'ESPORTS'),
+    ).toBeUndefined();
+  });
+
+  it('resolves forex pairs through wildcards', () => {
+    const specs = DEFAULT_INSTRUMENT_SPECS;
+
+    expect(
+      resolveInstrumentSpec(specs, MarketType.FOREX, 'EUR/USD')?.tickSize,
+    ).toBe(0.0001);
+    expect(
+      resolveInstrumentSpec(specs, MarketType.FOREX, 'USDJPY')?.currency,
+    ).toBe('JPY');
+  });
+
+  it('falls back to the market default', () => {
+    expect(resolveContractMultiplier([], MarketType.OPTIONS, 'AAPL')).toBe(100);
+    expect(resolveContractMultiplier([], MarketType.FUTURES, 'ES')).toBe(1);
+    expect(resolveContractMultiplier(undefined, MarketType.FUTURES, 'ES')).toBe(
+      50,
+    );
+    expect(
+      resolveContractMultiplier(
+        DEFAULT_INSTRUMENT_SPECS,
+        MarketType.STOCKS,
+        'ES',
+      ),
+    ).toBe(1);
+  });
+
+  describe('Trade pre-validate hook', () => {
+    const JournalTrade = model('JournalTradeInstrumentSpecsSpec', TradeSchema);
+
+    it('applies the contract multiplier to P&L and risk', async () => {
+      const trade = new JournalTrade({
+        userId: new Types.ObjectId(),
+        tradeDate: new Date(Date.UTC(2025, 0, 15)),
+        symbol: 'ESH5',
+        market: MarketType.FUTURES,
+        direction: TradeDirection.SHORT,
+        contractMultiplier: 50,
+        entryTime: new Date(Date.UTC(2025, 0, 15, 15)),
+        entryPrice: 6000,
+        positionSize: 2,
+        stopLoss: 6005,
+        exitTime: new Date(Date.UTC(2025, 0, 15, 16)),
+        exitPrice: 5990,
+        commission: 4,
+      });
+
+      await trade.validate();
+
+      expect(trade.pnl).toBe(1000);
+      expect(trade.netPnl).toBe(996);
+      expect(trade.riskAmount).toBe(500);
+      expect(trade.rMultiple).toBeCloseTo(1.992);
+      expect(trade.pnlPercentage).toBeCloseTo((10 / 6000) * 100);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  DEFAULT_INSTRUMENT_SPECS,
+  InstrumentSpec,
+} from '../../settings/interfaces/instrument-spec.interface';
+import { MarketType } from '../schemas/trade.schema';
+import { getContractMultiplier } from './trade-calculations';
+
+// Futures month codes followed by a 1-4 digit year (ESZ5, ESZ25, ESZ2025)
+const FUTURES_CONTRACT_SUFFIX = /^[FGHJKMNQUVXZ]\d{1,4}$/;
+
+const normalizeSymbol = (symbol: string) =>
+  (symbol || '').toUpperCase().replace(/[\s/._-]/g, '');
+
+/**
+ * Find the spec for a traded symbol. Exact roots win, then the longest
+ * futures root the contract code starts with (MESZ5 -> MES rather than ES),
+ * then suffix wildcards (*JPY) and finally the market-wide '*' entry.
+ */
+export function resolveInstrumentSpec(
+  specs: InstrumentSpec[],
+  market: string,
+  symbol: string,
+): InstrumentSpec | undefined {
+  const normalized = normalizeSymbol(symbol);
+  const candidates = (specs || []).filter((spec) => spec.market === market);
+
+  const exact = candidates.find((spec) => spec.rootSymbol === normalized);
+  if (exact) {
+    return exact;
+  }
+
+  if (market === MarketType.FUTURES) {
+    const root = candidates
+      .filter(
+        (spec) =>
+          !spec.rootSymbol.startsWith('*') &&
+          normalized.startsWith(spec.rootSymbol) &&
+          FUTURES_CONTRACT_SUFFIX.test(
+            normalized.slice(spec.rootSymbol.length),
+          ),
+      )
+      .sort((a, b) => b.rootSymbol.length - a.rootSymbol.length)[0];
+    if (root) {
+      return root;
+    }
+  }
+
+  const suffix = candidates
+    .filter(
+      (spec) =>
+        spec.rootSymbol.length > 1 &&
+        spec.rootSymbol.startsWith('*') &&
+        normalized.endsWith(spec.rootSymbol.slice(1)),
+    )
+    .sort((a, b) => b.rootSymbol.length - a.rootSymbol.length)[0];
+  if (suffix) {
+    return suffix;
+  }
+
+  return candidates.find((spec) => spec.rootSymbol === '*');
+}
+
+/**
+ * Contract multiplier for a symbol, falling back to the market default
+ * (100 for options, 1 otherwise) when the registry has no entry
+ */
+export function resolveContractMultiplier(
+  specs: InstrumentSpec[] | undefined,
+  market: MarketType,
+  symbol: string,
+): number {
+  const spec = resolveInstrumentSpec(
+    specs || DEFAULT_INSTRUMENT_SPECS,
+    market,
+    symbol,
+  );
+  return spec?.multiplier || getContractMultiplier(market);
+}
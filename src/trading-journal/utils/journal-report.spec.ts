@@ -0,0 +1,90 @@
+import { ExecutionSide } from '../schemas/trade.schema';
+import {
+  dailyPnlRows,
+  describeLegs,
+  ReportTradeInput,
+  statsBy,
+} from './journal-report';
+
+const trade = (
+  day: number,
+  netPnl: number,
+  extra: Partial<ReportTradeInput> = {},
+): ReportTradeInput => ({
+  tradeDate: new Date(Date.UTC(2025, 2, day)),
+  entryTime: new Date(Date.UTC(2025, 2, day, 14)),
+  exitTime: new Date(Date.UTC(2025, 2, day, 15)),
+  netPnl,
+  isOpen: false,
+  ...extra,
+});
+
+describe('journal report', () => {
+  it('groups closed trades by day with a running total', () => {
+    const rows = dailyPnlRows([
+      trade(4, -50),
+      trade(3, 100),
+      trade(3, 25.555),
+      trade(4, 500, { isOpen: true }),
+    ]);
+
+    expect(rows).toEqual([
+      {
+        date: '2025-03-03',
+        trades: 2,
+        winners: 2,
+        netPnl: 125.56,
+        cumulative: 125.56,
+      },
+      {
+        date: '2025-03-04',
+        trades: 1,
+        winners: 0,
+        netPnl: -50,
+        cumulative: 75.56,
+      },
+    ]);
+  });
+
+  it('ranks groups by net P&L and buckets missing keys', () => {
+    const stats = statsBy(
+      [
+        trade(3, -100, { strategy: 'Fade' }),
+        trade(3, 200, { strategy: 'Breakout ' }),
+        trade(4, 50, { strategy: 'Breakout' }),
+        trade(4, 10),
+      ],
+      (t) => t.strategy,
+    );
+
+    expect(stats.map((s) => [s.key, s.trades, s.netPnl])).toEqual([
+      ['Breakout', 2, 250],
+      ['(none)', 1, 10],
+      ['Fade', 1, -100],
+    ]);
+  });
+
+  it('describes option legs', () => {
+    expect(
+      describeLegs([
+        {
+          optionType: 'call',
+          side: ExecutionSide.BUY,
+          strikePrice: 180,
+          expirationDate: new Date(Date.UTC(2025, 2, 21)),
+          entryPremium: 2.5,
+          exitPremium: 3.1,
+        },
+        {
+          optionType: 'call',
+          side: ExecutionSide.SELL,
+          strikePrice: 190,
+          expirationDate: new Date(Date.UTC(2025, 2, 21)),
+          ratio: 2,
+          entryPremium: 1.1,
+        },
+      ]),
+    ).toBe('+1 CALL 180 2025-03-21 @2.5 -> 3.1; -2 CALL 190 2025-03-21 @1.1');
+    expect(describeLegs()).toBe('');
+  });
+});
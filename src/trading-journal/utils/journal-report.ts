@@ -0,0 +1,103 @@
+import * as moment from 'moment';
+import { ExecutionSide } from '../schemas/trade.schema';
+import { BehaviorGroupStats, groupStats } from './behavior-report';
+
+export interface ReportTradeInput {
+  _id?: unknown;
+  tradeDate: Date;
+  entryTime: Date;
+  exitTime?: Date;
+  symbol?: string;
+  strategy?: string;
+  setup?: string;
+  netPnl?: number;
+  rMultiple?: number;
+  isOpen?: boolean;
+}
+
+export interface ReportLegInput {
+  optionType: string;
+  side: ExecutionSide;
+  strikePrice: number;
+  expirationDate: Date;
+  ratio?: number;
+  entryPremium: number;
+  exitPremium?: number;
+}
+
+export interface DailyPnlRow {
+  date: string;
+  trades: number;
+  winners: number;
+  netPnl: number;
+  cumulative: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Closed trades grouped by trade date (UTC, like the daily P&L chart) with
+ * the running total
+ */
+export function dailyPnlRows(trades: ReportTradeInput[]): DailyPnlRow[] {
+  const days = new Map<
+    string,
+    { trades: number; winners: number; pnl: number }
+  >();
+  for (const trade of trades.filter((t) => !t.isOpen)) {
+    const date = moment.utc(trade.tradeDate).format('YYYY-MM-DD');
+    const day = days.get(date) || { trades: 0, winners: 0, pnl: 0 };
+    day.trades++;
+    day.winners += (trade.netPnl || 0) > 0 ? 1 : 0;
+    day.pnl += trade.netPnl || 0;
+    days.set(date, day);
+  }
+
+  let cumulative = 0;
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => {
+      cumulative += day.pnl;
+      return {
+        date,
+        trades: day.trades,
+        winners: day.winners,
+        netPnl: round(day.pnl),
+        cumulative: round(cumulative),
+      };
+    });
+}
+
+/**
+ * Stats of closed trades per key, best first. Trades without a key are
+ * grouped under '(none)'.
+ */
+export function statsBy(
+  trades: ReportTradeInput[],
+  keyOf: (trade: ReportTradeInput) => string | undefined,
+): BehaviorGroupStats[] {
+  const groups = new Map<string, ReportTradeInput[]>();
+  for (const trade of trades.filter((t) => !t.isOpen)) {
+    const key = keyOf(trade)?.trim() || '(none)';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(trade);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => groupStats(key, group))
+    .sort((a, b) => b.netPnl - a.netPnl);
+}
+
+/**
+ * One-line description of option legs, e.g.
+ * "+1 CALL 180 2025-03-21 @2.5; -1 CALL 190 2025-03-21 @1.1"
+ */
+export function describeLegs(legs: ReportLegInput[] = []): string {
+  return legs
+    .map((leg) => {
+      const sign = leg.side === ExecutionSide.SELL ? '-' : '+';
+      const expiration = moment.utc(leg.expirationDate).format('YYYY-MM-DD');
+      const exit = leg.exitPremium != null ? ` -> ${leg.exitPremium}` : '';
+      return `${sign}${leg.ratio || 1} ${leg.optionType.toUpperCase()} ${leg.strikePrice} ${expiration} @${leg.entryPremium}${exit}`;
+    })
+    .join('; ');
+}
@@ -0,0 +1,146 @@
+import { model, Types } from 'mongoose';
+import {
+  ExecutionSide,
+  MarketType,
+  OptionsStrategyType,
+  OptionType,
+  TradeDirection,
+  TradeSchema,
+} from '../schemas/trade.schema';
+import {
+  analyzeStrategy,
+  detectStrategyType,
+  OptionLegInput,
+  strategyPnl,
+} from './options-strategy';
+
+const expiry = new Date(Date.UTC(2025, 2, 21));
+const later = new Date(Date.UTC(2025, 3, 17));
+
+const leg = (
+  optionType: OptionType,
+  side: ExecutionSide,
+  strikePrice: number,
+  entryPremium: number,
+  extra: Partial<OptionLegInput> = {},
+): OptionLegInput => ({
+  optionType,
+  side,
+  strikePrice,
+  expirationDate: expiry,
+  entryPremium,
+  ...extra,
+});
+
+const { CALL, PUT } = OptionType;
+const { BUY, SELL } = ExecutionSide;
+
+describe('options strategy calculations', () => {
+  it('analyzes a bull call debit spread', () => {
+    const legs = [leg(CALL, BUY, 100, 3), leg(CALL, SELL, 105, 1)];
+    const analysis = analyzeStrategy(legs, 2);
+
+    expect(detectStrategyType(legs)).toBe(OptionsStrategyType.VERTICAL);
+    expect(analysis.netPremiumPerUnit).toBe(2);
+    expect(analysis.netPremium).toBe(400);
+    expect(analysis.maxLoss).toBe(400);
+    expect(analysis.maxProfit).toBe(600);
+    expect(analysis.breakevens).toEqual([102]);
+    expect(analysis.unlimitedProfit).toBe(false);
+  });
+
+  it('analyzes an iron condor credit', () => {
+    const legs = [
+      leg(PUT, BUY, 90, 0.5),
+      leg(PUT, SELL, 95, 1.5),
+      leg(CALL, SELL, 105, 1.5),
+      leg(CALL, BUY, 110, 0.5),
+    ];
+    const analysis = analyzeStrategy(legs, 1);
+
+    expect(detectStrategyType(legs)).toBe(OptionsStrategyType.IRON_CONDOR);
+    expect(analysis.netPremium).toBe(-200);
+    expect(analysis.maxProfit).toBe(200);
+    expect(analysis.maxLoss).toBe(300);
+    expect(analysis.breakevens).toEqual([93, 107]);
+  });
+
+  it('flags unlimited profit on a long straddle', () => {
+    const legs = [leg(CALL, BUY, 100, 4), leg(PUT, BUY, 100, 3)];
+    const analysis = analyzeStrategy(legs, 1);
+
+    expect(detectStrategyType(legs)).toBe(OptionsStrategyType.STRADDLE);
+    expect(analysis.maxLoss).toBe(700);
+    expect(analysis.maxProfit).toBeNull();
+    expect(analysis.unlimitedProfit).toBe(true);
+    expect(analysis.breakevens).toEqual([93, 107]);
+  });
+
+  it('flags unlimited loss on a naked call ratio', () => {
+    const legs = [
+      leg(CALL, BUY, 100, 3),
+      leg(CALL, SELL, 105, 2, { ratio: 2 }),
+    ];
+    const analysis = analyzeStrategy(legs, 1);
+
+    expect(detectStrategyType(legs)).toBe(OptionsStrategyType.RATIO);
+    expect(analysis.unlimitedLoss).toBe(true);
+    expect(analysis.maxLoss).toBeNull();
+  });
+
+  it('only reports the debit as risk for calendars', () => {
+    const legs = [
+      leg(CALL, SELL, 100, 2),
+      leg(CALL, BUY, 100, 3.5, { expirationDate: later }),
+    ];
+    const analysis = analyzeStrategy(legs, 1);
+
+    expect(detectStrategyType(legs)).toBe(OptionsStrategyType.CALENDAR);
+    expect(analysis.maxLoss).toBe(150);
+    expect(analysis.breakevens).toEqual([]);
+  });
+
+  it('sums P&L across legs', () => {
+    const legs = [
+      leg(CALL, BUY, 100, 3, { exitPremium: 5.5 }),
+      leg(CALL, SELL, 105, 1, { exitPremium: 1.5 }),
+    ];
+
+    expect(strategyPnl(legs, 2)).toBe(400);
+  });
+
+  describe('Trade pre-validate hook', () => {
+    const JournalTrade = model('JournalTradeOptionsStrategySpec', TradeSchema);
+
+    it('derives a credit spread from its legs', async () => {
+      const trade = new JournalTrade({
+        userId: new Types.ObjectId(),
+        tradeDate: expiry,
+        symbol: 'spy',
+        market: MarketType.OPTIONS,
+        direction: TradeDirection.LONG,
+        entryTime: new Date(Date.UTC(2025, 2, 3, 15)),
+        positionSize: 1,
+        commission: 2,
+        legs: [
+          leg(PUT, SELL, 95, 2, { exitPremium: 0.5 }),
+          leg(PUT, BUY, 90, 1, { exitPremium: 0.1 }),
+        ],
+        exitTime: new Date(Date.UTC(2025, 2, 10, 15)),
+      });
+
+      await trade.validate();
+
+      expect(trade.strategyType).toBe(OptionsStrategyType.VERTICAL);
+      expect(trade.direction).toBe(TradeDirection.SHORT);
+      expect(trade.entryPrice).toBe(1);
+      expect(trade.exitPrice).toBeCloseTo(0.4);
+      expect(trade.strategyRisk.maxLoss).toBe(400);
+      expect(trade.pnl).toBe(60);
+      expect(trade.netPnl).toBe(58);
+      expect(trade.pnlPercentage).toBe(60);
+      expect(trade.isOpen).toBe(false);
+      expect(trade.executions).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  ExecutionSide,
+  OptionsStrategyType,
+  OptionType,
+} from '../schemas/trade.schema';
+
+export const OPTION_CONTRACT_MULTIPLIER = 100;
+
+export interface OptionLegInput {
+  optionType: OptionType;
+  side: ExecutionSide;
+  strikePrice: number;
+  expirationDate: Date;
+  ratio?: number;
+  entryPremium: number;
+  exitPremium?: number;
+}
+
+export interface StrategyAnalysis {
+  // Per-share premium of one strategy unit: positive = debit, negative = credit
+  netPremiumPerUnit: number;
+  // Total premium paid (positive) or received (negative) in dollars
+  netPremium: number;
+  maxProfit: number | null;
+  maxLoss: number | null;
+  unlimitedProfit: boolean;
+  unlimitedLoss: boolean;
+  breakevens: number[];
+}
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const legSign = (leg: OptionLegInput) =>
+  leg.side === ExecutionSide.BUY ? 1 : -1;
+
+const legRatio = (leg: OptionLegInput) => leg.ratio || 1;
+
+const intrinsic = (leg: OptionLegInput, underlying: number) =>
+  leg.optionType === OptionType.CALL
+    ? Math.max(0, underlying - leg.strikePrice)
+    : Math.max(0, leg.strikePrice - underlying);
+
+const sameDay = (a: Date, b: Date) =>
+  new Date(a).toISOString().slice(0, 10) ===
+  new Date(b).toISOString().slice(0, 10);
+
+/**
+ * Net premium, max profit/loss and breakevens of a strategy at entry.
+ *
+ * When every leg shares an expiration the payoff at expiry is piecewise
+ * linear, so it is evaluated at zero and at each strike, and the slope past
+ * the highest strike decides whether profit or loss is unlimited. Strategies
+ * spanning expirations (calendars, diagonals) depend on the remaining time
+ * value; for those only the net premium is reported, and a net debit is the
+ * maximum loss.
+ */
+export function analyzeStrategy(
+  legs: OptionLegInput[],
+  quantity: number,
+): StrategyAnalysis {
+  const unitMultiplier = OPTION_CONTRACT_MULTIPLIER * (quantity || 1);
+  const netPremiumPerUnit = round(
+    legs.reduce(
+      (sum, leg) => sum + legSign(leg) * legRatio(leg) * leg.entryPremium,
+      0,
+    ),
+  );
+  const netPremium = round(netPremiumPerUnit * unitMultiplier);
+
+  const singleExpiry = legs.every((leg) =>
+    sameDay(leg.expirationDate, legs[0].expirationDate),
+  );
+
+  if (!singleExpiry) {
+    return {
+      netPremiumPerUnit,
+      netPremium,
+      maxProfit: null,
+      maxLoss: netPremium > 0 ? netPremium : null,
+      unlimitedProfit: false,
+      unlimitedLoss: false,
+      breakevens: [],
+    };
+  }
+
+  const payoff = (underlying: number) =>
+    legs.reduce(
+      (sum, leg) =>
+        sum +
+        legSign(leg) *
+          legRatio(leg) *
+          (intrinsic(leg, underlying) - leg.entryPremium),
+      0,
+    ) * unitMultiplier;
+
+  const strikes = [...new Set(legs.map((leg) => leg.strikePrice))].sort(
+    (a, b) => a - b,
+  );
+  const points = [0, ...strikes].map((price) => ({
+    price,
+    value: round(payoff(price)),
+  }));
+
+  // Past the highest strike only calls still gain intrinsic value
+  const upsideSlope =
+    legs
+      .filter((leg) => leg.optionType === OptionType.CALL)
+      .reduce((sum, leg) => sum + legSign(leg) * legRatio(leg), 0) *
+    unitMultiplier;
+
+  const values = points.map((point) => point.value);
+  const unlimitedProfit = upsideSlope > 0;
+  const unlimitedLoss = upsideSlope < 0;
+
+  const breakevens: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const previous = points[i - 1];
+    if (previous && previous.value * current.value < 0) {
+      const crossing =
+        previous.price +
+        ((current.price - previous.price) * -previous.value) /
+          (current.value - previous.value);
+      breakevens.push(round(crossing));
+    }
+    if (current.value === 0) {
+      breakevens.push(current.price);
+    }
+  }
+
+  const last = points[points.length - 1];
+  if (upsideSlope !== 0 && last.value !== 0 && last.value * upsideSlope < 0) {
+    breakevens.push(round(last.price - last.value / upsideSlope));
+  }
+
+  return {
+    netPremiumPerUnit,
+    netPremium,
+    maxProfit: unlimitedProfit ? null : Math.max(...values),
+    maxLoss: unlimitedLoss ? null : Math.abs(Math.min(0, ...values)),
+    unlimitedProfit,
+    unlimitedLoss,
+    breakevens: [...new Set(breakevens)],
+  };
+}
+
+/**
+ * Combined P&L of all legs once each has an exit premium
+ */
+export function strategyPnl(legs: OptionLegInput[], quantity: number): number {
+  return round(
+    legs.reduce(
+      (sum, leg) =>
+        sum +
+        legSign(leg) *
+          legRatio(leg) *
+          ((leg.exitPremium ?? 0) - leg.entryPremium),
+      0,
+    ) *
+      OPTION_CONTRACT_MULTIPLIER *
+      (quantity || 1),
+  );
+}
+
+/**
+ * Per-share exit value of one strategy unit (positive = received on close
+ * of a debit position, mirroring netPremiumPerUnit)
+ */
+export function netExitPremiumPerUnit(legs: OptionLegInput[]): number {
+  return round(
+    legs.reduce(
+      (sum, leg) => sum + legSign(leg) * legRatio(leg) * (leg.exitPremium ?? 0),
+      0,
+    ),
+  );
+}
+
+/**
+ * Best-effort classification of a set of legs
+ */
+export function detectStrategyType(
+  legs: OptionLegInput[],
+): OptionsStrategyType {
+  if (legs.length === 1) {
+    return OptionsStrategyType.SINGLE;
+  }
+
+  const calls = legs.filter((leg) => leg.optionType === OptionType.CALL);
+  const puts = legs.filter((leg) => leg.optionType === OptionType.PUT);
+  const singleExpiry = legs.every((leg) =>
+    sameDay(leg.expirationDate, legs[0].expirationDate),
+  );
+
+  if (legs.length === 2) {
+    const [a, b] = legs;
+
+    if (a.optionType === b.optionType) {
+      if (!singleExpiry) {
+        return a.strikePrice === b.strikePrice
+          ? OptionsStrategyType.CALENDAR
+          : OptionsStrategyType.DIAGONAL;
+      }
+      if (a.side !== b.side && legRatio(a) === legRatio(b)) {
+        return OptionsStrategyType.VERTICAL;
+      }
+      return OptionsStrategyType.RATIO;
+    }
+
+    if (singleExpiry && a.side === b.side) {
+      return a.strikePrice === b.strikePrice
+        ? OptionsStrategyType.STRADDLE
+        : OptionsStrategyType.STRANGLE;
+    }
+
+    return OptionsStrategyType.CUSTOM;
+  }
+
+  if (!singleExpiry) {
+    return OptionsStrategyType.CUSTOM;
+  }
+
+  if (legs.length === 4 && calls.length === 2 && puts.length === 2) {
+    const verticalPair = (pair: OptionLegInput[]) =>
+      pair[0].side !== pair[1].side;
+    if (verticalPair(calls) && verticalPair(puts)) {
+      const shortCall = calls.find((leg) => leg.side === ExecutionSide.SELL);
+      const shortPut = puts.find((leg) => leg.side === ExecutionSide.SELL);
+      return shortCall.strikePrice === shortPut.strikePrice
+        ? OptionsStrategyType.IRON_BUTTERFLY
+        : OptionsStrategyType.IRON_CONDOR;
+    }
+  }
+
+  const sameType = calls.length === legs.length || puts.length === legs.length;
+  if (sameType) {
+    const byStrike = new Map<number, number>();
+    for (const leg of legs) {
+      byStrike.set(
+        leg.strikePrice,
+        (byStrike.get(leg.strikePrice) || 0) + legSign(leg) * legRatio(leg),
+      );
+    }
+    const strikes = [...byStrike.keys()].sort((a, b) => a - b);
+    const weights = strikes.map((strike) => byStrike.get(strike));
+    const isButterfly =
+      strikes.length === 3 &&
+      weights[0] === weights[2] &&
+      weights[1] === -2 * weights[0] &&
+      strikes[1] - strikes[0] === strikes[2] - strikes[1];
+    if (isButterfly) {
+      return OptionsStrategyType.BUTTERFLY;
+    }
+  }
+
+  return OptionsStrategyType.CUSTOM;
+}
@@ -0,0 +1,113 @@
+import {
+  analyzeDrawdowns,
+  buildEquityCurve,
+  computeAdvancedMetrics,
+  computeStreaks,
+  riskAdjustedReturns,
+} from './performance-metrics';
+
+const day = (date: number, month = 0) =>
+  new Date(Date.UTC(2025, month, date, 15));
+
+const trade = (date: Date, netPnl: number, rMultiple?: number) => ({
+  tradeDate: date,
+  exitTime: date,
+  netPnl,
+  rMultiple,
+});
+
+describe('performance metrics', () => {
+  it('tracks longest and current streaks', () => {
+    expect(computeStreaks([10, 20, -5, -5, -5, 0, 30, 40])).toEqual({
+      longestWinStreak: 2,
+      longestLossStreak: 3,
+      currentStreak: 2,
+      currentStreakType: 'win',
+    });
+  });
+
+  it('measures drawdown depth, duration and recovery', () => {
+    const curve = buildEquityCurve([
+      trade(day(1), 100),
+      trade(day(3), -60),
+      trade(day(6), -40),
+      trade(day(10), 150),
+      trade(day(11), -20),
+    ]);
+
+    expect(curve.map((point) => point.peak)).toEqual([100, 100, 100, 150, 150]);
+
+    const { maxDrawdown, longestDrawdownDays } = analyzeDrawdowns(curve);
+
+    expect(maxDrawdown.amount).toBe(100);
+    expect(maxDrawdown.percent).toBe(100);
+    expect(maxDrawdown.peakDate).toEqual(day(1));
+    expect(maxDrawdown.troughDate).toEqual(day(6));
+    expect(maxDrawdown.recoveryDate).toEqual(day(10));
+    expect(maxDrawdown.durationDays).toBe(9);
+    expect(maxDrawdown.recoveryDays).toBe(4);
+    expect(longestDrawdownDays).toBe(9);
+  });
+
+  it('leaves recovery open while still under water', () => {
+    const { maxDrawdown } = analyzeDrawdowns(
+      buildEquityCurve([trade(day(1), 50), trade(day(4), -80)]),
+    );
+
+    expect(maxDrawdown.recoveryDate).toBeNull();
+    expect(maxDrawdown.recoveryDays).toBeNull();
+    expect(maxDrawdown.durationDays).toBe(3);
+  });
+
+  it('annualizes Sharpe and Sortino on daily P&L', () => {
+    const { sharpeRatio, sortinoRatio } = riskAdjustedReturns([
+      100, -50, 100, -50,
+    ]);
+
+    // mean 25, sample std dev 86.6, downside deviation 35.36
+    expect(sharpeRatio).toBeCloseTo((25 / Math.sqrt(7500)) * Math.sqrt(252), 3);
+    expect(sortinoRatio).toBeCloseTo(
+      (25 / Math.sqrt(1250)) * Math.sqrt(252),
+      3,
+    );
+    expect(riskAdjustedReturns([100])).toEqual({
+      sharpeRatio: null,
+      sortinoRatio: null,
+    });
+  });
+
+  it('combines trades into expectancy and per-period figures', () => {
+    const metrics = computeAdvancedMetrics([
+      trade(day(2), 200, 2),
+      trade(day(2), -100, -1),
+      trade(day(20), -100, -1),
+      trade(day(3, 1), 300, 3),
+    ]);
+
+    expect(metrics.expectancy).toBe(75);
+    expect(metrics.expectancyR).toBe(0.75);
+    expect(metrics.profitFactor).toBe(2.5);
+    expect(metrics.tradingDays).toBe(3);
+    expect(metrics.byPeriod).toEqual([
+      {
+        period: '2025-01',
+        trades: 3,
+        netPnl: 0,
+        winRate: 33.33,
+        profitFactor: 1,
+        expectancy: 0,
+      },
+      {
+        period: '2025-02',
+        trades: 1,
+        netPnl: 300,
+        winRate: 100,
+        profitFactor: null,
+        expectancy: 300,
+      },
+    ]);
+    expect(metrics.equityCurve[metrics.equityCurve.length - 1].equity).toBe(
+      300,
+    );
+  });
+});
@@ -0,0 +1,346 @@
+import * as moment from 'moment';
+
+export type AnalyticsPeriod = 'week' | 'month';
+
+export interface ClosedTradeInput {
+  _id?: unknown;
+  symbol?: string;
+  tradeDate: Date;
+  exitTime?: Date;
+  netPnl?: number;
+  rMultiple?: number;
+}
+
+export interface EquityPoint {
+  tradeId?: unknown;
+  symbol?: string;
+  date: Date;
+  pnl: number;
+  equity: number;
+  peak: number;
+  drawdown: number;
+}
+
+export interface PeriodPerformance {
+  period: string;
+  trades: number;
+  netPnl: number;
+  winRate: number;
+  profitFactor: number | null;
+  expectancy: number;
+}
+
+export interface DrawdownSummary {
+  amount: number;
+  // Percent of the equity peak; null while the peak is not above zero
+  percent: number | null;
+  peakDate: Date | null;
+  troughDate: Date | null;
+  recoveryDate: Date | null;
+  // Peak to recovery (or to the last trade while still under water)
+  durationDays: number;
+  // Trough to recovery; null while still under water
+  recoveryDays: number | null;
+}
+
+export interface StreakSummary {
+  longestWinStreak: number;
+  longestLossStreak: number;
+  currentStreak: number;
+  currentStreakType: 'win' | 'loss' | null;
+}
+
+export interface AdvancedMetrics {
+  totalTrades: number;
+  netPnl: number;
+  winRate: number;
+  avgWin: number;
+  avgLoss: number;
+  expectancy: number;
+  expectancyR: number | null;
+  profitFactor: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  tradingDays: number;
+  streaks: StreakSummary;
+  maxDrawdown: DrawdownSummary;
+  longestDrawdownDays: number;
+  byPeriod: PeriodPerformance[];
+  equityCurve: EquityPoint[];
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+const round = (value: number, decimals = 4) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const closeTime = (trade: ClosedTradeInput) =>
+  new Date(trade.exitTime || trade.tradeDate);
+
+const daysBetween = (from: Date, to: Date) =>
+  round((to.getTime() - from.getTime()) / 86400000, 2);
+
+function profitFactorOf(pnls: number[]): number | null {
+  const grossWin = pnls.filter((p) => p > 0).reduce((sum, p) => sum + p, 0);
+  const grossLoss = Math.abs(
+    pnls.filter((p) => p < 0).reduce((sum, p) => sum + p, 0),
+  );
+  if (grossLoss === 0) {
+    return null;
+  }
+  return round(grossWin / grossLoss);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Annualized Sharpe and Sortino ratios over daily P&L, with a zero
+ * risk-free rate. Both ratios are scale-free, so daily dollar P&L gives the
+ * same result as daily returns on a fixed account size. Only days with
+ * closed trades are counted.
+ */
+export function riskAdjustedReturns(dailyPnl: number[]): {
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+} {
+  if (dailyPnl.length < 2) {
+    return { sharpeRatio: null, sortinoRatio: null };
+  }
+
+  const average = mean(dailyPnl);
+  const variance =
+    dailyPnl.reduce((sum, p) => sum + Math.pow(p - average, 2), 0) /
+    (dailyPnl.length - 1);
+  const downsideVariance =
+    dailyPnl.reduce((sum, p) => sum + Math.pow(Math.min(0, p), 2), 0) /
+    dailyPnl.length;
+
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+  const stdDev = Math.sqrt(variance);
+  const downsideDev = Math.sqrt(downsideVariance);
+
+  return {
+    sharpeRatio: stdDev > 0 ? round((average / stdDev) * annualize) : null,
+    sortinoRatio:
+      downsideDev > 0 ? round((average / downsideDev) * annualize) : null,
+  };
+}
+
+/**
+ * Longest and current runs of winners and losers. Breakeven trades end a
+ * streak without starting a new one.
+ */
+export function computeStreaks(pnls: number[]): StreakSummary {
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let current = 0;
+  let currentType: 'win' | 'loss' | null = null;
+
+  for (const pnl of pnls) {
+    const type = pnl > 0 ? 'win' : pnl < 0 ? 'loss' : null;
+    if (type === null) {
+      current = 0;
+      currentType = null;
+      continue;
+    }
+    current = type === currentType ? current + 1 : 1;
+    currentType = type;
+    if (type === 'win') {
+      longestWinStreak = Math.max(longestWinStreak, current);
+    } else {
+      longestLossStreak = Math.max(longestLossStreak, current);
+    }
+  }
+
+  return {
+    longestWinStreak,
+    longestLossStreak,
+    currentStreak: current,
+    currentStreakType: currentType,
+  };
+}
+
+/**
+ * Equity curve starting from zero, with the running peak and the distance
+ * below it after each trade
+ */
+export function buildEquityCurve(trades: ClosedTradeInput[]): EquityPoint[] {
+  let equity = 0;
+  let peak = 0;
+
+  return trades.map((trade) => {
+    const pnl = trade.netPnl || 0;
+    equity = round(equity + pnl);
+    peak = Math.max(peak, equity);
+    return {
+      tradeId: trade._id,
+      symbol: trade.symbol,
+      date: closeTime(trade),
+      pnl,
+      equity,
+      peak,
+      drawdown: round(peak - equity),
+    };
+  });
+}
+
+/**
+ * Deepest drawdown of the curve plus how long it lasted and how long it took
+ * to recover, and the longest time spent under a previous peak
+ */
+export function analyzeDrawdowns(curve: EquityPoint[]): {
+  maxDrawdown: DrawdownSummary;
+  longestDrawdownDays: number;
+} {
+  const maxDrawdown: DrawdownSummary = {
+    amount: 0,
+    percent: null,
+    peakDate: null,
+    troughDate: null,
+    recoveryDate: null,
+    durationDays: 0,
+    recoveryDays: null,
+  };
+  let longestDrawdownDays = 0;
+
+  // Start date of the current peak; the curve starts at zero equity
+  let peakDate: Date | null = curve.length > 0 ? curve[0].date : null;
+  let episodeTrough: EquityPoint | null = null;
+  let trackingMax = false;
+
+  for (const point of curve) {
+    if (point.drawdown === 0) {
+      if (episodeTrough) {
+        longestDrawdownDays = Math.max(
+          longestDrawdownDays,
+          daysBetween(peakDate, point.date),
+        );
+        if (trackingMax) {
+          maxDrawdown.recoveryDate = point.date;
+          maxDrawdown.durationDays = daysBetween(peakDate, point.date);
+          maxDrawdown.recoveryDays = daysBetween(
+            maxDrawdown.troughDate,
+            point.date,
+          );
+        }
+      }
+      peakDate = point.date;
+      episodeTrough = null;
+      trackingMax = false;
+      continue;
+    }
+
+    if (!episodeTrough || point.drawdown > episodeTrough.drawdown) {
+      episodeTrough = point;
+    }
+
+    if (point.drawdown > maxDrawdown.amount) {
+      maxDrawdown.amount = point.drawdown;
+      maxDrawdown.percent =
+        point.peak > 0 ? round((point.drawdown / point.peak) * 100, 2) : null;
+      maxDrawdown.peakDate = peakDate;
+      maxDrawdown.troughDate = point.date;
+      maxDrawdown.recoveryDate = null;
+      maxDrawdown.recoveryDays = null;
+      trackingMax = true;
+    }
+  }
+
+  // Still under water at the last trade
+  if (episodeTrough && curve.length > 0) {
+    const last = curve[curve.length - 1].date;
+    longestDrawdownDays = Math.max(
+      longestDrawdownDays,
+      daysBetween(peakDate, last),
+    );
+    if (trackingMax) {
+      maxDrawdown.durationDays = daysBetween(peakDate, last);
+    }
+  }
+
+  return { maxDrawdown, longestDrawdownDays };
+}
+
+export function performanceByPeriod(
+  trades: ClosedTradeInput[],
+  period: AnalyticsPeriod,
+): PeriodPerformance[] {
+  const format = period === 'week' ? 'GGGG-[W]WW' : 'YYYY-MM';
+  const groups = new Map<string, number[]>();
+
+  for (const trade of trades) {
+    const key = moment.utc(closeTime(trade)).format(format);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(trade.netPnl || 0);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, pnls]) => ({
+      period: key,
+      trades: pnls.length,
+      netPnl: round(
+        pnls.reduce((sum, p) => sum + p, 0),
+        2,
+      ),
+      winRate: round((pnls.filter((p) => p > 0).length / pnls.length) * 100, 2),
+      profitFactor: profitFactorOf(pnls),
+      expectancy: round(mean(pnls), 2),
+    }));
+}
+
+/**
+ * Advanced metrics over closed trades ordered by close time
+ */
+export function computeAdvancedMetrics(
+  trades: ClosedTradeInput[],
+  period: AnalyticsPeriod = 'month',
+): AdvancedMetrics {
+  const ordered = [...trades].sort(
+    (a, b) => closeTime(a).getTime() - closeTime(b).getTime(),
+  );
+  const pnls = ordered.map((trade) => trade.netPnl || 0);
+  const wins = pnls.filter((p) => p > 0);
+  const losses = pnls.filter((p) => p < 0);
+
+  const winRate = pnls.length > 0 ? wins.length / pnls.length : 0;
+  const avgWin = wins.length > 0 ? mean(wins) : 0;
+  const avgLoss = losses.length > 0 ? mean(losses) : 0;
+  const rMultiples = ordered
+    .map((trade) => trade.rMultiple)
+    .filter((r) => typeof r === 'number' && isFinite(r));
+
+  // Daily P&L keyed by trade date, like the daily P&L chart
+  const daily = new Map<string, number>();
+  for (const trade of ordered) {
+    const day = moment.utc(trade.tradeDate).format('YYYY-MM-DD');
+    daily.set(day, (daily.get(day) || 0) + (trade.netPnl || 0));
+  }
+
+  const equityCurve = buildEquityCurve(ordered);
+
+  return {
+    totalTrades: ordered.length,
+    netPnl: round(
+      pnls.reduce((sum, p) => sum + p, 0),
+      2,
+    ),
+    winRate: round(winRate * 100, 2),
+    avgWin: round(avgWin, 2),
+    avgLoss: round(avgLoss, 2),
+    // Average P&L per trade: winRate * avgWin - lossRate * |avgLoss|
+    expectancy: pnls.length > 0 ? round(mean(pnls), 2) : 0,
+    expectancyR: rMultiples.length > 0 ? round(mean(rMultiples)) : null,
+    profitFactor: profitFactorOf(pnls),
+    ...riskAdjustedReturns([...daily.values()]),
+    tradingDays: daily.size,
+    streaks: computeStreaks(pnls),
+    ...analyzeDrawdowns(equityCurve),
+    byPeriod: performanceByPeriod(ordered, period),
+    equityCurve,
+  };
+}
@@ -0,0 +1,46 @@
+import {
+  buildTimeHeatmaps,
+  HOLDING_TIME_BANDS,
+  timeSlotLabels,
+} from './time-heatmaps';
+
+describe('time heatmaps', () => {
+  it('labels time-of-day buckets', () => {
+    expect(timeSlotLabels(60)).toHaveLength(24);
+    expect(timeSlotLabels(15).slice(38, 40)).toEqual(['09:30', '09:45']);
+  });
+
+  it('fills empty buckets around the aggregated ones', () => {
+    const heatmaps = buildTimeHeatmaps(
+      {
+        byTimeOfDay: [{ slot: 38, trades: 4, winners: 1, netPnl: -250.456 }],
+        byWeekday: [{ weekday: 1, trades: 4, winners: 1, netPnl: -250.456 }],
+        byHoldingTime: [{ band: 0, trades: 4, winners: 1, netPnl: -250.456 }],
+        byWeekdayAndTime: [
+          { weekday: 1, slot: 38, trades: 4, winners: 1, netPnl: -250.456 },
+        ],
+        byHoldingTimeAndTime: [
+          { band: 0, slot: 38, trades: 4, winners: 1, netPnl: -250.456 },
+        ],
+      },
+      'America/New_York',
+      15,
+    );
+
+    expect(heatmaps.timeOfDay.cells[38]).toEqual({
+      trades: 4,
+      netPnl: -250.46,
+      winRate: 25,
+    });
+    expect(heatmaps.timeOfDay.cells[39]).toEqual({
+      trades: 0,
+      netPnl: 0,
+      winRate: null,
+    });
+    expect(heatmaps.dayOfWeek.labels[1]).toBe('Mon');
+    expect(heatmaps.holdingTime.labels).toHaveLength(HOLDING_TIME_BANDS.length);
+    expect(heatmaps.weekdayByTimeOfDay.cells).toHaveLength(7);
+    expect(heatmaps.weekdayByTimeOfDay.cells[1][38].trades).toBe(4);
+    expect(heatmaps.holdingTimeByTimeOfDay.cells[0][38].winRate).toBe(25);
+  });
+});
@@ -0,0 +1,180 @@
+export interface HoldingTimeBand {
+  label: string;
+  // Upper bound in minutes (exclusive); the last band has none
+  maxMinutes?: number;
+}
+
+export const HOLDING_TIME_BANDS: HoldingTimeBand[] = [
+  { label: '<5m', maxMinutes: 5 },
+  { label: '5-15m', maxMinutes: 15 },
+  { label: '15-60m', maxMinutes: 60 },
+  { label: '1-4h', maxMinutes: 240 },
+  { label: '4h-1d', maxMinutes: 1440 },
+  { label: '1-5d', maxMinutes: 7200 },
+  { label: '>5d' },
+];
+
+// Index 0 = Sunday, matching Mongo's $dayOfWeek - 1
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface HeatmapCell {
+  trades: number;
+  netPnl: number;
+  // null when the bucket has no trades
+  winRate: number | null;
+}
+
+export interface HeatmapSeries {
+  labels: string[];
+  cells: HeatmapCell[];
+}
+
+export interface HeatmapMatrix {
+  rows: string[];
+  columns: string[];
+  // cells[row][column]
+  cells: HeatmapCell[][];
+}
+
+/**
+ * One aggregated bucket from the heatmap pipeline. slot is the time-of-day
+ * bucket index, weekday is 0-6 from Sunday, band indexes HOLDING_TIME_BANDS.
+ */
+export interface HeatmapBucket {
+  slot?: number;
+  weekday?: number;
+  band?: number;
+  trades: number;
+  winners: number;
+  netPnl: number;
+}
+
+export interface TimeHeatmaps {
+  timezone: string;
+  bucketMinutes: number;
+  timeOfDay: HeatmapSeries;
+  dayOfWeek: HeatmapSeries;
+  holdingTime: HeatmapSeries;
+  weekdayByTimeOfDay: HeatmapMatrix;
+  holdingTimeByTimeOfDay: HeatmapMatrix;
+}
+
+const emptyCell = (): HeatmapCell => ({ trades: 0, netPnl: 0, winRate: null });
+
+const toCell = (bucket: HeatmapBucket): HeatmapCell => ({
+  trades: bucket.trades,
+  netPnl: Math.round(bucket.netPnl * 100) / 100,
+  winRate:
+    bucket.trades > 0
+      ? Math.round((bucket.winners / bucket.trades) * 10000) / 100
+      : null,
+});
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Labels for the time-of-day buckets, e.g. '09:30' for the bucket starting
+ * at 9:30 with 15 or 30 minute buckets
+ */
+export function timeSlotLabels(bucketMinutes: number): string[] {
+  const labels: string[] = [];
+  for (let minute = 0; minute < 1440; minute += bucketMinutes) {
+    labels.push(`${pad(Math.floor(minute / 60))}:${pad(minute % 60)}`);
+  }
+  return labels;
+}
+
+/**
+ * Mongo expression mapping holdingTime (minutes) to its band index
+ */
+export function holdingBandExpression(field = '$holdingTime') {
+  return {
+    $switch: {
+      branches: HOLDING_TIME_BANDS.filter(
+        (band) => band.maxMinutes !== undefined,
+      ).map((band, index) => ({
+        case: { $lt: [field, band.maxMinutes] },
+        then: index,
+      })),
+      default: HOLDING_TIME_BANDS.length - 1,
+    },
+  };
+}
+
+function toSeries(
+  labels: string[],
+  buckets: HeatmapBucket[],
+  key: keyof HeatmapBucket,
+): HeatmapSeries {
+  const cells = labels.map(emptyCell);
+  for (const bucket of buckets) {
+    const index = bucket[key];
+    if (typeof index === 'number' && cells[index]) {
+      cells[index] = toCell(bucket);
+    }
+  }
+  return { labels, cells };
+}
+
+function toMatrix(
+  rows: string[],
+  columns: string[],
+  buckets: HeatmapBucket[],
+  rowKey: keyof HeatmapBucket,
+  columnKey: keyof HeatmapBucket,
+): HeatmapMatrix {
+  const cells = rows.map(() => columns.map(emptyCell));
+  for (const bucket of buckets) {
+    const row = bucket[rowKey];
+    const column = bucket[columnKey];
+    if (
+      typeof row === 'number' &&
+      typeof column === 'number' &&
+      cells[row]?.[column]
+    ) {
+      cells[row][column] = toCell(bucket);
+    }
+  }
+  return { rows, columns, cells };
+}
+
+/**
+ * Turn the faceted aggregation output into dense series and matrices, with
+ * empty buckets filled in so the frontend can render them directly
+ */
+export function buildTimeHeatmaps(
+  facets: {
+    byTimeOfDay: HeatmapBucket[];
+    byWeekday: HeatmapBucket[];
+    byHoldingTime: HeatmapBucket[];
+    byWeekdayAndTime: HeatmapBucket[];
+    byHoldingTimeAndTime: HeatmapBucket[];
+  },
+  timezone: string,
+  bucketMinutes: number,
+): TimeHeatmaps {
+  const slots = timeSlotLabels(bucketMinutes);
+  const bands = HOLDING_TIME_BANDS.map((band) => band.label);
+
+  return {
+    timezone,
+    bucketMinutes,
+    timeOfDay: toSeries(slots, facets.byTimeOfDay, 'slot'),
+    dayOfWeek: toSeries(WEEKDAY_LABELS, facets.byWeekday, 'weekday'),
+    holdingTime: toSeries(bands, facets.byHoldingTime, 'band'),
+    weekdayByTimeOfDay: toMatrix(
+      WEEKDAY_LABELS,
+      slots,
+      facets.byWeekdayAndTime,
+      'weekday',
+      'slot',
+    ),
+    holdingTimeByTimeOfDay: toMatrix(
+      bands,
+      slots,
+      facets.byHoldingTimeAndTime,
+      'band',
+      'slot',
+    ),
+  };
+}
@@ -0,0 +1,188 @@
+import { model, Types } from 'mongoose';
+import {
+  ExecutionSide,
+  MarketType,
+  TradeDirection,
+  TradeSchema,
+} from '../schemas/trade.schema';
+import {
+  ExecutionError,
+  seedExecutions,
+  summarizeExecutions,
+} from './trade-calculations';
+
+const at = (minute: number) => new Date(Date.UTC(2025, 0, 15, 14, minute));
+
+describe('trade calculations', () => {
+  describe('summarizeExecutions', () => {
+    it('realizes partial exits against the average cost', () => {
+      const summary = summarizeExecutions(
+        [
+          {
+            side: ExecutionSide.BUY,
+            quantity: 100,
+            price: 10,
+            time: at(0),
+            fees: 1,
+          },
+          {
+            side: ExecutionSide.BUY,
+            quantity: 100,
+            price: 12,
+            time: at(5),
+            fees: 1,
+          },
+          {
+            side: ExecutionSide.SELL,
+            quantity: 50,
+            price: 13,
+            time: at(10),
+            fees: 1,
+          },
+          {
+            side: ExecutionSide.SELL,
+            quantity: 150,
+            price: 10,
+            time: at(20),
+            fees: 1,
+          },
+        ],
+        1,
+      );
+
+      expect(summary.averageEntryPrice).toBe(11);
+      expect(summary.realizedByExecution).toEqual([0, 0, 100, -150]);
+      expect(summary.realizedPnl).toBe(-50);
+      expect(summary.openQuantity).toBe(0);
+      expect(summary.averageExitPrice).toBe(10.75);
+      expect(summary.totalFees).toBe(4);
+    });
+
+    it('treats a sell as the opening side of a short', () => {
+      const summary = summarizeExecutions(
+        [
+          { side: ExecutionSide.SELL, quantity: 10, price: 50, time: at(0) },
+          { side: ExecutionSide.BUY, quantity: 4, price: 45, time: at(1) },
+        ],
+        1,
+      );
+
+      expect(summary.realizedPnl).toBe(20);
+      expect(summary.openQuantity).toBe(6);
+    });
+
+    it('rejects exits larger than the open position', () => {
+      expect(() =>
+        summarizeExecutions(
+          [
+            { side: ExecutionSide.BUY, quantity: 10, price: 50, time: at(0) },
+            { side: ExecutionSide.SELL, quantity: 11, price: 51, time: at(1) },
+          ],
+          1,
+        ),
+      ).toThrow(ExecutionError);
+    });
+  });
+
+  describe('seedExecutions', () => {
+    it('keeps the long-premium convention for options', () => {
+      const executions = seedExecutions({
+        market: MarketType.OPTIONS,
+        direction: TradeDirection.SHORT,
+        entryPrice: 2,
+        entryTime: at(0),
+        positionSize: 1,
+        exitPrice: 3,
+        exitTime: at(30),
+      });
+
+      expect(executions.map((execution) => execution.side)).toEqual([
+        ExecutionSide.BUY,
+        ExecutionSide.SELL,
+      ]);
+    });
+  });
+
+  describe('Trade pre-validate hook', () => {
+    const JournalTrade = model('JournalTradeCalculationsSpec', TradeSchema);
+
+    const baseTrade = {
+      userId: new Types.ObjectId(),
+      tradeDate: at(0),
+      symbol: 'aapl',
+      market: MarketType.STOCKS,
+      direction: TradeDirection.LONG,
+      riskAmount: 100,
+    };
+
+    it('derives prices and P&L from a legacy entry/exit pair', async () => {
+      const trade = new JournalTrade({
+        ...baseTrade,
+        entryTime: at(0),
+        entryPrice: 100,
+        positionSize: 10,
+        exitTime: at(45),
+        exitPrice: 110,
+        commission: 2,
+      });
+
+      await trade.validate();
+
+      expect(trade.executions).toHaveLength(2);
+      expect(trade.pnl).toBe(100);
+      expect(trade.netPnl).toBe(98);
+      expect(trade.pnlPercentage).toBe(10);
+      expect(trade.rMultiple).toBeCloseTo(0.98);
+      expect(trade.holdingTime).toBe(45);
+      expect(trade.isOpen).toBe(false);
+      expect(trade.isWinner).toBe(true);
+    });
+
+    it('keeps a partially closed trade open', async () => {
+      const trade = new JournalTrade({
+        ...baseTrade,
+        executions: [
+          { side: ExecutionSide.BUY, quantity: 10, price: 100, time: at(0) },
+          { side: ExecutionSide.SELL, quantity: 4, price: 105, time: at(10) },
+        ],
+      });
+
+      await trade.validate();
+
+      expect(trade.entryPrice).toBe(100);
+      expect(trade.positionSize).toBe(10);
+      expect(trade.openQuantity).toBe(6);
+      expect(trade.pnl).toBe(20);
+      expect(trade.isOpen).toBe(true);
+      expect(trade.exitTime).toBeUndefined();
+      expect(trade.executions[1].realizedPnl).toBe(20);
+    });
+
+    it('recomputes a derived risk but keeps one the trader entered', async () => {
+      const trade = new JournalTrade({
+        ...baseTrade,
+        riskAmount: undefined,
+        stopLoss: 95,
+        executions: [
+          { side: ExecutionSide.BUY, quantity: 10, price: 100, time: at(0) },
+        ],
+      });
+      await trade.validate();
+      expect(trade.riskAmount).toBe(50);
+
+      // Documents as loaded from the database, with nothing modified yet
+      const stored = JournalTrade.hydrate(trade.toObject());
+      stored.stopLoss = 90;
+      await stored.validate();
+      expect(stored.riskAmount).toBe(100);
+
+      stored.riskAmount = 80;
+      await stored.validate();
+      const entered = JournalTrade.hydrate(stored.toObject());
+      entered.stopLoss = 85;
+      await entered.validate();
+      expect(entered.riskAmount).toBe(80);
+      expect(entered.riskAmountDerived).toBe(false);
+    });
+  });
+});
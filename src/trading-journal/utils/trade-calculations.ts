@@ -0,0 +1,222 @@
+import {
+  ExecutionSide,
+  MarketType,
+  TradeDirection,
+} from '../schemas/trade.schema';
+
+export interface ExecutionInput {
+  side: ExecutionSide;
+  quantity: number;
+  price: number;
+  time: Date;
+  fees?: number;
+}
+
+export interface PositionSummary {
+  entrySide: ExecutionSide;
+  averageEntryPrice: number;
+  entryQuantity: number;
+  firstEntryTime: Date;
+  openQuantity: number;
+  exitedQuantity: number;
+  averageExitPrice?: number;
+  lastExitTime?: Date;
+  realizedPnl: number;
+  realizedCostBasis: number;
+  totalFees: number;
+  // Realized P&L of each execution, in the order they were given
+  realizedByExecution: number[];
+}
+
+/**
+ * Raised when executions do not describe a valid position
+ */
+export class ExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExecutionError';
+  }
+}
+
+const EPSILON = 1e-9;
+
+const round = (value: number) => Math.round(value * 1e8) / 1e8;
+
+/**
+ * Dollar value of a one point move per unit of position size.
+ * Options contracts control 100 shares; everything else is 1:1.
+ */
+export function getContractMultiplier(market: MarketType): number {
+  return market === MarketType.OPTIONS ? 100 : 1;
+}
+
+export function oppositeSide(side: ExecutionSide): ExecutionSide {
+  return side === ExecutionSide.BUY ? ExecutionSide.SELL : ExecutionSide.BUY;
+}
+
+/**
+ * Side that opens a position in the given direction. Options keep the
+ * journal's long-premium convention (P&L = exit - entry), so legacy options
+ * trades always open with a buy.
+ */
+export function entrySideFor(
+  market: MarketType,
+  direction: TradeDirection,
+): ExecutionSide {
+  if (market === MarketType.OPTIONS || direction === TradeDirection.LONG) {
+    return ExecutionSide.BUY;
+  }
+  return ExecutionSide.SELL;
+}
+
+/**
+ * Walk the executions in time order using the average-cost method. The first
+ * execution's side opens the position; executions on that side add to it and
+ * executions on the other side realize P&L against the current average cost.
+ */
+export function summarizeExecutions(
+  executions: ExecutionInput[],
+  multiplier: number,
+): PositionSummary {
+  if (!executions || executions.length === 0) {
+    throw new ExecutionError('A trade needs at least one execution');
+  }
+
+  const ordered = executions
+    .map((execution, index) => ({ execution, index }))
+    .sort(
+      (a, b) =>
+        new Date(a.execution.time).getTime() -
+          new Date(b.execution.time).getTime() || a.index - b.index,
+    );
+
+  const entrySide = ordered[0].execution.side;
+  const sign = entrySide === ExecutionSide.BUY ? 1 : -1;
+  const realizedByExecution = new Array(executions.length).fill(0);
+
+  let openQuantity = 0;
+  let averageCost = 0;
+  let entryQuantity = 0;
+  let entryNotional = 0;
+  let exitedQuantity = 0;
+  let exitNotional = 0;
+  let realizedPnl = 0;
+  let realizedCostBasis = 0;
+  let totalFees = 0;
+  let lastExitTime: Date | undefined;
+
+  for (const { execution, index } of ordered) {
+    const { quantity, price } = execution;
+    if (!(quantity > 0) || !(price >= 0)) {
+      throw new ExecutionError(
+        'Execution quantity must be positive and price non-negative',
+      );
+    }
+    totalFees += execution.fees || 0;
+
+    if (execution.side === entrySide) {
+      averageCost =
+        (averageCost * openQuantity + price * quantity) /
+        (openQuantity + quantity);
+      openQuantity += quantity;
+      entryQuantity += quantity;
+      entryNotional += price * quantity;
+      continue;
+    }
+
+    if (quantity > openQuantity + EPSILON) {
+      throw new ExecutionError(
+        `Exit of ${quantity} exceeds the open quantity of ${round(openQuantity)}`,
+      );
+    }
+
+    const realized = (price - averageCost) * quantity * multiplier * sign;
+    realizedByExecution[index] = round(realized);
+    realizedPnl += realized;
+    realizedCostBasis += averageCost * quantity * multiplier;
+    openQuantity = Math.max(0, openQuantity - quantity);
+    exitedQuantity += quantity;
+    exitNotional += price * quantity;
+    lastExitTime = new Date(execution.time);
+  }
+
+  return {
+    entrySide,
+    averageEntryPrice: round(entryNotional / entryQuantity),
+    entryQuantity: round(entryQuantity),
+    firstEntryTime: new Date(ordered[0].execution.time),
+    openQuantity: openQuantity < EPSILON ? 0 : round(openQuantity),
+    exitedQuantity: round(exitedQuantity),
+    averageExitPrice:
+      exitedQuantity > 0 ? round(exitNotional / exitedQuantity) : undefined,
+    lastExitTime,
+    realizedPnl: round(realizedPnl),
+    realizedCostBasis: round(realizedCostBasis),
+    totalFees: round(totalFees),
+    realizedByExecution,
+  };
+}
+
+/**
+ * Build the execution list for a trade that was recorded with a single
+ * entry/exit pair (manual entries and trades created before executions).
+ */
+export function seedExecutions(trade: {
+  market: MarketType;
+  direction: TradeDirection;
+  entryPrice?: number;
+  entryTime?: Date;
+  positionSize?: number;
+  exitPrice?: number;
+  exitTime?: Date;
+  commission?: number;
+}): ExecutionInput[] {
+  if (trade.entryPrice == null || !trade.positionSize || !trade.entryTime) {
+    return [];
+  }
+
+  const entrySide = entrySideFor(trade.market, trade.direction);
+  const executions: ExecutionInput[] = [
+    {
+      side: entrySide,
+      quantity: trade.positionSize,
+      price: trade.entryPrice,
+      time: trade.entryTime,
+      fees: trade.commission || 0,
+    },
+  ];
+
+  if (trade.exitPrice != null) {
+    executions.push({
+      side: oppositeSide(entrySide),
+      quantity: trade.positionSize,
+      price: trade.exitPrice,
+      time: trade.exitTime || trade.entryTime,
+      fees: 0,
+    });
+  }
+
+  return executions;
+}
+
+/**
+ * True when the executions are just one entry plus at most one full exit,
+ * i.e. they can be regenerated from the single-price fields without loss.
+ */
+export function isSimpleExecutionHistory(
+  executions: ExecutionInput[],
+): boolean {
+  if (!executions || executions.length === 0) {
+    return true;
+  }
+  if (executions.length > 2) {
+    return false;
+  }
+  if (executions.length === 2) {
+    return (
+      executions[0].side !== executions[1].side &&
+      Math.abs(executions[0].quantity - executions[1].quantity) < EPSILON
+    );
+  }
+  return true;
+}
@@ -0,0 +1,104 @@
+import { TradingRule } from '../schemas/trading-plan.schema';
+import {
+  evaluateEntryRules,
+  evaluateExitRules,
+  localDayBounds,
+  mergeMissionGoals,
+} from './trading-rules';
+
+const NY = 'America/New_York';
+
+// 9:35 in New York during EST
+const openingTrade = {
+  entryTime: new Date('2025-01-15T14:35:00Z'),
+  market: 'stocks',
+  setup: 'Breakout',
+  confidence: 6,
+};
+
+describe('trading rules', () => {
+  it('computes local day bounds across UTC midnight', () => {
+    const { start, end } = localDayBounds(new Date('2025-01-16T02:00:00Z'), NY);
+
+    expect(start.toISOString()).toBe('2025-01-15T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2025-01-16T05:00:00.000Z');
+  });
+
+  it('lets mission goals fill unset rules', () => {
+    expect(
+      mergeMissionGoals(
+        { maxTradesPerDay: 2 },
+        { tradesPerDay: 5, maxLoss: -300, minWin: 200 },
+      ),
+    ).toEqual({
+      maxTradesPerDay: 2,
+      maxDailyLoss: 300,
+      dailyProfitTarget: 200,
+    });
+  });
+
+  it('flags entry rule violations', () => {
+    const violations = evaluateEntryRules(
+      openingTrade,
+      {
+        maxTradesPerDay: 3,
+        maxDailyLoss: 500,
+        noTradingBefore: '09:45',
+        allowedSetups: ['A+ pullback'],
+        minConfidence: 7,
+        requireStopLoss: true,
+        allowedMarkets: ['futures'],
+      },
+      NY,
+      { tradesToday: 3, dailyPnlBefore: -600 },
+    );
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      TradingRule.MAX_TRADES_PER_DAY,
+      TradingRule.MAX_DAILY_LOSS,
+      TradingRule.NO_TRADING_BEFORE,
+      TradingRule.SETUP_NOT_ALLOWED,
+      TradingRule.MIN_CONFIDENCE,
+      TradingRule.STOP_LOSS_REQUIRED,
+      TradingRule.MARKET_NOT_ALLOWED,
+    ]);
+  });
+
+  it('accepts a trade that follows the plan', () => {
+    expect(
+      evaluateEntryRules(
+        {
+          ...openingTrade,
+          setup: 'a+ pullback ',
+          stopLoss: 10,
+          riskAmount: 50,
+        },
+        {
+          noTradingBefore: '09:30',
+          noTradingAfter: '15:30',
+          allowedSetups: ['A+ pullback'],
+          maxRiskPerTrade: 100,
+        },
+        NY,
+        { tradesToday: 0, dailyPnlBefore: 0 },
+      ),
+    ).toEqual([]);
+  });
+
+  it('flags the exit that breaches the daily loss limit', () => {
+    const rules = { maxDailyLoss: 500 };
+
+    expect(
+      evaluateExitRules({ ...openingTrade, netPnl: -200 }, rules, {
+        tradesToday: 0,
+        dailyPnlBefore: -350,
+      }).map((violation) => violation.rule),
+    ).toEqual([TradingRule.MAX_DAILY_LOSS]);
+    expect(
+      evaluateExitRules({ ...openingTrade, netPnl: -200 }, rules, {
+        tradesToday: 0,
+        dailyPnlBefore: -600,
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import { TradingPlanRules, TradingRule } from '../schemas/trading-plan.schema';
+import { zonedTimeToUtc } from '../importers/import.utils';
+
+export interface RuleTradeInput {
+  entryTime: Date;
+  market?: string;
+  setup?: string;
+  confidence?: number;
+  stopLoss?: number;
+  riskAmount?: number;
+  netPnl?: number;
+}
+
+export interface RuleContext {
+  // Trades already opened on the same local day, excluding this one
+  tradesToday: number;
+  // Realized net P&L of the day before this trade was opened/closed
+  dailyPnlBefore: number;
+}
+
+export interface RuleViolationResult {
+  rule: TradingRule;
+  message: string;
+  stage: 'entry' | 'exit';
+}
+
+export interface MissionGoals {
+  tradesPerDay?: number;
+  maxLoss?: number;
+  minWin?: number;
+}
+
+/**
+ * Local calendar date and minute-of-day of an instant in a timezone
+ */
+export function localTime(
+  date: Date,
+  timeZone: string,
+): { year: number; month: number; day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(date));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    minutes: get('hour') * 60 + get('minute'),
+  };
+}
+
+/**
+ * UTC bounds [start, end) of the local day containing the given instant
+ */
+export function localDayBounds(
+  date: Date,
+  timeZone: string,
+): { start: Date; end: Date } {
+  const { year, month, day } = localTime(date, timeZone);
+  const start = zonedTimeToUtc(year, month, day, 0, 0, 0, timeZone);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  const end = zonedTimeToUtc(
+    next.getUTCFullYear(),
+    next.getUTCMonth() + 1,
+    next.getUTCDate(),
+    0,
+    0,
+    0,
+    timeZone,
+  );
+  return { start, end };
+}
+
+const toMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Rules of the plan with the mission goals filling the ones left unset
+ * (tradesPerDay -> maxTradesPerDay, maxLoss -> maxDailyLoss,
+ * minWin -> dailyProfitTarget)
+ */
+export function mergeMissionGoals(
+  rules: TradingPlanRules,
+  goals?: MissionGoals,
+): TradingPlanRules {
+  if (!goals) {
+    return { ...rules };
+  }
+  return {
+    ...rules,
+    maxTradesPerDay: rules.maxTradesPerDay ?? goals.tradesPerDay,
+    maxDailyLoss:
+      rules.maxDailyLoss ??
+      (goals.maxLoss != null ? Math.abs(goals.maxLoss) : undefined),
+    dailyProfitTarget: rules.dailyProfitTarget ?? goals.minWin,
+  };
+}
+
+/**
+ * Rules checked when a trade is opened
+ */
+export function evaluateEntryRules(
+  trade: RuleTradeInput,
+  rules: TradingPlanRules,
+  timeZone: string,
+  context: RuleContext,
+): RuleViolationResult[] {
+  const violations: RuleViolationResult[] = [];
+  const add = (rule: TradingRule, message: string) =>
+    violations.push({ rule, message, stage: 'entry' });
+
+  if (rules.maxTradesPerDay && context.tradesToday >= rules.maxTradesPerDay) {
+    add(
+      TradingRule.MAX_TRADES_PER_DAY,
+      `Trade #${context.tradesToday + 1} of the day exceeds the limit of ${rules.maxTradesPerDay}`,
+    );
+  }
+
+  if (rules.maxDailyLoss && context.dailyPnlBefore <= -rules.maxDailyLoss) {
+    add(
+      TradingRule.MAX_DAILY_LOSS,
+      `Opened after the daily loss limit of ${rules.maxDailyLoss} was reached`,
+    );
+  }
+
+  const { minutes } = localTime(trade.entryTime, timeZone);
+  if (rules.noTradingBefore && minutes < toMinutes(rules.noTradingBefore)) {
+    add(
+      TradingRule.NO_TRADING_BEFORE,
+      `Opened before ${rules.noTradingBefore} (${timeZone})`,
+    );
+  }
+  if (rules.noTradingAfter && minutes >= toMinutes(rules.noTradingAfter)) {
+    add(
+      TradingRule.NO_TRADING_AFTER,
+      `Opened after ${rules.noTradingAfter} (${timeZone})`,
+    );
+  }
+
+  if (rules.allowedSetups?.length) {
+    const allowed = rules.allowedSetups.map((setup) =>
+      setup.trim().toLowerCase(),
+    );
+    if (!allowed.includes((trade.setup || '').trim().toLowerCase())) {
+      add(
+        TradingRule.SETUP_NOT_ALLOWED,
+        `Setup "${trade.setup || 'none'}" is not in the plan`,
+      );
+    }
+  }
+
+  if (
+    rules.minConfidence &&
+    (trade.confidence == null || trade.confidence < rules.minConfidence)
+  ) {
+    add(
+      TradingRule.MIN_CONFIDENCE,
+      `Confidence ${trade.confidence ?? 'not set'} is below the minimum of ${rules.minConfidence}`,
+    );
+  }
+
+  if (rules.requireStopLoss && trade.stopLoss == null) {
+    add(TradingRule.STOP_LOSS_REQUIRED, 'No stop loss was set');
+  }
+
+  if (
+    rules.maxRiskPerTrade &&
+    trade.riskAmount != null &&
+    trade.riskAmount > rules.maxRiskPerTrade
+  ) {
+    add(
+      TradingRule.MAX_RISK_PER_TRADE,
+      `Risk of ${trade.riskAmount} exceeds the limit of ${rules.maxRiskPerTrade}`,
+    );
+  }
+
+  if (
+    rules.allowedMarkets?.length &&
+    trade.market &&
+    !rules.allowedMarkets.includes(trade.market)
+  ) {
+    add(
+      TradingRule.MARKET_NOT_ALLOWED,
+      `Market "${trade.market}" is not in the plan`,
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Rules checked when a trade is closed: the trade that takes the day past
+ * the loss limit is flagged
+ */
+export function evaluateExitRules(
+  trade: RuleTradeInput,
+  rules: TradingPlanRules,
+  context: RuleContext,
+): RuleViolationResult[] {
+  if (!rules.maxDailyLoss) {
+    return [];
+  }
+
+  const after = context.dailyPnlBefore + (trade.netPnl || 0);
+  if (
+    context.dailyPnlBefore > -rules.maxDailyLoss &&
+    after <= -rules.maxDailyLoss
+  ) {
+    return [
+      {
+        rule: TradingRule.MAX_DAILY_LOSS,
+        message: `Closing this trade took the day to ${Math.round(after * 100) / 100}, past the daily loss limit of ${rules.maxDailyLoss}`,
+        stage: 'exit',
+      },
+    ];
+  }
+
+  return [];
+}
@@ -1,8 +1,11 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { CreateUserDto } from './create-user.dto';
 import { IsOptional, IsString, IsNumber } from 'class-validator';
 
-export class UpdateUserDto extends PartialType(CreateUserDto) {
+// Email changes go through the confirmed change-email flow
+export class UpdateUserDto extends PartialType(
+  OmitType(CreateUserDto, ['email'] as const),
+) {
   @IsOptional()
   @IsString()
   recoveryToken?: string;
@@ -55,10 +55,6 @@ export class UpdateUserDto {
   @IsString()
   lastName?: string;
 
-  @IsOptional()
-  @IsEmail()
-  email?: string;
-
   @IsOptional()
   @MinLength(12)
   @IsStrongPassword()
@@ -101,6 +97,15 @@ export interface CreateUserInput {
   mediaUsageTermsAcceptedAt?: Date;
   acceptedCommunityGuidelines?: boolean;
   communityGuidelinesAcceptedAt?: Date;
+  hasPassword?: boolean;
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date;
+  authProviders?: {
+    provider: string;
+    subject: string;
+    email?: string;
+    linkedAt: Date;
+  }[];
 }
 
 export enum TradingPhases {
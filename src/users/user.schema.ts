@@ -10,15 +10,64 @@ export class User extends Document {
   @Prop({ required: true })
   firstName: string;
 
-  @Prop({ required: true })
+  // Google and Apple do not always share a family name
+  @Prop({ default: '' })
   lastName: string;
 
   @Prop({ required: true, unique: true })
   email: string;
 
+  // Confirmed through a link sent to `email`; purchases and the chatbot
+  // require it
+  @Prop({ default: false })
+  emailVerified?: boolean;
+
+  @Prop()
+  emailVerifiedAt?: Date;
+
+  // New address awaiting confirmation before it replaces `email`
+  @Prop()
+  pendingEmail?: string;
+
+  @Prop()
+  emailVerificationSentAt?: Date;
+
+  // Emailed code that stands in for the password when an account without
+  // one changes its address
+  @Prop({ select: false })
+  emailChangeCodeHash?: string;
+
+  @Prop()
+  emailChangeCodeExpiresAt?: Date;
+
   @Prop({ required: true })
   password: string;
 
+  // False for accounts created through a social login until they set a
+  // password; `password` then holds an unusable random hash
+  @Prop({ default: true })
+  hasPassword?: boolean;
+
+  // Google and Apple identities that can sign in to this account
+  @Prop({
+    type: [
+      {
+        provider: { type: String, enum: ['google', 'apple'], required: true },
+        subject: { type: String, required: true },
+        email: { type: String },
+        linkedAt: { type: Date, default: Date.now },
+        _id: false,
+      },
+    ],
+    default: [],
+  })
+  authProviders: {
+    provider: 'google' | 'apple';
+    subject: string;
+    email?: string;
+    linkedAt: Date;
+  }[];
+
   @Prop()
   phone?: string;
 
@@ -74,6 +123,10 @@ export class User extends Document {
   @Prop()
   lastLogin?: Date;
 
+  // Login asks for a second factor; credentials live in TwoFactorAuth
+  @Prop({ default: false })
+  twoFactorEnabled?: boolean;
+
   @Prop({ default: false })
   allowLiveMeetingAccess?: boolean;
 
@@ -182,6 +235,9 @@ UserSchema.index(
   { sparse: true }
 );
 
+// Social sign-in lookup
+UserSchema.index({ 'authProviders.provider': 1, 'authProviders.subject': 1 });
+
 // Virtual populate for module permissions
 UserSchema.virtual('modulePermissions', {
   ref: 'ModulePermission',
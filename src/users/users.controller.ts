@@ -22,6 +22,7 @@ import { RolesGuard } from 'src/guards/roles.guard';
 import { Roles } from 'src/decorators/roles.decorator';
 import { Role } from 'src/constants';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { pickProfileFields } from './utils/profile-fields';
 
 @Controller('user')
 export class UserController {
@@ -101,9 +102,14 @@ export class UserController {
   @Put('profile')
   async updateProfile(
     @Req() req: RequestWithUser,
-    @Body() body: { first_name?: string; last_name?: string },
+    @Body() body: Record<string, unknown>,
   ) {
-    const updatedUser = await this.userService.updateUser(req.user._id, body);
+    // Email goes through auth/email and security settings through their own
+    // flows; anything else in the body is ignored
+    const updatedUser = await this.userService.updateUser(
+      req.user._id,
+      pickProfileFields(body),
+    );
     const { password, ...userWithoutSensitiveData } = updatedUser.toObject
       ? updatedUser.toObject()
       : updatedUser;
@@ -61,6 +61,39 @@ export class UserService {
       .exec();
   }
 
+  /**
+   * Marks accounts created before email verification existed as verified
+   * since their signup date. Only touches users that never stored the
+   * field, so it is safe to run on every start.
+   */
+  async markLegacyEmailsVerified(): Promise<number> {
+    const result = await this.userModel
+      .updateMany({ emailVerified: { $exists: false } }, [
+        {
+          $set: {
+            emailVerified: true,
+            emailVerifiedAt: { $ifNull: ['$createdAt', '$$NOW'] },
+          },
+        },
+      ])
+      .exec();
+    return result.modifiedCount;
+  }
+
+  /**
+   * Removes the pending email change code and returns the user as it was,
+   * so each code can be checked at most once
+   */
+  async takeEmailChangeCode(userId: string): Promise<User | null> {
+    return this.userModel
+      .findOneAndUpdate(
+        { _id: userId, emailChangeCodeHash: { $exists: true } },
+        { $unset: { emailChangeCodeHash: 1, emailChangeCodeExpiresAt: 1 } },
+      )
+      .select('+emailChangeCodeHash')
+      .exec();
+  }
+
   async findByRecoveryToken(recoveryToken: string): Promise<User | null> {
     return this.userModel.findOne({ recoveryToken }).exec();
   }
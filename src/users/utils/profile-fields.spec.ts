@@ -0,0 +1,44 @@
+import { pickProfileFields } from './profile-fields';
+
+describe('pickProfileFields', () => {
+  it('keeps the editable profile fields', () => {
+    expect(
+      pickProfileFields({
+        firstName: 'Ana',
+        lastName: 'Ruiz',
+        phone: '+52 55 1234 5678',
+      }),
+    ).toEqual({
+      firstName: 'Ana',
+      lastName: 'Ruiz',
+      phone: '+52 55 1234 5678',
+    });
+  });
+
+  it('drops fields the server controls', () => {
+    expect(
+      pickProfileFields({
+        firstName: 'Ana',
+        twoFactorEnabled: false,
+        role: 'super_admin',
+        status: 'active',
+        emailVerified: true,
+        email: 'other@example.com',
+      }),
+    ).toEqual({ firstName: 'Ana' });
+  });
+
+  it('drops the sign-in methods', () => {
+    expect(
+      pickProfileFields({
+        lastName: 'Ruiz',
+        hasPassword: false,
+        authProviders: [{ provider: 'google', subject: 'attacker' }],
+      }),
+    ).toEqual({ lastName: 'Ruiz' });
+  });
+
+  it('accepts a missing body', () => {
+    expect(pickProfileFields(undefined)).toEqual({});
+  });
+});
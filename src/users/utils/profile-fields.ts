@@ -0,0 +1,26 @@
+// What a user may change on their own profile. Everything else on the user
+// (role, status, email, sign-in and security settings) is set by the server.
+export const PROFILE_FIELDS = [
+  'firstName',
+  'lastName',
+  'phone',
+  'address',
+  'profileImage',
+] as const;
+
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+/**
+ * Keeps only the editable profile fields of a request body
+ */
+export function pickProfileFields(
+  body: Record<string, unknown>,
+): Partial<Record<ProfileField, unknown>> {
+  const profile: Partial<Record<ProfileField, unknown>> = {};
+  for (const field of PROFILE_FIELDS) {
+    if (body && Object.prototype.hasOwnProperty.call(body, field)) {
+      profile[field] = body[field];
+    }
+  }
+  return profile;
+}
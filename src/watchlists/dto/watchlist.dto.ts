@@ -0,0 +1,101 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { MAX_WATCHLIST_SYMBOLS } from '../watchlist.schema';
+
+export class WatchlistItemDto {
+  @ApiProperty({ description: 'Ticker symbol', example: 'AAPL' })
+  @IsString()
+  @IsNotEmpty()
+  symbol: string;
+
+  @ApiPropertyOptional({ description: 'Note on the symbol', maxLength: 1000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class CreateWatchlistDto {
+  @ApiProperty({ description: 'Watchlist name', example: 'Earnings week' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Description', maxLength: 1000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Initial symbols in display order',
+    type: [WatchlistItemDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_WATCHLIST_SYMBOLS)
+  @ValidateNested({ each: true })
+  @Type(() => WatchlistItemDto)
+  items?: WatchlistItemDto[];
+}
+
+export class UpdateWatchlistDto extends PartialType(
+  OmitType(CreateWatchlistDto, ['items'] as const),
+) {}
+
+export class CreateMentorWatchlistDto extends CreateWatchlistDto {
+  @ApiPropertyOptional({
+    description: 'Visible to students',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isPublished?: boolean;
+}
+
+export class UpdateMentorWatchlistDto extends PartialType(
+  OmitType(CreateMentorWatchlistDto, ['items'] as const),
+) {}
+
+export class UpdateWatchlistItemDto extends OmitType(WatchlistItemDto, [
+  'symbol',
+] as const) {}
+
+export class ReorderWatchlistsDto {
+  @ApiProperty({
+    description: 'Watchlist ids in display order',
+    type: [String],
+  })
+  @IsArray()
+  @IsMongoId({ each: true })
+  watchlistIds: string[];
+}
+
+export class ReorderWatchlistItemsDto {
+  @ApiProperty({
+    description: 'Symbols of the list in display order',
+    type: [String],
+    example: ['NVDA', 'AAPL'],
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_WATCHLIST_SYMBOLS)
+  @IsString({ each: true })
+  symbols: string[];
+}
@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type WatchlistDocument = Watchlist & Document;
+
+// A list holds at most this many symbols, matching the quotes endpoint
+export const MAX_WATCHLIST_SYMBOLS = 50;
+
+// Own lists per user; mentor lists are not counted
+export const MAX_WATCHLISTS_PER_USER = 20;
+
+@Schema({ _id: false })
+export class WatchlistItem {
+  @Prop({ required: true, uppercase: true, trim: true })
+  symbol: string;
+
+  @Prop({ maxlength: 1000 })
+  note?: string;
+
+  @Prop({ default: Date.now })
+  addedAt: Date;
+}
+
+export const WatchlistItemSchema = SchemaFactory.createForClass(WatchlistItem);
+
+@Schema({ timestamps: true })
+export class Watchlist {
+  // Owner; for mentor lists the admin who created it
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, maxlength: 100 })
+  name: string;
+
+  @Prop({ maxlength: 1000 })
+  description?: string;
+
+  // Position among the owner's lists (or among mentor lists)
+  @Prop({ default: 0 })
+  order: number;
+
+  // Symbols in display order
+  @Prop({ type: [WatchlistItemSchema], default: [] })
+  items: WatchlistItem[];
+
+  // Mentor lists are managed by admins and followed read-only by students
+  @Prop({ default: false, index: true })
+  isMentorList: boolean;
+
+  @Prop({ default: false })
+  isPublished: boolean;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
+  followers: Types.ObjectId[];
+}
+
+export const WatchlistSchema = SchemaFactory.createForClass(Watchlist);
+
+WatchlistSchema.index({ userId: 1, isMentorList: 1, order: 1 });
+WatchlistSchema.index({ followers: 1 });
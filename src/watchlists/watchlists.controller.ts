@@ -0,0 +1,211 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseBoolPipe,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth-guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { Role } from '../constants';
+import { RequestWithUser } from '../types/request-with-user.interface';
+import { WatchlistsService, WatchlistUser } from './watchlists.service';
+import {
+  CreateMentorWatchlistDto,
+  CreateWatchlistDto,
+  ReorderWatchlistItemsDto,
+  ReorderWatchlistsDto,
+  UpdateMentorWatchlistDto,
+  UpdateWatchlistDto,
+  UpdateWatchlistItemDto,
+  WatchlistItemDto,
+} from './dto/watchlist.dto';
+
+const userOf = (req: RequestWithUser): WatchlistUser => ({
+  userId: req.user._id.toString(),
+  role: req.user.role,
+});
+
+@ApiTags('Watchlists')
+@ApiBearerAuth()
+@Controller('watchlists')
+@UseGuards(JwtAuthGuard)
+export class WatchlistsController {
+  constructor(private readonly watchlistsService: WatchlistsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Own watchlists and followed mentor watchlists with quotes',
+  })
+  @ApiQuery({ name: 'quotes', required: false, type: Boolean })
+  findAll(
+    @Req() req: RequestWithUser,
+    @Query('quotes', new ParseBoolPipe({ optional: true })) quotes?: boolean,
+  ) {
+    return this.watchlistsService.findAll(userOf(req).userId, quotes ?? true);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a watchlist' })
+  create(@Req() req: RequestWithUser, @Body() dto: CreateWatchlistDto) {
+    return this.watchlistsService.create(userOf(req).userId, dto);
+  }
+
+  @Put('reorder')
+  @ApiOperation({ summary: 'Reorder own watchlists' })
+  reorder(@Req() req: RequestWithUser, @Body() dto: ReorderWatchlistsDto) {
+    return this.watchlistsService.reorder(userOf(req).userId, dto.watchlistIds);
+  }
+
+  // Mentor watchlists
+
+  @Get('mentor')
+  @ApiOperation({ summary: 'Published mentor watchlists' })
+  @ApiQuery({ name: 'quotes', required: false, type: Boolean })
+  findMentorLists(
+    @Req() req: RequestWithUser,
+    @Query('quotes', new ParseBoolPipe({ optional: true })) quotes?: boolean,
+  ) {
+    return this.watchlistsService.findMentorLists(userOf(req), quotes);
+  }
+
+  @Post('mentor/:id/follow')
+  @ApiOperation({ summary: 'Follow a mentor watchlist' })
+  follow(@Req() req: RequestWithUser, @Param('id') id: string) {
+    return this.watchlistsService.follow(id, userOf(req).userId);
+  }
+
+  @Delete('mentor/:id/follow')
+  @ApiOperation({ summary: 'Stop following a mentor watchlist' })
+  unfollow(@Req() req: RequestWithUser, @Param('id') id: string) {
+    return this.watchlistsService.unfollow(id, userOf(req).userId);
+  }
+
+  @Post('admin/mentor')
+  @UseGuards(RolesGuard)
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'Create a mentor watchlist (admin)' })
+  createMentorList(
+    @Req() req: RequestWithUser,
+    @Body() dto: CreateMentorWatchlistDto,
+  ) {
+    return this.watchlistsService.createMentorList(userOf(req).userId, dto);
+  }
+
+  @Put('admin/mentor/reorder')
+  @UseGuards(RolesGuard)
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'Reorder mentor watchlists (admin)' })
+  async reorderMentorLists(
+    @Req() req: RequestWithUser,
+    @Body() dto: ReorderWatchlistsDto,
+  ) {
+    await this.watchlistsService.reorderMentorLists(dto.watchlistIds);
+    return this.watchlistsService.findMentorLists(userOf(req));
+  }
+
+  @Put('admin/mentor/:id')
+  @UseGuards(RolesGuard)
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Update or publish a mentor watchlist (admin)',
+  })
+  updateMentorList(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateMentorWatchlistDto,
+  ) {
+    return this.watchlistsService.updateMentorList(id, userOf(req), dto);
+  }
+
+  @Delete('admin/mentor/:id')
+  @UseGuards(RolesGuard)
+  @Roles(Role.SUPER_ADMIN, Role.ADMIN)
+  @ApiOperation({ summary: 'Delete a mentor watchlist (admin)' })
+  removeMentorList(@Param('id') id: string) {
+    return this.watchlistsService.removeMentorList(id);
+  }
+
+  // Single watchlist; symbol routes also let admins edit mentor lists
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a watchlist with quotes' })
+  @ApiQuery({ name: 'quotes', required: false, type: Boolean })
+  findOne(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Query('quotes', new ParseBoolPipe({ optional: true })) quotes?: boolean,
+  ) {
+    return this.watchlistsService.findOne(id, userOf(req), quotes ?? true);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Rename or describe a watchlist' })
+  update(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateWatchlistDto,
+  ) {
+    return this.watchlistsService.update(id, userOf(req), dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a watchlist' })
+  remove(@Req() req: RequestWithUser, @Param('id') id: string) {
+    return this.watchlistsService.remove(id, userOf(req).userId);
+  }
+
+  @Post(':id/symbols')
+  @ApiOperation({ summary: 'Add a symbol to a watchlist' })
+  addItem(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Body() dto: WatchlistItemDto,
+  ) {
+    return this.watchlistsService.addItem(id, userOf(req), dto);
+  }
+
+  @Put(':id/symbols/reorder')
+  @ApiOperation({ summary: 'Reorder the symbols of a watchlist' })
+  reorderItems(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Body() dto: ReorderWatchlistItemsDto,
+  ) {
+    return this.watchlistsService.reorderItems(id, userOf(req), dto.symbols);
+  }
+
+  @Put(':id/symbols/:symbol')
+  @ApiOperation({ summary: 'Update the note of a symbol' })
+  updateItem(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Param('symbol') symbol: string,
+    @Body() dto: UpdateWatchlistItemDto,
+  ) {
+    return this.watchlistsService.updateItem(id, userOf(req), symbol, dto);
+  }
+
+  @Delete(':id/symbols/:symbol')
+  @ApiOperation({ summary: 'Remove a symbol from a watchlist' })
+  removeItem(
+    @Req() req: RequestWithUser,
+    @Param('id') id: string,
+    @Param('symbol') symbol: string,
+  ) {
+    return this.watchlistsService.removeItem(id, userOf(req), symbol);
+  }
+}
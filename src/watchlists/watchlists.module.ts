@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Watchlist, WatchlistSchema } from './watchlist.schema';
+import { WatchlistsController } from './watchlists.controller';
+import { WatchlistsService } from './watchlists.service';
+import { MarketModule } from '../services/market/market.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Watchlist.name, schema: WatchlistSchema },
+    ]),
+    MarketModule,
+  ],
+  controllers: [WatchlistsController],
+  providers: [WatchlistsService],
+  exports: [WatchlistsService],
+})
+export class WatchlistsModule {}
@@ -0,0 +1,419 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Role } from '../constants';
+import { MarketDataService } from '../services/market/market-data.service';
+import { StockQuote } from '../services/finnhub/finnhub.service';
+import { normalizeSymbol } from '../services/finnhub/market-stream.utils';
+import {
+  MAX_WATCHLIST_SYMBOLS,
+  MAX_WATCHLISTS_PER_USER,
+  Watchlist,
+  WatchlistDocument,
+  WatchlistItem,
+} from './watchlist.schema';
+import {
+  CreateMentorWatchlistDto,
+  CreateWatchlistDto,
+  UpdateMentorWatchlistDto,
+  UpdateWatchlistDto,
+  UpdateWatchlistItemDto,
+  WatchlistItemDto,
+} from './dto/watchlist.dto';
+
+export interface WatchlistUser {
+  userId: string;
+  role?: string;
+}
+
+type LeanWatchlist = Watchlist & {
+  _id: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+const isAdmin = (user: WatchlistUser) =>
+  user.role === Role.ADMIN || user.role === Role.SUPER_ADMIN;
+
+@Injectable()
+export class WatchlistsService {
+  private readonly logger = new Logger(WatchlistsService.name);
+
+  constructor(
+    @InjectModel(Watchlist.name)
+    private watchlistModel: Model<WatchlistDocument>,
+    private marketDataService: MarketDataService,
+  ) {}
+
+  /**
+   * The user's own lists plus the mentor lists they follow, with quotes
+   */
+  async findAll(userId: string, withQuotes = true) {
+    const owner = new Types.ObjectId(userId);
+    const [own, following] = await Promise.all([
+      this.watchlistModel
+        .find({ userId: owner, isMentorList: false })
+        .sort({ order: 1, createdAt: 1 })
+        .lean<LeanWatchlist[]>(),
+      this.watchlistModel
+        .find({ isMentorList: true, isPublished: true, followers: owner })
+        .sort({ order: 1, createdAt: 1 })
+        .lean<LeanWatchlist[]>(),
+    ]);
+
+    const quotes = withQuotes
+      ? await this.fetchQuotes([...own, ...following])
+      : null;
+
+    return {
+      watchlists: own.map((list) => this.toView(list, userId, quotes)),
+      following: following.map((list) => this.toView(list, userId, quotes)),
+    };
+  }
+
+  async findOne(id: string, user: WatchlistUser, withQuotes = true) {
+    const list = await this.watchlistModel
+      .findById(this.toId(id))
+      .lean<LeanWatchlist>();
+    const visible =
+      list &&
+      (list.isMentorList
+        ? list.isPublished || isAdmin(user)
+        : list.userId.toString() === user.userId);
+    if (!visible) {
+      throw new NotFoundException('Watchlist not found');
+    }
+
+    const quotes = withQuotes ? await this.fetchQuotes([list]) : null;
+    return this.toView(list, user.userId, quotes);
+  }
+
+  async create(userId: string, dto: CreateWatchlistDto) {
+    const count = await this.watchlistModel.countDocuments({
+      userId: new Types.ObjectId(userId),
+      isMentorList: false,
+    });
+    if (count >= MAX_WATCHLISTS_PER_USER) {
+      throw new BadRequestException(
+        `You can have up to ${MAX_WATCHLISTS_PER_USER} watchlists`,
+      );
+    }
+
+    const list = await this.watchlistModel.create({
+      userId: new Types.ObjectId(userId),
+      name: dto.name,
+      description: dto.description,
+      items: this.toItems(dto.items),
+      order: count,
+    });
+    return this.findOne(list._id.toString(), { userId });
+  }
+
+  async update(id: string, user: WatchlistUser, dto: UpdateWatchlistDto) {
+    const list = await this.findEditable(id, user);
+    if (dto.name !== undefined) list.name = dto.name;
+    if (dto.description !== undefined) list.description = dto.description;
+    await list.save();
+    return this.findOne(id, user);
+  }
+
+  async remove(id: string, userId: string) {
+    const result = await this.watchlistModel.deleteOne({
+      _id: this.toId(id),
+      userId: new Types.ObjectId(userId),
+      isMentorList: false,
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Watchlist not found');
+    }
+    return { message: 'Watchlist deleted' };
+  }
+
+  async reorder(userId: string, watchlistIds: string[]) {
+    await this.watchlistModel.bulkWrite(
+      watchlistIds.map((id, index) => ({
+        updateOne: {
+          filter: {
+            _id: this.toId(id),
+            userId: new Types.ObjectId(userId),
+            isMentorList: false,
+          },
+          update: { order: index },
+        },
+      })),
+    );
+    return this.findAll(userId, false);
+  }
+
+  async addItem(id: string, user: WatchlistUser, dto: WatchlistItemDto) {
+    const list = await this.findEditable(id, user);
+    const [item] = this.toItems([dto]);
+
+    if (list.items.some((existing) => existing.symbol === item.symbol)) {
+      throw new ConflictException(`${item.symbol} is already in the watchlist`);
+    }
+    if (list.items.length >= MAX_WATCHLIST_SYMBOLS) {
+      throw new BadRequestException(
+        `A watchlist can hold up to ${MAX_WATCHLIST_SYMBOLS} symbols`,
+      );
+    }
+
+    list.items.push(item);
+    await list.save();
+    return this.findOne(id, user);
+  }
+
+  async updateItem(
+    id: string,
+    user: WatchlistUser,
+    symbol: string,
+    dto: UpdateWatchlistItemDto,
+  ) {
+    const list = await this.findEditable(id, user);
+    const item = list.items.find(
+      (existing) => existing.symbol === this.toSymbol(symbol),
+    );
+    if (!item) {
+      throw new NotFoundException(`${symbol} is not in the watchlist`);
+    }
+
+    item.note = dto.note;
+    list.markModified('items');
+    await list.save();
+    return this.findOne(id, user);
+  }
+
+  async removeItem(id: string, user: WatchlistUser, symbol: string) {
+    const list = await this.findEditable(id, user);
+    const upper = this.toSymbol(symbol);
+    const items = list.items.filter((item) => item.symbol !== upper);
+    if (items.length === list.items.length) {
+      throw new NotFoundException(`${symbol} is not in the watchlist`);
+    }
+
+    list.set('items', items);
+    await list.save();
+    return this.findOne(id, user);
+  }
+
+  /**
+   * Reorder the symbols of a list; every symbol must be listed exactly once
+   */
+  async reorderItems(id: string, user: WatchlistUser, symbols: string[]) {
+    const list = await this.findEditable(id, user);
+    const order = symbols.map((symbol) => this.toSymbol(symbol));
+    const bySymbol = new Map(list.items.map((item) => [item.symbol, item]));
+
+    if (
+      new Set(order).size !== order.length ||
+      order.length !== bySymbol.size ||
+      order.some((symbol) => !bySymbol.has(symbol))
+    ) {
+      throw new BadRequestException(
+        'symbols must list every symbol of the watchlist once',
+      );
+    }
+
+    list.set(
+      'items',
+      order.map((symbol) => bySymbol.get(symbol)),
+    );
+    await list.save();
+    return this.findOne(id, user);
+  }
+
+  /**
+   * Mentor lists visible to students, flagged with whether the user follows
+   * them. Admins also see unpublished lists.
+   */
+  async findMentorLists(user: WatchlistUser, withQuotes = false) {
+    const lists = await this.watchlistModel
+      .find({
+        isMentorList: true,
+        ...(isAdmin(user) ? {} : { isPublished: true }),
+      })
+      .sort({ order: 1, createdAt: 1 })
+      .lean<LeanWatchlist[]>();
+
+    const quotes = withQuotes ? await this.fetchQuotes(lists) : null;
+    return lists.map((list) => this.toView(list, user.userId, quotes));
+  }
+
+  async follow(id: string, userId: string) {
+    const result = await this.watchlistModel.updateOne(
+      { _id: this.toId(id), isMentorList: true, isPublished: true },
+      { $addToSet: { followers: new Types.ObjectId(userId) } },
+    );
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('Mentor watchlist not found');
+    }
+    return { message: 'Watchlist followed' };
+  }
+
+  async unfollow(id: string, userId: string) {
+    await this.watchlistModel.updateOne(
+      { _id: this.toId(id), isMentorList: true },
+      { $pull: { followers: new Types.ObjectId(userId) } },
+    );
+    return { message: 'Watchlist unfollowed' };
+  }
+
+  async createMentorList(adminId: string, dto: CreateMentorWatchlistDto) {
+    const count = await this.watchlistModel.countDocuments({
+      isMentorList: true,
+    });
+    const list = await this.watchlistModel.create({
+      userId: new Types.ObjectId(adminId),
+      name: dto.name,
+      description: dto.description,
+      items: this.toItems(dto.items),
+      isMentorList: true,
+      isPublished: dto.isPublished ?? false,
+      order: count,
+    });
+    return this.findOne(list._id.toString(), {
+      userId: adminId,
+      role: Role.ADMIN,
+    });
+  }
+
+  async updateMentorList(
+    id: string,
+    user: WatchlistUser,
+    dto: UpdateMentorWatchlistDto,
+  ) {
+    const list = await this.findEditable(id, user);
+    if (!list.isMentorList) {
+      throw new NotFoundException('Mentor watchlist not found');
+    }
+    if (dto.name !== undefined) list.name = dto.name;
+    if (dto.description !== undefined) list.description = dto.description;
+    if (dto.isPublished !== undefined) list.isPublished = dto.isPublished;
+    await list.save();
+    return this.findOne(id, user);
+  }
+
+  async removeMentorList(id: string) {
+    const result = await this.watchlistModel.deleteOne({
+      _id: this.toId(id),
+      isMentorList: true,
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Mentor watchlist not found');
+    }
+    return { message: 'Mentor watchlist deleted' };
+  }
+
+  async reorderMentorLists(watchlistIds: string[]) {
+    await this.watchlistModel.bulkWrite(
+      watchlistIds.map((id, index) => ({
+        updateOne: {
+          filter: { _id: this.toId(id), isMentorList: true },
+          update: { order: index },
+        },
+      })),
+    );
+  }
+
+  /**
+   * A list the user may change: their own, or any mentor list for admins.
+   * Students following a mentor list get a read-only error.
+   */
+  private async findEditable(
+    id: string,
+    user: WatchlistUser,
+  ): Promise<WatchlistDocument> {
+    const list = await this.watchlistModel.findById(this.toId(id));
+    if (!list) {
+      throw new NotFoundException('Watchlist not found');
+    }
+
+    if (list.isMentorList) {
+      if (!isAdmin(user)) {
+        throw new ForbiddenException('Mentor watchlists are read-only');
+      }
+      return list;
+    }
+
+    if (list.userId.toString() !== user.userId) {
+      throw new NotFoundException('Watchlist not found');
+    }
+    return list;
+  }
+
+  private toId(id: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Watchlist not found');
+    }
+    return new Types.ObjectId(id);
+  }
+
+  private toSymbol(value: string): string {
+    const symbol = normalizeSymbol(value);
+    if (!symbol) {
+      throw new BadRequestException(`Invalid symbol: ${value}`);
+    }
+    return symbol;
+  }
+
+  private toItems(items: WatchlistItemDto[] = []): WatchlistItem[] {
+    const seen = new Set<string>();
+    const result: WatchlistItem[] = [];
+    for (const item of items) {
+      const symbol = this.toSymbol(item.symbol);
+      if (seen.has(symbol)) continue;
+      seen.add(symbol);
+      result.push({ symbol, note: item.note, addedAt: new Date() });
+    }
+    return result;
+  }
+
+  /**
+   * One quotes call for every symbol of the lists, served from the market
+   * data cache and rate limiter
+   */
+  private async fetchQuotes(
+    lists: LeanWatchlist[],
+  ): Promise<Record<string, StockQuote>> {
+    const symbols = [
+      ...new Set(lists.flatMap((list) => list.items.map((i) => i.symbol))),
+    ];
+    if (symbols.length === 0) {
+      return {};
+    }
+
+    try {
+      return await this.marketDataService.getMultipleQuotes(symbols);
+    } catch (error) {
+      this.logger.warn(`Could not load watchlist quotes: ${error.message}`);
+      return {};
+    }
+  }
+
+  private toView(
+    list: LeanWatchlist,
+    userId: string,
+    quotes: Record<string, StockQuote> | null,
+  ) {
+    const { followers = [], ...rest } = list;
+    return {
+      ...rest,
+      items: list.items.map((item) =>
+        quotes ? { ...item, quote: quotes[item.symbol] || null } : item,
+      ),
+      ...(list.isMentorList
+        ? {
+            followerCount: followers.length,
+            following: followers.some((id) => id.toString() === userId),
+          }
+        : {}),
+    };
+  }
+}